@@ -0,0 +1,13 @@
+#!/usr/bin/env node
+
+// Runs the TypeScript CLI through tsx's loader, so it always matches the app's sources
+import { spawnSync } from 'node:child_process';
+import { fileURLToPath } from 'node:url';
+
+const entry = fileURLToPath(new URL('../src/cli/openloveimage.ts', import.meta.url));
+const { status } = spawnSync(
+  process.execPath,
+  ['--import', import.meta.resolve('tsx'), entry, ...process.argv.slice(2)],
+  { stdio: 'inherit' }
+);
+process.exit(status ?? 1);
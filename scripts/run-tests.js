@@ -0,0 +1,19 @@
+#!/usr/bin/env node
+
+const { spawnSync } = require('child_process');
+const fg = require('fast-glob');
+
+// Unit tests sit next to the modules they cover as *.test.ts and run on
+// Node's built-in test runner through tsx. Extra arguments (files or
+// node --test flags) are passed through.
+const args = process.argv.slice(2);
+const files = args.some(arg => !arg.startsWith('-'))
+  ? []
+  : fg.sync('src/**/*.test.ts', { onlyFiles: true }).sort();
+
+const { status } = spawnSync(
+  process.execPath,
+  ['--import', 'tsx', '--test', ...args, ...files],
+  { stdio: 'inherit' }
+);
+process.exit(status ?? 1);
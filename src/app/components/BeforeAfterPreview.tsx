@@ -24,9 +24,45 @@ import {
   ZoomIn,
   ZoomOut,
   CenterFocusStrong,
+  Difference,
+  Insights,
 } from '@mui/icons-material';
 import { saveAs } from 'file-saver';
 import { heicTo, isHeic } from 'heic-to';
+import { ImageMetrics, ImageQualityMetrics } from '../utils/imageMetrics';
+
+type ViewMode = 'comparison' | 'sideBySide' | 'difference';
+
+// Metrics run on the main thread, so large images are compared at a reduced size
+const MAX_METRICS_PIXELS = 1_000_000;
+
+// Draws an image at the given size over white, so transparent areas compare equally
+async function loadPixels(url: string, width: number, height: number): Promise<ImageData> {
+  const image = new Image();
+  image.src = url;
+  await image.decode();
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(image, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height);
+}
+
+async function imageDataToUrl(imageData: ImageData): Promise<string> {
+  const canvas = document.createElement('canvas');
+  canvas.width = imageData.width;
+  canvas.height = imageData.height;
+  canvas.getContext('2d')!.putImageData(imageData, 0, 0);
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) {
+    throw new Error('Failed to encode heatmap');
+  }
+  return URL.createObjectURL(blob);
+}
 
 interface BeforeAfterPreviewProps {
   originalFile: File;
@@ -58,7 +94,10 @@ const BeforeAfterPreview = ({
     width: number;
     height: number;
   } | null>(null);
-  const [viewMode, setViewMode] = useState<'comparison' | 'sideBySide'>('comparison');
+  const [viewMode, setViewMode] = useState<ViewMode>('comparison');
+  const [metrics, setMetrics] = useState<Omit<ImageQualityMetrics, 'heatmap'> | null>(null);
+  const [metricsError, setMetricsError] = useState('');
+  const [heatmapUrl, setHeatmapUrl] = useState('');
   const [isDragging, setIsDragging] = useState(false);
   const [zoomLevel, setZoomLevel] = useState(1);
   const [panPosition, setPanPosition] = useState({ x: 0, y: 0 });
@@ -143,6 +182,62 @@ const BeforeAfterPreview = ({
     }
   }, [open, originalFile, convertedFile]);
 
+  // Quality metrics between the original, scaled to the output size, and the converted image
+  useEffect(() => {
+    if (!open || !imageInfo || !originalImageUrl || !convertedImageUrl) return;
+
+    let cancelled = false;
+    let url = '';
+    setMetrics(null);
+    setMetricsError('');
+    setHeatmapUrl('');
+
+    const computeMetrics = async () => {
+      try {
+        const original = new Image();
+        original.src = originalImageUrl;
+        await original.decode();
+
+        // Crops change the framing, pixel metrics would only measure the misalignment
+        const originalAspect = original.naturalWidth / original.naturalHeight;
+        const convertedAspect = imageInfo.width / imageInfo.height;
+        if (Math.abs(originalAspect / convertedAspect - 1) > 0.01) {
+          setMetricsError('Not available for cropped images');
+          return;
+        }
+
+        const scale = Math.min(1, Math.sqrt(MAX_METRICS_PIXELS / (imageInfo.width * imageInfo.height)));
+        const width = Math.max(1, Math.round(imageInfo.width * scale));
+        const height = Math.max(1, Math.round(imageInfo.height * scale));
+        const [originalPixels, convertedPixels] = await Promise.all([
+          loadPixels(originalImageUrl, width, height),
+          loadPixels(convertedImageUrl, width, height),
+        ]);
+        if (cancelled) return;
+
+        const { heatmap, ...scores } = ImageMetrics.compare(originalPixels, convertedPixels);
+        url = await imageDataToUrl(heatmap);
+        if (cancelled) {
+          URL.revokeObjectURL(url);
+          return;
+        }
+        setMetrics(scores);
+        setHeatmapUrl(url);
+      } catch (error) {
+        console.error('Quality metrics failed:', error);
+        if (!cancelled) setMetricsError('Could not compare the images');
+      }
+    };
+
+    // Let the dialog paint its loading state before the (blocking) comparison starts
+    const timer = setTimeout(computeMetrics, 50);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [open, imageInfo, originalImageUrl, convertedImageUrl]);
+
   // Handle mouse events for slider
   const handleMouseDown = useCallback((e: React.MouseEvent) => {
     setIsDragging(true);
@@ -396,6 +491,20 @@ const BeforeAfterPreview = ({
           >
             <SwapHoriz />
           </IconButton>
+          <IconButton 
+            onClick={() => setViewMode(viewMode === 'difference' ? 'comparison' : 'difference')}
+            color="primary"
+            disabled={!heatmapUrl}
+            title={viewMode === 'difference' ? 'Switch to Comparison' : 'Show Difference Heatmap'}
+            sx={{
+              bgcolor: viewMode === 'difference' ? 'action.selected' : 'action.hover',
+              '&:hover': {
+                bgcolor: 'action.selected',
+              }
+            }}
+          >
+            <Difference />
+          </IconButton>
           <IconButton 
             onClick={handleDownload} 
             color="primary"
@@ -669,6 +778,62 @@ const BeforeAfterPreview = ({
                     }}
                   />
                 </Box>
+              ) : viewMode === 'difference' ? (
+                // Difference Heatmap View
+                <Box
+                  ref={containerRef}
+                  onMouseDown={zoomLevel > 1 ? handlePanStart : undefined}
+                  sx={{
+                    position: 'relative',
+                    height: { xs: 450, md: 650 },
+                    cursor: zoomLevel > 1 ? (isPanning ? 'grabbing' : 'grab') : 'default',
+                    overflow: 'hidden',
+                  }}
+                >
+                  <Box
+                    component="img"
+                    src={heatmapUrl}
+                    alt="Difference heatmap"
+                    sx={{
+                      width: '100%',
+                      height: '100%',
+                      objectFit: 'contain',
+                      imageRendering: zoomLevel > 2 ? 'pixelated' : 'auto',
+                      transform: `scale(${zoomLevel}) translate(${panPosition.x / zoomLevel}px, ${panPosition.y / zoomLevel}px)`,
+                      transformOrigin: 'center center',
+                      transition: 'transform 0.1s ease-out',
+                    }}
+                  />
+                  <Box
+                    sx={{
+                      position: 'absolute',
+                      top: 20,
+                      left: 20,
+                      bgcolor: 'rgba(0,0,0,0.8)',
+                      color: 'white',
+                      px: 1.5,
+                      py: 1,
+                      borderRadius: 2,
+                      zIndex: 10,
+                    }}
+                  >
+                    <Typography variant="caption" sx={{ fontWeight: 600, display: 'block', mb: 0.5 }}>
+                      Perceptual difference
+                    </Typography>
+                    <Box sx={{
+                      width: 160,
+                      height: 8,
+                      borderRadius: 1,
+                      background: 'linear-gradient(to right, #000, rgb(0,64,255) 17%, rgb(0,200,80) 33%, rgb(255,220,0) 67%, rgb(255,0,0))',
+                    }} />
+                    <Box sx={{ display: 'flex', justifyContent: 'space-between', fontSize: '0.65rem', mt: 0.5 }}>
+                      <span>0</span>
+                      <span>1</span>
+                      <span>2</span>
+                      <span>3+</span>
+                    </Box>
+                  </Box>
+                </Box>
               ) : (
                 // Side by Side View
                 <Box 
@@ -961,7 +1126,7 @@ const BeforeAfterPreview = ({
                     Image Details
                   </Typography>
                 </Box>
-                {viewMode === 'sideBySide' && zoomLevel !== 1 && (
+                {viewMode !== 'comparison' && zoomLevel !== 1 && (
                   <Chip
                     label={`Zoom: ${Math.round(zoomLevel * 100)}%`}
                     size="small"
@@ -1029,6 +1194,67 @@ const BeforeAfterPreview = ({
                   )}
                 </Box>
 
+                {/* Quality Metrics */}
+                <Box sx={{ 
+                  p: 3, 
+                  bgcolor: 'background.default', 
+                  borderRadius: 3,
+                  border: `1px solid ${theme.palette.divider}`,
+                }}>
+                  <Box sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
+                    <Insights sx={{ mr: 1, color: 'primary.main' }} />
+                    <Typography variant="subtitle1" sx={{ fontWeight: 600 }}>
+                      Quality Metrics
+                    </Typography>
+                  </Box>
+
+                  {metrics ? (
+                    <Box sx={{ 
+                      display: 'grid', 
+                      gridTemplateColumns: { xs: 'repeat(2, 1fr)', md: 'repeat(4, 1fr)' },
+                      gap: 3,
+                    }}>
+                      {[
+                        {
+                          label: 'PSNR',
+                          value: Number.isFinite(metrics.psnr) ? `${metrics.psnr.toFixed(2)} dB` : 'Identical',
+                          hint: 'Higher is better, 40+ dB is hard to tell apart',
+                        },
+                        { label: 'SSIM', value: metrics.ssim.toFixed(4), hint: '1 = identical structure' },
+                        { label: 'MS-SSIM', value: metrics.msSsim.toFixed(4), hint: 'SSIM across five scales' },
+                        {
+                          label: 'Distance',
+                          value: `${metrics.distance.toFixed(2)} (p3 ${metrics.distancePNorm.toFixed(2)})`,
+                          hint: 'Max perceptual distance, approximating Butteraugli; below 1 is usually invisible',
+                        },
+                      ].map(metric => (
+                        <Box key={metric.label} sx={{ textAlign: 'center' }} title={metric.hint}>
+                          <Typography variant="caption" color="text.secondary" sx={{ fontWeight: 500 }}>
+                            {metric.label}
+                          </Typography>
+                          <Typography variant="body1" sx={{ fontWeight: 600, mt: 0.5 }}>
+                            {metric.value}
+                          </Typography>
+                          <Typography variant="caption" color="text.disabled">
+                            {metric.hint}
+                          </Typography>
+                        </Box>
+                      ))}
+                    </Box>
+                  ) : metricsError ? (
+                    <Typography variant="body2" color="text.secondary">
+                      {metricsError}
+                    </Typography>
+                  ) : (
+                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5 }}>
+                      <CircularProgress size={18} />
+                      <Typography variant="body2" color="text.secondary">
+                        Comparing pixels…
+                      </Typography>
+                    </Box>
+                  )}
+                </Box>
+
                 {/* Format Info */}
                 <Box sx={{ 
                   p: 3, 
@@ -19,17 +19,39 @@ import {
   Chip,
   Alert,
 } from '@mui/material';
-import { Settings, Tune, Crop } from '@mui/icons-material';
+import { Settings, Tune, Crop, Collections } from '@mui/icons-material';
 import { ImageConverter } from '../utils/imageConverter';
+import PresetManager from './PresetManager';
+import { ConversionRecipe, ConversionRecipes, DEFAULT_RECIPE } from '../utils/conversionRecipe';
+import { DEFAULT_FILE_NAME_TEMPLATE, FileNameTemplate } from '../utils/fileNameTemplate';
+import { ImageGeometry } from '../utils/imageGeometry';
+import { TargetFileSize } from '../utils/targetFileSize';
+import { TiffCompression } from '../utils/tiffCompression';
+import { MozJpegEncoder } from '../utils/mozjpegEncoder';
+import type { TiffPyramid } from '../utils/tiffWriter';
+import { AutoQuality, AutoQualityTarget, QUALITY_METRICS } from '../utils/autoQuality';
+import type { QualityMetric } from '../utils/imageMetrics';
+import type { OutputColorProfile, RenderingIntent } from '../utils/colorManagement';
 
 export interface ConversionSettings {
   outputFormat: string;
   quality: number;
+  targetSizeKB?: number; // Largest output size, searches quality below the setting (JPEG, WebP, AVIF), 0 = off
+  targetSizeAllowResize?: boolean; // Also shrink the dimensions when the lowest quality is still too large
+  autoQuality?: Partial<Record<string, AutoQualityTarget>>; // Per output format, searches the lowest quality reaching a perceptual score
   maxWidth?: number;
   maxHeight?: number;
   maintainAspectRatio: boolean;
+  resampling?: 'nearest' | 'bilinear' | 'bicubic' | 'mitchell' | 'lanczos2' | 'lanczos3' | 'box'; // Filter used when resizing; unset is Lanczos3 off the main thread and the browser's scaler on it
+  sharpenAmount?: number; // Unsharp mask strength applied after resizing (%), 0 = off
+  sharpenRadius?: number; // Unsharp mask radius (px)
+  sharpenThreshold?: number; // Minimum luminance difference to sharpen (0-255)
+  recipe?: ConversionRecipe; // Multi-output renditions (widths × formats) for every input
+  fileNameTemplate?: string; // Output file name, e.g. {name}_{width}x{height}.{ext}
   removeMetadata: boolean;
   compressionLevel: number;
+  colorProfile?: OutputColorProfile; // 'srgb' | 'display-p3' | 'adobe-rgb' | 'preserve' (embedded in the output)
+  renderingIntent?: RenderingIntent; // How colors outside the target gamut are mapped
   
   // Crop settings
   enableCrop?: boolean;
@@ -37,18 +59,53 @@ export interface ConversionSettings {
   cropMode?: 'center' | 'smart'; // How to position the crop
   cropSizeMode?: 'fit' | 'fill' | 'extend'; // How to size the crop relative to image
   
+  // Animation settings (GIF, APNG and WebP input)
+  preserveAnimation?: boolean; // Keep all frames when the output is GIF, PNG or WebP
+  extractFrames?: boolean; // Export every frame as a separate image in a ZIP
+  extractPages?: boolean; // Export every page of multi-page TIFF input as a separate image in a ZIP
+  
   // Format-specific settings
   // JPEG specific
   progressive?: boolean;
   optimizeHuffman?: boolean;
+  jpegChromaSubsampling?: '420' | '422' | '444';
   
   // PNG specific
   bitDepth?: number;
-  colorType?: string;
+  colorType?: 'gray' | 'gray-alpha' | 'rgb' | 'rgba' | 'palette';
+  pngDithering?: boolean; // Palette and low bit-depth grayscale output
   
   // WebP specific
   lossless?: boolean;
   method?: number;
+  webpNearLossless?: number; // 0-100, 100 = off (lossless only)
+  webpAlphaQuality?: number; // 0-100
+  webpSharpYuv?: boolean;
+  webpTargetSizeKB?: number; // 0 = off (lossy only)
+  
+  // GIF specific
+  gifMaxColors?: number; // 2-256
+  gifPaletteMode?: 'global' | 'local'; // One palette for all frames or one per frame
+  gifQuantization?: 'median-cut' | 'octree' | 'kmeans';
+  gifDithering?: 'none' | 'floyd-steinberg' | 'ordered';
+  gifTransparencyThreshold?: number; // 0-255, alpha below becomes transparent (0 = none)
+  gifFrameDelay?: number; // Milliseconds, 0 = keep source timing
+  
+  // HEIC specific
+  heicChromaSubsampling?: '420' | '422' | '444';
+  heicPreserveAlpha?: boolean;
+  
+  // AVIF specific
+  avifSpeed?: number; // 0 (slowest, smallest) - 10 (fastest)
+  avifChromaSubsampling?: '420' | '422' | '444';
+  avifBitDepth?: 8 | 10 | 12;
+  avifLossless?: boolean;
+  
+  // JPEG XL specific
+  jxlEffort?: number; // 1 (fastest) - 9 (slowest, smallest)
+  jxlDistance?: number; // Butteraugli distance, overrides quality when set (0 = lossless)
+  jxlProgressive?: boolean;
+  jxlLossless?: boolean;
   
   // ICO specific
   icoSizes?: number[];
@@ -64,7 +121,7 @@ export interface ConversionSettings {
   
   // TIFF specific
   tiffCompression?: string; // 'none' | 'lzw' | 'packbits' | 'deflate' | 'jpeg'
-  tiffBitDepth?: number; // 1, 8, 16, 32
+  tiffBitDepth?: number; // 1, 8, 16, 32 (float)
   tiffColorModel?: string; // 'rgb' | 'rgba' | 'grayscale' | 'cmyk'
   tiffPredictor?: number; // 1 (none), 2 (horizontal differencing), 3 (floating point)
   tiffTileSize?: number; // For tiled TIFF, 0 = strips
@@ -75,6 +132,9 @@ export interface ConversionSettings {
   tiffPhotometric?: string; // 'rgb' | 'palette' | 'mask' | 'separated'
   tiffPlanarConfig?: string; // 'chunky' | 'planar'
   tiffRowsPerStrip?: number; // Number of rows per strip (for strip-based TIFF)
+  tiffBigTiff?: boolean; // Always write BigTIFF (64-bit offsets), otherwise only above 4 GB
+  tiffPyramid?: TiffPyramid; // Reduced-resolution overviews: 'none' | 'cog' (following IFDs) | 'subifd'
+  tiffMultiPage?: boolean; // Combine all selected images into one multi-page TIFF
   
   // PDF specific
   pageSize?: string;
@@ -96,22 +156,26 @@ export interface ConversionSettings {
   userPassword?: string;
 }
 
+export const OUTPUT_FORMATS = [
+  { value: 'jpeg', label: 'JPEG', description: 'Best for photos and realistic images' },
+  { value: 'png', label: 'PNG', description: 'Lossless with transparency support' },
+  { value: 'webp', label: 'WebP', description: 'Modern format, excellent compression' },
+  { value: 'avif', label: 'AVIF', description: 'Next-gen format, smallest files for the web' },
+  { value: 'jxl', label: 'JPEG XL', description: 'Next-gen format, efficient lossy and lossless' },
+  { value: 'gif', label: 'GIF', description: 'Animations and simple graphics, 256 colors' },
+  { value: 'tiff', label: 'TIFF', description: 'Professional format with advanced compression' },
+  { value: 'svg', label: 'SVG', description: 'True vector format, infinite scalability' },
+  { value: 'pdf', label: 'PDF', description: 'Professional document format, printable' },
+  { value: 'heic', label: 'HEIC', description: 'Apple format, efficient compression' },
+  { value: 'ico', label: 'ICO', description: 'Windows icon format' },
+];
+
 interface ConversionOptionsProps {
   settings: ConversionSettings;
   onSettingsChange: (settings: ConversionSettings) => void;
 }
 
 const ConversionOptions = ({ settings, onSettingsChange }: ConversionOptionsProps) => {
-  const outputFormats = [
-    { value: 'jpeg', label: 'JPEG', description: 'Best for photos and realistic images' },
-    { value: 'png', label: 'PNG', description: 'Lossless with transparency support' },
-    { value: 'webp', label: 'WebP', description: 'Modern format, excellent compression' },
-    { value: 'tiff', label: 'TIFF', description: 'Professional format with advanced compression' },
-    { value: 'svg', label: 'SVG', description: 'True vector format, infinite scalability' },
-    { value: 'pdf', label: 'PDF', description: 'Professional document format, printable' },
-    { value: 'heic', label: 'HEIC', description: 'Apple format, efficient compression' },
-    { value: 'ico', label: 'ICO', description: 'Windows icon format' },
-  ];
 
   // Get format-specific options visibility
   const isJpeg = settings.outputFormat === 'jpeg';
@@ -121,7 +185,17 @@ const ConversionOptions = ({ settings, onSettingsChange }: ConversionOptionsProp
   const isSvg = settings.outputFormat === 'svg';
   const isPdf = settings.outputFormat === 'pdf';
   const isIco = settings.outputFormat === 'ico';
-  const supportsQuality = isJpeg || isWebp || isTiff || isPdf || (!isSvg && !isPng && !isIco);
+  const isHeic = settings.outputFormat === 'heic';
+  const isAvif = settings.outputFormat === 'avif';
+  const isJxl = settings.outputFormat === 'jxl';
+  const isGif = settings.outputFormat === 'gif';
+  const isPngLowDepthType = settings.colorType === 'palette' || settings.colorType === 'gray';
+  const usesJxlDistance = isJxl && settings.jxlDistance !== undefined;
+  const supportsQuality = isJpeg || isWebp || isTiff || isPdf || (!isSvg && !isPng && !isIco && !isGif && !usesJxlDistance);
+  const forcesOptimizedHuffman = isJpeg && MozJpegEncoder.forcesOptimizedHuffman({
+    progressive: settings.progressive,
+    chromaSubsampling: settings.jpegChromaSubsampling,
+  });
 
   // Common slider styling to prevent label cutoff
   const sliderStyles = {
@@ -149,6 +223,56 @@ const ConversionOptions = ({ settings, onSettingsChange }: ConversionOptionsProp
     });
   };
 
+  // Recipe helpers; the width list is edited as text and parsed when it loses focus
+  const recipe = settings.recipe || DEFAULT_RECIPE;
+  const [recipeWidthsText, setRecipeWidthsText] = useState(recipe.widths.join(', '));
+
+  useEffect(() => {
+    setRecipeWidthsText(recipe.widths.join(', '));
+  }, [recipe.widths]);
+
+  const handleRecipeChange = (updates: Partial<ConversionRecipe>) => {
+    onSettingsChange({
+      ...settings,
+      recipe: { ...recipe, ...updates },
+    });
+  };
+
+  const toggleRecipeFormat = (format: string) => {
+    handleRecipeChange({
+      formats: recipe.formats.includes(format)
+        ? recipe.formats.filter(item => item !== format)
+        : [...recipe.formats, format],
+    });
+  };
+
+  // Auto-quality targets are kept per output format
+  const autoQuality: AutoQualityTarget = AutoQuality.readTarget(settings) ||
+    { enabled: false, metric: 'ssim', target: QUALITY_METRICS[0].defaultTarget };
+  const autoQualityMetric = QUALITY_METRICS.find(option => option.value === autoQuality.metric)!;
+
+  const handleAutoQualityChange = (updates: Partial<AutoQualityTarget>) => {
+    onSettingsChange({
+      ...settings,
+      autoQuality: { ...settings.autoQuality, [settings.outputFormat]: { ...autoQuality, ...updates } },
+    });
+  };
+
+  // Live preview of the file name template for a sample 4000×3000 camera JPEG
+  const sampleGeometry = ImageGeometry.calculateOutputGeometry(4000, 3000, settings);
+  const fileNamePreview = FileNameTemplate.render(settings.fileNameTemplate || DEFAULT_FILE_NAME_TEMPLATE, {
+    originalName: 'IMG_2041.jpg',
+    extension: settings.outputFormat === 'jpeg' ? 'jpg' : settings.outputFormat,
+    format: settings.outputFormat,
+    width: sampleGeometry.width,
+    height: sampleGeometry.height,
+    quality: settings.quality,
+    index: 1,
+    date: new Date(),
+    exif: { Make: 'Canon', Model: 'EOS R6', LensModel: 'RF24-105mm F4 L IS USM', DateTimeOriginal: new Date() },
+    hash: '3f9a2c71d0e4b8a5c6e1',
+  });
+
   // Add state for predicted size
   const [predictedSize, setPredictedSize] = useState<number>(0);
 
@@ -170,6 +294,9 @@ const ConversionOptions = ({ settings, onSettingsChange }: ConversionOptionsProp
         </Box>
 
         <Stack spacing={3}>
+          {/* Presets */}
+          <PresetManager settings={settings} onSettingsChange={onSettingsChange} />
+
           {/* Output Format and Quality Row */}
           <Box sx={{ 
             display: 'flex', 
@@ -185,7 +312,7 @@ const ConversionOptions = ({ settings, onSettingsChange }: ConversionOptionsProp
                   label="Output Format"
                   onChange={(e) => handleChange('outputFormat', e.target.value)}
                 >
-                  {outputFormats.map((format) => (
+                  {OUTPUT_FORMATS.map((format) => (
                     <MenuItem key={format.value} value={format.value}>
                       <Box>
                         <Typography variant="body1">{format.label}</Typography>
@@ -261,7 +388,7 @@ const ConversionOptions = ({ settings, onSettingsChange }: ConversionOptionsProp
                       { value: 0, label: 'None' },
                       { value: 3, label: 'Fast' },
                       { value: 6, label: 'Default' },
-                      { value: 9, label: 'Max' },
+                      { value: 9, label: 'Zopfli' },
                     ]}
                     sx={sliderStyles}
                   />
@@ -270,6 +397,89 @@ const ConversionOptions = ({ settings, onSettingsChange }: ConversionOptionsProp
             )}
           </Box>
 
+          {/* Target File Size (searches quality, optionally dimensions) */}
+          {TargetFileSize.supports(settings) && (
+            <Box sx={{ 
+              display: 'flex', 
+              flexDirection: { xs: 'column', md: 'row' }, 
+              alignItems: { md: 'center' },
+              gap: 3 
+            }}>
+              <TextField
+                sx={{ flex: 1 }}
+                label="Target File Size (KB)"
+                type="number"
+                value={settings.targetSizeKB || ''}
+                onChange={(e) => handleChange('targetSizeKB', Math.max(0, Number(e.target.value)))}
+                helperText="Picks the highest quality up to the setting above that fits; leave empty to disable"
+              />
+              <FormControlLabel
+                sx={{ flex: 1 }}
+                control={
+                  <Switch
+                    checked={settings.targetSizeAllowResize || false}
+                    onChange={(e) => handleChange('targetSizeAllowResize', e.target.checked)}
+                    disabled={!settings.targetSizeKB}
+                  />
+                }
+                label="Also reduce dimensions when the lowest quality is still too large"
+              />
+            </Box>
+          )}
+
+          {/* Auto Quality (searches the lowest quality reaching a perceptual score) */}
+          {AutoQuality.supports(settings) && (
+            <Box sx={{ 
+              display: 'flex', 
+              flexDirection: { xs: 'column', md: 'row' }, 
+              alignItems: { md: 'center' },
+              gap: 3 
+            }}>
+              <FormControlLabel
+                sx={{ flex: 1 }}
+                control={
+                  <Switch
+                    checked={autoQuality.enabled}
+                    onChange={(e) => handleAutoQualityChange({ enabled: e.target.checked })}
+                  />
+                }
+                label={`Auto quality for ${settings.outputFormat.toUpperCase()}`}
+              />
+              <FormControl sx={{ flex: 1 }} disabled={!autoQuality.enabled}>
+                <InputLabel>Metric</InputLabel>
+                <Select
+                  value={autoQuality.metric}
+                  label="Metric"
+                  onChange={(e) => {
+                    const metric = e.target.value as QualityMetric;
+                    handleAutoQualityChange({
+                      metric,
+                      target: QUALITY_METRICS.find(option => option.value === metric)!.defaultTarget,
+                    });
+                  }}
+                >
+                  {QUALITY_METRICS.map((metric) => (
+                    <MenuItem key={metric.value} value={metric.value}>
+                      {metric.label}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              <TextField
+                sx={{ flex: 1 }}
+                label="Target Score"
+                type="number"
+                disabled={!autoQuality.enabled}
+                value={autoQuality.target}
+                onChange={(e) => handleAutoQualityChange({ target: Number(e.target.value) })}
+                inputProps={{ step: autoQualityMetric.step }}
+                helperText={settings.targetSizeKB
+                  ? 'Ignored while a target file size is set'
+                  : 'Picks the lowest quality that reaches the score'}
+              />
+            </Box>
+          )}
+
           {/* Format-Specific Options */}
           
           {/* SVG Vectorization Options */}
@@ -345,15 +555,32 @@ const ConversionOptions = ({ settings, onSettingsChange }: ConversionOptionsProp
             </Box>
           )}
 
+          {isJpeg && (
+            <Box>
+              <FormControl fullWidth>
+                <InputLabel>Chroma Subsampling</InputLabel>
+                <Select
+                  value={settings.jpegChromaSubsampling || '420'}
+                  label="Chroma Subsampling"
+                  onChange={(e) => handleChange('jpegChromaSubsampling', e.target.value)}
+                >
+                  <MenuItem value="420">4:2:0 (Smallest, photos)</MenuItem>
+                  <MenuItem value="422">4:2:2 (Full vertical color)</MenuItem>
+                  <MenuItem value="444">4:4:4 (Full color, text and graphics)</MenuItem>
+                </Select>
+              </FormControl>
+            </Box>
+          )}
+
           {/* WebP Method */}
           {isWebp && (
             <Box>
               <Typography gutterBottom>
-                WebP Compression Method: {settings.method || 4}
+                WebP Compression Method: {settings.method ?? 4}
               </Typography>
               <Box sx={{ px: 2 }}>
                 <Slider
-                  value={settings.method || 4}
+                  value={settings.method ?? 4}
                   onChange={(_, value) => handleChange('method', value)}
                   min={0}
                   max={6}
@@ -369,6 +596,344 @@ const ConversionOptions = ({ settings, onSettingsChange }: ConversionOptionsProp
             </Box>
           )}
 
+          {isWebp && (
+            <Box sx={{ 
+              display: 'flex', 
+              flexDirection: { xs: 'column', md: 'row' }, 
+              gap: 3 
+            }}>
+              <Box sx={{ flex: 1 }}>
+                <Typography gutterBottom>
+                  Alpha Quality: {settings.webpAlphaQuality ?? 100}
+                </Typography>
+                <Box sx={{ px: 2 }}>
+                  <Slider
+                    value={settings.webpAlphaQuality ?? 100}
+                    onChange={(_, value) => handleChange('webpAlphaQuality', value)}
+                    min={0}
+                    max={100}
+                    step={1}
+                    marks={[
+                      { value: 0, label: 'Smallest' },
+                      { value: 100, label: 'Lossless' },
+                    ]}
+                    sx={sliderStyles}
+                  />
+                </Box>
+              </Box>
+
+              {settings.lossless ? (
+                <Box sx={{ flex: 1 }}>
+                  <Typography gutterBottom>
+                    Near-Lossless: {(settings.webpNearLossless ?? 100) === 100 ? 'Off' : settings.webpNearLossless}
+                  </Typography>
+                  <Box sx={{ px: 2 }}>
+                    <Slider
+                      value={settings.webpNearLossless ?? 100}
+                      onChange={(_, value) => handleChange('webpNearLossless', value)}
+                      min={0}
+                      max={100}
+                      step={1}
+                      marks={[
+                        { value: 0, label: 'Smallest' },
+                        { value: 60, label: 'Balanced' },
+                        { value: 100, label: 'Off' },
+                      ]}
+                      sx={sliderStyles}
+                    />
+                  </Box>
+                </Box>
+              ) : (
+                <Box sx={{ flex: 1 }}>
+                  <TextField
+                    fullWidth
+                    label="Target Size (KB)"
+                    type="number"
+                    value={settings.webpTargetSizeKB || ''}
+                    onChange={(e) => handleChange('webpTargetSizeKB', Math.max(0, Number(e.target.value)))}
+                    helperText="libwebp's own size targeting, ignored when a target file size is set above"
+                  />
+                </Box>
+              )}
+            </Box>
+          )}
+
+          {/* GIF Specific Options */}
+          {isGif && (
+            <>
+              <Box sx={{ 
+                display: 'flex', 
+                flexDirection: { xs: 'column', md: 'row' }, 
+                gap: 3 
+              }}>
+                <Box sx={{ flex: 1 }}>
+                  <Typography gutterBottom>
+                    Colors: {settings.gifMaxColors ?? 256}
+                  </Typography>
+                  <Box sx={{ px: 2 }}>
+                    <Slider
+                      value={settings.gifMaxColors ?? 256}
+                      onChange={(_, value) => handleChange('gifMaxColors', value)}
+                      min={2}
+                      max={256}
+                      step={1}
+                      marks={[
+                        { value: 2, label: '2' },
+                        { value: 64, label: '64' },
+                        { value: 128, label: '128' },
+                        { value: 256, label: '256' },
+                      ]}
+                      sx={sliderStyles}
+                    />
+                  </Box>
+                </Box>
+
+                <Box sx={{ flex: 1 }}>
+                  <Typography gutterBottom>
+                    Transparency Threshold: {(settings.gifTransparencyThreshold ?? 128) === 0 ? 'Off' : settings.gifTransparencyThreshold ?? 128}
+                  </Typography>
+                  <Box sx={{ px: 2 }}>
+                    <Slider
+                      value={settings.gifTransparencyThreshold ?? 128}
+                      onChange={(_, value) => handleChange('gifTransparencyThreshold', value)}
+                      min={0}
+                      max={255}
+                      step={1}
+                      marks={[
+                        { value: 0, label: 'Off' },
+                        { value: 128, label: 'Default' },
+                        { value: 255, label: 'Opaque only' },
+                      ]}
+                      sx={sliderStyles}
+                    />
+                  </Box>
+                </Box>
+              </Box>
+
+              <Box sx={{ 
+                display: 'flex', 
+                flexDirection: { xs: 'column', md: 'row' }, 
+                gap: 3 
+              }}>
+                <Box sx={{ flex: 1 }}>
+                  <FormControl fullWidth>
+                    <InputLabel>Palette</InputLabel>
+                    <Select
+                      value={settings.gifPaletteMode || 'local'}
+                      label="Palette"
+                      onChange={(e) => handleChange('gifPaletteMode', e.target.value)}
+                    >
+                      <MenuItem value="local">Per frame (best colors)</MenuItem>
+                      <MenuItem value="global">Global (smaller, no color flicker)</MenuItem>
+                    </Select>
+                  </FormControl>
+                </Box>
+
+                <Box sx={{ flex: 1 }}>
+                  <FormControl fullWidth>
+                    <InputLabel>Quantization</InputLabel>
+                    <Select
+                      value={settings.gifQuantization || 'median-cut'}
+                      label="Quantization"
+                      onChange={(e) => handleChange('gifQuantization', e.target.value)}
+                    >
+                      <MenuItem value="median-cut">Median cut (balanced)</MenuItem>
+                      <MenuItem value="octree">Octree (fast)</MenuItem>
+                      <MenuItem value="kmeans">K-means (best, slower)</MenuItem>
+                    </Select>
+                  </FormControl>
+                </Box>
+
+                <Box sx={{ flex: 1 }}>
+                  <FormControl fullWidth>
+                    <InputLabel>Dithering</InputLabel>
+                    <Select
+                      value={settings.gifDithering || 'floyd-steinberg'}
+                      label="Dithering"
+                      onChange={(e) => handleChange('gifDithering', e.target.value)}
+                    >
+                      <MenuItem value="floyd-steinberg">Floyd–Steinberg (smooth gradients)</MenuItem>
+                      <MenuItem value="ordered">Ordered (pattern, compresses better)</MenuItem>
+                      <MenuItem value="none">None (flat colors)</MenuItem>
+                    </Select>
+                  </FormControl>
+                </Box>
+              </Box>
+
+              <Box>
+                <TextField
+                  fullWidth
+                  label="Frame Delay (ms)"
+                  type="number"
+                  value={settings.gifFrameDelay || ''}
+                  onChange={(e) => handleChange('gifFrameDelay', Math.max(0, Number(e.target.value)))}
+                  helperText="Applies to every frame of animated input; leave empty to keep the original timing"
+                />
+              </Box>
+            </>
+          )}
+
+          {/* AVIF Specific Options */}
+          {isAvif && (
+            <>
+              <Box>
+                <Typography gutterBottom>
+                  AVIF Encoder Speed: {settings.avifSpeed ?? 6}
+                </Typography>
+                <Box sx={{ px: 2 }}>
+                  <Slider
+                    value={settings.avifSpeed ?? 6}
+                    onChange={(_, value) => handleChange('avifSpeed', value)}
+                    min={0}
+                    max={10}
+                    step={1}
+                    marks={[
+                      { value: 0, label: 'Smallest' },
+                      { value: 6, label: 'Default' },
+                      { value: 10, label: 'Fastest' },
+                    ]}
+                    sx={sliderStyles}
+                  />
+                </Box>
+              </Box>
+
+              <Box sx={{ 
+                display: 'flex', 
+                flexDirection: { xs: 'column', md: 'row' }, 
+                gap: 3 
+              }}>
+                <Box sx={{ flex: 1 }}>
+                  <FormControl fullWidth disabled={settings.avifLossless}>
+                    <InputLabel>Chroma Subsampling</InputLabel>
+                    <Select
+                      value={settings.avifLossless ? '444' : (settings.avifChromaSubsampling || '420')}
+                      label="Chroma Subsampling"
+                      onChange={(e) => handleChange('avifChromaSubsampling', e.target.value)}
+                    >
+                      <MenuItem value="420">4:2:0 (Smallest, photos)</MenuItem>
+                      <MenuItem value="422">4:2:2</MenuItem>
+                      <MenuItem value="444">4:4:4 (Full color, graphics)</MenuItem>
+                    </Select>
+                  </FormControl>
+                </Box>
+
+                <Box sx={{ flex: 1 }}>
+                  <FormControl fullWidth>
+                    <InputLabel>Bit Depth</InputLabel>
+                    <Select
+                      value={settings.avifBitDepth || 8}
+                      label="Bit Depth"
+                      onChange={(e) => handleChange('avifBitDepth', Number(e.target.value))}
+                    >
+                      <MenuItem value={8}>8-bit (Standard)</MenuItem>
+                      <MenuItem value={10}>10-bit (HDR, smoother gradients)</MenuItem>
+                      <MenuItem value={12}>12-bit (Professional)</MenuItem>
+                    </Select>
+                  </FormControl>
+                </Box>
+              </Box>
+            </>
+          )}
+
+          {/* JPEG XL Specific Options */}
+          {isJxl && (
+            <>
+              <Box>
+                <Typography gutterBottom>
+                  JPEG XL Effort: {settings.jxlEffort ?? 7}
+                </Typography>
+                <Box sx={{ px: 2 }}>
+                  <Slider
+                    value={settings.jxlEffort ?? 7}
+                    onChange={(_, value) => handleChange('jxlEffort', value)}
+                    min={1}
+                    max={9}
+                    step={1}
+                    marks={[
+                      { value: 1, label: 'Fastest' },
+                      { value: 7, label: 'Default' },
+                      { value: 9, label: 'Smallest' },
+                    ]}
+                    sx={sliderStyles}
+                  />
+                </Box>
+              </Box>
+
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={usesJxlDistance}
+                    onChange={(e) => handleChange('jxlDistance', e.target.checked ? 1 : undefined)}
+                  />
+                }
+                label="Set Butteraugli distance instead of quality"
+              />
+
+              {usesJxlDistance && (
+                <Box>
+                  <Typography gutterBottom>
+                    Distance: {settings.jxlDistance?.toFixed(1)}
+                    {settings.jxlDistance === 0 && ' (lossless)'}
+                  </Typography>
+                  <Box sx={{ px: 2 }}>
+                    <Slider
+                      value={settings.jxlDistance ?? 1}
+                      onChange={(_, value) => handleChange('jxlDistance', value)}
+                      min={0}
+                      max={15}
+                      step={0.1}
+                      marks={[
+                        { value: 0, label: 'Lossless' },
+                        { value: 1, label: 'Visually lossless' },
+                        { value: 15, label: 'Smallest' },
+                      ]}
+                      sx={sliderStyles}
+                    />
+                  </Box>
+                </Box>
+              )}
+            </>
+          )}
+
+          {/* HEIC Specific Options */}
+          {isHeic && (
+            <Box>
+              <FormControl fullWidth>
+                <InputLabel>Chroma Subsampling</InputLabel>
+                <Select
+                  value={settings.heicChromaSubsampling || '420'}
+                  label="Chroma Subsampling"
+                  onChange={(e) => handleChange('heicChromaSubsampling', e.target.value)}
+                >
+                  <MenuItem value="420">
+                    <Box>
+                      <Typography variant="body1">4:2:0 (Standard)</Typography>
+                      <Typography variant="caption" color="text.secondary">
+                        Smallest files, same as iPhone photos
+                      </Typography>
+                    </Box>
+                  </MenuItem>
+                  <MenuItem value="422">
+                    <Box>
+                      <Typography variant="body1">4:2:2</Typography>
+                      <Typography variant="caption" color="text.secondary">
+                        Better color detail on horizontal edges
+                      </Typography>
+                    </Box>
+                  </MenuItem>
+                  <MenuItem value="444">
+                    <Box>
+                      <Typography variant="body1">4:4:4 (Full color)</Typography>
+                      <Typography variant="caption" color="text.secondary">
+                        No color loss, best for graphics and text
+                      </Typography>
+                    </Box>
+                  </MenuItem>
+                </Select>
+              </FormControl>
+            </Box>
+          )}
+
           {/* TIFF Specific Options */}
           {isTiff && (
             <Box>
@@ -422,6 +987,14 @@ const ConversionOptions = ({ settings, onSettingsChange }: ConversionOptionsProp
                           </Typography>
                         </Box>
                       </MenuItem>
+                      <MenuItem value="jpeg">
+                        <Box>
+                          <Typography variant="body1">JPEG</Typography>
+                          <Typography variant="caption" color="text.secondary">
+                            Lossy, smallest files (8-bit RGB or grayscale)
+                          </Typography>
+                        </Box>
+                      </MenuItem>
                     </Select>
                   </FormControl>
                 </Box>
@@ -438,7 +1011,7 @@ const ConversionOptions = ({ settings, onSettingsChange }: ConversionOptionsProp
                       <MenuItem value={1}>1-bit (Black & White)</MenuItem>
                       <MenuItem value={8}>8-bit (256 colors per channel)</MenuItem>
                       <MenuItem value={16}>16-bit (65,536 colors per channel)</MenuItem>
-                      <MenuItem value={32}>32-bit (Full HDR support)</MenuItem>
+                      <MenuItem value={32}>32-bit float (Full HDR support)</MenuItem>
                     </Select>
                   </FormControl>
                 </Box>
@@ -526,6 +1099,7 @@ const ConversionOptions = ({ settings, onSettingsChange }: ConversionOptionsProp
                       value={settings.tiffPredictor || 1}
                       label="Predictor"
                       onChange={(e) => handleChange('tiffPredictor', Number(e.target.value))}
+                      disabled={!TiffCompression.supportsPredictor(settings.tiffCompression || 'lzw')}
                     >
                       <MenuItem value={1}>None (Default)</MenuItem>
                       <MenuItem value={2}>Horizontal Differencing</MenuItem>
@@ -629,6 +1203,69 @@ const ConversionOptions = ({ settings, onSettingsChange }: ConversionOptionsProp
                 </Box>
               </Box>
 
+              {/* Large Image Settings */}
+              <Box sx={{ 
+                display: 'flex', 
+                flexDirection: { xs: 'column', md: 'row' }, 
+                alignItems: { md: 'center' },
+                gap: 3,
+                mb: 3
+              }}>
+                {/* Overviews */}
+                <Box sx={{ flex: 1 }}>
+                  <FormControl fullWidth>
+                    <InputLabel>Overviews (Pyramid)</InputLabel>
+                    <Select
+                      value={settings.tiffPyramid || 'none'}
+                      label="Overviews (Pyramid)"
+                      onChange={(e) => handleChange('tiffPyramid', e.target.value)}
+                    >
+                      <MenuItem value="none">None</MenuItem>
+                      <MenuItem value="cog">
+                        <Box>
+                          <Typography variant="body1">Cloud Optimized (COG)</Typography>
+                          <Typography variant="caption" color="text.secondary">
+                            Half-size levels as following IFDs, for GIS viewers
+                          </Typography>
+                        </Box>
+                      </MenuItem>
+                      <MenuItem value="subifd">
+                        <Box>
+                          <Typography variant="body1">SubIFDs</Typography>
+                          <Typography variant="caption" color="text.secondary">
+                            Half-size levels nested under the image, for microscopy viewers
+                          </Typography>
+                        </Box>
+                      </MenuItem>
+                    </Select>
+                  </FormControl>
+                </Box>
+
+                {/* BigTIFF */}
+                <FormControlLabel
+                  sx={{ flex: 1 }}
+                  control={
+                    <Switch
+                      checked={settings.tiffBigTiff || false}
+                      onChange={(e) => handleChange('tiffBigTiff', e.target.checked)}
+                    />
+                  }
+                  label="Always write BigTIFF (used automatically above 4 GB)"
+                />
+              </Box>
+
+              {/* Multi-page */}
+              <FormControlLabel
+                sx={{ mb: 3 }}
+                control={
+                  <Switch
+                    checked={settings.tiffMultiPage || false}
+                    onChange={(e) => handleChange('tiffMultiPage', e.target.checked)}
+                  />
+                }
+                label="Combine all images into one multi-page TIFF"
+              />
+
               {/* Information and Tips */}
               <Alert severity="info" sx={{ mb: 2 }}>
                 <Typography variant="body2" sx={{ fontWeight: 600, mb: 1 }}>
@@ -639,7 +1276,8 @@ const ConversionOptions = ({ settings, onSettingsChange }: ConversionOptionsProp
                   • <strong>Deflate</strong> provides better compression but may have compatibility issues<br/>
                   • <strong>8-bit RGB</strong> is standard for photos, <strong>16-bit</strong> for professional work<br/>
                   • <strong>300 DPI</strong> is print quality, <strong>72-96 DPI</strong> for screen use<br/>
-                  • <strong>Strips</strong> are more compatible, <strong>tiles</strong> better for large images
+                  • <strong>Strips</strong> are more compatible, <strong>tiles</strong> better for large images<br/>
+                  • <strong>Overviews</strong> with 256 or 512 px tiles let map and slide viewers zoom out quickly
                 </Typography>
               </Alert>
 
@@ -659,6 +1297,7 @@ const ConversionOptions = ({ settings, onSettingsChange }: ConversionOptionsProp
                   {settings.tiffCompression === 'lzw' && 'LZW Compression - Good balance of size and compatibility, widely supported'}
                   {settings.tiffCompression === 'packbits' && 'PackBits Compression - Simple compression, good compatibility'}
                   {settings.tiffCompression === 'deflate' && 'Deflate Compression - Best compression ratio, may have compatibility issues with older software'}
+                  {settings.tiffCompression === 'jpeg' && 'JPEG Compression - Lossy, uses the quality setting; RGB is stored as YCbCr with the JPEG chroma subsampling'}
                 </Typography>
               </Box>
             </Box>
@@ -1235,6 +1874,27 @@ const ConversionOptions = ({ settings, onSettingsChange }: ConversionOptionsProp
               />
             </Box>
 
+            {/* Resampling Filter */}
+            <Box sx={{ flex: 1 }}>
+              <FormControl fullWidth>
+                <InputLabel>Resampling</InputLabel>
+                <Select
+                  value={settings.resampling || 'auto'}
+                  label="Resampling"
+                  onChange={(e) => handleChange('resampling', e.target.value === 'auto' ? undefined : e.target.value)}
+                >
+                  <MenuItem value="auto">Automatic (Lanczos3, or browser scaling on the main thread)</MenuItem>
+                  <MenuItem value="lanczos3">Lanczos3 (sharpest)</MenuItem>
+                  <MenuItem value="lanczos2">Lanczos2</MenuItem>
+                  <MenuItem value="mitchell">Mitchell (balanced)</MenuItem>
+                  <MenuItem value="bicubic">Bicubic</MenuItem>
+                  <MenuItem value="bilinear">Bilinear</MenuItem>
+                  <MenuItem value="box">Box / area average</MenuItem>
+                  <MenuItem value="nearest">Nearest neighbor (pixel art)</MenuItem>
+                </Select>
+              </FormControl>
+            </Box>
+
             {/* Aspect Ratio */}
             <Box sx={{ 
               flex: 1, 
@@ -1254,6 +1914,161 @@ const ConversionOptions = ({ settings, onSettingsChange }: ConversionOptionsProp
             </Box>
           </Box>
 
+          {/* Post-Resize Sharpening */}
+          {(settings.maxWidth || settings.maxHeight || settings.enableCrop) && (
+            <Box sx={{ 
+              display: 'flex', 
+              flexDirection: { xs: 'column', md: 'row' }, 
+              gap: 3,
+              mt: 3
+            }}>
+              <Box sx={{ flex: 1 }}>
+                <Typography gutterBottom>
+                  Sharpen After Resize: {settings.sharpenAmount ? `${settings.sharpenAmount}%` : 'Off'}
+                </Typography>
+                <Box sx={{ px: 2 }}>
+                  <Slider
+                    value={settings.sharpenAmount || 0}
+                    onChange={(_, value) => handleChange('sharpenAmount', value)}
+                    min={0}
+                    max={200}
+                    step={10}
+                    marks={[
+                      { value: 0, label: 'Off' },
+                      { value: 50, label: 'Subtle' },
+                      { value: 100, label: 'Normal' },
+                      { value: 200, label: 'Strong' },
+                    ]}
+                    sx={sliderStyles}
+                  />
+                </Box>
+              </Box>
+
+              {!!settings.sharpenAmount && (
+                <>
+                  <Box sx={{ flex: 1 }}>
+                    <Typography gutterBottom>
+                      Sharpen Radius: {settings.sharpenRadius ?? 0.5}px
+                    </Typography>
+                    <Box sx={{ px: 2 }}>
+                      <Slider
+                        value={settings.sharpenRadius ?? 0.5}
+                        onChange={(_, value) => handleChange('sharpenRadius', value)}
+                        min={0.3}
+                        max={3}
+                        step={0.1}
+                        marks={[
+                          { value: 0.5, label: 'Fine' },
+                          { value: 1.5, label: 'Medium' },
+                          { value: 3, label: 'Wide' },
+                        ]}
+                        sx={sliderStyles}
+                      />
+                    </Box>
+                  </Box>
+
+                  <Box sx={{ flex: 1 }}>
+                    <Typography gutterBottom>
+                      Sharpen Threshold: {settings.sharpenThreshold ?? 0}
+                    </Typography>
+                    <Box sx={{ px: 2 }}>
+                      <Slider
+                        value={settings.sharpenThreshold ?? 0}
+                        onChange={(_, value) => handleChange('sharpenThreshold', value)}
+                        min={0}
+                        max={32}
+                        step={1}
+                        marks={[
+                          { value: 0, label: 'All' },
+                          { value: 8, label: 'Edges' },
+                          { value: 32, label: 'Strong edges' },
+                        ]}
+                        sx={sliderStyles}
+                      />
+                    </Box>
+                  </Box>
+                </>
+              )}
+            </Box>
+          )}
+
+          <Divider sx={{ my: 2 }} />
+
+          {/* Multiple Outputs (Recipe) Header */}
+          <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+            <Box sx={{ display: 'flex', alignItems: 'center' }}>
+              <Collections sx={{ mr: 2, color: 'primary.main' }} />
+              <Typography variant="h6">Multiple Outputs</Typography>
+            </Box>
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={recipe.enabled}
+                  onChange={(e) => handleRecipeChange({ enabled: e.target.checked })}
+                />
+              }
+              label="Enable Recipe"
+            />
+          </Box>
+
+          {recipe.enabled && (
+            <Stack spacing={2}>
+              <Typography variant="body2" color="text.secondary">
+                Every image is converted once per width and format, and the renditions are bundled into a ZIP.
+                The output format above is replaced by the formats selected here.
+              </Typography>
+
+              <Box sx={{ 
+                display: 'flex', 
+                flexDirection: { xs: 'column', md: 'row' }, 
+                gap: 3 
+              }}>
+                <TextField
+                  fullWidth
+                  label="Widths (px)"
+                  value={recipeWidthsText}
+                  onChange={(e) => setRecipeWidthsText(e.target.value)}
+                  onBlur={() => handleRecipeChange({ widths: ConversionRecipes.parseWidths(recipeWidthsText) })}
+                  helperText="Comma separated, 0 keeps the original size"
+                  sx={{ flex: 1 }}
+                />
+                <TextField
+                  fullWidth
+                  label="File Name Template"
+                  value={recipe.fileNameTemplate}
+                  onChange={(e) => handleRecipeChange({ fileNameTemplate: e.target.value })}
+                  helperText="Same tokens as the output file name, {width} is the rendition width"
+                  sx={{ flex: 1 }}
+                />
+              </Box>
+
+              <Box>
+                <Typography variant="body2" gutterBottom>
+                  Formats
+                </Typography>
+                <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+                  {OUTPUT_FORMATS.filter(format => ['avif', 'webp', 'jpeg', 'jxl', 'png', 'gif'].includes(format.value)).map(format => (
+                    <Chip
+                      key={format.value}
+                      label={format.label}
+                      color={recipe.formats.includes(format.value) ? 'primary' : 'default'}
+                      variant={recipe.formats.includes(format.value) ? 'filled' : 'outlined'}
+                      onClick={() => toggleRecipeFormat(format.value)}
+                    />
+                  ))}
+                </Box>
+              </Box>
+
+              <Alert severity={ConversionRecipes.isActive(settings) ? 'info' : 'warning'}>
+                {ConversionRecipes.isActive(settings)
+                  ? `${ConversionRecipes.expand(settings).length} outputs per image, e.g. ${
+                      ConversionRecipes.getFileName(recipe.fileNameTemplate, 'photo.jpg', ConversionRecipes.expand(settings)[0])
+                    }`
+                  : 'Select at least one format'}
+              </Alert>
+            </Stack>
+          )}
+
           <Divider sx={{ my: 2 }} />
           
           {/* Advanced Options */}
@@ -1261,6 +2076,20 @@ const ConversionOptions = ({ settings, onSettingsChange }: ConversionOptionsProp
             <Typography variant="h6" sx={{ mb: 2 }}>Advanced Options</Typography>
             
             <Stack spacing={2}>
+              {/* Output File Names */}
+              <Box>
+                <TextField
+                  fullWidth
+                  label="File Name Template"
+                  value={settings.fileNameTemplate ?? DEFAULT_FILE_NAME_TEMPLATE}
+                  onChange={(e) => handleChange('fileNameTemplate', e.target.value)}
+                  helperText="{name} {ext} {format} {width} {height} {quality} {index:000} {date:yyyy-MM-dd} {exif.Model} {hash:8} — use / for folders inside ZIPs"
+                />
+                <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 0.5, ml: 1.75 }}>
+                  Preview: <strong>{fileNamePreview}</strong>
+                </Typography>
+              </Box>
+
               <FormControlLabel
                 control={
                   <Switch
@@ -1271,6 +2100,68 @@ const ConversionOptions = ({ settings, onSettingsChange }: ConversionOptionsProp
                 label="Remove Metadata (EXIF data)"
               />
 
+              {/* Color Management */}
+              <FormControl fullWidth>
+                <InputLabel>Color Profile</InputLabel>
+                <Select
+                  value={settings.colorProfile || 'srgb'}
+                  label="Color Profile"
+                  onChange={(e) => handleChange('colorProfile', e.target.value)}
+                >
+                  <MenuItem value="srgb">sRGB (untagged)</MenuItem>
+                  <MenuItem value="display-p3">Display P3</MenuItem>
+                  <MenuItem value="adobe-rgb">Adobe RGB (1998)</MenuItem>
+                  <MenuItem value="preserve">Keep source profile</MenuItem>
+                </Select>
+              </FormControl>
+              <FormControl fullWidth>
+                <InputLabel>Rendering Intent</InputLabel>
+                <Select
+                  value={settings.renderingIntent || 'perceptual'}
+                  label="Rendering Intent"
+                  onChange={(e) => handleChange('renderingIntent', e.target.value)}
+                >
+                  <MenuItem value="perceptual">Perceptual</MenuItem>
+                  <MenuItem value="relative-colorimetric">Relative Colorimetric</MenuItem>
+                  <MenuItem value="saturation">Saturation</MenuItem>
+                  <MenuItem value="absolute-colorimetric">Absolute Colorimetric</MenuItem>
+                </Select>
+              </FormControl>
+              {settings.colorProfile && settings.colorProfile !== 'srgb' && ['jxl', 'gif', 'svg', 'pdf', 'ico'].includes(settings.outputFormat) && (
+                <Alert severity="info">
+                  {settings.outputFormat.toUpperCase()} output is always written as sRGB.
+                </Alert>
+              )}
+
+              {/* Animation Options */}
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={settings.preserveAnimation !== false}
+                    onChange={(e) => handleChange('preserveAnimation', e.target.checked)}
+                  />
+                }
+                label="Keep animation (animated GIF, PNG and WebP output)"
+              />
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={settings.extractFrames || false}
+                    onChange={(e) => handleChange('extractFrames', e.target.checked)}
+                  />
+                }
+                label="Extract animation frames to ZIP"
+              />
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={settings.extractPages || false}
+                    onChange={(e) => handleChange('extractPages', e.target.checked)}
+                  />
+                }
+                label="Extract multi-page TIFF pages to ZIP"
+              />
+
               {/* JPEG Advanced Options */}
               {isJpeg && (
                 <>
@@ -1286,11 +2177,14 @@ const ConversionOptions = ({ settings, onSettingsChange }: ConversionOptionsProp
                   <FormControlLabel
                     control={
                       <Switch
-                        checked={settings.optimizeHuffman || false}
+                        checked={forcesOptimizedHuffman || settings.optimizeHuffman || false}
+                        disabled={forcesOptimizedHuffman}
                         onChange={(e) => handleChange('optimizeHuffman', e.target.checked)}
                       />
                     }
-                    label="Optimize Huffman tables (smaller file)"
+                    label={forcesOptimizedHuffman
+                      ? 'Optimize Huffman tables (always on for progressive, 4:2:0 and 4:2:2)'
+                      : 'Optimize Huffman tables (smaller file)'}
                   />
                 </>
               )}
@@ -1299,19 +2193,46 @@ const ConversionOptions = ({ settings, onSettingsChange }: ConversionOptionsProp
               {isPng && (
                 <Box>
                   <FormControl fullWidth sx={{ mt: 1 }}>
+                    <InputLabel>Color Type</InputLabel>
+                    <Select
+                      value={settings.colorType || 'rgba'}
+                      label="Color Type"
+                      onChange={(e) => handleChange('colorType', e.target.value)}
+                    >
+                      <MenuItem value="rgba">RGBA (Truecolor + alpha)</MenuItem>
+                      <MenuItem value="rgb">RGB (Truecolor, no transparency)</MenuItem>
+                      <MenuItem value="palette">Palette (Indexed colors, smallest)</MenuItem>
+                      <MenuItem value="gray-alpha">Grayscale + alpha</MenuItem>
+                      <MenuItem value="gray">Grayscale</MenuItem>
+                    </Select>
+                  </FormControl>
+                  <FormControl fullWidth sx={{ mt: 2 }}>
                     <InputLabel>Bit Depth</InputLabel>
                     <Select
                       value={settings.bitDepth || 8}
                       label="Bit Depth"
                       onChange={(e) => handleChange('bitDepth', Number(e.target.value))}
                     >
-                      <MenuItem value={1}>1-bit (monochrome)</MenuItem>
-                      <MenuItem value={2}>2-bit (4 colors)</MenuItem>
-                      <MenuItem value={4}>4-bit (16 colors)</MenuItem>
+                      {/* Sub-byte depths exist for palette/grayscale only, 16-bit for everything but palette */}
+                      <MenuItem value={1} disabled={!isPngLowDepthType}>1-bit (monochrome)</MenuItem>
+                      <MenuItem value={2} disabled={!isPngLowDepthType}>2-bit (4 colors)</MenuItem>
+                      <MenuItem value={4} disabled={!isPngLowDepthType}>4-bit (16 colors)</MenuItem>
                       <MenuItem value={8}>8-bit (256 colors)</MenuItem>
-                      <MenuItem value={16}>16-bit (65,536 colors)</MenuItem>
+                      <MenuItem value={16} disabled={settings.colorType === 'palette'}>16-bit (65,536 colors)</MenuItem>
                     </Select>
                   </FormControl>
+                  {isPngLowDepthType && (
+                    <FormControlLabel
+                      sx={{ mt: 1 }}
+                      control={
+                        <Switch
+                          checked={settings.pngDithering !== false}
+                          onChange={(e) => handleChange('pngDithering', e.target.checked)}
+                        />
+                      }
+                      label="Dithering (smoother gradients with fewer colors)"
+                    />
+                  )}
                 </Box>
               )}
 
@@ -1327,6 +2248,67 @@ const ConversionOptions = ({ settings, onSettingsChange }: ConversionOptionsProp
                   label="Lossless compression (larger but perfect quality)"
                 />
               )}
+              {isWebp && !settings.lossless && (
+                <FormControlLabel
+                  control={
+                    <Switch
+                      checked={settings.webpSharpYuv || false}
+                      onChange={(e) => handleChange('webpSharpYuv', e.target.checked)}
+                    />
+                  }
+                  label="Sharp YUV (crisper color edges, slower)"
+                />
+              )}
+
+              {/* AVIF Advanced Options */}
+              {isAvif && (
+                <FormControlLabel
+                  control={
+                    <Switch
+                      checked={settings.avifLossless || false}
+                      onChange={(e) => handleChange('avifLossless', e.target.checked)}
+                    />
+                  }
+                  label="Lossless compression (ignores quality, uses 4:4:4)"
+                />
+              )}
+
+              {/* JPEG XL Advanced Options */}
+              {isJxl && (
+                <>
+                  <FormControlLabel
+                    control={
+                      <Switch
+                        checked={settings.jxlLossless || false}
+                        onChange={(e) => handleChange('jxlLossless', e.target.checked)}
+                      />
+                    }
+                    label="Lossless compression (ignores quality and distance)"
+                  />
+                  <FormControlLabel
+                    control={
+                      <Switch
+                        checked={settings.jxlProgressive || false}
+                        onChange={(e) => handleChange('jxlProgressive', e.target.checked)}
+                      />
+                    }
+                    label="Progressive decoding"
+                  />
+                </>
+              )}
+
+              {/* HEIC Advanced Options */}
+              {isHeic && (
+                <FormControlLabel
+                  control={
+                    <Switch
+                      checked={settings.heicPreserveAlpha !== false}
+                      onChange={(e) => handleChange('heicPreserveAlpha', e.target.checked)}
+                    />
+                  }
+                  label="Preserve transparency (stored as alpha layer)"
+                />
+              )}
 
               {/* SVG Advanced Options */}
               {isSvg && (
@@ -1447,6 +2429,7 @@ const ConversionOptions = ({ settings, onSettingsChange }: ConversionOptionsProp
                   • Best for: Photos, realistic images with many colors<br/>
                   • Compression: Lossy (some quality loss for smaller files)<br/>
                   • Transparency: Not supported<br/>
+                  • Encoder: MozJPEG with progressive scans, Huffman optimization and trellis quantization<br/>
                   • Use case: Web photos, email attachments, general photography
                 </Typography>
               </Box>
@@ -1459,7 +2442,8 @@ const ConversionOptions = ({ settings, onSettingsChange }: ConversionOptionsProp
                 </Typography>
                 <Typography variant="caption" display="block" color="text.secondary">
                   • Best for: Graphics, logos, images with transparency<br/>
-                  • Compression: Lossless (perfect quality, larger files)<br/>
+                  • Compression: Lossless (perfect quality, larger files); levels 8-9 search all filters, 9 adds Zopfli<br/>
+                  • Color types: Palette with dithering, grayscale, RGB/RGBA and 16-bit<br/>
                   • Transparency: Full alpha channel support<br/>
                   • Use case: Logos, screenshots, graphics with text
                 </Typography>
@@ -1473,8 +2457,8 @@ const ConversionOptions = ({ settings, onSettingsChange }: ConversionOptionsProp
                 </Typography>
                 <Typography variant="caption" display="block" color="text.secondary">
                   • Best for: Web images, modern browsers<br/>
-                  • Compression: Both lossy and lossless options<br/>
-                  • Transparency: Supported<br/>
+                  • Compression: Lossy, lossless or near-lossless (libwebp); quality sets effort in lossless mode<br/>
+                  • Transparency: Supported, with separate alpha quality<br/>
                   • Use case: Web optimization, 25-35% smaller than JPEG/PNG
                 </Typography>
               </Box>
@@ -1529,6 +2513,67 @@ const ConversionOptions = ({ settings, onSettingsChange }: ConversionOptionsProp
               </Box>
             )}
 
+            {isAvif && (
+              <Box sx={{ p: 2, bgcolor: 'rgba(255, 87, 34, 0.1)', borderRadius: 1 }}>
+                <Typography variant="body2" sx={{ mb: 1 }}>
+                  <strong>AVIF - AV1 Image File Format</strong>
+                </Typography>
+                <Typography variant="caption" display="block" color="text.secondary">
+                  • Best for: Web images where every kilobyte counts<br/>
+                  • Compression: Lossy or lossless AV1, typically 30-50% smaller than JPEG<br/>
+                  • Transparency: Supported<br/>
+                  • Features: 10/12-bit color for HDR and smooth gradients<br/>
+                  • Compatibility: All modern browsers (Chrome, Firefox, Safari 16+)
+                </Typography>
+              </Box>
+            )}
+
+            {isJxl && (
+              <Box sx={{ p: 2, bgcolor: 'rgba(63, 81, 181, 0.1)', borderRadius: 1 }}>
+                <Typography variant="body2" sx={{ mb: 1 }}>
+                  <strong>JPEG XL - Next-generation JPEG</strong>
+                </Typography>
+                <Typography variant="caption" display="block" color="text.secondary">
+                  • Best for: Photos and graphics, archiving, high-fidelity web images<br/>
+                  • Compression: Lossy (VarDCT) or lossless (Modular), tuned by effort and distance<br/>
+                  • Distance: 1.0 is visually lossless, higher values trade quality for size<br/>
+                  • Transparency: Supported, with progressive decoding<br/>
+                  • JPEG sources: Re-encoded from pixels; bit-exact, reversible JPEG recompression is not available<br/>
+                  • Compatibility: Safari 17+, most image editors; Chrome and Firefox need flags
+                </Typography>
+              </Box>
+            )}
+
+            {isGif && (
+              <Box sx={{ p: 2, bgcolor: 'rgba(233, 30, 99, 0.1)', borderRadius: 1 }}>
+                <Typography variant="body2" sx={{ mb: 1 }}>
+                  <strong>GIF - Graphics Interchange Format</strong>
+                </Typography>
+                <Typography variant="caption" display="block" color="text.secondary">
+                  • Best for: Short animations, simple graphics and logos<br/>
+                  • Colors: Up to 256 per frame (or shared), median cut, octree or k-means<br/>
+                  • Transparency: On/off only, no partial transparency<br/>
+                  • Animation: Frame delays and loop count are kept from animated input<br/>
+                  • Compatibility: Universal support in browsers and apps
+                </Typography>
+              </Box>
+            )}
+
+            {isHeic && (
+              <Box sx={{ p: 2, bgcolor: 'rgba(0, 150, 136, 0.1)', borderRadius: 1 }}>
+                <Typography variant="body2" sx={{ mb: 1 }}>
+                  <strong>HEIC - High Efficiency Image Container</strong>
+                </Typography>
+                <Typography variant="caption" display="block" color="text.secondary">
+                  • Best for: Photos for Apple devices, archiving with small file sizes<br/>
+                  • Compression: Lossy HEVC (x265), lossless at 100% quality<br/>
+                  • Transparency: Supported via alpha layer<br/>
+                  • Use case: iPhone/iPad/macOS photo libraries, ~50% smaller than JPEG<br/>
+                  • Note: The encoder (~30 MB) is downloaded on first use
+                </Typography>
+              </Box>
+            )}
+
             {isTiff && (
               <Box sx={{ p: 2, bgcolor: 'rgba(103, 58, 183, 0.1)', borderRadius: 1 }}>
                 <Typography variant="body2" sx={{ mb: 1 }}>
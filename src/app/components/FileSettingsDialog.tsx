@@ -0,0 +1,207 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  TextField,
+  Stack,
+} from '@mui/material';
+import { Tune, RestartAlt } from '@mui/icons-material';
+import { ConversionSettings, OUTPUT_FORMATS } from './ConversionOptions';
+
+// Settings that can differ per file; everything else always follows the batch.
+// A maxWidth or maxHeight of 0 lifts the batch limit, like an empty field in the main options.
+export type FileSettingsOverride = Partial<Pick<ConversionSettings,
+  'outputFormat' | 'quality' | 'maxWidth' | 'maxHeight' | 'enableCrop' | 'cropAspectRatio'>>;
+
+const SIZE_LIMITS = ['maxWidth', 'maxHeight'];
+
+const CROP_OPTIONS = [
+  { value: 'off', label: 'No crop' },
+  { value: '1', label: 'Square (1:1)' },
+  { value: '1.3333', label: 'Standard (4:3)' },
+  { value: '1.5', label: 'Photo (3:2)' },
+  { value: '1.7778', label: 'Widescreen (16:9)' },
+  { value: '0.5625', label: 'Portrait (9:16)' },
+];
+
+// Keeps only the fields that actually differ from the batch settings
+export function getEffectiveOverride(
+  override: FileSettingsOverride | undefined,
+  batchSettings: ConversionSettings
+): FileSettingsOverride | undefined {
+  if (!override) return undefined;
+
+  const entries = Object.entries(override).filter(([key, value]) => {
+    const batchValue = batchSettings[key as keyof ConversionSettings];
+    if (SIZE_LIMITS.includes(key)) {
+      return value !== undefined && value !== (batchValue || 0);
+    }
+    return value !== undefined && value !== batchValue;
+  });
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+}
+
+// Short summary for the file card, e.g. "PNG · Q90 · ≤800px"
+export function describeOverride(override: FileSettingsOverride): string {
+  const parts: string[] = [];
+  if (override.outputFormat) parts.push(override.outputFormat.toUpperCase());
+  if (override.quality !== undefined) parts.push(`Q${override.quality}`);
+  const { maxWidth, maxHeight } = override;
+  if (maxWidth === 0 && maxHeight === 0) {
+    parts.push('no size limit');
+  } else if (maxWidth !== undefined && maxHeight !== undefined) {
+    parts.push(`≤${maxWidth || '∞'}×${maxHeight || '∞'}`);
+  } else if (maxWidth !== undefined) {
+    parts.push(maxWidth ? `≤${maxWidth}px wide` : 'no width limit');
+  } else if (maxHeight !== undefined) {
+    parts.push(maxHeight ? `≤${maxHeight}px high` : 'no height limit');
+  }
+  if (override.enableCrop === false) {
+    parts.push('no crop');
+  } else if (override.cropAspectRatio) {
+    parts.push(`crop ${CROP_OPTIONS.find(option => Number(option.value) === override.cropAspectRatio)?.label || override.cropAspectRatio}`);
+  }
+  return parts.join(' · ');
+}
+
+interface FileSettingsDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onApply: (override: FileSettingsOverride | undefined) => void;
+  batchSettings: ConversionSettings;
+  override?: FileSettingsOverride;
+  fileCount: number;
+}
+
+const FileSettingsDialog = ({ open, onClose, onApply, batchSettings, override, fileCount }: FileSettingsDialogProps) => {
+  const [draft, setDraft] = useState<FileSettingsOverride>({});
+
+  // Start from the current override every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setDraft(override || {});
+    }
+  }, [open, override]);
+
+  const parseOptionalNumber = (value: string) => (value === '' ? undefined : Number(value));
+
+  const cropValue = draft.enableCrop === false
+    ? 'off'
+    : draft.cropAspectRatio !== undefined
+      ? CROP_OPTIONS.find(option => Number(option.value) === draft.cropAspectRatio)?.value || ''
+      : '';
+
+  const handleCropChange = (value: string) => {
+    setDraft(prev => ({
+      ...prev,
+      enableCrop: value === '' ? undefined : value !== 'off',
+      cropAspectRatio: value === '' || value === 'off' ? undefined : Number(value),
+    }));
+  };
+
+  const batchCropLabel = batchSettings.enableCrop
+    ? CROP_OPTIONS.find(option => Number(option.value) === batchSettings.cropAspectRatio)?.label || 'Crop'
+    : 'No crop';
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth PaperProps={{ sx: { borderRadius: 3 } }}>
+      <DialogTitle>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <Tune color="primary" />
+          {fileCount === 1 ? 'File Settings' : `Settings for ${fileCount} Files`}
+        </Box>
+      </DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Leave a field on its batch default to follow the main conversion options.
+        </Typography>
+
+        <Stack spacing={2}>
+          <FormControl fullWidth>
+            <InputLabel>Output Format</InputLabel>
+            <Select
+              value={draft.outputFormat || ''}
+              label="Output Format"
+              onChange={(e) => setDraft(prev => ({ ...prev, outputFormat: e.target.value || undefined }))}
+            >
+              <MenuItem value="">
+                <em>Batch default ({batchSettings.outputFormat.toUpperCase()})</em>
+              </MenuItem>
+              {OUTPUT_FORMATS.map(format => (
+                <MenuItem key={format.value} value={format.value}>
+                  {format.label}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          <TextField
+            fullWidth
+            label="Quality"
+            type="number"
+            value={draft.quality ?? ''}
+            onChange={(e) => setDraft(prev => ({ ...prev, quality: parseOptionalNumber(e.target.value) }))}
+            placeholder={String(batchSettings.quality)}
+            helperText={`Batch default: ${batchSettings.quality}`}
+            inputProps={{ min: 0, max: 100 }}
+          />
+
+          <Box sx={{ display: 'flex', gap: 2 }}>
+            <TextField
+              fullWidth
+              label="Max Width (px)"
+              type="number"
+              value={draft.maxWidth ?? ''}
+              onChange={(e) => setDraft(prev => ({ ...prev, maxWidth: parseOptionalNumber(e.target.value) }))}
+              helperText={`Batch default: ${batchSettings.maxWidth || 'original'} · 0 = no limit`}
+            />
+            <TextField
+              fullWidth
+              label="Max Height (px)"
+              type="number"
+              value={draft.maxHeight ?? ''}
+              onChange={(e) => setDraft(prev => ({ ...prev, maxHeight: parseOptionalNumber(e.target.value) }))}
+              helperText={`Batch default: ${batchSettings.maxHeight || 'original'} · 0 = no limit`}
+            />
+          </Box>
+
+          <FormControl fullWidth>
+            <InputLabel>Crop</InputLabel>
+            <Select value={cropValue} label="Crop" onChange={(e) => handleCropChange(e.target.value)}>
+              <MenuItem value="">
+                <em>Batch default ({batchCropLabel})</em>
+              </MenuItem>
+              {CROP_OPTIONS.map(option => (
+                <MenuItem key={option.value} value={option.value}>
+                  {option.label}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Stack>
+      </DialogContent>
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button startIcon={<RestartAlt />} onClick={() => onApply(undefined)} sx={{ mr: 'auto' }}>
+          Use Batch Defaults
+        </Button>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={() => onApply(draft)}>
+          Apply
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default FileSettingsDialog;
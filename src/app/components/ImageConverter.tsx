@@ -1,68 +1,51 @@
 'use client';
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
 import { Container, Box, Typography, Stack, Alert } from '@mui/material';
 import UnifiedFileManager, { ProcessedFile } from './UnifiedFileManager';
 import ConversionOptions, { ConversionSettings } from './ConversionOptions';
+import type { FileSettingsOverride } from './FileSettingsDialog';
 import { ImageConverter as Converter } from '../utils/imageConverter';
+import { DEFAULT_CONVERSION_SETTINGS } from '../utils/conversionDefaults';
+import { ConversionPresets } from '../utils/conversionPresets';
 
 const ImageConverterApp = () => {
-  const [conversionSettings, setConversionSettings] = useState<ConversionSettings>({
-    outputFormat: 'jpeg',
-    quality: 80,
-    maintainAspectRatio: true,
-    removeMetadata: false,
-    compressionLevel: 5,
-    
-    // Crop settings
-    enableCrop: false,
-    cropAspectRatio: undefined,
-    cropMode: 'center',
-    cropSizeMode: 'fit',
-    
-    // Format-specific defaults
-    progressive: false,
-    optimizeHuffman: false,
-    bitDepth: 8,
-    colorType: 'rgba',
-    lossless: false,
-    method: 4,
-    icoSizes: [16, 32, 48],
-    icoIncludeAllSizes: false,
-    icoExportMode: 'single',
-    vectorColors: 16,
-    pathPrecision: 1.0,
-    smoothing: 1.0,
-    simplification: 1.0,
-    vectorQuality: 'balanced',
-    
-    // TIFF-specific defaults
-    tiffCompression: 'lzw',
-    tiffBitDepth: 8,
-    tiffColorModel: 'rgb',
-    tiffPredictor: 1,
-    tiffTileSize: 0,
-    tiffResolutionUnit: 'inch',
-    tiffResolutionX: 300,
-    tiffResolutionY: 300,
-    tiffFillOrder: 'msb2lsb',
-    tiffPhotometric: 'rgb',
-    tiffPlanarConfig: 'chunky',
-    tiffRowsPerStrip: 8,
-  });
+  const [conversionSettings, setConversionSettings] = useState<ConversionSettings>(DEFAULT_CONVERSION_SETTINGS);
+  const [settingsLoaded, setSettingsLoaded] = useState(false);
+
+  // Restore the last session's settings on mount
+  useEffect(() => {
+    const savedSettings = ConversionPresets.loadLastSettings();
+    if (savedSettings) {
+      setConversionSettings(savedSettings);
+    }
+    setSettingsLoaded(true);
+  }, []);
+
+  // Save settings whenever they change
+  useEffect(() => {
+    if (settingsLoaded) {
+      ConversionPresets.saveLastSettings(conversionSettings);
+    }
+  }, [conversionSettings, settingsLoaded]);
 
   const handleProcessFiles = useCallback(async (
     files: File[],
     onProgress?: (fileIndex: number, progress: number) => void,
-    abortSignal?: AbortSignal
+    abortSignal?: AbortSignal,
+    settingsOverride?: FileSettingsOverride
   ): Promise<ProcessedFile[]> => {
     const results: ProcessedFile[] = [];
+    // Per-file overrides replace the matching batch settings
+    const settings: ConversionSettings = settingsOverride
+      ? { ...conversionSettings, ...settingsOverride }
+      : conversionSettings;
 
     try {
       // Use batch conversion for multiple files
       const conversionResults = await Converter.convertMultipleImages(
         files,
-        conversionSettings,
+        settings,
         (completed, total) => {
           // Overall progress can be used if needed
         },
@@ -82,7 +65,7 @@ const ImageConverterApp = () => {
             originalSize: file?.size || 0,
             status: 'error',
             error: 'Conversion result length mismatch',
-            outputFormat: conversionSettings.outputFormat,
+            outputFormat: settings.outputFormat,
           });
         }
         return results;
@@ -100,7 +83,7 @@ const ImageConverterApp = () => {
             originalSize: file?.size || 0,
             status: 'error',
             error: 'No conversion result received',
-            outputFormat: conversionSettings.outputFormat,
+            outputFormat: settings.outputFormat,
           });
           continue;
         }
@@ -113,8 +96,12 @@ const ImageConverterApp = () => {
             convertedBlob: conversionResult.blob,
             convertedSize: conversionResult.convertedSize || 0,
             status: 'completed',
-            outputFormat: conversionSettings.outputFormat,
+            outputFormat: settings.outputFormat,
             isMergedIntoPdf: conversionResult.isMergedIntoPdf,
+            renditions: conversionResult.renditions,
+            chosenQuality: conversionResult.chosenQuality,
+            targetSizeMet: conversionResult.targetSizeMet,
+            qualityScore: conversionResult.qualityScore,
           });
         } else {
           results.push({
@@ -123,7 +110,7 @@ const ImageConverterApp = () => {
             originalSize: conversionResult.originalSize,
             status: 'error',
             error: conversionResult.error || 'Conversion failed',
-            outputFormat: conversionSettings.outputFormat,
+            outputFormat: settings.outputFormat,
           });
         }
       }
@@ -137,7 +124,7 @@ const ImageConverterApp = () => {
           originalSize: file?.size || 0,
           status: 'error',
           error: error instanceof Error ? error.message : 'Batch conversion failed',
-          outputFormat: conversionSettings.outputFormat,
+          outputFormat: settings.outputFormat,
         });
       }
     }
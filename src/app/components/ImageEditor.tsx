@@ -75,6 +75,8 @@ import {
 } from '@mui/icons-material';
 import ReactCrop, { Crop as ReactCropType, PixelCrop } from 'react-image-crop';
 import 'react-image-crop/dist/ReactCrop.css';
+import { ImageFilters } from '../utils/imageFilters';
+import { ResampleFilter, Resampler } from '../utils/resampler';
 
 // Types
 interface HistoryState {
@@ -103,11 +105,12 @@ interface TransformSettings {
 }
 
 interface ResampleSettings {
-  algorithm: 'nearest' | 'bilinear' | 'bicubic' | 'bicubic-sharper' | 'bicubic-smoother' | 'reduce-noise';
+  algorithm: ResampleFilter | 'bicubic-sharper' | 'bicubic-smoother' | 'reduce-noise';
   preserveDetails: boolean;
   reduceNoise: number;
   sharpenRadius: number;
   sharpenAmount: number;
+  sharpenThreshold: number;
 }
 
 interface CropSettings {
@@ -147,11 +150,29 @@ const RESAMPLING_ALGORITHMS = [
   { value: 'nearest', label: 'Nearest Neighbor', description: 'Sharp edges, pixelated' },
   { value: 'bilinear', label: 'Bilinear', description: 'Smooth, basic interpolation' },
   { value: 'bicubic', label: 'Bicubic', description: 'High quality, balanced' },
+  { value: 'mitchell', label: 'Mitchell', description: 'Balanced sharpness and ringing' },
+  { value: 'lanczos2', label: 'Lanczos2', description: 'Sharp, little ringing' },
+  { value: 'lanczos3', label: 'Lanczos3', description: 'Sharpest, best for photos' },
+  { value: 'box', label: 'Box (Area Average)', description: 'Clean downscaling' },
   { value: 'bicubic-sharper', label: 'Bicubic Sharper', description: 'Enhanced detail preservation' },
   { value: 'bicubic-smoother', label: 'Bicubic Smoother', description: 'Reduced aliasing' },
-  { value: 'reduce-noise', label: 'Preserve Details', description: 'AI-enhanced quality' },
+  { value: 'reduce-noise', label: 'Preserve Details', description: 'Edge-preserving noise reduction' },
 ] as const;
 
+// Editor presets that map onto one of the shared resampling filters
+const RESAMPLE_FILTERS: Record<ResampleSettings['algorithm'], ResampleFilter> = {
+  nearest: 'nearest',
+  bilinear: 'bilinear',
+  bicubic: 'bicubic',
+  mitchell: 'mitchell',
+  lanczos2: 'lanczos2',
+  lanczos3: 'lanczos3',
+  box: 'box',
+  'bicubic-sharper': 'lanczos3',
+  'bicubic-smoother': 'mitchell',
+  'reduce-noise': 'mitchell',
+};
+
 const BLEND_MODES = [
   'normal', 'multiply', 'screen', 'overlay', 'soft-light', 'hard-light', 
   'color-dodge', 'color-burn', 'darken', 'lighten', 'difference', 'exclusion'
@@ -280,6 +301,7 @@ const ImageEditor: React.FC<ImageEditorProps> = ({
     reduceNoise: 50,
     sharpenRadius: 1,
     sharpenAmount: 100,
+    sharpenThreshold: 0,
   });
   
   // UI state
@@ -959,46 +981,34 @@ const ImageEditor: React.FC<ImageEditorProps> = ({
     // Get current image data
     const currentImageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
     
-    // Create temporary canvas for resampling
-    const tempCanvas = document.createElement('canvas');
-    const tempCtx = tempCanvas.getContext('2d');
-    if (!tempCtx) return;
+    // Resample in linear light with the selected filter
+    let resized = Resampler.resample(currentImageData, {
+      sourceX: 0,
+      sourceY: 0,
+      sourceWidth: canvas.width,
+      sourceHeight: canvas.height,
+      width: newWidth,
+      height: newHeight,
+    }, RESAMPLE_FILTERS[resampleSettings.algorithm]);
     
-    tempCanvas.width = canvas.width;
-    tempCanvas.height = canvas.height;
-    tempCtx.putImageData(currentImageData, 0, 0);
+    if (resampleSettings.algorithm === 'reduce-noise') {
+      resized = ImageFilters.denoise(resized, {
+        strength: resampleSettings.reduceNoise,
+        preserveDetails: resampleSettings.preserveDetails,
+      });
+    }
+    if (resampleSettings.algorithm === 'bicubic-sharper') {
+      resized = ImageFilters.unsharpMask(resized, {
+        radius: resampleSettings.sharpenRadius,
+        amount: resampleSettings.sharpenAmount,
+        threshold: resampleSettings.sharpenThreshold,
+      });
+    }
     
     // Resize main canvas
     canvas.width = newWidth;
     canvas.height = newHeight;
-    
-    // Apply resampling algorithm
-    ctx.imageSmoothingEnabled = resampleSettings.algorithm !== 'nearest';
-    
-    switch (resampleSettings.algorithm) {
-      case 'nearest':
-        ctx.imageSmoothingEnabled = false;
-        break;
-      case 'bilinear':
-        ctx.imageSmoothingQuality = 'low';
-        break;
-      case 'bicubic':
-        ctx.imageSmoothingQuality = 'high';
-        break;
-      case 'bicubic-sharper':
-        ctx.imageSmoothingQuality = 'high';
-        // Additional sharpening would be applied here
-        break;
-      case 'bicubic-smoother':
-        ctx.imageSmoothingQuality = 'medium';
-        break;
-      case 'reduce-noise':
-        ctx.imageSmoothingQuality = 'high';
-        // Noise reduction algorithm would be applied here
-        break;
-    }
-    
-    ctx.drawImage(tempCanvas, 0, 0, newWidth, newHeight);
+    ctx.putImageData(resized, 0, 0);
     
     // Update dimensions
     setCanvasWidth(newWidth);
@@ -1826,6 +1836,70 @@ const ImageEditor: React.FC<ImageEditorProps> = ({
                     </Select>
                   </FormControl>
                   
+                  {resampleSettings.algorithm === 'bicubic-sharper' && (
+                    <Box>
+                      <Typography variant="caption" gutterBottom>
+                        Sharpen Amount: {resampleSettings.sharpenAmount}%
+                      </Typography>
+                      <Slider
+                        value={resampleSettings.sharpenAmount}
+                        onChange={(_, value) => setResampleSettings(prev => ({ ...prev, sharpenAmount: value as number }))}
+                        min={0}
+                        max={300}
+                        step={10}
+                        size="small"
+                      />
+                      <Typography variant="caption" gutterBottom>
+                        Radius: {resampleSettings.sharpenRadius}px
+                      </Typography>
+                      <Slider
+                        value={resampleSettings.sharpenRadius}
+                        onChange={(_, value) => setResampleSettings(prev => ({ ...prev, sharpenRadius: value as number }))}
+                        min={0.3}
+                        max={5}
+                        step={0.1}
+                        size="small"
+                      />
+                      <Typography variant="caption" gutterBottom>
+                        Threshold: {resampleSettings.sharpenThreshold}
+                      </Typography>
+                      <Slider
+                        value={resampleSettings.sharpenThreshold}
+                        onChange={(_, value) => setResampleSettings(prev => ({ ...prev, sharpenThreshold: value as number }))}
+                        min={0}
+                        max={64}
+                        step={1}
+                        size="small"
+                      />
+                    </Box>
+                  )}
+                  
+                  {resampleSettings.algorithm === 'reduce-noise' && (
+                    <Box>
+                      <Typography variant="caption" gutterBottom>
+                        Reduce Noise: {resampleSettings.reduceNoise}%
+                      </Typography>
+                      <Slider
+                        value={resampleSettings.reduceNoise}
+                        onChange={(_, value) => setResampleSettings(prev => ({ ...prev, reduceNoise: value as number }))}
+                        min={0}
+                        max={100}
+                        step={5}
+                        size="small"
+                      />
+                      <FormControlLabel
+                        control={
+                          <Switch
+                            size="small"
+                            checked={resampleSettings.preserveDetails}
+                            onChange={(e) => setResampleSettings(prev => ({ ...prev, preserveDetails: e.target.checked }))}
+                          />
+                        }
+                        label="Preserve Details"
+                      />
+                    </Box>
+                  )}
+                  
                   <Button
                     variant="contained"
                     size="small"
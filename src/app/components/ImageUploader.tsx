@@ -127,7 +127,7 @@ const ImageUploader = ({ onFilesSelected }: ImageUploaderProps) => {
   const { getRootProps, getInputProps, isDragActive, open } = useDropzone({
     onDrop,
     accept: {
-      'image/*': ['.jpeg', '.jpg', '.png', '.gif', '.bmp', '.webp', '.heic', '.heif', '.tiff', '.svg']
+      'image/*': ['.jpeg', '.jpg', '.png', '.gif', '.bmp', '.webp', '.avif', '.jxl', '.heic', '.heif', '.tiff', '.svg']
     },
     multiple: true,
     noClick: true,
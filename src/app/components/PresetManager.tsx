@@ -0,0 +1,243 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  FormControl,
+  InputLabel,
+  ListSubheader,
+  MenuItem,
+  Select,
+  TextField,
+  Tooltip,
+  Typography,
+  Alert,
+} from '@mui/material';
+import { Save, Delete, FileUpload, FileDownload, Bookmarks } from '@mui/icons-material';
+import { saveAs } from 'file-saver';
+import type { ConversionSettings } from './ConversionOptions';
+import { BUILT_IN_PRESETS, ConversionPreset, ConversionPresets } from '../utils/conversionPresets';
+
+interface PresetManagerProps {
+  settings: ConversionSettings;
+  onSettingsChange: (settings: ConversionSettings) => void;
+}
+
+const PresetManager = ({ settings, onSettingsChange }: PresetManagerProps) => {
+  const [userPresets, setUserPresets] = useState<ConversionPreset[]>([]);
+  const [selectedId, setSelectedId] = useState('');
+  const [saveDialogOpen, setSaveDialogOpen] = useState(false);
+  const [presetName, setPresetName] = useState('');
+  const [presetDescription, setPresetDescription] = useState('');
+  const [message, setMessage] = useState<{ severity: 'success' | 'error'; text: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Load saved presets on mount
+  useEffect(() => {
+    setUserPresets(ConversionPresets.loadUserPresets());
+  }, []);
+
+  const allPresets = [...BUILT_IN_PRESETS, ...userPresets];
+  const selectedPreset = allPresets.find(preset => preset.id === selectedId);
+  const isModified = !!selectedPreset &&
+    JSON.stringify(ConversionPresets.getSettings(selectedPreset)) !== JSON.stringify(settings);
+
+  const updateUserPresets = (presets: ConversionPreset[]) => {
+    setUserPresets(presets);
+    ConversionPresets.saveUserPresets(presets);
+  };
+
+  const handleSelect = (id: string) => {
+    const preset = allPresets.find(item => item.id === id);
+    if (!preset) return;
+
+    setSelectedId(id);
+    setMessage(null);
+    onSettingsChange(ConversionPresets.getSettings(preset));
+  };
+
+  const openSaveDialog = () => {
+    const editable = selectedPreset && !selectedPreset.builtIn;
+    setPresetName(editable ? selectedPreset.name : '');
+    setPresetDescription(editable ? selectedPreset.description || '' : '');
+    setSaveDialogOpen(true);
+  };
+
+  // Saving under the name of an existing user preset overwrites it
+  const handleSave = () => {
+    const existing = ConversionPresets.find(userPresets, presetName);
+    const preset = existing
+      ? { ...existing, name: presetName.trim(), description: presetDescription || undefined, settings: { ...settings } }
+      : ConversionPresets.create(presetName, settings, presetDescription || undefined);
+
+    updateUserPresets(existing
+      ? userPresets.map(item => (item.id === existing.id ? preset : item))
+      : [...userPresets, preset]);
+    setSelectedId(preset.id);
+    setSaveDialogOpen(false);
+    setMessage({ severity: 'success', text: `Saved preset "${preset.name}"` });
+  };
+
+  const handleDelete = () => {
+    if (!selectedPreset || selectedPreset.builtIn) return;
+
+    updateUserPresets(userPresets.filter(preset => preset.id !== selectedPreset.id));
+    setSelectedId('');
+    setMessage({ severity: 'success', text: `Deleted preset "${selectedPreset.name}"` });
+  };
+
+  // Exports the selected preset, or all user presets when none is selected
+  const handleExport = () => {
+    const presets = selectedPreset ? [selectedPreset] : userPresets;
+    const fileName = selectedPreset
+      ? `${selectedPreset.name.replace(/[^\w-]+/g, '-').toLowerCase()}.preset.json`
+      : 'openloveimage-presets.json';
+    saveAs(new Blob([ConversionPresets.serialize(presets)], { type: 'application/json' }), fileName);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = ConversionPresets.parse(await file.text())
+        .map(preset => ConversionPresets.create(preset.name, ConversionPresets.getSettings(preset), preset.description));
+      // Imported presets replace user presets with the same name
+      const names = new Set(imported.map(preset => preset.name.toLowerCase()));
+      updateUserPresets([...userPresets.filter(preset => !names.has(preset.name.toLowerCase())), ...imported]);
+
+      if (imported.length === 1) {
+        setSelectedId(imported[0].id);
+        onSettingsChange(ConversionPresets.getSettings(imported[0]));
+      }
+      setMessage({ severity: 'success', text: `Imported ${imported.length} preset${imported.length === 1 ? '' : 's'}` });
+    } catch (error) {
+      console.error('Preset import failed:', error);
+      setMessage({ severity: 'error', text: `Failed to import presets: ${error instanceof Error ? error.message : 'Unknown error'}` });
+    }
+  };
+
+  return (
+    <Box>
+      <Box sx={{
+        display: 'flex',
+        flexDirection: { xs: 'column', md: 'row' },
+        alignItems: { xs: 'stretch', md: 'center' },
+        gap: 2
+      }}>
+        <FormControl fullWidth sx={{ flex: 2 }}>
+          <InputLabel>Preset</InputLabel>
+          <Select
+            value={selectedId}
+            label="Preset"
+            onChange={(e) => handleSelect(e.target.value)}
+            renderValue={() => selectedPreset ? `${selectedPreset.name}${isModified ? ' (modified)' : ''}` : ''}
+          >
+            <ListSubheader>Built-in</ListSubheader>
+            {BUILT_IN_PRESETS.map(preset => (
+              <MenuItem key={preset.id} value={preset.id}>
+                <Box>
+                  <Typography variant="body1">{preset.name}</Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    {preset.description}
+                  </Typography>
+                </Box>
+              </MenuItem>
+            ))}
+            {userPresets.length > 0 && <ListSubheader>My Presets</ListSubheader>}
+            {userPresets.map(preset => (
+              <MenuItem key={preset.id} value={preset.id}>
+                <Box>
+                  <Typography variant="body1">{preset.name}</Typography>
+                  {preset.description && (
+                    <Typography variant="caption" color="text.secondary">
+                      {preset.description}
+                    </Typography>
+                  )}
+                </Box>
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+
+        <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+          <Button variant="outlined" startIcon={<Save />} onClick={openSaveDialog}>
+            Save
+          </Button>
+          <Tooltip title={selectedPreset?.builtIn ? 'Built-in presets cannot be deleted' : ''}>
+            <span>
+              <Button
+                variant="outlined"
+                color="error"
+                startIcon={<Delete />}
+                onClick={handleDelete}
+                disabled={!selectedPreset || selectedPreset.builtIn}
+              >
+                Delete
+              </Button>
+            </span>
+          </Tooltip>
+          <Button variant="outlined" startIcon={<FileUpload />} onClick={() => fileInputRef.current?.click()}>
+            Import
+          </Button>
+          <Button
+            variant="outlined"
+            startIcon={<FileDownload />}
+            onClick={handleExport}
+            disabled={!selectedPreset && userPresets.length === 0}
+          >
+            Export
+          </Button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" hidden onChange={handleImport} />
+        </Box>
+      </Box>
+
+      {message && (
+        <Alert severity={message.severity} onClose={() => setMessage(null)} sx={{ mt: 2 }}>
+          {message.text}
+        </Alert>
+      )}
+
+      <Dialog open={saveDialogOpen} onClose={() => setSaveDialogOpen(false)} maxWidth="xs" fullWidth>
+        <DialogTitle>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <Bookmarks color="primary" />
+            Save Preset
+          </Box>
+        </DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            fullWidth
+            margin="dense"
+            label="Name"
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            helperText={ConversionPresets.find(userPresets, presetName) ? 'Overwrites the existing preset' : ' '}
+          />
+          <TextField
+            fullWidth
+            margin="dense"
+            label="Description (optional)"
+            value={presetDescription}
+            onChange={(e) => setPresetDescription(e.target.value)}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setSaveDialogOpen(false)}>Cancel</Button>
+          <Button variant="contained" onClick={handleSave} disabled={!presetName.trim()}>
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default PresetManager;
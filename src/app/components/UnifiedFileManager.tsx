@@ -23,6 +23,8 @@ import {
   Stack,
   Fade,
   Collapse,
+  Checkbox,
+  Tooltip,
 } from '@mui/material';
 import {
   CloudUpload,
@@ -51,9 +53,18 @@ import ImagePreview from './ImagePreview';
 import BeforeAfterPreview from './BeforeAfterPreview';
 import ImageEditor from './ImageEditor';
 import ImageMetadataViewer from './ImageMetadataViewer';
+import FileSettingsDialog, { FileSettingsOverride, describeOverride, getEffectiveOverride } from './FileSettingsDialog';
+import type { ConversionSettings } from './ConversionOptions';
 import { heicTo, isHeic } from 'heic-to';
 import { useSettings } from './SettingsContext';
 import { ImageConverter } from '../utils/imageConverter';
+import type { RenditionOutput } from '../utils/conversionRecipe';
+import { DEFAULT_FILE_NAME_TEMPLATE, FileNameContext, FileNameTemplate } from '../utils/fileNameTemplate';
+import { AutoQuality, AutoQualityScore } from '../utils/autoQuality';
+import exifr from 'exifr';
+
+// Wait for settings to settle before predicting sizes, e.g. while typing a quality
+const PREDICTION_DEBOUNCE_MS = 400;
 
 // Helper function to get actual file type including HEIC
 const getActualFileType = (file: File): string => {
@@ -99,13 +110,26 @@ export interface ProcessedFile {
   // Cancellation tracking
   isCancelling?: boolean;
   // PDF multi-page support
-  isMergedIntoPdf?: boolean; // Flag to indicate file was merged into a multi-page PDF
+  isMergedIntoPdf?: boolean; // Flag to indicate file was merged into a multi-page PDF or TIFF
+  // Per-file settings that replace the batch defaults
+  settingsOverride?: FileSettingsOverride;
+  // Recipe outputs; convertedBlob then holds a ZIP of all of them
+  renditions?: RenditionOutput[];
+  // Target file size and auto-quality modes: the quality that was picked and whether the target was met
+  chosenQuality?: number;
+  targetSizeMet?: boolean;
+  qualityScore?: AutoQualityScore;
 }
 
 interface UnifiedFileManagerProps {
-  onProcessFiles: (files: File[], onProgress?: (fileIndex: number, progress: number) => void, abortSignal?: AbortSignal) => Promise<ProcessedFile[]>;
+  onProcessFiles: (
+    files: File[],
+    onProgress?: (fileIndex: number, progress: number) => void,
+    abortSignal?: AbortSignal,
+    settingsOverride?: FileSettingsOverride
+  ) => Promise<ProcessedFile[]>;
   outputFormat: string;
-  conversionSettings?: any; // Add conversion settings to determine filename generation
+  conversionSettings: ConversionSettings; // Batch settings, also used for filename generation
 }
 
 const UnifiedFileManager = ({ onProcessFiles, outputFormat, conversionSettings }: UnifiedFileManagerProps) => {
@@ -147,6 +171,11 @@ const UnifiedFileManager = ({ onProcessFiles, outputFormat, conversionSettings }
 
   // Add state for predicted sizes
   const [predictedSizes, setPredictedSizes] = useState<{ [key: number]: number }>({});
+  const [predictionErrors, setPredictionErrors] = useState<{ [key: number]: string }>({});
+
+  // Per-file settings states
+  const [selectedFiles, setSelectedFiles] = useState<number[]>([]);
+  const [fileSettingsTargets, setFileSettingsTargets] = useState<number[] | null>(null);
 
   // Simulate upload progress for each file with realistic speeds and ETA
   const simulateUploadProgress = useCallback(async (file: File, fileIndex: number) => {
@@ -235,7 +264,7 @@ const UnifiedFileManager = ({ onProcessFiles, outputFormat, conversionSettings }
   const { getRootProps, getInputProps, isDragActive, open } = useDropzone({
     onDrop,
     accept: {
-      'image/*': ['.jpeg', '.jpg', '.png', '.gif', '.bmp', '.webp', '.heic', '.heif', '.tiff', '.svg']
+      'image/*': ['.jpeg', '.jpg', '.png', '.gif', '.bmp', '.webp', '.avif', '.jxl', '.heic', '.heif', '.tiff', '.svg']
     },
     multiple: true,
     noClick: true,
@@ -320,33 +349,63 @@ const UnifiedFileManager = ({ onProcessFiles, outputFormat, conversionSettings }
     }
   };
 
-  // Update processed files when files or output format changes
+  // Update processed files when files or output format changes, keeping per-file overrides
   useEffect(() => {
-    const newProcessedFiles: ProcessedFile[] = files
+    setProcessedFiles(prev => files
       .filter(file => file && file.name) // Filter out any undefined or invalid files
-      .map((file, index) => ({
-        id: `${file.name}-${index}`,
-        originalFile: file,
-        originalSize: file.size,
-        status: 'pending',
-        outputFormat,
+      .map((file, index) => {
+        const settingsOverride = prev.find(processedFile => processedFile.originalFile === file)?.settingsOverride;
+        return {
+          id: `${file.name}-${index}`,
+          originalFile: file,
+          originalSize: file.size,
+          status: 'pending',
+          outputFormat: settingsOverride?.outputFormat || outputFormat,
+          settingsOverride,
+        };
       }));
-    setProcessedFiles(newProcessedFiles);
+    setSelectedFiles([]);
   }, [files, outputFormat]);
 
-  // Effect to calculate predictions when processedFiles or conversionSettings change
+  // Per-file overrides as a string, so progress updates of processedFiles don't restart the predictions
+  const settingsOverridesKey = JSON.stringify(processedFiles.map(file => file.settingsOverride || null));
+
+  // Predict output sizes once settings stop changing, one file at a time. Any change
+  // cancels the predictions still running for the previous settings.
   useEffect(() => {
-    processedFiles.forEach((file, index) => {
-      if (file.status === 'pending') {
-        const targetFile = croppedFiles[index] || files[index];
-        if (targetFile) {
-          ImageConverter.estimateConvertedSize(targetFile, conversionSettings).then(size => {
-            setPredictedSizes(prev => ({ ...prev, [index]: size }));
+    const controller = new AbortController();
+    const settingsOverrides: (FileSettingsOverride | null)[] = JSON.parse(settingsOverridesKey);
+    const timer = setTimeout(async () => {
+      for (const [index, targetFile] of files.entries()) {
+        const file = croppedFiles[index] || targetFile;
+        if (!file) continue;
+
+        try {
+          const size = await ImageConverter.estimateConvertedSize(
+            file,
+            { ...conversionSettings, ...settingsOverrides[index] },
+            controller.signal
+          );
+          setPredictedSizes(prev => ({ ...prev, [index]: size }));
+          setPredictionErrors(prev => {
+            const next = { ...prev };
+            delete next[index];
+            return next;
           });
+        } catch (error) {
+          if (controller.signal.aborted) return;
+          // One unreadable file shouldn't keep the others from being predicted
+          console.warn(`Size prediction failed for ${file.name}:`, error);
+          setPredictionErrors(prev => ({ ...prev, [index]: error instanceof Error ? error.message : 'Unknown error' }));
         }
       }
-    });
-  }, [processedFiles, conversionSettings, croppedFiles, files]);
+    }, PREDICTION_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [files, croppedFiles, conversionSettings, settingsOverridesKey]);
 
   // File management functions
   const removeFile = useCallback((index: number) => {
@@ -546,12 +605,12 @@ const UnifiedFileManager = ({ onProcessFiles, outputFormat, conversionSettings }
     setIsProcessing(true);
 
     try {
-      // Process each pending file sequentially using the same logic as individual conversion
-      for (let i = 0; i < pendingIndices.length; i++) {
-        const fileIndex = pendingIndices[i];
+      // Start every pending file at once using the same logic as individual conversion;
+      // the conversion worker pool limits how many run in parallel
+      await Promise.all(pendingIndices.map(async (fileIndex) => {
         const targetFile = croppedFiles[fileIndex] || files[fileIndex];
         
-        if (!targetFile) continue;
+        if (!targetFile) return;
 
         // Update status to processing for this specific file
         setProcessedFiles(prev => 
@@ -594,7 +653,12 @@ const UnifiedFileManager = ({ onProcessFiles, outputFormat, conversionSettings }
           };
 
           // Use the same conversion logic as individual file processing with abort signal
-          const results = await onProcessFiles([targetFile], handleProgress, abortController.signal);
+          const results = await onProcessFiles(
+            [targetFile],
+            handleProgress,
+            abortController.signal,
+            processedFiles[fileIndex]?.settingsOverride
+          );
           const result = results[0];
           
           // Validate single result
@@ -617,7 +681,7 @@ const UnifiedFileManager = ({ onProcessFiles, outputFormat, conversionSettings }
                   : file
               )
             );
-            continue;
+            return;
           }
 
           // Update this specific file with success result
@@ -668,7 +732,7 @@ const UnifiedFileManager = ({ onProcessFiles, outputFormat, conversionSettings }
             return newState;
           });
         }
-      }
+      }));
       
     } catch (error) {
       console.error('Batch processing failed:', error);
@@ -736,7 +800,12 @@ const UnifiedFileManager = ({ onProcessFiles, outputFormat, conversionSettings }
       };
 
       // Use individual file processing logic with abort signal
-      const results = await onProcessFiles([targetFile], handleProgress, abortController.signal);
+      const results = await onProcessFiles(
+        [targetFile],
+        handleProgress,
+        abortController.signal,
+        processedFiles[fileIndex]?.settingsOverride
+      );
       const result = results[0];
       
       // Validate single result
@@ -833,8 +902,13 @@ const UnifiedFileManager = ({ onProcessFiles, outputFormat, conversionSettings }
           ? { 
               ...file, 
               status: 'pending' as const,
+              outputFormat: file.settingsOverride?.outputFormat || outputFormat,
               convertedBlob: undefined,
               convertedSize: undefined,
+              renditions: undefined,
+              chosenQuality: undefined,
+              targetSizeMet: undefined,
+              qualityScore: undefined,
               error: undefined,
               conversionProgress: undefined,
               conversionStartTime: undefined,
@@ -846,18 +920,86 @@ const UnifiedFileManager = ({ onProcessFiles, outputFormat, conversionSettings }
     );
   };
 
+  // Per-file settings handlers
+  const toggleFileSelection = (fileIndex: number) => {
+    setSelectedFiles(prev =>
+      prev.includes(fileIndex) ? prev.filter(index => index !== fileIndex) : [...prev, fileIndex]
+    );
+  };
+
+  const toggleSelectAll = () => {
+    setSelectedFiles(prev => (prev.length === processedFiles.length ? [] : processedFiles.map((_, index) => index)));
+  };
+
+  // Applies an override to the target files; converted files pick it up when converted again
+  const handleApplyFileSettings = (override: FileSettingsOverride | undefined) => {
+    const targets = fileSettingsTargets || [];
+    const settingsOverride = getEffectiveOverride(override, conversionSettings);
+
+    setProcessedFiles(prev =>
+      prev.map((file, index) =>
+        targets.includes(index)
+          ? {
+              ...file,
+              settingsOverride,
+              outputFormat: file.status === 'completed' ? file.outputFormat : settingsOverride?.outputFormat || outputFormat,
+            }
+          : file
+      )
+    );
+    setFileSettingsTargets(null);
+  };
+
   // Helper function for filename generation
-  const generateOutputFileName = (originalFileName: string, outputFormat: string): string => {
+  const generateOutputFileName = (originalFileName: string, outputFormat: string, convertedBlob?: Blob): string => {
     let fileExtension = outputFormat === 'jpeg' ? 'jpg' : outputFormat;
     
-    // Special handling for ICO multiple mode
-    if (outputFormat === 'ico' && conversionSettings?.icoExportMode === 'multiple') {
+    // ZIP output: ICO multiple mode, extracted animation frames and TIFF pages
+    if (convertedBlob?.type === 'application/zip' ||
+        (outputFormat === 'ico' && conversionSettings?.icoExportMode === 'multiple')) {
       fileExtension = 'zip';
     }
     
     return originalFileName.replace(/\.[^/.]+$/, '') + '.' + fileExtension;
   };
 
+  // Fills the file name template from the converted file; slow tokens are only computed when used
+  const resolveOutputPath = async (processedFile: ProcessedFile, fileIndex: number, date: Date): Promise<string> => {
+    const settings = { ...conversionSettings, ...processedFile.settingsOverride };
+    const template = settings.fileNameTemplate || DEFAULT_FILE_NAME_TEMPLATE;
+    const blob = processedFile.convertedBlob!;
+    const fileName = generateOutputFileName(processedFile.originalFile.name, processedFile.outputFormat, blob);
+
+    const context: FileNameContext = {
+      originalName: processedFile.originalFile.name,
+      extension: fileName.slice(fileName.lastIndexOf('.') + 1),
+      format: processedFile.outputFormat,
+      quality: settings.quality,
+      index: fileIndex + 1,
+      date,
+    };
+
+    if ((FileNameTemplate.usesToken(template, 'width') || FileNameTemplate.usesToken(template, 'height')) &&
+        blob.type !== 'application/zip') {
+      try {
+        const bitmap = await createImageBitmap(blob);
+        context.width = bitmap.width;
+        context.height = bitmap.height;
+        bitmap.close();
+      } catch {
+        // Formats the browser can't decode (e.g. JPEG XL, TIFF) leave the size empty
+      }
+    }
+    if (FileNameTemplate.usesToken(template, 'exif')) {
+      context.exif = await exifr.parse(processedFile.originalFile).catch(() => undefined);
+    }
+    if (FileNameTemplate.usesToken(template, 'hash')) {
+      context.hash = await FileNameTemplate.hash(blob);
+    }
+
+    return FileNameTemplate.render(template, context);
+  };
+
   // Best-effort save helper: prefers File System Access API (cancellable), falls back to file-saver
   const saveBlobWithPicker = async (blob: Blob, suggestedName: string): Promise<boolean> => {
     try {
@@ -899,8 +1041,9 @@ const UnifiedFileManager = ({ onProcessFiles, outputFormat, conversionSettings }
   const downloadSingleFile = async (processedFile: ProcessedFile) => {
     if (!processedFile.convertedBlob || !processedFile.originalFile) return;
 
-    const fileName = generateOutputFileName(processedFile.originalFile.name, processedFile.outputFormat);
-    await saveBlobWithPicker(processedFile.convertedBlob, fileName);
+    // Folders in the template only apply inside ZIP archives
+    const outputPath = await resolveOutputPath(processedFile, processedFiles.indexOf(processedFile), new Date());
+    await saveBlobWithPicker(processedFile.convertedBlob, outputPath.split('/').pop()!);
   };
 
   const downloadAllAsZip = async () => {
@@ -943,15 +1086,19 @@ const UnifiedFileManager = ({ onProcessFiles, outputFormat, conversionSettings }
 
     // Build ZIP (after user has confirmed location when possible)
     const zip = new JSZip();
-    completedFiles.forEach((file) => {
+    const usedPaths = new Set<string>();
+    const date = new Date();
+    for (const file of completedFiles) {
+      // Recipe renditions go into the archive individually rather than as nested ZIPs
+      if (file.renditions) {
+        file.renditions.forEach(rendition => zip.file(FileNameTemplate.makeUnique(rendition.fileName, usedPaths), rendition.blob));
+        continue;
+      }
       if (file.convertedBlob && file.originalFile && file.originalFile.name) {
-        const fileName = generateOutputFileName(
-          file.originalFile.name,
-          file.outputFormat
-        );
-        zip.file(fileName, file.convertedBlob);
+        const outputPath = await resolveOutputPath(file, processedFiles.indexOf(file), date);
+        zip.file(FileNameTemplate.makeUnique(outputPath, usedPaths), file.convertedBlob);
       }
-    });
+    }
 
     const zipBlob = await zip.generateAsync({ type: 'blob' });
 
@@ -1101,7 +1248,7 @@ const UnifiedFileManager = ({ onProcessFiles, outputFormat, conversionSettings }
             </Stack>
 
             <Typography variant="body2" component="div" color="text.secondary" sx={{ mb: 2 }}>
-              <strong>Supported formats:</strong> HEIC, JPG, PNG, WebP, GIF, BMP, TIFF, SVG
+              <strong>Supported formats:</strong> HEIC, AVIF, JPEG XL, JPG, PNG, WebP, GIF, BMP, TIFF, SVG
             </Typography>
             
             <Typography variant="caption" display="block" sx={{ opacity: 0.7 }}>
@@ -1130,6 +1277,13 @@ const UnifiedFileManager = ({ onProcessFiles, outputFormat, conversionSettings }
                 >
                   {expandedFiles ? <ExpandLess /> : <ExpandMore />}
                 </IconButton>
+                <Checkbox
+                  size="small"
+                  checked={selectedFiles.length > 0 && selectedFiles.length === processedFiles.length}
+                  indeterminate={selectedFiles.length > 0 && selectedFiles.length < processedFiles.length}
+                  onChange={toggleSelectAll}
+                  inputProps={{ 'aria-label': 'Select all images' }}
+                />
                 <Typography variant="h6" sx={{ fontWeight: 600 }}>
                   Images ({files.length})
                 </Typography>
@@ -1180,6 +1334,17 @@ const UnifiedFileManager = ({ onProcessFiles, outputFormat, conversionSettings }
               </Box>
               
               <Stack direction="row" spacing={1}>
+                {selectedFiles.length > 0 && (
+                  <Button
+                    variant="outlined"
+                    startIcon={<Tune />}
+                    onClick={() => setFileSettingsTargets(selectedFiles)}
+                    sx={{ fontWeight: 600 }}
+                  >
+                    Apply to Selected ({selectedFiles.length})
+                  </Button>
+                )}
+
                 {!isProcessing && pendingCount > 0 && (
                   <Button
                     variant="contained"
@@ -1267,9 +1432,22 @@ const UnifiedFileManager = ({ onProcessFiles, outputFormat, conversionSettings }
                       sx={{ 
                         px: 0, 
                         py: 2,
-                        alignItems: 'flex-start'
+                        alignItems: 'flex-start',
+                        // Files with their own settings are marked along the left edge
+                        ...(file.settingsOverride && {
+                          borderLeft: '3px solid',
+                          borderColor: 'warning.main',
+                          pl: 1,
+                        })
                       }}
                     >
+                      <Checkbox
+                        size="small"
+                        checked={selectedFiles.includes(originalIndex)}
+                        onChange={() => toggleFileSelection(originalIndex)}
+                        inputProps={{ 'aria-label': `Select ${file.originalFile?.name || `file ${originalIndex + 1}`}` }}
+                        sx={{ mt: 1.5, ml: -1 }}
+                      />
                       <ListItemAvatar sx={{ minWidth: 72 }}>
                         {file.originalFile?.name && loadingThumbnails[file.originalFile.name] ? (
                           <Avatar
@@ -1337,11 +1515,39 @@ const UnifiedFileManager = ({ onProcessFiles, outputFormat, conversionSettings }
                             <Box sx={{ display: 'flex', gap: 0.5 }}>
                               <Chip 
                                 size="small" 
-                                label={`${file.originalFile ? getActualFileType(file.originalFile) : 'File'} → ${file.outputFormat.toUpperCase()}`}
+                                label={`${file.originalFile ? getActualFileType(file.originalFile) : 'File'} → ${
+                                  file.renditions ? `${file.renditions.length} outputs` : file.outputFormat.toUpperCase()
+                                }`}
                                 color={file.status === 'completed' ? 'success' : 'primary'} 
                                 variant={file.status === 'completed' ? 'filled' : 'outlined'}
                                 sx={{ fontSize: '0.7rem', height: 20, flexShrink: 0 }}
                               />
+                              {file.chosenQuality !== undefined && file.qualityScore && (
+                                <Tooltip title={file.qualityScore.met
+                                  ? 'Lowest quality that reaches the perceptual target'
+                                  : 'Even the highest quality misses the perceptual target'}>
+                                  <Chip 
+                                    size="small" 
+                                    label={`Q${file.chosenQuality} · ${AutoQuality.formatScore(file.qualityScore)}`}
+                                    color={file.qualityScore.met ? 'info' : 'warning'} 
+                                    variant="outlined"
+                                    sx={{ fontSize: '0.7rem', height: 20, flexShrink: 0 }}
+                                  />
+                                </Tooltip>
+                              )}
+                              {file.chosenQuality !== undefined && !file.qualityScore && (
+                                <Tooltip title={file.targetSizeMet
+                                  ? 'Highest quality that fits the target file size'
+                                  : 'Even the lowest quality is over the target file size'}>
+                                  <Chip 
+                                    size="small" 
+                                    label={`Q${file.chosenQuality}`}
+                                    color={file.targetSizeMet ? 'info' : 'warning'} 
+                                    variant="outlined"
+                                    sx={{ fontSize: '0.7rem', height: 20, flexShrink: 0 }}
+                                  />
+                                </Tooltip>
+                              )}
                               {croppedFiles[originalIndex] && (
                                 <Chip 
                                   size="small" 
@@ -1352,11 +1558,29 @@ const UnifiedFileManager = ({ onProcessFiles, outputFormat, conversionSettings }
                                   sx={{ fontSize: '0.7rem', height: 20, flexShrink: 0 }}
                                 />
                               )}
+                              {file.settingsOverride && (
+                                <Tooltip title="This file uses its own settings instead of the batch defaults">
+                                  <Chip 
+                                    size="small" 
+                                    label={describeOverride(file.settingsOverride)}
+                                    color="warning" 
+                                    variant="outlined"
+                                    icon={<Tune />}
+                                    onClick={() => setFileSettingsTargets([originalIndex])}
+                                    sx={{ fontSize: '0.7rem', height: 20, flexShrink: 0 }}
+                                  />
+                                </Tooltip>
+                              )}
                             </Box>
                           </Box>
                         }
                         secondary={
                           <Box sx={{ mt: 0.5 }}>
+                            {file.status === 'pending' && predictionErrors[originalIndex] && (
+                              <Tooltip title={predictionErrors[originalIndex]}>
+                                <Chip label="Size prediction failed" size="small" variant="outlined" sx={{ mb: 1, borderRadius: '16px' }} />
+                              </Tooltip>
+                            )}
                             {file.status === 'pending' && predictedSizes[originalIndex] > 0 && (
                               <Chip
                                 icon={<Tune fontSize="small" />}
@@ -1450,7 +1674,7 @@ const UnifiedFileManager = ({ onProcessFiles, outputFormat, conversionSettings }
                             {/* PDF Merge Indicator */}
                             {file.isMergedIntoPdf && (
                               <Typography variant="caption" component="span" color="primary.main" sx={{ mt: 0.5, display: 'block' }}>
-                                📄 Merged into multi-page PDF (download from first file)
+                                📄 Merged into multi-page {file.outputFormat.toUpperCase()} (download from first file)
                               </Typography>
                             )}
                             
@@ -1516,6 +1740,19 @@ const UnifiedFileManager = ({ onProcessFiles, outputFormat, conversionSettings }
                           {/* Pending State Actions */}
                           {file.status === 'pending' && (
                             <>
+                              <IconButton 
+                                onClick={() => setFileSettingsTargets([originalIndex])}
+                                color="warning"
+                                size="small"
+                                title="Settings for this file"
+                                sx={{
+                                  bgcolor: file.settingsOverride ? 'warning.main' : 'action.hover',
+                                  color: file.settingsOverride ? 'warning.contrastText' : 'warning.main',
+                                  '&:hover': { bgcolor: 'warning.light', color: 'warning.contrastText' }
+                                }}
+                              >
+                                <Tune />
+                              </IconButton>
                               <IconButton 
                                 onClick={() => file.originalFile && handleCropClick(file.originalFile, originalIndex)}
                                 color="secondary"
@@ -1614,7 +1851,7 @@ const UnifiedFileManager = ({ onProcessFiles, outputFormat, conversionSettings }
                                   <IconButton 
                                     onClick={() => file.originalFile && handlePreviewClick(
                                       file.convertedBlob!,
-                                      generateOutputFileName(file.originalFile.name, file.outputFormat),
+                                      generateOutputFileName(file.originalFile.name, file.outputFormat, file.convertedBlob),
                                       true,
                                       file.originalFile,
                                       file.convertedSize,
@@ -1784,6 +2021,16 @@ const UnifiedFileManager = ({ onProcessFiles, outputFormat, conversionSettings }
           }
         }}
       />
+
+      {/* Per-file Settings Dialog */}
+      <FileSettingsDialog
+        open={fileSettingsTargets !== null}
+        onClose={() => setFileSettingsTargets(null)}
+        onApply={handleApplyFileSettings}
+        batchSettings={conversionSettings}
+        override={fileSettingsTargets?.length === 1 ? processedFiles[fileSettingsTargets[0]]?.settingsOverride : undefined}
+        fileCount={fileSettingsTargets?.length || 0}
+      />
     </Box>
   );
 };
@@ -0,0 +1,126 @@
+export interface AnimationFrame {
+  imageData: ImageData; // Fully composited frame at canvas size
+  delay: number; // Milliseconds
+}
+
+export interface AnimatedImage {
+  width: number;
+  height: number;
+  frames: AnimationFrame[];
+  loopCount: number; // Total plays, 0 = infinite
+}
+
+// Output formats that can carry an animation
+export const ANIMATED_OUTPUT_FORMATS = ['gif', 'webp', 'png'];
+
+export type FrameDisposal = 'none' | 'background' | 'previous';
+
+// A partial frame as stored in the file, before compositing
+export interface FramePatch {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  pixels: Uint8ClampedArray; // RGBA, width * height * 4
+  delay: number;
+  blend: boolean; // Alpha-blend over the canvas instead of replacing it
+  disposal: FrameDisposal;
+}
+
+/**
+ * Shared helpers for the GIF, APNG and animated WebP codecs: compositing
+ * partial frames into full frames and decoding embedded still images.
+ */
+export class FrameCompositor {
+  static compose(width: number, height: number, patches: FramePatch[]): AnimationFrame[] {
+    let canvas = new Uint8ClampedArray(width * height * 4);
+    const frames: AnimationFrame[] = [];
+
+    for (const patch of patches) {
+      const saved = patch.disposal === 'previous' ? canvas.slice() : null;
+      this.drawPatch(canvas, width, height, patch);
+      frames.push({
+        imageData: new ImageData(canvas.slice(), width, height),
+        delay: patch.delay,
+      });
+
+      if (patch.disposal === 'background') {
+        this.clearRegion(canvas, width, height, patch);
+      } else if (saved) {
+        canvas = saved;
+      }
+    }
+
+    return frames;
+  }
+
+  // Decodes a standalone still image (PNG/WebP frame) with the platform's decoder
+  static async decodeStill(blob: Blob): Promise<Uint8ClampedArray> {
+    const bitmap = await createImageBitmap(blob);
+    try {
+      const ctx = this.createContext(bitmap.width, bitmap.height);
+      ctx.drawImage(bitmap, 0, 0);
+      return ctx.getImageData(0, 0, bitmap.width, bitmap.height).data;
+    } finally {
+      bitmap.close();
+    }
+  }
+
+  // Uses an OffscreenCanvas where available (workers, the Node CLI) and a DOM canvas otherwise
+  static createContext(width: number, height: number): CanvasRenderingContext2D {
+    if (typeof OffscreenCanvas !== 'undefined') {
+      const ctx = new OffscreenCanvas(width, height).getContext('2d');
+      if (!ctx) {
+        throw new Error('Failed to get canvas context');
+      }
+      // Only the drawing and pixel APIs both contexts share are used on it
+      return ctx as unknown as CanvasRenderingContext2D;
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Failed to get canvas context');
+    }
+    return ctx;
+  }
+
+  private static drawPatch(canvas: Uint8ClampedArray, width: number, height: number, patch: FramePatch) {
+    for (let y = 0; y < patch.height; y++) {
+      const canvasY = patch.y + y;
+      if (canvasY >= height) break;
+
+      for (let x = 0; x < patch.width; x++) {
+        const canvasX = patch.x + x;
+        if (canvasX >= width) break;
+
+        const source = (y * patch.width + x) * 4;
+        const target = (canvasY * width + canvasX) * 4;
+        const sourceAlpha = patch.pixels[source + 3] / 255;
+
+        if (!patch.blend || sourceAlpha === 1) {
+          canvas.set(patch.pixels.subarray(source, source + 4), target);
+        } else if (sourceAlpha > 0) {
+          // Non-premultiplied "source over"
+          const targetAlpha = canvas[target + 3] / 255;
+          const outAlpha = sourceAlpha + targetAlpha * (1 - sourceAlpha);
+          for (let c = 0; c < 3; c++) {
+            canvas[target + c] = (patch.pixels[source + c] * sourceAlpha +
+              canvas[target + c] * targetAlpha * (1 - sourceAlpha)) / outAlpha;
+          }
+          canvas[target + 3] = outAlpha * 255;
+        }
+      }
+    }
+  }
+
+  private static clearRegion(canvas: Uint8ClampedArray, width: number, height: number, patch: FramePatch) {
+    for (let y = patch.y; y < Math.min(height, patch.y + patch.height); y++) {
+      const start = (y * width + patch.x) * 4;
+      const end = (y * width + Math.min(width, patch.x + patch.width)) * 4;
+      canvas.fill(0, start, end);
+    }
+  }
+}
@@ -0,0 +1,119 @@
+import JSZip from 'jszip';
+import type { ConversionSettings } from '../components/ConversionOptions';
+import { ANIMATED_OUTPUT_FORMATS, AnimatedImage } from './animatedImage';
+import { ApngCodec } from './apngCodec';
+import { GifCodec } from './gifCodec';
+import { ImageGeometry } from './imageGeometry';
+import { ImageTransform } from './imageTransform';
+import { RasterEncoder } from './rasterEncoder';
+import { WebpAnimation } from './webpAnimation';
+
+/**
+ * Converts animated GIF, APNG and WebP input: every frame is cropped and
+ * resized, then re-encoded as an animation or extracted into a ZIP. Extracted
+ * frames are encoded by the caller, which knows the available output formats.
+ */
+export class AnimationConverter {
+  // Decodes animated input when the output can keep the animation
+  // (or frames are being extracted); still images return null
+  static async load(file: File, settings: ConversionSettings): Promise<AnimatedImage | null> {
+    const keepsAnimation = settings.preserveAnimation !== false && ANIMATED_OUTPUT_FORMATS.includes(settings.outputFormat);
+    if (!settings.extractFrames && !keepsAnimation) {
+      return null;
+    }
+
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    let animation: AnimatedImage | null = null;
+    try {
+      if (GifCodec.isGif(bytes)) {
+        animation = GifCodec.decode(bytes);
+      } else if (ApngCodec.isAnimated(bytes)) {
+        animation = await ApngCodec.decode(bytes);
+      } else if (WebpAnimation.isAnimated(bytes)) {
+        animation = await WebpAnimation.decode(bytes);
+      }
+    } catch (error) {
+      throw new Error(`Failed to decode animation: ${error instanceof Error ? error.message : error}`);
+    }
+
+    return animation && animation.frames.length > 1 ? animation : null;
+  }
+
+  static async convert(
+    animation: AnimatedImage,
+    settings: ConversionSettings,
+    originalFile: File,
+    encodeFrame: (imageData: ImageData) => Promise<Blob>
+  ): Promise<Blob> {
+    const transformed = this.transformFrames(animation, settings);
+
+    if (settings.extractFrames) {
+      return await this.extractFramesToZip(transformed, settings, originalFile, encodeFrame);
+    }
+
+    try {
+      switch (settings.outputFormat) {
+        case 'gif':
+          return GifCodec.encode(transformed, RasterEncoder.getGifOptions(settings));
+        case 'webp':
+          return await WebpAnimation.encode(transformed, RasterEncoder.getWebpOptions(settings));
+        case 'png':
+          return await ApngCodec.encode(transformed, RasterEncoder.getPngOptions(settings));
+        default:
+          throw new Error(`${settings.outputFormat.toUpperCase()} does not support animation`);
+      }
+    } catch (error) {
+      console.error('Animation conversion failed:', error);
+      throw new Error(`Failed to convert animation: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Applies crop and resize to every frame
+  private static transformFrames(animation: AnimatedImage, settings: ConversionSettings): AnimatedImage {
+    const geometry = ImageGeometry.calculateOutputGeometry(animation.width, animation.height, settings);
+    if (ImageTransform.isIdentity(animation, geometry)) {
+      return animation;
+    }
+
+    const frames = animation.frames.map(frame => ({
+      imageData: ImageTransform.apply(frame.imageData, settings),
+      delay: frame.delay,
+    }));
+    return { width: geometry.width, height: geometry.height, frames, loopCount: animation.loopCount };
+  }
+
+  // Writes every frame as a still image in the output format, plus the frame timing
+  private static async extractFramesToZip(
+    animation: AnimatedImage,
+    settings: ConversionSettings,
+    originalFile: File,
+    encodeFrame: (imageData: ImageData) => Promise<Blob>
+  ): Promise<Blob> {
+    try {
+      const zip = new JSZip();
+      const baseName = originalFile.name.replace(/\.[^/.]+$/, '');
+      const extension = settings.outputFormat === 'jpeg' ? 'jpg' : settings.outputFormat;
+      const digits = String(animation.frames.length).length;
+      const timing: { file: string; delay: number }[] = [];
+
+      for (const [index, frame] of animation.frames.entries()) {
+        const fileName = `${baseName}_frame_${String(index + 1).padStart(digits, '0')}.${extension}`;
+        const blob = await encodeFrame(frame.imageData);
+        zip.file(fileName, await blob.arrayBuffer());
+        timing.push({ file: fileName, delay: frame.delay });
+      }
+
+      zip.file('animation.json', JSON.stringify({ loopCount: animation.loopCount, frames: timing }, null, 2));
+
+      return await zip.generateAsync({
+        type: 'blob',
+        compression: 'DEFLATE',
+        compressionOptions: { level: 6 },
+        platform: 'UNIX'
+      });
+    } catch (error) {
+      console.error('Frame extraction failed:', error);
+      throw new Error(`Failed to extract frames: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
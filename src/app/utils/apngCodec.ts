@@ -0,0 +1,203 @@
+import type { AnimatedImage, FrameDisposal, FramePatch } from './animatedImage';
+import { FrameCompositor } from './animatedImage';
+import { ColorQuantizer } from './colorQuantizer';
+import { PNG_SIGNATURE, PngChunk, PngEncodeOptions, PngEncoder } from './pngEncoder';
+
+interface ApngFrameControl {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  delay: number;
+  disposal: FrameDisposal;
+  blend: boolean;
+  data: Uint8Array[];
+}
+
+const DISPOSALS: FrameDisposal[] = ['none', 'background', 'previous'];
+
+/**
+ * Animated PNG support. Frames are decoded by wrapping each one in a standalone
+ * PNG for the browser's decoder, then composited; encoding writes full frames
+ * through PngEncoder so every color type and compression level applies.
+ */
+export class ApngCodec {
+  // An APNG is a PNG with an acTL chunk before the first IDAT
+  static isAnimated(bytes: Uint8Array): boolean {
+    if (!PNG_SIGNATURE.every((value, index) => bytes[index] === value)) return false;
+
+    for (const chunk of this.readChunks(bytes)) {
+      if (chunk.type === 'acTL') return true;
+      if (chunk.type === 'IDAT') return false;
+    }
+    return false;
+  }
+
+  static async decode(bytes: Uint8Array): Promise<AnimatedImage> {
+    let header: Uint8Array | null = null;
+    let loopCount = 0;
+    let seenImageData = false;
+    const sharedChunks: Uint8Array[] = [];
+    const controls: ApngFrameControl[] = [];
+
+    for (const chunk of this.readChunks(bytes)) {
+      const view = new DataView(chunk.data.buffer, chunk.data.byteOffset, chunk.data.byteLength);
+
+      switch (chunk.type) {
+        case 'IHDR':
+          header = chunk.data;
+          break;
+        case 'acTL':
+          loopCount = view.getUint32(4);
+          break;
+        case 'fcTL': {
+          const delayNumerator = view.getUint16(20);
+          const delayDenominator = view.getUint16(22) || 100;
+          controls.push({
+            width: view.getUint32(4),
+            height: view.getUint32(8),
+            x: view.getUint32(12),
+            y: view.getUint32(16),
+            delay: Math.round((delayNumerator / delayDenominator) * 1000),
+            disposal: DISPOSALS[chunk.data[24]] || 'none',
+            blend: chunk.data[25] === 1,
+            data: [],
+          });
+          break;
+        }
+        case 'IDAT':
+          seenImageData = true;
+          // The default image is only part of the animation when an fcTL precedes it
+          if (controls.length > 0) controls[controls.length - 1].data.push(chunk.data);
+          break;
+        case 'fdAT':
+          if (controls.length > 0) controls[controls.length - 1].data.push(chunk.data.subarray(4));
+          break;
+        case 'IEND':
+          break;
+        default:
+          // PLTE, tRNS and color chunks apply to every frame
+          if (!seenImageData) sharedChunks.push(PngEncoder.createChunk(chunk.type, chunk.data));
+      }
+    }
+
+    if (!header || controls.length === 0) {
+      throw new Error('PNG contains no animation frames');
+    }
+
+    const width = new DataView(header.buffer, header.byteOffset).getUint32(0);
+    const height = new DataView(header.buffer, header.byteOffset).getUint32(4);
+    const patches: FramePatch[] = [];
+
+    for (const [index, control] of controls.entries()) {
+      const frameHeader = header.slice();
+      const headerView = new DataView(frameHeader.buffer);
+      headerView.setUint32(0, control.width);
+      headerView.setUint32(4, control.height);
+
+      const png = new Blob([
+        PNG_SIGNATURE,
+        PngEncoder.createChunk('IHDR', frameHeader),
+        ...sharedChunks,
+        ...control.data.map(data => PngEncoder.createChunk('IDAT', data)),
+        PngEncoder.createChunk('IEND', new Uint8Array(0)),
+      ], { type: 'image/png' });
+
+      patches.push({
+        x: control.x,
+        y: control.y,
+        width: control.width,
+        height: control.height,
+        pixels: await FrameCompositor.decodeStill(png),
+        delay: control.delay,
+        blend: control.blend,
+        // "Previous" on the first frame is treated as "background" by the spec
+        disposal: index === 0 && control.disposal === 'previous' ? 'background' : control.disposal,
+      });
+    }
+
+    return {
+      width,
+      height,
+      frames: FrameCompositor.compose(width, height, patches),
+      loopCount,
+    };
+  }
+
+  static async encode(animation: AnimatedImage, options: PngEncodeOptions = {}): Promise<Blob> {
+    const { width, height, frames } = animation;
+    const shared = options.colorType === 'palette'
+      ? this.quantizeFrames(animation, 1 << (options.bitDepth || 8), options.dithering !== false)
+      : null;
+
+    const actl = new Uint8Array(8);
+    new DataView(actl.buffer).setUint32(0, frames.length);
+    new DataView(actl.buffer).setUint32(4, animation.loopCount);
+
+    const chunks: Uint8Array[] = [PNG_SIGNATURE];
+    let sequence = 0;
+
+    for (const [index, frame] of frames.entries()) {
+      const quantized = shared
+        ? { palette: shared.palette, indices: shared.indices.subarray(index * width * height, (index + 1) * width * height) }
+        : undefined;
+      const image = await PngEncoder.encodeImage(frame.imageData, options, quantized);
+
+      if (index === 0) {
+        chunks.push(
+          PngEncoder.createChunk('IHDR', image.header),
+          PngEncoder.createChunk('acTL', actl),
+          ...image.paletteChunks
+        );
+      }
+
+      const fctl = new Uint8Array(26);
+      const fctlView = new DataView(fctl.buffer);
+      fctlView.setUint32(0, sequence++);
+      fctlView.setUint32(4, width);
+      fctlView.setUint32(8, height);
+      fctlView.setUint16(20, Math.min(0xffff, Math.round(frame.delay)));
+      fctlView.setUint16(22, 1000);
+      // Full frames: no disposal, replace instead of blending
+      chunks.push(PngEncoder.createChunk('fcTL', fctl));
+
+      if (index === 0) {
+        chunks.push(PngEncoder.createChunk('IDAT', image.data));
+      } else {
+        const fdat = new Uint8Array(image.data.length + 4);
+        new DataView(fdat.buffer).setUint32(0, sequence++);
+        fdat.set(image.data, 4);
+        chunks.push(PngEncoder.createChunk('fdAT', fdat));
+      }
+    }
+
+    chunks.push(PngEncoder.createChunk('IEND', new Uint8Array(0)));
+    return new Blob(chunks, { type: 'image/png' });
+  }
+
+  // APNG frames share one PLTE, so the palette is built from all frames at once
+  private static quantizeFrames(animation: AnimatedImage, maxColors: number, dithering: boolean) {
+    const frameSize = animation.width * animation.height * 4;
+    const data = new Uint8ClampedArray(frameSize * animation.frames.length);
+    animation.frames.forEach((frame, index) => data.set(frame.imageData.data, index * frameSize));
+
+    return ColorQuantizer.quantize(
+      { data, width: animation.width, height: animation.height * animation.frames.length } as ImageData,
+      { maxColors, dithering }
+    );
+  }
+
+  private static readChunks(bytes: Uint8Array): PngChunk[] {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const chunks: PngChunk[] = [];
+    let offset = PNG_SIGNATURE.length;
+
+    while (offset + 8 <= bytes.length) {
+      const length = view.getUint32(offset);
+      const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+      chunks.push({ type, data: bytes.subarray(offset + 8, offset + 8 + length) });
+      offset += length + 12;
+    }
+    return chunks;
+  }
+}
@@ -0,0 +1,128 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import { Canvas } from '@napi-rs/canvas';
+import type { ConversionSettings } from '../components/ConversionOptions';
+import { NodeEnvironment } from '../../cli/nodeEnvironment';
+import { createSettings as createBaseSettings, createImage as createBaseImage, recordAttempts } from '../../test/fixtures';
+import { AutoQuality } from './autoQuality';
+import { ImageMetrics, QualityMetric } from './imageMetrics';
+
+function createSettings(overrides: Partial<ConversionSettings> = {}): ConversionSettings {
+  return createBaseSettings({
+    outputFormat: 'jpeg',
+    quality: 90,
+    autoQuality: { jpeg: { enabled: true, metric: 'psnr', target: 30 } },
+    ...overrides,
+  });
+}
+
+// A warm gradient with a little noise
+function createImage(): ImageData {
+  return createBaseImage(48, 40, (x, y) => {
+    const luma = x * 3 + y * 2 + ((x * 7919 + y * 104729) % 9);
+    return [luma + 20, luma + 10, luma];
+  });
+}
+
+// Stands in for a lossy encoder whose error always shrinks as quality rises
+function degrade(image: ImageData, quality: number): ImageData {
+  const step = 2 + Math.floor((100 - quality) / 2);
+  const output = new ImageData(image.width, image.height);
+  for (let i = 0; i < image.data.length; i++) {
+    output.data[i] = i % 4 === 3 ? 255 : Math.floor(image.data[i] / step) * step;
+  }
+  return output;
+}
+
+async function toPng(image: ImageData): Promise<Blob> {
+  const canvas = new Canvas(image.width, image.height);
+  canvas.getContext('2d').putImageData(image, 0, 0);
+  return new Blob([await canvas.encode('png')], { type: 'image/png' });
+}
+
+// The reference is requested as lossless PNG, the recorded attempts are degraded by their quality
+function createEncoder(image: ImageData) {
+  const { attempts, encode } = recordAttempts(settings => toPng(degrade(image, settings.quality)));
+  return {
+    attempts,
+    encode: (settings: ConversionSettings) => (settings.outputFormat === 'png' ? toPng(image) : encode(settings)),
+  };
+}
+
+describe('AutoQuality', () => {
+  before(() => NodeEnvironment.install());
+
+  it('is only active for formats that use the quality setting', () => {
+    assert.equal(AutoQuality.isActive(createSettings()), true);
+    assert.equal(AutoQuality.isActive(createSettings({ autoQuality: undefined })), false);
+    assert.equal(AutoQuality.isActive(createSettings({ outputFormat: 'png' })), false);
+    assert.equal(AutoQuality.isActive(createSettings({
+      outputFormat: 'webp',
+      lossless: true,
+      autoQuality: { webp: { enabled: true, metric: 'ssim', target: 0.98 } },
+    })), false);
+    assert.equal(AutoQuality.isActive(createSettings({
+      outputFormat: 'jxl',
+      jxlDistance: 1,
+      autoQuality: { jxl: { enabled: true, metric: 'ssim', target: 0.98 } },
+    })), false);
+  });
+
+  it('compares against the target in the direction of the metric', () => {
+    assert.equal(AutoQuality.meets('ssim', 0.99, 0.98), true);
+    assert.equal(AutoQuality.meets('psnr', 39, 40), false);
+    assert.equal(AutoQuality.meets('distance', 1.2, 1.5), true);
+    assert.equal(AutoQuality.meets('distance', 1.8, 1.5), false);
+  });
+
+  it('reads targets saved under the old metric name', () => {
+    const settings = createSettings({
+      outputFormat: 'webp',
+      autoQuality: { webp: { enabled: true, metric: 'butteraugli' as QualityMetric, target: 1.5 } },
+    });
+    assert.equal(AutoQuality.getTarget(settings)?.metric, 'distance');
+    assert.equal(AutoQuality.parseMetric('butteraugli'), 'distance');
+    assert.equal(AutoQuality.parseMetric('vmaf'), undefined);
+  });
+
+  it('formats scores with their unit', () => {
+    assert.equal(AutoQuality.formatScore({ metric: 'ssim', value: 0.98123, met: true }), 'SSIM 0.9812');
+    assert.equal(AutoQuality.formatScore({ metric: 'psnr', value: 41.2, met: true }), 'PSNR 41.20 dB');
+  });
+
+  it('finds the lowest quality that reaches the target', async () => {
+    const image = createImage();
+    const { attempts, encode } = createEncoder(image);
+    const result = await AutoQuality.search(createSettings(), encode);
+
+    let expected = 100;
+    while (expected > 5 && ImageMetrics.score(image, degrade(image, expected - 1), 'psnr') >= 30) expected--;
+    assert.equal(result.quality, expected);
+    assert.equal(result.score.met, true);
+    assert.ok(result.score.value >= 30);
+    // A binary search, not a scan of every quality
+    assert.ok(attempts.length <= 8);
+  });
+
+  it('reports a missed target when even quality 100 falls short', async () => {
+    const { attempts, encode } = createEncoder(createImage());
+    const result = await AutoQuality.search(
+      createSettings({ autoQuality: { jpeg: { enabled: true, metric: 'psnr', target: 99 } } }), encode
+    );
+
+    assert.equal(result.quality, 100);
+    assert.equal(result.score.met, false);
+    assert.equal(attempts.length, 1);
+  });
+
+  it('turns off auto-quality and size targeting inside attempts', async () => {
+    const { attempts, encode } = createEncoder(createImage());
+    await AutoQuality.search(createSettings({ targetSizeKB: 10, webpTargetSizeKB: 10 }), encode);
+
+    for (const attempt of attempts) {
+      assert.equal(attempt.autoQuality, undefined);
+      assert.equal(attempt.targetSizeKB, 0);
+      assert.equal(attempt.webpTargetSizeKB, 0);
+    }
+  });
+});
@@ -0,0 +1,195 @@
+import type { ConversionSettings } from '../components/ConversionOptions';
+import { FrameCompositor } from './animatedImage';
+import { AvifCodec } from './avifCodec';
+import { ImageMetrics, QualityMetric } from './imageMetrics';
+import { JxlCodec } from './jxlCodec';
+
+export interface AutoQualityTarget {
+  enabled: boolean;
+  metric: QualityMetric;
+  target: number; // e.g. SSIM 0.98, perceptual distance 1.5, PSNR 40 dB
+}
+
+export interface AutoQualityScore {
+  metric: QualityMetric;
+  value: number;
+  met: boolean; // False when even quality 100 misses the target
+}
+
+export interface AutoQualityResult {
+  blob: Blob;
+  quality: number;
+  score: AutoQualityScore;
+}
+
+type Encode = (settings: ConversionSettings) => Promise<Blob>;
+
+export const AUTO_QUALITY_FORMATS = ['jpeg', 'webp', 'avif', 'jxl'];
+
+export const QUALITY_METRICS: { value: QualityMetric; name: string; label: string; defaultTarget: number; step: number }[] = [
+  { value: 'ssim', name: 'SSIM', label: 'SSIM (higher is better)', defaultTarget: 0.98, step: 0.001 },
+  { value: 'ms-ssim', name: 'MS-SSIM', label: 'MS-SSIM (higher is better)', defaultTarget: 0.99, step: 0.001 },
+  { value: 'distance', name: 'Distance', label: 'Perceptual distance, approximate (lower is better)', defaultTarget: 1.5, step: 0.1 },
+  { value: 'psnr', name: 'PSNR', label: 'PSNR in dB (higher is better)', defaultTarget: 40, step: 0.5 },
+];
+
+// Earlier names of metrics, still accepted in saved settings and on the command line
+const METRIC_ALIASES: Record<string, QualityMetric> = { butteraugli: 'distance' };
+
+const MIN_QUALITY = 5;
+const MAX_COMPARED_PIXELS = 2_000_000; // Larger outputs are box-downscaled before scoring
+
+/**
+ * Auto-quality mode: binary searches the lowest encoder quality whose output
+ * still reaches a perceptual score against a lossless render of the same
+ * conversion, e.g. "smallest JPEG with SSIM ≥ 0.98". Targets are set per
+ * output format, so multi-format recipes can use different ones.
+ */
+export class AutoQuality {
+  static getTarget(settings: ConversionSettings): AutoQualityTarget | undefined {
+    const target = this.readTarget(settings);
+    return target?.enabled && this.supports(settings) ? target : undefined;
+  }
+
+  // The stored target of the output format, with saved metric names brought up to date
+  static readTarget(settings: ConversionSettings): AutoQualityTarget | undefined {
+    const target = settings.autoQuality?.[settings.outputFormat];
+    const metric = target && this.parseMetric(target.metric);
+    return metric ? { ...target, metric } : undefined;
+  }
+
+  static isActive(settings: ConversionSettings): boolean {
+    return !!this.getTarget(settings);
+  }
+
+  // Lossless output and JPEG XL set by distance don't use the quality setting
+  static supports(settings: ConversionSettings): boolean {
+    switch (settings.outputFormat) {
+      case 'jpeg':
+        return true;
+      case 'webp':
+        return !settings.lossless;
+      case 'avif':
+        return !settings.avifLossless;
+      case 'jxl':
+        return !settings.jxlLossless && settings.jxlDistance === undefined;
+      default:
+        return false;
+    }
+  }
+
+  static parseMetric(name: string): QualityMetric | undefined {
+    const metric = METRIC_ALIASES[name] ?? name;
+    return QUALITY_METRICS.some(option => option.value === metric) ? metric as QualityMetric : undefined;
+  }
+
+  static meets(metric: QualityMetric, value: number, target: number): boolean {
+    return ImageMetrics.isLowerBetter(metric) ? value <= target : value >= target;
+  }
+
+  // e.g. "SSIM 0.9812" or "PSNR 41.20 dB"
+  static formatScore(score: AutoQualityScore): string {
+    const { name } = QUALITY_METRICS.find(option => option.value === score.metric)!;
+    const precise = score.metric === 'ssim' || score.metric === 'ms-ssim';
+    return `${name} ${score.value.toFixed(precise ? 4 : 2)}${score.metric === 'psnr' ? ' dB' : ''}`;
+  }
+
+  static async search(settings: ConversionSettings, encode: Encode, abortSignal?: AbortSignal): Promise<AutoQualityResult> {
+    const target = this.getTarget(settings)!;
+    // Attempts run without auto-quality, and without the encoder's own size targeting
+    const base: ConversionSettings = { ...settings, autoQuality: undefined, targetSizeKB: 0, webpTargetSizeKB: 0 };
+
+    // The reference is the same conversion stored losslessly, so resizing and cropping cancel out
+    const reference = this.fit(await this.decode(await encode({
+      ...base,
+      outputFormat: 'png',
+      colorType: 'rgba',
+      bitDepth: 8,
+      compressionLevel: 1,
+      removeMetadata: true,
+    }), 'png'));
+
+    const attempt = async (quality: number): Promise<AutoQualityResult> => {
+      if (abortSignal?.aborted) {
+        throw new Error('Conversion cancelled');
+      }
+      const blob = await encode({ ...base, quality });
+      const value = ImageMetrics.score(reference, this.fit(await this.decode(blob, settings.outputFormat)), target.metric);
+      return { blob, quality, score: { metric: target.metric, value, met: this.meets(target.metric, value, target.target) } };
+    };
+
+    // Lowest quality that meets the target, assuming scores improve with quality
+    let best = await attempt(100);
+    if (!best.score.met) return best;
+
+    let low = MIN_QUALITY;
+    let high = 100;
+    while (low < high) {
+      const quality = Math.floor((low + high) / 2);
+      const candidate = await attempt(quality);
+      if (candidate.score.met) {
+        best = candidate;
+        high = quality;
+      } else {
+        low = quality + 1;
+      }
+    }
+    return best;
+  }
+
+  // Decoded pixels flattened onto white, so transparent areas compare equally
+  private static async decode(blob: Blob, format: string): Promise<ImageData> {
+    let imageData: ImageData;
+    if (format === 'avif') {
+      imageData = await AvifCodec.decode(blob);
+    } else if (format === 'jxl') {
+      imageData = await JxlCodec.decode(blob);
+    } else {
+      const bitmap = await createImageBitmap(blob);
+      const ctx = FrameCompositor.createContext(bitmap.width, bitmap.height);
+      ctx.drawImage(bitmap, 0, 0);
+      bitmap.close();
+      imageData = ctx.getImageData(0, 0, bitmap.width, bitmap.height);
+    }
+
+    const { data } = imageData;
+    for (let i = 0; i < data.length; i += 4) {
+      const alpha = data[i + 3] / 255;
+      if (alpha === 1) continue;
+      data[i] = data[i] * alpha + 255 * (1 - alpha);
+      data[i + 1] = data[i + 1] * alpha + 255 * (1 - alpha);
+      data[i + 2] = data[i + 2] * alpha + 255 * (1 - alpha);
+      data[i + 3] = 255;
+    }
+    return imageData;
+  }
+
+  // Box-averages by a whole factor until the image is small enough to score quickly
+  private static fit(image: ImageData): ImageData {
+    const factor = Math.ceil(Math.sqrt((image.width * image.height) / MAX_COMPARED_PIXELS));
+    if (factor <= 1) return image;
+
+    const width = Math.floor(image.width / factor);
+    const height = Math.floor(image.height / factor);
+    const output = new ImageData(width, height);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const sums = [0, 0, 0];
+        for (let dy = 0; dy < factor; dy++) {
+          for (let dx = 0; dx < factor; dx++) {
+            const i = ((y * factor + dy) * image.width + x * factor + dx) * 4;
+            sums[0] += image.data[i];
+            sums[1] += image.data[i + 1];
+            sums[2] += image.data[i + 2];
+          }
+        }
+        const o = (y * width + x) * 4;
+        output.data[o] = sums[0] / (factor * factor);
+        output.data[o + 1] = sums[1] / (factor * factor);
+        output.data[o + 2] = sums[2] / (factor * factor);
+        output.data[o + 3] = 255;
+      }
+    }
+    return output;
+  }
+}
@@ -0,0 +1,185 @@
+import { HighPrecision, PixelData } from './highPrecisionImage';
+import { IsoBmff } from './isoBmff';
+
+export type AvifChromaSubsampling = '420' | '422' | '444';
+
+export interface AvifEncodeOptions {
+  quality: number; // 0-100
+  speed?: number; // 0 (slowest, smallest) - 10 (fastest)
+  chromaSubsampling?: AvifChromaSubsampling;
+  bitDepth?: 8 | 10 | 12;
+  lossless?: boolean;
+  iccProfile?: Uint8Array; // Stored as a colr box next to libavif's nclx one
+}
+
+// libavif subsampling values (0 = 4:0:0 is not exposed)
+const SUBSAMPLE_VALUES: Record<AvifChromaSubsampling, number> = {
+  '420': 1,
+  '422': 2,
+  '444': 3,
+};
+
+/**
+ * AVIF encoder/decoder backed by the libavif (aom) WASM build from jSquash.
+ * Codec modules are imported lazily so the WASM is only fetched when AVIF is used.
+ */
+export class AvifCodec {
+  static async encode(pixels: PixelData, options: AvifEncodeOptions): Promise<Blob> {
+    const { default: encode } = await import('@jsquash/avif/encode');
+    const bitDepth = options.bitDepth || 8;
+
+    const baseOptions = {
+      quality: Math.min(100, Math.max(0, Math.round(options.quality))),
+      speed: Math.min(10, Math.max(0, options.speed ?? 6)),
+      subsample: SUBSAMPLE_VALUES[options.chromaSubsampling || '420'],
+      lossless: options.lossless || false,
+    };
+
+    const buffer = bitDepth === 8
+      ? await encode(HighPrecision.toImageData(pixels), { ...baseOptions, bitDepth: 8 })
+      : await encode(this.toHighBitDepth(pixels, bitDepth), { ...baseOptions, bitDepth });
+
+    const bytes = new Uint8Array(buffer);
+    return new Blob([options.iccProfile ? this.insertIccProfile(bytes, options.iccProfile) : bytes], { type: 'image/avif' });
+  }
+
+  static async decode(file: Blob): Promise<ImageData> {
+    const { default: decode } = await import('@jsquash/avif/decode');
+    const imageData = await decode(await file.arrayBuffer());
+    if (!imageData) {
+      throw new Error('AVIF decoder returned no image data');
+    }
+    return imageData;
+  }
+
+  static async isAvif(file: File): Promise<boolean> {
+    if (!file || !file.name) return false;
+
+    if (file.name.toLowerCase().endsWith('.avif') || file.type === 'image/avif') {
+      return true;
+    }
+
+    // ISOBMFF "ftyp" box with an AVIF major brand
+    try {
+      const header = new Uint8Array(await file.slice(0, 12).arrayBuffer());
+      const boxType = String.fromCharCode(...header.subarray(4, 8));
+      const brand = String.fromCharCode(...header.subarray(8, 12));
+      return boxType === 'ftyp' && (brand === 'avif' || brand === 'avis');
+    } catch {
+      return false;
+    }
+  }
+
+  // Adds a colr property to the primary item. The meta box grows, so the
+  // boxes around it are resized and iloc offsets into mdat are moved along.
+  private static insertIccProfile(avif: Uint8Array, profile: Uint8Array): Uint8Array {
+    const view = new DataView(avif.buffer, avif.byteOffset, avif.byteLength);
+    const meta = IsoBmff.readBoxes(avif, 0, avif.length).find(box => box.type === 'meta');
+    const metaChildren = meta ? IsoBmff.readChildren(avif, meta, true) : [];
+    const iprp = metaChildren.find(box => box.type === 'iprp');
+    const iprpChildren = iprp ? IsoBmff.readChildren(avif, iprp) : [];
+    const ipco = iprpChildren.find(box => box.type === 'ipco');
+    const ipma = iprpChildren.find(box => box.type === 'ipma');
+    const pitm = metaChildren.find(box => box.type === 'pitm');
+    const iloc = metaChildren.find(box => box.type === 'iloc');
+    if (!meta || !iprp || !ipco || !ipma || !pitm || !iloc || ipco.end > ipma.start) {
+      console.warn('Unexpected AVIF structure, the color profile was not embedded');
+      return avif;
+    }
+
+    const colr = new Uint8Array(12 + profile.length);
+    new DataView(colr.buffer).setUint32(0, colr.length);
+    colr.set([...'colrprof'].map(c => c.charCodeAt(0)), 4);
+    colr.set(profile, 12);
+    const propertyIndex = IsoBmff.readChildren(avif, ipco).length + 1;
+
+    // ipma entries: item ID, association count, then 1 or 2 byte associations
+    const ipmaVersion = avif[ipma.dataStart];
+    const wideAssociations = (avif[ipma.dataStart + 3] & 1) !== 0;
+    const primaryItem = avif[pitm.dataStart] === 0 ? view.getUint16(pitm.dataStart + 4) : view.getUint32(pitm.dataStart + 4);
+    const association = wideAssociations ? [propertyIndex >> 8, propertyIndex & 0xff] : [propertyIndex];
+    const entries: number[] = [];
+    let offset = ipma.dataStart + 8;
+    for (let i = view.getUint32(ipma.dataStart + 4); i > 0; i--) {
+      const itemId = ipmaVersion < 1 ? view.getUint16(offset) : view.getUint32(offset);
+      const idSize = ipmaVersion < 1 ? 2 : 4;
+      const count = avif[offset + idSize];
+      const end = offset + idSize + 1 + count * (wideAssociations ? 2 : 1);
+      const entry = Array.from(avif.subarray(offset, end));
+      if (itemId === primaryItem) {
+        entry[idSize] = count + 1;
+        entry.push(...association);
+      }
+      entries.push(...entry);
+      offset = end;
+    }
+    const newIpma = new Uint8Array(ipma.dataStart - ipma.start + 4 + 4 + entries.length);
+    newIpma.set(avif.subarray(ipma.start, ipma.dataStart + 8));
+    newIpma.set(entries, ipma.dataStart - ipma.start + 8);
+    new DataView(newIpma.buffer).setUint32(0, newIpma.length);
+
+    const growth = colr.length + newIpma.length - (ipma.end - ipma.start);
+    const output = new Uint8Array(avif.length + growth);
+    output.set(avif.subarray(0, ipco.end));
+    output.set(colr, ipco.end);
+    output.set(avif.subarray(ipco.end, ipma.start), ipco.end + colr.length);
+    output.set(newIpma, ipma.start + colr.length);
+    output.set(avif.subarray(ipma.end), ipma.end + growth);
+
+    const outputView = new DataView(output.buffer);
+    outputView.setUint32(ipco.start, ipco.end - ipco.start + colr.length);
+    outputView.setUint32(iprp.start, iprp.end - iprp.start + growth);
+    outputView.setUint32(meta.start, meta.end - meta.start + growth);
+    this.shiftItemOffsets(outputView, iloc.start < ipco.end ? iloc.dataStart : iloc.dataStart + growth, ipco.end, growth);
+    return output;
+  }
+
+  // Moves file offsets (construction method 0) at or past the insertion point
+  private static shiftItemOffsets(view: DataView, iloc: number, insertedAt: number, growth: number) {
+    const version = view.getUint8(iloc);
+    const offsetSize = view.getUint8(iloc + 4) >> 4;
+    const lengthSize = view.getUint8(iloc + 4) & 0xf;
+    const baseOffsetSize = view.getUint8(iloc + 5) >> 4;
+    const indexSize = version > 0 ? view.getUint8(iloc + 5) & 0xf : 0;
+    const read = (position: number, size: number) =>
+      size === 8 ? Number(view.getBigUint64(position)) : size === 4 ? view.getUint32(position) : 0;
+    const write = (position: number, size: number, value: number) => {
+      if (size === 8) view.setBigUint64(position, BigInt(value));
+      else if (size === 4) view.setUint32(position, value);
+    };
+
+    let position = iloc + 6;
+    const itemCount = version < 2 ? view.getUint16(position) : view.getUint32(position);
+    position += version < 2 ? 2 : 4;
+    for (let item = 0; item < itemCount; item++) {
+      position += version < 2 ? 2 : 4; // item_ID
+      const constructionMethod = version > 0 ? view.getUint16(position) & 0xf : 0;
+      position += (version > 0 ? 2 : 0) + 2; // construction method, data_reference_index
+      const baseOffset = read(position, baseOffsetSize);
+      const shiftsBase = constructionMethod === 0 && baseOffset >= insertedAt;
+      if (shiftsBase) write(position, baseOffsetSize, baseOffset + growth);
+      position += baseOffsetSize;
+
+      const extentCount = view.getUint16(position);
+      position += 2;
+      for (let extent = 0; extent < extentCount; extent++) {
+        position += indexSize;
+        const extentOffset = read(position, offsetSize);
+        if (constructionMethod === 0 && !shiftsBase && baseOffset + extentOffset >= insertedAt) {
+          write(position, offsetSize, extentOffset + growth);
+        }
+        position += offsetSize + lengthSize;
+      }
+    }
+  }
+
+  // Scales canvas or high-precision samples to the 10/12-bit range expected by the encoder
+  private static toHighBitDepth(pixels: PixelData, bitDepth: 10 | 12) {
+    const maxValue = (1 << bitDepth) - 1;
+    const data = new Uint16Array(pixels.data.length);
+    for (let i = 0; i < data.length; i++) {
+      data[i] = HighPrecision.getSample(pixels, i, maxValue);
+    }
+    return { data, width: pixels.width, height: pixels.height };
+  }
+}
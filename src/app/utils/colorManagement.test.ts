@@ -0,0 +1,92 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import type { ConversionSettings } from '../components/ConversionOptions';
+import { NodeEnvironment } from '../../cli/nodeEnvironment';
+import { createSettings as createBaseSettings, createRow, pixelAt, toBytes } from '../../test/fixtures';
+import { ColorManagement } from './colorManagement';
+import { IccProfile } from './iccProfile';
+import { MozJpegEncoder } from './mozjpegEncoder';
+import { PngEncoder } from './pngEncoder';
+
+function createSettings(overrides: Partial<ConversionSettings> = {}): ConversionSettings {
+  return createBaseSettings({ outputFormat: 'png', ...overrides });
+}
+
+describe('ColorManagement', () => {
+  before(() => NodeEnvironment.install());
+
+  it('leaves sRGB and untagged pixels alone', () => {
+    const image = createRow([[200, 100, 50]]);
+    assert.equal(ColorManagement.toSrgb(image, null, createSettings()), image);
+    assert.equal(ColorManagement.toSrgb(image, IccProfile.getBuiltIn('srgb'), createSettings()), image);
+  });
+
+  it('converts Display P3 pixels to sRGB', () => {
+    const p3 = IccProfile.getBuiltIn('display-p3');
+    const image = createRow([[128, 128, 128], [255, 0, 0], [200, 150, 100]]);
+
+    const clipped = ColorManagement.toSrgb(image, p3, createSettings({ renderingIntent: 'relative-colorimetric' }));
+    assert.deepEqual(pixelAt(clipped, 0), [128, 128, 128]);
+    assert.deepEqual(pixelAt(clipped, 1), [255, 0, 0]);
+    // In gamut colors become more saturated in the smaller space
+    const [red, green, blue] = pixelAt(clipped, 2);
+    assert.ok(red > 200 && green <= 150 && blue < 100);
+
+    // Perceptual keeps the out-of-gamut red's luminance by mixing in gray
+    const perceptual = ColorManagement.toSrgb(image, p3, createSettings());
+    assert.ok(pixelAt(perceptual, 1)[1] > 0 && pixelAt(perceptual, 1)[2] > 0);
+  });
+
+  it('converts output to the chosen profile and back', async () => {
+    const image = createRow([[10, 20, 30], [128, 64, 200], [250, 240, 5], [0, 255, 0]]);
+    for (const colorProfile of ['display-p3', 'adobe-rgb'] as const) {
+      const { pixels, profile } = await ColorManagement.prepareOutput(image, createSettings({ colorProfile }));
+      const restored = ColorManagement.toSrgb(pixels, profile, createSettings());
+
+      assert.equal(profile, IccProfile.getBuiltIn(colorProfile));
+      assert.notDeepEqual(pixelAt(pixels, 1), pixelAt(image, 1));
+      // Rounding to 8 bits in the wider space costs a few levels next to zero
+      for (let i = 0; i < 4; i++) {
+        pixelAt(restored, i).forEach((value, c) => assert.ok(Math.abs(value - pixelAt(image, i)[c]) <= 3, colorProfile));
+      }
+    }
+  });
+
+  it('writes sRGB when the output format or color type cannot carry a profile', async () => {
+    const image = createRow([[128, 64, 200]]);
+    for (const settings of [
+      createSettings({ colorProfile: 'display-p3', outputFormat: 'gif' }),
+      createSettings({ colorProfile: 'display-p3', colorType: 'gray' }),
+      createSettings({ colorProfile: 'display-p3', outputFormat: 'tiff', tiffColorModel: 'cmyk' }),
+    ]) {
+      const { pixels, profile } = await ColorManagement.prepareOutput(image, settings);
+      assert.equal(profile, null);
+      assert.equal(pixels, image);
+    }
+  });
+
+  it('reads profiles split across JPEG APP2 segments', async () => {
+    // Padding past 64 KB so the profile needs two segments
+    const profile = new Uint8Array(70000);
+    profile.set(IccProfile.getBuiltIn('display-p3').data);
+    const jpeg = await toBytes(await MozJpegEncoder.encode(createRow([[1, 2, 3]]), { quality: 90, iccProfile: profile }));
+
+    const read = ColorManagement.readProfile(jpeg)!;
+    assert.equal(read.data.length, 70000);
+    assert.equal(read.description, 'Display P3');
+    assert.ok(IccProfile.isEquivalent(read, IccProfile.getBuiltIn('display-p3')));
+  });
+
+  it('reads PNG profiles and decides whether they can be passed through', async () => {
+    const image = createRow([[1, 2, 3]]);
+    const tagged = await toBytes(await PngEncoder.encode(image, { iccProfile: IccProfile.getBuiltIn('adobe-rgb').data }));
+    const untagged = await toBytes(await PngEncoder.encode(image));
+
+    assert.equal(ColorManagement.readProfile(tagged)?.description, 'Adobe RGB (1998) compatible');
+    assert.equal(ColorManagement.readProfile(untagged), null);
+    assert.equal(ColorManagement.changesProfile(tagged, createSettings({ colorProfile: 'preserve' })), false);
+    assert.equal(ColorManagement.changesProfile(tagged, createSettings({ colorProfile: 'adobe-rgb' })), false);
+    assert.equal(ColorManagement.changesProfile(tagged, createSettings()), true);
+    assert.equal(ColorManagement.changesProfile(untagged, createSettings()), false);
+  });
+});
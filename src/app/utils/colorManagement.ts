@@ -0,0 +1,291 @@
+import pako from 'pako';
+import type { ConversionSettings } from '../components/ConversionOptions';
+import { HighPrecision, PixelData } from './highPrecisionImage';
+import { ColorProfile, ColorProfileName, IccProfile, ToneCurve, invertMatrix, multiplyMatrices } from './iccProfile';
+import { IsoBmff } from './isoBmff';
+import { PNG_SIGNATURE } from './pngEncoder';
+import { TiffDecoder } from './tiffDecoder';
+
+export type OutputColorProfile = ColorProfileName | 'preserve';
+
+// Matrix profiles have no gamut mapping tables: relative colorimetric and saturation
+// clip out-of-gamut colors, perceptual desaturates them, absolute keeps the media white
+export type RenderingIntent = 'perceptual' | 'relative-colorimetric' | 'saturation' | 'absolute-colorimetric';
+
+// Outputs that carry an ICC profile; everything else is written as sRGB
+const PROFILE_FORMATS = ['jpeg', 'png', 'webp', 'avif', 'tiff', 'heic'];
+
+// Linear light to encoded value tables, indexed by the square root of the
+// linear value so the steep start of gamma curves stays accurate
+const INVERSE_TABLE_SIZE = 4096;
+
+/**
+ * Color management for decoded pixels. Canvas pixels are sRGB: the browser
+ * and Skia convert embedded profiles while decoding, and pixels from the
+ * app's own TIFF, HEIC and AVIF decoders go through toSrgb. prepareOutput
+ * then converts to settings.colorProfile for the encoders to embed.
+ * High-precision images keep their source profile until they are encoded,
+ * so colors outside sRGB survive 16-bit and float conversions.
+ */
+export class ColorManagement {
+  private static inverseCurves = new WeakMap<ToneCurve, ToneCurve>();
+
+  // Profile of JPEG, PNG, TIFF, WebP, HEIC and AVIF input (first page or primary image)
+  static readProfile(bytes: Uint8Array): ColorProfile | null {
+    try {
+      if (String.fromCharCode(...bytes.subarray(4, 8)) === 'ftyp') {
+        return this.readHeifProfile(bytes);
+      }
+
+      let data: Uint8Array | null = null;
+      if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+        data = this.readJpegProfile(bytes);
+      } else if (PNG_SIGNATURE.every((byte, i) => bytes[i] === byte)) {
+        data = this.readPngProfile(bytes);
+      } else if (TiffDecoder.isTiff(bytes)) {
+        data = TiffDecoder.getIccProfiles(bytes)[0];
+      } else if (String.fromCharCode(...bytes.subarray(0, 4)) === 'RIFF') {
+        data = this.readWebpProfile(bytes);
+      }
+      return data ? this.parseProfile(data) : null;
+    } catch (error) {
+      console.warn('Failed to read the color profile:', error);
+      return null;
+    }
+  }
+
+  static parseProfile(data: Uint8Array): ColorProfile | null {
+    const profile = IccProfile.parse(data.slice());
+    if (!profile) {
+      console.warn('Only matrix-based RGB and gray ICC profiles are supported, treating the image as sRGB');
+    }
+    return profile;
+  }
+
+  // Converts pixels decoded without color management from their profile to sRGB
+  static toSrgb(imageData: ImageData, profile: ColorProfile | null, settings: ConversionSettings): ImageData {
+    return this.convert(imageData, profile, null, settings.renderingIntent || 'perceptual');
+  }
+
+  // Converts sRGB or high-precision pixels to the output profile; a null profile means untagged sRGB
+  static async prepareOutput<T extends PixelData>(
+    pixels: T,
+    settings: ConversionSettings,
+    originalFile?: Blob
+  ): Promise<{ pixels: T; profile: ColorProfile | null }> {
+    const source = settings.colorProfile === 'preserve' && originalFile
+      ? this.readProfile(new Uint8Array(await originalFile.arrayBuffer()))
+      : null;
+    const profile = this.getOutputProfile(settings, source);
+    const from = HighPrecision.is(pixels) ? pixels.profile || null : null;
+    return { pixels: this.convert(pixels, from, profile, settings.renderingIntent || 'perceptual'), profile };
+  }
+
+  // Whether the output would need a different profile than the input has, so it can't be passed through
+  static changesProfile(bytes: Uint8Array, settings: ConversionSettings): boolean {
+    const source = this.readProfile(bytes);
+    return !IccProfile.isEquivalent(source, this.getOutputProfile(settings, source));
+  }
+
+  private static getOutputProfile(settings: ConversionSettings, source: ColorProfile | null): ColorProfile | null {
+    const choice = settings.colorProfile || 'srgb';
+    if (choice === 'srgb') {
+      return null;
+    }
+    if (!this.canEmbed(settings)) {
+      console.warn(`${settings.outputFormat.toUpperCase()} output can't carry this color profile, writing sRGB`);
+      return null;
+    }
+    if (choice === 'preserve') {
+      return source && !source.isGray ? source : null;
+    }
+    return IccProfile.getBuiltIn(choice);
+  }
+
+  // Gray and CMYK samples can't be described by an RGB profile
+  private static canEmbed(settings: ConversionSettings): boolean {
+    switch (settings.outputFormat) {
+      case 'png':
+        return !['gray', 'gray-alpha'].includes(settings.colorType || 'rgba');
+      case 'tiff':
+        return ['rgb', 'rgba'].includes(settings.tiffColorModel || 'rgb');
+      default:
+        return PROFILE_FORMATS.includes(settings.outputFormat);
+    }
+  }
+
+  private static convert<T extends PixelData>(
+    pixels: T,
+    from: ColorProfile | null,
+    to: ColorProfile | null,
+    intent: RenderingIntent
+  ): T {
+    if (IccProfile.isEquivalent(from, to)) {
+      return pixels;
+    }
+
+    const source = from || IccProfile.getBuiltIn('srgb');
+    const target = to || IccProfile.getBuiltIn('srgb');
+
+    // Linear source RGB -> PCS XYZ -> linear target RGB; absolute colorimetric
+    // keeps the source's media white instead of mapping it to the target's
+    const whiteScale = source.whitePoint.map((value, i) => value / target.whitePoint[i]);
+    const toXyz = intent === 'absolute-colorimetric'
+      ? source.toXyz.map((value, i) => value * whiteScale[Math.floor(i / 3)])
+      : source.toXyz;
+    const m = multiplyMatrices(invertMatrix(target.toXyz), toXyz);
+    const luminance = target.toXyz.slice(3, 6);
+    const encode = target.curves.map(curve => this.getInverseCurve(curve));
+    const rgb = [0, 0, 0];
+    const mapColor = (r: number, g: number, b: number) => {
+      rgb[0] = m[0] * r + m[1] * g + m[2] * b;
+      rgb[1] = m[3] * r + m[4] * g + m[5] * b;
+      rgb[2] = m[6] * r + m[7] * g + m[8] * b;
+      if (intent === 'perceptual') {
+        this.desaturate(rgb, luminance);
+      }
+      for (let c = 0; c < 3; c++) {
+        rgb[c] = encode[c](rgb[c]);
+      }
+    };
+
+    const { width, height } = pixels;
+    if (HighPrecision.is(pixels)) {
+      const data = new Float32Array(pixels.data.length);
+      const [red, green, blue] = source.curves;
+      for (let i = 0; i < data.length; i += 4) {
+        mapColor(red(pixels.data[i]), green(pixels.data[i + 1]), blue(pixels.data[i + 2]));
+        data.set(rgb, i);
+        data[i + 3] = pixels.data[i + 3];
+      }
+      return { ...pixels, data, profile: to || undefined };
+    }
+
+    // 8-bit samples are linearized through a table per channel
+    const [red, green, blue] = source.curves.map(curve => Float32Array.from({ length: 256 }, (_, v) => curve(v / 255)));
+    const input = pixels.data;
+    const output = new ImageData(width, height);
+    for (let i = 0; i < input.length; i += 4) {
+      mapColor(red[input[i]], green[input[i + 1]], blue[input[i + 2]]);
+      output.data[i] = Math.round(rgb[0] * 255);
+      output.data[i + 1] = Math.round(rgb[1] * 255);
+      output.data[i + 2] = Math.round(rgb[2] * 255);
+      output.data[i + 3] = input[i + 3];
+    }
+    return output as T;
+  }
+
+  // Pulls an out-of-gamut color toward the gray of the same luminance until it fits, keeping its hue
+  private static desaturate(rgb: number[], luminance: number[]) {
+    const gray = Math.min(1, Math.max(0, luminance[0] * rgb[0] + luminance[1] * rgb[1] + luminance[2] * rgb[2]));
+    let amount = 1;
+    for (const value of rgb) {
+      if (value > 1) amount = Math.min(amount, (1 - gray) / (value - gray));
+      else if (value < 0) amount = Math.min(amount, gray / (gray - value));
+    }
+    for (let c = 0; c < 3; c++) {
+      rgb[c] = gray + (rgb[c] - gray) * amount;
+    }
+  }
+
+  // Linear light back to encoded values, clipped to 0-1
+  private static getInverseCurve(curve: ToneCurve): ToneCurve {
+    let inverse = this.inverseCurves.get(curve);
+    if (!inverse) {
+      const table = new Float32Array(INVERSE_TABLE_SIZE + 1);
+      for (let i = 0; i <= INVERSE_TABLE_SIZE; i++) {
+        const linear = (i / INVERSE_TABLE_SIZE) ** 2;
+        let low = 0;
+        let high = 1;
+        for (let step = 0; step < 32; step++) {
+          const middle = (low + high) / 2;
+          if (curve(middle) < linear) low = middle;
+          else high = middle;
+        }
+        table[i] = (low + high) / 2;
+      }
+      inverse = linear => {
+        const position = Math.sqrt(Math.min(1, Math.max(0, linear))) * INVERSE_TABLE_SIZE;
+        const index = Math.min(INVERSE_TABLE_SIZE - 1, Math.floor(position));
+        return table[index] + (table[index + 1] - table[index]) * (position - index);
+      };
+      this.inverseCurves.set(curve, inverse);
+    }
+    return inverse;
+  }
+
+  // APP2 segments of up to 64 KB, numbered from 1
+  private static readJpegProfile(bytes: Uint8Array): Uint8Array | null {
+    const chunks: Uint8Array[] = [];
+    let offset = 2;
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+      const marker = bytes[offset + 1];
+      if (marker === 0xda || marker === 0xd9) break; // Start of scan / end of image
+      const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+      if (marker === 0xe2 && String.fromCharCode(...bytes.subarray(offset + 4, offset + 16)) === 'ICC_PROFILE\0') {
+        chunks[bytes[offset + 16] - 1] = bytes.subarray(offset + 18, offset + 2 + length);
+      }
+      offset += 2 + length;
+    }
+    return chunks.length > 0 ? concat(chunks) : null;
+  }
+
+  // iCCP holds a name, a null separator, the compression method and the zlib stream
+  private static readPngProfile(bytes: Uint8Array): Uint8Array | null {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    for (let offset = PNG_SIGNATURE.length; offset + 8 <= bytes.length;) {
+      const length = view.getUint32(offset);
+      const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+      if (type === 'iCCP') {
+        const data = bytes.subarray(offset + 8, offset + 8 + length);
+        return pako.inflate(data.subarray(data.indexOf(0) + 2));
+      }
+      if (type === 'IDAT' || type === 'IEND') break;
+      offset += length + 12;
+    }
+    return null;
+  }
+
+  private static readWebpProfile(bytes: Uint8Array): Uint8Array | null {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    for (let offset = 12; offset + 8 <= bytes.length;) {
+      const size = view.getUint32(offset + 4, true);
+      if (String.fromCharCode(...bytes.subarray(offset, offset + 4)) === 'ICCP') {
+        return bytes.subarray(offset + 8, offset + 8 + size);
+      }
+      offset += 8 + size + (size & 1);
+    }
+    return null;
+  }
+
+  // An ICC colr property, or an nclx one naming the Display P3 primaries with the sRGB curve
+  private static readHeifProfile(bytes: Uint8Array): ColorProfile | null {
+    const ipco = IsoBmff.findBox(bytes, IsoBmff.readBoxes(bytes, 0, bytes.length), ['meta', 'iprp', 'ipco']);
+    const colors = ipco ? IsoBmff.readChildren(bytes, ipco).filter(box => box.type === 'colr') : [];
+    const colorType = (start: number) => String.fromCharCode(...bytes.subarray(start, start + 4));
+
+    const icc = colors.find(box => ['prof', 'rICC'].includes(colorType(box.dataStart)));
+    if (icc) {
+      return this.parseProfile(bytes.subarray(icc.dataStart + 4, icc.end));
+    }
+    const nclx = colors.find(box => colorType(box.dataStart) === 'nclx');
+    if (nclx) {
+      const primaries = (bytes[nclx.dataStart + 4] << 8) | bytes[nclx.dataStart + 5];
+      const transfer = (bytes[nclx.dataStart + 6] << 8) | bytes[nclx.dataStart + 7];
+      if (primaries === 12 && (transfer === 2 || transfer === 13)) {
+        return IccProfile.getBuiltIn('display-p3');
+      }
+    }
+    return null;
+  }
+}
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
@@ -0,0 +1,452 @@
+export type QuantizeMethod = 'median-cut' | 'octree' | 'kmeans';
+export type DitherMethod = 'none' | 'floyd-steinberg' | 'ordered';
+
+export interface QuantizeOptions {
+  maxColors: number; // 2-256
+  method?: QuantizeMethod;
+  dithering?: boolean | DitherMethod; // true = Floyd-Steinberg
+}
+
+export interface QuantizedImage {
+  palette: Uint8Array; // RGBA entries, 4 bytes per color
+  indices: Uint8Array; // One palette index per pixel
+  colorCount: number;
+}
+
+interface ColorHistogram {
+  counts: Uint32Array;
+  sums: Float64Array; // RGBA sums per bucket
+  entries: number[]; // Non-empty bucket keys
+  total: number;
+}
+
+interface OctreeNode {
+  count: number;
+  sums: number[]; // RGBA
+  children: (OctreeNode | null)[] | null; // null for leaves
+}
+
+interface ColorBox {
+  entries: number[]; // Histogram bucket keys
+  count: number;
+  channel: number; // Channel with the widest range
+  range: number;
+}
+
+// Histogram buckets keep 5 bits per channel (RGBA 5:5:5:5)
+const BUCKET_BITS = 5;
+const BUCKET_SHIFT = 8 - BUCKET_BITS;
+const BUCKET_COUNT = 1 << (BUCKET_BITS * 4);
+
+// The octree branches on RGB only, one level per histogram bit
+const OCTREE_DEPTH = BUCKET_BITS;
+
+// k-means refines the median-cut palette; it usually settles within a few passes
+const KMEANS_ITERATIONS = 8;
+
+const BAYER_8X8 = [
+  0, 32, 8, 40, 2, 34, 10, 42,
+  48, 16, 56, 24, 50, 18, 58, 26,
+  12, 44, 4, 36, 14, 46, 6, 38,
+  60, 28, 52, 20, 62, 30, 54, 22,
+  3, 35, 11, 43, 1, 33, 9, 41,
+  51, 19, 59, 27, 49, 17, 57, 25,
+  15, 47, 7, 39, 13, 45, 5, 37,
+  63, 31, 55, 23, 61, 29, 53, 21,
+];
+
+/**
+ * Reduces RGBA images to an indexed palette.
+ * Images that already fit in the palette are mapped exactly; otherwise a
+ * median-cut, octree or k-means palette is built and pixels are mapped with
+ * optional Floyd-Steinberg or ordered (Bayer) dithering.
+ */
+export class ColorQuantizer {
+  static quantize(imageData: ImageData, options: QuantizeOptions): QuantizedImage {
+    const maxColors = Math.min(256, Math.max(2, Math.round(options.maxColors)));
+    return this.quantizeExact(imageData, maxColors) ||
+      this.mapToPalette(
+        imageData,
+        this.buildPalette(imageData, maxColors, options.method),
+        this.resolveDitherMethod(options.dithering)
+      );
+  }
+
+  static resolveDitherMethod(dithering: boolean | DitherMethod | undefined): DitherMethod {
+    if (typeof dithering === 'string') return dithering;
+    return dithering === false ? 'none' : 'floyd-steinberg';
+  }
+
+  static buildPalette(imageData: ImageData, maxColors: number, method: QuantizeMethod = 'median-cut'): Uint8Array {
+    switch (method) {
+      case 'octree':
+        return this.buildOctreePalette(imageData, maxColors);
+      case 'kmeans':
+        return this.buildKMeansPalette(imageData, maxColors);
+      default:
+        return this.buildMedianCutPalette(imageData, maxColors);
+    }
+  }
+
+  // Every distinct color as a palette, or null when there are more than maxColors
+  static findExactPalette(imageData: ImageData, maxColors: number): Uint8Array | null {
+    return this.quantizeExact(imageData, maxColors)?.palette || null;
+  }
+
+  static buildMedianCutPalette(imageData: ImageData, maxColors: number): Uint8Array {
+    return this.medianCut(this.buildHistogram(imageData), maxColors);
+  }
+
+  static buildOctreePalette(imageData: ImageData, maxColors: number): Uint8Array {
+    const { counts, sums, entries } = this.buildHistogram(imageData);
+    const root: OctreeNode = { count: 0, sums: [0, 0, 0, 0], children: null };
+    const reducible: OctreeNode[][] = Array.from({ length: OCTREE_DEPTH }, () => []);
+    let leafCount = 0;
+
+    for (const key of entries) {
+      let node = root;
+      for (let level = 0; level < OCTREE_DEPTH; level++) {
+        const shift = BUCKET_BITS - 1 - level;
+        const childIndex =
+          (((key >> (BUCKET_BITS * 3 + shift)) & 1) << 2) |
+          (((key >> (BUCKET_BITS * 2 + shift)) & 1) << 1) |
+          ((key >> (BUCKET_BITS + shift)) & 1);
+
+        if (!node.children) {
+          node.children = new Array(8).fill(null);
+          reducible[level].push(node);
+        }
+        if (!node.children[childIndex]) {
+          node.children[childIndex] = { count: 0, sums: [0, 0, 0, 0], children: null };
+          if (level === OCTREE_DEPTH - 1) leafCount++;
+        }
+        node = node.children[childIndex]!;
+      }
+
+      node.count += counts[key];
+      for (let c = 0; c < 4; c++) node.sums[c] += sums[key * 4 + c];
+    }
+
+    // Fold the least populated nodes of the deepest level into their parents.
+    // A level is only reduced once everything below it is leaves, so its counts are final.
+    let level = OCTREE_DEPTH - 1;
+    let sortedLevel = -1;
+    while (leafCount > maxColors && level >= 0) {
+      const nodes = reducible[level];
+      if (nodes.length === 0) {
+        level--;
+        continue;
+      }
+      if (sortedLevel !== level) {
+        nodes.sort((a, b) => this.octreeChildCount(b) - this.octreeChildCount(a));
+        sortedLevel = level;
+      }
+
+      const node = nodes.pop()!;
+      let merged = 0;
+      for (const child of node.children!) {
+        if (!child) continue;
+        node.count += child.count;
+        for (let c = 0; c < 4; c++) node.sums[c] += child.sums[c];
+        merged++;
+      }
+      node.children = null;
+      leafCount -= merged - 1;
+    }
+
+    const colors: number[] = [];
+    const collect = (node: OctreeNode) => {
+      if (node.children) {
+        node.children.forEach(child => child && collect(child));
+      } else if (node.count > 0) {
+        for (let c = 0; c < 4; c++) colors.push(Math.round(node.sums[c] / node.count));
+      }
+    };
+    collect(root);
+    return new Uint8Array(colors);
+  }
+
+  static buildKMeansPalette(imageData: ImageData, maxColors: number): Uint8Array {
+    const histogram = this.buildHistogram(imageData);
+    const { counts, sums, entries } = histogram;
+    const palette = this.medianCut(histogram, maxColors);
+    const colorCount = palette.length / 4;
+    const assignments = new Int32Array(entries.length).fill(-1);
+
+    for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+      const totals = new Float64Array(colorCount * 4);
+      const weights = new Float64Array(colorCount);
+      let changed = false;
+
+      entries.forEach((key, j) => {
+        const count = counts[key];
+        const index = this.nearestColor(
+          palette,
+          sums[key * 4] / count,
+          sums[key * 4 + 1] / count,
+          sums[key * 4 + 2] / count,
+          sums[key * 4 + 3] / count
+        );
+        if (assignments[j] !== index) {
+          assignments[j] = index;
+          changed = true;
+        }
+        for (let c = 0; c < 4; c++) totals[index * 4 + c] += sums[key * 4 + c];
+        weights[index] += count;
+      });
+
+      if (!changed) break;
+      for (let index = 0; index < colorCount; index++) {
+        if (weights[index] === 0) continue;
+        for (let c = 0; c < 4; c++) {
+          palette[index * 4 + c] = Math.round(totals[index * 4 + c] / weights[index]);
+        }
+      }
+    }
+
+    return palette;
+  }
+
+  static mapToPalette(imageData: ImageData, palette: Uint8Array, dithering: DitherMethod): QuantizedImage {
+    const { data, width, height } = imageData;
+    const indices = new Uint8Array(width * height);
+    const cache = new Int16Array(BUCKET_COUNT).fill(-1);
+
+    const nearest = (r: number, g: number, b: number, a: number) => {
+      const key = this.bucketKey(r, g, b, a);
+      if (cache[key] === -1) {
+        cache[key] = this.nearestColor(palette, r, g, b, a);
+      }
+      return cache[key];
+    };
+
+    if (dithering === 'none') {
+      for (let i = 0, p = 0; i < data.length; i += 4, p++) {
+        indices[p] = nearest(data[i], data[i + 1], data[i + 2], data[i + 3]);
+      }
+      return { palette, indices, colorCount: palette.length / 4 };
+    }
+
+    if (dithering === 'ordered') {
+      // Bayer threshold scaled to the typical spacing between palette colors
+      const spread = 255 / Math.cbrt(palette.length / 4);
+      for (let y = 0, p = 0; y < height; y++) {
+        for (let x = 0; x < width; x++, p++) {
+          const i = p * 4;
+          const offset = ((BAYER_8X8[(y & 7) * 8 + (x & 7)] + 0.5) / 64 - 0.5) * spread;
+          indices[p] = nearest(
+            this.clamp(data[i] + offset),
+            this.clamp(data[i + 1] + offset),
+            this.clamp(data[i + 2] + offset),
+            data[i + 3]
+          );
+        }
+      }
+      return { palette, indices, colorCount: palette.length / 4 };
+    }
+
+    // Floyd-Steinberg with serpentine scanning; error is carried on RGB only
+    // so transparent edges don't pick up noise
+    let currentErrors = new Float32Array((width + 2) * 3);
+    let nextErrors = new Float32Array((width + 2) * 3);
+
+    for (let y = 0; y < height; y++) {
+      const leftToRight = y % 2 === 0;
+      const step = leftToRight ? 1 : -1;
+      nextErrors.fill(0);
+
+      for (let n = 0; n < width; n++) {
+        const x = leftToRight ? n : width - 1 - n;
+        const p = y * width + x;
+        const i = p * 4;
+        const e = (x + 1) * 3;
+
+        const r = this.clamp(data[i] + currentErrors[e]);
+        const g = this.clamp(data[i + 1] + currentErrors[e + 1]);
+        const b = this.clamp(data[i + 2] + currentErrors[e + 2]);
+        const index = nearest(r, g, b, data[i + 3]);
+        indices[p] = index;
+
+        if (data[i + 3] === 0) continue;
+
+        const errors = [
+          r - palette[index * 4],
+          g - palette[index * 4 + 1],
+          b - palette[index * 4 + 2],
+        ];
+        for (let c = 0; c < 3; c++) {
+          currentErrors[e + step * 3 + c] += errors[c] * 7 / 16;
+          nextErrors[e - step * 3 + c] += errors[c] * 3 / 16;
+          nextErrors[e + c] += errors[c] * 5 / 16;
+          nextErrors[e + step * 3 + c] += errors[c] / 16;
+        }
+      }
+
+      [currentErrors, nextErrors] = [nextErrors, currentErrors];
+    }
+
+    return { palette, indices, colorCount: palette.length / 4 };
+  }
+
+  static nearestColor(palette: Uint8Array, r: number, g: number, b: number, a: number): number {
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let index = 0; index < palette.length / 4; index++) {
+      const o = index * 4;
+      const dr = palette[o] - r;
+      const dg = palette[o + 1] - g;
+      const db = palette[o + 2] - b;
+      const da = palette[o + 3] - a;
+      // Perceptual channel weights; alpha matters as much as green
+      const distance = 2 * dr * dr + 4 * dg * dg + 3 * db * db + 4 * da * da;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = index;
+      }
+    }
+    return best;
+  }
+
+  private static buildHistogram(imageData: ImageData): ColorHistogram {
+    const { data } = imageData;
+    const counts = new Uint32Array(BUCKET_COUNT);
+    const sums = new Float64Array(BUCKET_COUNT * 4);
+
+    for (let i = 0; i < data.length; i += 4) {
+      // Fully transparent pixels all share one bucket regardless of their color
+      const key = data[i + 3] === 0 ? 0 : this.bucketKey(data[i], data[i + 1], data[i + 2], data[i + 3]);
+      counts[key]++;
+      sums[key * 4] += data[i];
+      sums[key * 4 + 1] += data[i + 1];
+      sums[key * 4 + 2] += data[i + 2];
+      sums[key * 4 + 3] += data[i + 3];
+    }
+
+    const entries: number[] = [];
+    let total = 0;
+    for (let key = 0; key < BUCKET_COUNT; key++) {
+      if (counts[key] > 0) {
+        entries.push(key);
+        total += counts[key];
+      }
+    }
+
+    return { counts, sums, entries, total };
+  }
+
+  private static medianCut(histogram: ColorHistogram, maxColors: number): Uint8Array {
+    const { counts, sums, entries, total } = histogram;
+    const boxes: ColorBox[] = [this.createBox(entries, total, sums, counts)];
+    while (boxes.length < maxColors) {
+      // Split the box with the largest population-weighted channel range
+      let bestIndex = -1;
+      let bestScore = 0;
+      boxes.forEach((box, index) => {
+        const score = box.range * box.count;
+        if (box.entries.length > 1 && score > bestScore) {
+          bestScore = score;
+          bestIndex = index;
+        }
+      });
+      if (bestIndex === -1) break;
+
+      boxes.splice(bestIndex, 1, ...this.splitBox(boxes[bestIndex], sums, counts));
+    }
+
+    const palette = new Uint8Array(boxes.length * 4);
+    boxes.forEach((box, index) => {
+      const color = [0, 0, 0, 0];
+      for (const key of box.entries) {
+        for (let c = 0; c < 4; c++) color[c] += sums[key * 4 + c];
+      }
+      for (let c = 0; c < 4; c++) {
+        palette[index * 4 + c] = Math.round(color[c] / box.count);
+      }
+    });
+    return palette;
+  }
+
+  // Lossless path for images that already have few enough distinct colors
+  private static quantizeExact(imageData: ImageData, maxColors: number): QuantizedImage | null {
+    const { data } = imageData;
+    const pixels = new Uint32Array(data.buffer, data.byteOffset, data.length / 4);
+    const lookup = new Map<number, number>();
+    const indices = new Uint8Array(pixels.length);
+
+    for (let p = 0; p < pixels.length; p++) {
+      // Collapse every fully transparent pixel to a single entry
+      const value = data[p * 4 + 3] === 0 ? 0 : pixels[p];
+      let index = lookup.get(value);
+      if (index === undefined) {
+        if (lookup.size >= maxColors) return null;
+        index = lookup.size;
+        lookup.set(value, index);
+      }
+      indices[p] = index;
+    }
+
+    const palette = new Uint8Array(lookup.size * 4);
+    const view = new Uint32Array(palette.buffer);
+    lookup.forEach((index, value) => {
+      view[index] = value;
+    });
+    return { palette, indices, colorCount: lookup.size };
+  }
+
+  private static createBox(entries: number[], count: number, sums: Float64Array, counts: Uint32Array): ColorBox {
+    const min = [255, 255, 255, 255];
+    const max = [0, 0, 0, 0];
+    for (const key of entries) {
+      for (let c = 0; c < 4; c++) {
+        const value = sums[key * 4 + c] / counts[key];
+        if (value < min[c]) min[c] = value;
+        if (value > max[c]) max[c] = value;
+      }
+    }
+
+    let channel = 0;
+    for (let c = 1; c < 4; c++) {
+      if (max[c] - min[c] > max[channel] - min[channel]) channel = c;
+    }
+    return { entries, count, channel, range: max[channel] - min[channel] };
+  }
+
+  // Splits a box at the population median along its widest channel
+  private static splitBox(box: ColorBox, sums: Float64Array, counts: Uint32Array): [ColorBox, ColorBox] {
+    const { channel } = box;
+    const sorted = [...box.entries].sort(
+      (a, b) => sums[a * 4 + channel] / counts[a] - sums[b * 4 + channel] / counts[b]
+    );
+
+    let accumulated = 0;
+    let splitAt = 1;
+    for (; splitAt < sorted.length; splitAt++) {
+      accumulated += counts[sorted[splitAt - 1]];
+      if (accumulated >= box.count / 2) break;
+    }
+    splitAt = Math.min(splitAt, sorted.length - 1);
+
+    const firstEntries = sorted.slice(0, splitAt);
+    const secondEntries = sorted.slice(splitAt);
+    const firstCount = firstEntries.reduce((sum, key) => sum + counts[key], 0);
+    return [
+      this.createBox(firstEntries, firstCount, sums, counts),
+      this.createBox(secondEntries, box.count - firstCount, sums, counts),
+    ];
+  }
+
+  private static octreeChildCount(node: OctreeNode): number {
+    return node.children!.reduce((sum, child) => sum + (child ? child.count : 0), 0);
+  }
+
+  private static bucketKey(r: number, g: number, b: number, a: number): number {
+    return ((r >> BUCKET_SHIFT) << (BUCKET_BITS * 3)) |
+      ((g >> BUCKET_SHIFT) << (BUCKET_BITS * 2)) |
+      ((b >> BUCKET_SHIFT) << BUCKET_BITS) |
+      (a >> BUCKET_SHIFT);
+  }
+
+  private static clamp(value: number): number {
+    return value < 0 ? 0 : value > 255 ? 255 : Math.round(value);
+  }
+}
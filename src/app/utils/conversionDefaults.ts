@@ -0,0 +1,84 @@
+import type { ConversionSettings } from '../components/ConversionOptions';
+import { DEFAULT_FILE_NAME_TEMPLATE } from './fileNameTemplate';
+
+// Settings a new session starts with, shared by the app and the CLI
+export const DEFAULT_CONVERSION_SETTINGS: ConversionSettings = {
+  outputFormat: 'jpeg',
+  quality: 80,
+  targetSizeKB: 0,
+  targetSizeAllowResize: false,
+  maintainAspectRatio: true,
+  sharpenAmount: 0,
+  sharpenRadius: 0.5,
+  sharpenThreshold: 0,
+  removeMetadata: false,
+  compressionLevel: 5,
+  colorProfile: 'srgb',
+  renderingIntent: 'perceptual',
+  fileNameTemplate: DEFAULT_FILE_NAME_TEMPLATE,
+  
+  // Crop settings
+  enableCrop: false,
+  cropAspectRatio: undefined,
+  cropMode: 'center',
+  cropSizeMode: 'fit',
+  
+  // Animation settings
+  preserveAnimation: true,
+  extractFrames: false,
+  extractPages: false,
+  
+  // Format-specific defaults
+  progressive: false,
+  optimizeHuffman: false,
+  jpegChromaSubsampling: '420',
+  bitDepth: 8,
+  colorType: 'rgba',
+  pngDithering: true,
+  lossless: false,
+  method: 4,
+  webpNearLossless: 100,
+  webpAlphaQuality: 100,
+  webpSharpYuv: false,
+  webpTargetSizeKB: 0,
+  gifMaxColors: 256,
+  gifPaletteMode: 'local',
+  gifQuantization: 'median-cut',
+  gifDithering: 'floyd-steinberg',
+  gifTransparencyThreshold: 128,
+  gifFrameDelay: 0,
+  heicChromaSubsampling: '420',
+  heicPreserveAlpha: true,
+  avifSpeed: 6,
+  avifChromaSubsampling: '420',
+  avifBitDepth: 8,
+  avifLossless: false,
+  jxlEffort: 7,
+  jxlProgressive: false,
+  jxlLossless: false,
+  icoSizes: [16, 32, 48],
+  icoIncludeAllSizes: false,
+  icoExportMode: 'single',
+  vectorColors: 16,
+  pathPrecision: 1.0,
+  smoothing: 1.0,
+  simplification: 1.0,
+  vectorQuality: 'balanced',
+  
+  // TIFF-specific defaults
+  tiffCompression: 'lzw',
+  tiffBitDepth: 8,
+  tiffColorModel: 'rgb',
+  tiffPredictor: 1,
+  tiffTileSize: 0,
+  tiffResolutionUnit: 'inch',
+  tiffResolutionX: 300,
+  tiffResolutionY: 300,
+  tiffFillOrder: 'msb2lsb',
+  tiffPhotometric: 'rgb',
+  tiffPlanarConfig: 'chunky',
+  tiffRowsPerStrip: 8,
+  tiffBigTiff: false,
+  tiffPyramid: 'none',
+  tiffMultiPage: false,
+};
@@ -0,0 +1,57 @@
+import assert from 'node:assert/strict';
+import { after, describe, it } from 'node:test';
+import { createSettings } from '../../test/fixtures';
+import { ConversionPresets } from './conversionPresets';
+import { Diagnostics } from './diagnostics';
+
+describe('ConversionPresets', () => {
+  after(() => {
+    delete (globalThis as { localStorage?: unknown }).localStorage;
+    Diagnostics.setWriter((...args) => console.log(...args), (...args) => console.warn(...args));
+  });
+
+  it('keeps only known settings of the right type from imported presets', () => {
+    Diagnostics.setWriter(null);
+    const [preset] = ConversionPresets.parse(JSON.stringify({
+      name: 'Imported',
+      settings: {
+        outputFormat: 'webp',
+        quality: '80',
+        maxWidth: 1200,
+        resampling: 'sinc',
+        progressive: true,
+        icoSizes: [16, 'big'],
+        recipe: { enabled: true, widths: [640], formats: ['webp'] },
+        somethingElse: 1,
+      },
+    }));
+
+    assert.deepEqual(preset.settings, {
+      outputFormat: 'webp',
+      maxWidth: 1200,
+      progressive: true,
+      recipe: { enabled: true, widths: [640], formats: ['webp'] },
+    });
+  });
+
+  it('survives storage that refuses writes', () => {
+    Diagnostics.setWriter(null);
+    const warnings: unknown[] = [];
+    const warn = console.warn;
+    console.warn = (...args) => warnings.push(args);
+    (globalThis as { localStorage?: unknown }).localStorage = {
+      getItem: () => null,
+      setItem: () => {
+        throw new DOMException('Quota exceeded', 'QuotaExceededError');
+      },
+    };
+
+    try {
+      assert.doesNotThrow(() => ConversionPresets.saveLastSettings(createSettings()));
+      assert.doesNotThrow(() => ConversionPresets.saveUserPresets([ConversionPresets.create('Mine', createSettings())]));
+      assert.equal(warnings.length, 2);
+    } finally {
+      console.warn = warn;
+    }
+  });
+});
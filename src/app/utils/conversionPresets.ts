@@ -0,0 +1,343 @@
+import type { ConversionSettings } from '../components/ConversionOptions';
+import { DEFAULT_CONVERSION_SETTINGS } from './conversionDefaults';
+import { Diagnostics } from './diagnostics';
+
+export interface ConversionPreset {
+  id: string;
+  name: string;
+  description?: string;
+  builtIn?: boolean;
+  settings: Partial<ConversionSettings>;
+}
+
+// Shape of the JSON files presets are shared as
+interface PresetFile {
+  type: 'openloveimage-presets';
+  version: 1;
+  presets: ConversionPreset[];
+}
+
+const PRESETS_STORAGE_KEY = 'openloveimage-presets';
+const SETTINGS_STORAGE_KEY = 'openloveimage-conversion-settings';
+
+// JSON type of a setting, or the values it may take
+type SettingType = 'string' | 'number' | 'boolean' | 'numbers' | 'object' | readonly (string | number)[];
+
+const CHROMA_SUBSAMPLING = ['420', '422', '444'] as const;
+
+// Every setting imported presets and saved settings may carry
+const SETTING_TYPES: Record<keyof ConversionSettings, SettingType> = {
+  outputFormat: 'string',
+  quality: 'number',
+  targetSizeKB: 'number',
+  targetSizeAllowResize: 'boolean',
+  autoQuality: 'object',
+  maxWidth: 'number',
+  maxHeight: 'number',
+  maintainAspectRatio: 'boolean',
+  resampling: ['nearest', 'bilinear', 'bicubic', 'mitchell', 'lanczos2', 'lanczos3', 'box'],
+  sharpenAmount: 'number',
+  sharpenRadius: 'number',
+  sharpenThreshold: 'number',
+  recipe: 'object',
+  fileNameTemplate: 'string',
+  removeMetadata: 'boolean',
+  compressionLevel: 'number',
+  colorProfile: ['srgb', 'display-p3', 'adobe-rgb', 'preserve'],
+  renderingIntent: ['perceptual', 'relative-colorimetric', 'saturation', 'absolute-colorimetric'],
+  enableCrop: 'boolean',
+  cropAspectRatio: 'number',
+  cropMode: ['center', 'smart'],
+  cropSizeMode: ['fit', 'fill', 'extend'],
+  preserveAnimation: 'boolean',
+  extractFrames: 'boolean',
+  extractPages: 'boolean',
+  progressive: 'boolean',
+  optimizeHuffman: 'boolean',
+  jpegChromaSubsampling: CHROMA_SUBSAMPLING,
+  bitDepth: 'number',
+  colorType: ['gray', 'gray-alpha', 'rgb', 'rgba', 'palette'],
+  pngDithering: 'boolean',
+  lossless: 'boolean',
+  method: 'number',
+  webpNearLossless: 'number',
+  webpAlphaQuality: 'number',
+  webpSharpYuv: 'boolean',
+  webpTargetSizeKB: 'number',
+  gifMaxColors: 'number',
+  gifPaletteMode: ['global', 'local'],
+  gifQuantization: ['median-cut', 'octree', 'kmeans'],
+  gifDithering: ['none', 'floyd-steinberg', 'ordered'],
+  gifTransparencyThreshold: 'number',
+  gifFrameDelay: 'number',
+  heicChromaSubsampling: CHROMA_SUBSAMPLING,
+  heicPreserveAlpha: 'boolean',
+  avifSpeed: 'number',
+  avifChromaSubsampling: CHROMA_SUBSAMPLING,
+  avifBitDepth: [8, 10, 12],
+  avifLossless: 'boolean',
+  jxlEffort: 'number',
+  jxlDistance: 'number',
+  jxlProgressive: 'boolean',
+  jxlLossless: 'boolean',
+  icoSizes: 'numbers',
+  icoIncludeAllSizes: 'boolean',
+  icoExportMode: ['single', 'multiple'],
+  vectorColors: 'number',
+  pathPrecision: 'number',
+  smoothing: 'number',
+  simplification: 'number',
+  vectorQuality: 'string',
+  tiffCompression: 'string',
+  tiffBitDepth: 'number',
+  tiffColorModel: 'string',
+  tiffPredictor: 'number',
+  tiffTileSize: 'number',
+  tiffResolutionUnit: 'string',
+  tiffResolutionX: 'number',
+  tiffResolutionY: 'number',
+  tiffFillOrder: 'string',
+  tiffPhotometric: 'string',
+  tiffPlanarConfig: 'string',
+  tiffRowsPerStrip: 'number',
+  tiffBigTiff: 'boolean',
+  tiffPyramid: ['none', 'cog', 'subifd'],
+  tiffMultiPage: 'boolean',
+  pageSize: 'string',
+  orientation: 'string',
+  dpi: 'number',
+  pdfCompression: 'number',
+  imagePlacement: 'string',
+  marginTop: 'number',
+  marginBottom: 'number',
+  marginLeft: 'number',
+  marginRight: 'number',
+  imagesPerPage: 'number',
+  pageLayout: 'string',
+  embedFonts: 'boolean',
+  allowPrinting: 'boolean',
+  allowCopying: 'boolean',
+  passwordProtect: 'boolean',
+  ownerPassword: 'string',
+  userPassword: 'string',
+};
+
+export const BUILT_IN_PRESETS: ConversionPreset[] = [
+  {
+    id: 'web-hero-webp',
+    name: 'Web hero 2048 WebP',
+    description: 'Large banner images for websites',
+    builtIn: true,
+    settings: { outputFormat: 'webp', quality: 82, maxWidth: 2048, maxHeight: undefined, method: 6, removeMetadata: true },
+  },
+  {
+    id: 'responsive-web',
+    name: 'Responsive web images',
+    description: '320-2560 px widths in AVIF, WebP and JPEG for srcset',
+    builtIn: true,
+    settings: {
+      quality: 80, maxWidth: undefined, maxHeight: undefined, removeMetadata: true,
+      recipe: { enabled: true, widths: [320, 640, 1280, 2560], formats: ['avif', 'webp', 'jpeg'], fileNameTemplate: '{name}-{width}w.{ext}' },
+    },
+  },
+  {
+    id: 'web-thumbnail-avif',
+    name: 'Web thumbnail 480 AVIF',
+    description: 'Small previews with the smallest file size',
+    builtIn: true,
+    settings: { outputFormat: 'avif', quality: 60, maxWidth: 480, maxHeight: 480, removeMetadata: true, sharpenAmount: 50 },
+  },
+  {
+    id: 'social-square',
+    name: 'Social media square 1080',
+    description: 'Square 1080 px JPEG for social posts',
+    builtIn: true,
+    settings: {
+      outputFormat: 'jpeg', quality: 85, maxWidth: 1080, maxHeight: 1080,
+      enableCrop: true, cropAspectRatio: 1, cropMode: 'smart', progressive: true, removeMetadata: true,
+    },
+  },
+  {
+    id: 'email-jpeg',
+    name: 'Email attachment JPEG',
+    description: 'Photos small enough to send by email',
+    builtIn: true,
+    settings: { outputFormat: 'jpeg', quality: 75, maxWidth: 1600, maxHeight: 1600, progressive: true, removeMetadata: true },
+  },
+  {
+    id: 'print-tiff',
+    name: 'Print TIFF 300dpi',
+    description: 'Lossless TIFF tagged for 300 dpi printing',
+    builtIn: true,
+    settings: {
+      outputFormat: 'tiff', quality: 100, maxWidth: undefined, maxHeight: undefined, removeMetadata: false,
+      tiffCompression: 'lzw', tiffResolutionUnit: 'inch', tiffResolutionX: 300, tiffResolutionY: 300,
+    },
+  },
+  {
+    id: 'archive-jxl',
+    name: 'Lossless archive JPEG XL',
+    description: 'Lossless JPEG XL at the highest effort',
+    builtIn: true,
+    settings: { outputFormat: 'jxl', jxlLossless: true, jxlEffort: 9, removeMetadata: false },
+  },
+  {
+    id: 'favicon-set',
+    name: 'Favicon set',
+    description: 'ICO with every common favicon size',
+    builtIn: true,
+    settings: {
+      outputFormat: 'ico', icoSizes: [16, 32, 48, 64, 128, 256], icoIncludeAllSizes: true, icoExportMode: 'single',
+      enableCrop: true, cropAspectRatio: 1, cropMode: 'center',
+    },
+  },
+];
+
+/**
+ * Named conversion presets: the built-in starters plus user presets kept in
+ * localStorage, and the JSON file format they are shared in. Storage access
+ * is guarded so the module also works in workers and the CLI.
+ */
+export class ConversionPresets {
+  static getSettings(preset: ConversionPreset): ConversionSettings {
+    return { ...DEFAULT_CONVERSION_SETTINGS, ...preset.settings };
+  }
+
+  // Built-in presets first, then the user's own
+  static getAll(): ConversionPreset[] {
+    return [...BUILT_IN_PRESETS, ...this.loadUserPresets()];
+  }
+
+  // Finds a preset by id or (case-insensitive) name
+  static find(presets: ConversionPreset[], idOrName: string): ConversionPreset | undefined {
+    const key = idOrName.trim().toLowerCase();
+    return presets.find(preset => preset.id === idOrName || preset.name.toLowerCase() === key);
+  }
+
+  static loadUserPresets(): ConversionPreset[] {
+    const saved = this.readStorage(PRESETS_STORAGE_KEY);
+    if (!saved) return [];
+
+    try {
+      return this.parse(saved);
+    } catch (error) {
+      console.error('Failed to parse saved presets:', error);
+      return [];
+    }
+  }
+
+  static saveUserPresets(presets: ConversionPreset[]) {
+    this.writeStorage(PRESETS_STORAGE_KEY, JSON.stringify(presets.filter(preset => !preset.builtIn)));
+  }
+
+  static create(name: string, settings: ConversionSettings, description?: string): ConversionPreset {
+    const id = `user-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+    return { id, name: name.trim(), description, settings: { ...settings } };
+  }
+
+  // Remembers the settings of the last session
+  static loadLastSettings(): ConversionSettings | null {
+    const saved = this.readStorage(SETTINGS_STORAGE_KEY);
+    if (!saved) return null;
+
+    try {
+      return { ...DEFAULT_CONVERSION_SETTINGS, ...this.sanitizeSettings(JSON.parse(saved)) };
+    } catch (error) {
+      console.error('Failed to parse saved conversion settings:', error);
+      return null;
+    }
+  }
+
+  static saveLastSettings(settings: ConversionSettings) {
+    this.writeStorage(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  }
+
+  static serialize(presets: ConversionPreset[]): string {
+    const file: PresetFile = {
+      type: 'openloveimage-presets',
+      version: 1,
+      presets: presets.map(({ id, name, description, settings }) => ({ id, name, description, settings })),
+    };
+    return JSON.stringify(file, null, 2);
+  }
+
+  // Accepts an exported preset file, a bare list of presets or a single preset
+  static parse(json: string): ConversionPreset[] {
+    const data = JSON.parse(json);
+    const entries: unknown[] = Array.isArray(data)
+      ? data
+      : data?.type === 'openloveimage-presets' && Array.isArray(data.presets)
+        ? data.presets
+        : [data];
+
+    return entries.map((entry, index) => {
+      const preset = entry as Partial<ConversionPreset> | null;
+      if (!preset || typeof preset.name !== 'string' || !preset.name.trim() ||
+          typeof preset.settings !== 'object' || preset.settings === null) {
+        throw new Error(`Preset ${index + 1} needs a name and a settings object`);
+      }
+      return {
+        id: typeof preset.id === 'string' && preset.id ? preset.id : `user-${index}-${Date.now().toString(36)}`,
+        name: preset.name.trim(),
+        description: typeof preset.description === 'string' ? preset.description : undefined,
+        settings: this.sanitizeSettings(preset.settings),
+      };
+    });
+  }
+
+  // Keeps the known settings that have the right type; anything else in imported JSON is dropped
+  static sanitizeSettings(data: unknown): Partial<ConversionSettings> {
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+      return {};
+    }
+
+    const settings: Record<string, unknown> = {};
+    const ignored: string[] = [];
+    for (const [key, value] of Object.entries(data)) {
+      const type = Object.prototype.hasOwnProperty.call(SETTING_TYPES, key)
+        ? SETTING_TYPES[key as keyof ConversionSettings]
+        : undefined;
+      if (type && this.hasType(value, type)) {
+        settings[key] = value;
+      } else {
+        ignored.push(key);
+      }
+    }
+
+    if (ignored.length > 0) {
+      Diagnostics.warn(`Ignoring unknown or invalid settings: ${ignored.join(', ')}`);
+    }
+    return settings as Partial<ConversionSettings>;
+  }
+
+  private static hasType(value: unknown, type: SettingType): boolean {
+    if (Array.isArray(type)) {
+      return type.includes(value as string | number);
+    }
+    switch (type) {
+      case 'number':
+        return typeof value === 'number' && Number.isFinite(value);
+      case 'numbers':
+        return Array.isArray(value) && value.every(item => typeof item === 'number' && Number.isFinite(item));
+      case 'object':
+        return typeof value === 'object' && value !== null && !Array.isArray(value);
+      default:
+        return typeof value === type;
+    }
+  }
+
+  private static readStorage(key: string): string | null {
+    if (typeof localStorage === 'undefined') return null;
+    return localStorage.getItem(key);
+  }
+
+  // Full or disabled storage only costs the remembered presets and settings
+  private static writeStorage(key: string, value: string) {
+    if (typeof localStorage === 'undefined') return;
+    try {
+      localStorage.setItem(key, value);
+    } catch (error) {
+      console.warn(`Failed to save ${key} to localStorage:`, error);
+    }
+  }
+}
@@ -0,0 +1,68 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { ConversionSettings } from '../components/ConversionOptions';
+import { createSettings } from '../../test/fixtures';
+import { ConversionRecipe, ConversionRecipes, DEFAULT_RECIPE } from './conversionRecipe';
+
+// PNG batch settings with the given recipe turned on
+function createRecipeSettings(recipe: Partial<ConversionRecipe> | undefined): ConversionSettings {
+  return createSettings({
+    outputFormat: 'png',
+    quality: 80,
+    maxWidth: 4000,
+    maxHeight: 3000,
+    recipe: recipe && { ...DEFAULT_RECIPE, enabled: true, ...recipe },
+  });
+}
+
+describe('ConversionRecipes', () => {
+  it('is only active when enabled with at least one format', () => {
+    assert.equal(ConversionRecipes.isActive(createRecipeSettings({})), true);
+    assert.equal(ConversionRecipes.isActive(createRecipeSettings({ enabled: false })), false);
+    assert.equal(ConversionRecipes.isActive(createRecipeSettings({ formats: [] })), false);
+    assert.equal(ConversionRecipes.isActive(createRecipeSettings(undefined)), false);
+  });
+
+  it('expands every width in every format', () => {
+    const renditions = ConversionRecipes.expand(createRecipeSettings({ widths: [320, 640, 320], formats: ['webp', 'jpeg', 'webp'] }));
+
+    assert.deepEqual(
+      renditions.map(({ width, format }) => `${width} ${format}`),
+      ['320 webp', '320 jpeg', '640 webp', '640 jpeg']
+    );
+    for (const { width, format, settings } of renditions) {
+      assert.equal(settings.outputFormat, format);
+      assert.equal(settings.maxWidth, width);
+      assert.equal(settings.maxHeight, undefined);
+      assert.equal(settings.recipe, undefined);
+      assert.equal(settings.quality, 80);
+    }
+  });
+
+  it('keeps the batch size limits for the original width', () => {
+    for (const widths of [[0], []]) {
+      const [rendition] = ConversionRecipes.expand(createRecipeSettings({ widths, formats: ['avif'] }));
+
+      assert.equal(rendition.width, 0);
+      assert.equal(rendition.settings.maxWidth, 4000);
+      assert.equal(rendition.settings.maxHeight, 3000);
+    }
+  });
+
+  it('names renditions from the template', () => {
+    const [jpeg, original] = ConversionRecipes.expand(createRecipeSettings({ widths: [640, 0], formats: ['jpeg'] }));
+
+    assert.equal(ConversionRecipes.getFileName('', 'beach.png', jpeg), 'beach-640w.jpg');
+    assert.equal(ConversionRecipes.getFileName('{name}-{width}.{ext}', 'beach.png', original), 'beach-original.jpg');
+    assert.equal(
+      ConversionRecipes.getFileName('{format}/{name}@{width}_q{quality}-{hash:4}.{ext}', 'beach.png', jpeg, 'abcdef'),
+      'jpeg/beach@640_q80-abcd.jpg'
+    );
+  });
+
+  it('parses comma and space separated widths', () => {
+    assert.deepEqual(ConversionRecipes.parseWidths('320, 640 1280,,2560'), [320, 640, 1280, 2560]);
+    assert.deepEqual(ConversionRecipes.parseWidths('0, -5, abc, 800px'), [0, 800]);
+    assert.deepEqual(ConversionRecipes.parseWidths(''), []);
+  });
+});
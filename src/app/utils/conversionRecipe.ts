@@ -0,0 +1,81 @@
+import type { ConversionSettings } from '../components/ConversionOptions';
+import { FileNameTemplate } from './fileNameTemplate';
+
+export interface ConversionRecipe {
+  enabled: boolean;
+  widths: number[]; // Output widths in px, 0 keeps the original size
+  formats: string[]; // Every width is encoded in each of these formats
+  fileNameTemplate: string; // See FileNameTemplate, {width} is the rendition width
+}
+
+// One output of a recipe: the batch settings with this width and format applied
+export interface Rendition {
+  width: number;
+  format: string;
+  settings: ConversionSettings;
+}
+
+export interface RenditionOutput {
+  fileName: string;
+  format: string;
+  width: number;
+  blob: Blob;
+}
+
+export const DEFAULT_RECIPE: ConversionRecipe = {
+  enabled: false,
+  widths: [320, 640, 1280, 2560],
+  formats: ['avif', 'webp', 'jpeg'],
+  fileNameTemplate: '{name}-{width}w.{ext}',
+};
+
+/**
+ * Multi-output recipes: each input is converted once per width × format
+ * combination, and the renditions are named from a template so they can be
+ * bundled together (e.g. for responsive srcset images).
+ */
+export class ConversionRecipes {
+  static isActive(settings: ConversionSettings): boolean {
+    return !!settings.recipe?.enabled && this.expand(settings).length > 0;
+  }
+
+  static expand(settings: ConversionSettings): Rendition[] {
+    const recipe = settings.recipe;
+    if (!recipe) return [];
+
+    const widths = recipe.widths.length > 0 ? [...new Set(recipe.widths)] : [0];
+    const formats = [...new Set(recipe.formats)];
+
+    return widths.flatMap(width => formats.map(format => ({
+      width,
+      format,
+      settings: {
+        ...settings,
+        outputFormat: format,
+        // The rendition width replaces the batch size limits
+        maxWidth: width || settings.maxWidth,
+        maxHeight: width ? undefined : settings.maxHeight,
+        recipe: undefined,
+      },
+    })));
+  }
+
+  static getFileName(template: string, originalFileName: string, rendition: Rendition, hash?: string): string {
+    return FileNameTemplate.render(template || DEFAULT_RECIPE.fileNameTemplate, {
+      originalName: originalFileName,
+      extension: rendition.format === 'jpeg' ? 'jpg' : rendition.format,
+      format: rendition.format,
+      width: rendition.width || 'original',
+      quality: rendition.settings.quality,
+      hash,
+    });
+  }
+
+  // Parses a comma or space separated width list such as "320, 640 1280"
+  static parseWidths(value: string): number[] {
+    return value
+      .split(/[\s,]+/)
+      .map(part => parseInt(part, 10))
+      .filter(width => Number.isFinite(width) && width >= 0);
+  }
+}
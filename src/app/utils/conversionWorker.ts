@@ -0,0 +1,103 @@
+import type { ConversionSettings } from '../components/ConversionOptions';
+import type { ConversionWorkerRequest, ConversionWorkerResponse } from './conversionWorkerPool';
+import { ANIMATED_OUTPUT_FORMATS } from './animatedImage';
+import { ApngCodec } from './apngCodec';
+import { AvifCodec } from './avifCodec';
+import { ColorManagement } from './colorManagement';
+import { GifCodec } from './gifCodec';
+import { HeifEncoder } from './heifEncoder';
+import { HighPrecisionDecoder } from './highPrecisionDecoder';
+import { ImageTransform } from './imageTransform';
+import { JxlCodec } from './jxlCodec';
+import { RasterEncoder } from './rasterEncoder';
+import { TiffDecoder } from './tiffDecoder';
+import { WebpAnimation } from './webpAnimation';
+
+interface WorkerScope {
+  onmessage: ((event: MessageEvent<ConversionWorkerRequest>) => void) | null;
+  postMessage(message: ConversionWorkerResponse, transfer?: Transferable[]): void;
+}
+
+const scope = self as unknown as WorkerScope;
+
+// Inputs and outputs that rely on DOM-only loaders or encoders
+async function needsMainThread(file: File, bytes: Uint8Array, settings: ConversionSettings): Promise<boolean> {
+  if (!RasterEncoder.supports(settings.outputFormat)) return true;
+
+  const isSvg = file.type === 'image/svg+xml' || file.name.toLowerCase().endsWith('.svg');
+  const isTiff = TiffDecoder.isTiff(bytes);
+  const isHeif = HeifEncoder.isHeif(bytes) && !(await AvifCodec.isAvif(file));
+  if (isSvg || isTiff || isHeif) return true;
+
+  const keepsFrames = settings.extractFrames ||
+    (settings.preserveAnimation !== false && ANIMATED_OUTPUT_FORMATS.includes(settings.outputFormat));
+  return !!keepsFrames && (GifCodec.isGif(bytes) || ApngCodec.isAnimated(bytes) || WebpAnimation.isAnimated(bytes));
+}
+
+async function decode(file: File, bytes: Uint8Array, settings: ConversionSettings): Promise<ImageBitmap> {
+  if (await AvifCodec.isAvif(file)) {
+    const imageData = await AvifCodec.decode(file);
+    return await createImageBitmap(ColorManagement.toSrgb(imageData, ColorManagement.readProfile(bytes), settings));
+  }
+  if (await JxlCodec.isJxl(file)) {
+    return await createImageBitmap(await JxlCodec.decode(file));
+  }
+  return await createImageBitmap(file, { imageOrientation: 'from-image' });
+}
+
+async function convert(
+  file: File,
+  settings: ConversionSettings,
+  onProgress: (progress: number) => void
+): Promise<Blob | null> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (await needsMainThread(file, bytes, settings)) {
+    return null;
+  }
+  onProgress(30);
+
+  // 16-bit PNG input skips the 8-bit canvas when the output keeps the precision
+  const highPrecision = HighPrecisionDecoder.decode(bytes, settings);
+  if (highPrecision) {
+    return await RasterEncoder.encode(highPrecision, settings, file);
+  }
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await decode(file, bytes, settings);
+  } catch {
+    // Let the main-thread loaders try formats the worker can't decode
+    return null;
+  }
+  onProgress(50);
+
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  onProgress(60);
+
+  return await ImageTransform.encode(ctx.getImageData(0, 0, canvas.width, canvas.height), settings, file);
+}
+
+scope.onmessage = async (event: MessageEvent<ConversionWorkerRequest>) => {
+  const { id, file, settings } = event.data;
+
+  try {
+    const blob = await convert(file, settings, progress => scope.postMessage({ id, type: 'progress', progress }));
+    if (!blob) {
+      scope.postMessage({ id, type: 'fallback' });
+      return;
+    }
+
+    // Hand the encoded bytes over without copying
+    const buffer = await blob.arrayBuffer();
+    scope.postMessage({ id, type: 'result', buffer, mimeType: blob.type }, [buffer]);
+  } catch (error) {
+    console.error('Worker conversion failed:', error);
+    scope.postMessage({ id, type: 'error', message: error instanceof Error ? error.message : 'Unknown error' });
+  }
+};
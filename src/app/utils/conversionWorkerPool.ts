@@ -0,0 +1,154 @@
+import type { ConversionSettings } from '../components/ConversionOptions';
+
+export interface ConversionWorkerRequest {
+  id: number;
+  file: File;
+  settings: ConversionSettings;
+}
+
+export type ConversionWorkerResponse =
+  | { id: number; type: 'progress'; progress: number }
+  | { id: number; type: 'result'; buffer: ArrayBuffer; mimeType: string }
+  | { id: number; type: 'fallback' } // Needs the DOM, convert on the main thread instead
+  | { id: number; type: 'error'; message: string };
+
+interface PoolTask {
+  id: number;
+  file: File;
+  settings: ConversionSettings;
+  onProgress?: (progress: number) => void;
+  resolve: (blob: Blob | null) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  task: PoolTask | null;
+}
+
+// Every worker holds its own copy of the WASM codecs, so the pool is capped
+const MAX_WORKERS = 8;
+
+/**
+ * Runs conversions in a pool of Web Workers sized to the CPU count.
+ * Workers are started on demand; cancelling a running conversion terminates its
+ * worker, since that is the only way to interrupt a WASM encoder.
+ */
+export class ConversionWorkerPool {
+  private static workers: PoolWorker[] = [];
+  private static queue: PoolTask[] = [];
+  private static nextId = 1;
+
+  static isSupported(): boolean {
+    return typeof Worker !== 'undefined' &&
+      typeof OffscreenCanvas !== 'undefined' &&
+      typeof createImageBitmap !== 'undefined';
+  }
+
+  // Leaves one core for the UI thread
+  static getPoolSize(): number {
+    const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2;
+    return Math.min(MAX_WORKERS, Math.max(1, cores - 1));
+  }
+
+  /**
+   * Converts a file in a worker. Resolves with null when the conversion has to
+   * run on the main thread (SVG, PDF, ICO, TIFF, HEIC, animations).
+   */
+  static convert(
+    file: File,
+    settings: ConversionSettings,
+    onProgress?: (progress: number) => void,
+    abortSignal?: AbortSignal
+  ): Promise<Blob | null> {
+    return new Promise((resolve, reject) => {
+      if (abortSignal?.aborted) {
+        reject(new Error('Conversion cancelled'));
+        return;
+      }
+
+      const task: PoolTask = { id: this.nextId++, file, settings, onProgress, resolve, reject };
+      abortSignal?.addEventListener('abort', () => this.cancel(task), { once: true });
+
+      this.queue.push(task);
+      this.dispatch();
+    });
+  }
+
+  private static dispatch() {
+    while (this.queue.length > 0) {
+      let slot = this.workers.find(worker => !worker.task);
+      if (!slot && this.workers.length < this.getPoolSize()) {
+        slot = this.spawn();
+      }
+      if (!slot) return;
+
+      const task = this.queue.shift()!;
+      slot.task = task;
+      const request: ConversionWorkerRequest = { id: task.id, file: task.file, settings: task.settings };
+      slot.worker.postMessage(request);
+    }
+  }
+
+  private static spawn(): PoolWorker {
+    const slot: PoolWorker = {
+      worker: new Worker(new URL('./conversionWorker.ts', import.meta.url)),
+      task: null,
+    };
+
+    slot.worker.onmessage = (event: MessageEvent<ConversionWorkerResponse>) => {
+      this.handleMessage(slot, event.data);
+    };
+    slot.worker.onerror = (event: ErrorEvent) => {
+      const task = slot.task;
+      this.remove(slot);
+      task?.reject(new Error(`Conversion worker failed: ${event.message || 'Unknown error'}`));
+      this.dispatch();
+    };
+
+    this.workers.push(slot);
+    return slot;
+  }
+
+  private static handleMessage(slot: PoolWorker, message: ConversionWorkerResponse) {
+    const task = slot.task;
+    if (!task || task.id !== message.id) return;
+
+    if (message.type === 'progress') {
+      task.onProgress?.(message.progress);
+      return;
+    }
+
+    slot.task = null;
+    switch (message.type) {
+      case 'result':
+        task.resolve(new Blob([message.buffer], { type: message.mimeType }));
+        break;
+      case 'fallback':
+        task.resolve(null);
+        break;
+      case 'error':
+        task.reject(new Error(message.message));
+        break;
+    }
+    this.dispatch();
+  }
+
+  private static cancel(task: PoolTask) {
+    const queuedIndex = this.queue.indexOf(task);
+    if (queuedIndex !== -1) {
+      this.queue.splice(queuedIndex, 1);
+    } else {
+      const slot = this.workers.find(worker => worker.task === task);
+      if (!slot) return; // Already finished
+      this.remove(slot);
+      this.dispatch();
+    }
+    task.reject(new Error('Conversion cancelled'));
+  }
+
+  private static remove(slot: PoolWorker) {
+    slot.worker.terminate();
+    this.workers = this.workers.filter(worker => worker !== slot);
+  }
+}
@@ -0,0 +1,26 @@
+type DiagnosticsWriter = (...args: unknown[]) => void;
+
+/**
+ * Debug output and recoverable warnings of the shared conversion modules.
+ * The app keeps them on the browser console; the CLI hides them unless
+ * --verbose sends them to stderr, so stdout only carries help text and
+ * reports.
+ */
+export class Diagnostics {
+  private static writer: DiagnosticsWriter | null = (...args) => console.log(...args);
+  private static warningWriter: DiagnosticsWriter | null = (...args) => console.warn(...args);
+
+  // Warnings go to the same writer unless they get their own
+  static setWriter(writer: DiagnosticsWriter | null, warningWriter: DiagnosticsWriter | null = writer): void {
+    this.writer = writer;
+    this.warningWriter = warningWriter;
+  }
+
+  static log(...args: unknown[]): void {
+    this.writer?.(...args);
+  }
+
+  static warn(...args: unknown[]): void {
+    this.warningWriter?.(...args);
+  }
+}
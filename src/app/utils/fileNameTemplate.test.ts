@@ -0,0 +1,70 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { FileNameContext, FileNameTemplate } from './fileNameTemplate';
+
+const CONTEXT: FileNameContext = {
+  originalName: 'holiday.photo.PNG',
+  extension: 'webp',
+  width: 1280,
+  height: 720,
+  quality: 82,
+  index: 7,
+  date: new Date(2024, 2, 5, 7, 8, 9),
+  exif: { Model: ' X-T5 ', DateTimeOriginal: new Date(2023, 11, 24, 18, 30, 0), Empty: null },
+  hash: '0123456789abcdef0123456789abcdef',
+};
+
+describe('FileNameTemplate', () => {
+  it('fills in the tokens', () => {
+    assert.equal(FileNameTemplate.render('{name}.{ext}', CONTEXT), 'holiday.photo.webp');
+    assert.equal(FileNameTemplate.render('{name}_{width}x{height}_q{quality}.{format}', CONTEXT), 'holiday.photo_1280x720_q82.webp');
+    assert.equal(FileNameTemplate.render('{index:000}-{hash}.{ext}', CONTEXT), '007-01234567.webp');
+    assert.equal(FileNameTemplate.render('{hash:12}.{ext}', CONTEXT), '0123456789ab.webp');
+  });
+
+  it('formats dates and EXIF values', () => {
+    assert.equal(FileNameTemplate.render('{date}/{name}.{ext}', CONTEXT), '2024-03-05/holiday.photo.webp');
+    assert.equal(FileNameTemplate.render('{date:yyMMdd_HHmmss}.{ext}', CONTEXT), '240305_070809.webp');
+    assert.equal(FileNameTemplate.render('{exif.Model}/{exif.DateTimeOriginal:yyyy}.{ext}', CONTEXT), 'X-T5/2023.webp');
+  });
+
+  it('renders missing values empty and keeps unknown tokens', () => {
+    const context: FileNameContext = { originalName: 'a.jpg', extension: 'png' };
+    assert.equal(FileNameTemplate.render('{name}{width}{index}{hash}{exif.Model}.{ext}', context), 'a.png');
+    assert.equal(FileNameTemplate.render('{name}-{camera}.{ext}', context), 'a-{camera}.png');
+  });
+
+  it('keeps folders inside the output and strips unsafe characters', () => {
+    assert.equal(FileNameTemplate.render('../{name}//./x:y?.{ext}', CONTEXT), 'holiday.photo/x_y_.webp');
+    assert.equal(FileNameTemplate.render('a\\b/{name}.{ext}', CONTEXT), 'a/b/holiday.photo.webp');
+  });
+
+  it('falls back to the default name for blank results', () => {
+    assert.equal(FileNameTemplate.render('  ', CONTEXT), 'holiday.photo.webp');
+    assert.equal(FileNameTemplate.render('{exif.Empty}', CONTEXT), 'holiday.photo.webp');
+  });
+
+  it('detects the tokens that need extra work', () => {
+    assert.equal(FileNameTemplate.usesToken('{name}-{hash:8}', 'hash'), true);
+    assert.equal(FileNameTemplate.usesToken('{exif.Model}/{name}', 'exif'), true);
+    assert.equal(FileNameTemplate.usesToken('{hashes}', 'hash'), false);
+    assert.equal(FileNameTemplate.usesToken('{name}', 'width'), false);
+  });
+
+  it('hashes the contents with SHA-256', async () => {
+    assert.equal(
+      await FileNameTemplate.hash(new Blob(['abc'])),
+      'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'
+    );
+  });
+
+  it('numbers duplicate paths case-insensitively', () => {
+    const used = new Set<string>();
+    assert.equal(FileNameTemplate.makeUnique('out/photo.webp', used), 'out/photo.webp');
+    assert.equal(FileNameTemplate.makeUnique('out/Photo.webp', used), 'out/Photo (2).webp');
+    assert.equal(FileNameTemplate.makeUnique('out/photo.webp', used), 'out/photo (3).webp');
+    // Dots in folder names are not extensions
+    assert.equal(FileNameTemplate.makeUnique('v1.2/README', used), 'v1.2/README');
+    assert.equal(FileNameTemplate.makeUnique('v1.2/README', used), 'v1.2/README (2)');
+  });
+});
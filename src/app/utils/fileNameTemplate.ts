@@ -0,0 +1,114 @@
+export const DEFAULT_FILE_NAME_TEMPLATE = '{name}.{ext}';
+
+// Values the template tokens are filled from; missing values render empty
+export interface FileNameContext {
+  originalName: string;
+  extension: string; // Output extension without the dot
+  format?: string;
+  width?: number | string;
+  height?: number | string;
+  quality?: number;
+  index?: number; // 1-based position in the batch
+  date?: Date;
+  exif?: Record<string, unknown>;
+  hash?: string; // Hex SHA-256 of the output
+}
+
+const TOKEN_PATTERN = /\{([\w.]+)(?::([^}]*))?\}/g;
+
+/**
+ * Output file name templates such as `{name}_{width}x{height}.{ext}`,
+ * `{date:yyyy-MM-dd}/{exif.Model}/{name}.{ext}`, `{index:000}` or `{hash:8}`.
+ * Slashes create folders inside ZIP archives.
+ */
+export class FileNameTemplate {
+  static render(template: string, context: FileNameContext): string {
+    const rendered = (template.trim() || DEFAULT_FILE_NAME_TEMPLATE).replace(
+      TOKEN_PATTERN,
+      (token, key: string, format: string | undefined) => this.renderToken(key, format, context) ?? token
+    );
+    return this.sanitizePath(rendered) || `${this.baseName(context.originalName)}.${context.extension}`;
+  }
+
+  static usesToken(template: string, token: 'hash' | 'exif' | 'width' | 'height'): boolean {
+    return new RegExp(`\\{${token}[.:}]`).test(template);
+  }
+
+  // SHA-256 of the file contents as hex
+  static async hash(blob: Blob): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  // Appends " (2)", " (3)", ... before the extension until the path is unused
+  static makeUnique(path: string, usedPaths: Set<string>): string {
+    let unique = path;
+    const dot = path.lastIndexOf('.');
+    const slash = path.lastIndexOf('/');
+    const [stem, extension] = dot > slash + 1 ? [path.slice(0, dot), path.slice(dot)] : [path, ''];
+
+    for (let copy = 2; usedPaths.has(unique.toLowerCase()); copy++) {
+      unique = `${stem} (${copy})${extension}`;
+    }
+    usedPaths.add(unique.toLowerCase());
+    return unique;
+  }
+
+  static formatDate(date: Date, pattern: string): string {
+    const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+    const parts: Record<string, string> = {
+      yyyy: String(date.getFullYear()),
+      yy: pad(date.getFullYear() % 100),
+      MM: pad(date.getMonth() + 1),
+      dd: pad(date.getDate()),
+      HH: pad(date.getHours()),
+      mm: pad(date.getMinutes()),
+      ss: pad(date.getSeconds()),
+    };
+    return pattern.replace(/yyyy|yy|MM|dd|HH|mm|ss/g, part => parts[part]);
+  }
+
+  private static renderToken(key: string, format: string | undefined, context: FileNameContext): string | undefined {
+    switch (key) {
+      case 'name':
+        return this.baseName(context.originalName);
+      case 'ext':
+        return context.extension;
+      case 'format':
+        return context.format ?? context.extension;
+      case 'width':
+        return context.width !== undefined ? String(context.width) : '';
+      case 'height':
+        return context.height !== undefined ? String(context.height) : '';
+      case 'quality':
+        return context.quality !== undefined ? String(context.quality) : '';
+      case 'index':
+        // The format gives the width: {index:000} -> 001
+        return context.index !== undefined ? String(context.index).padStart(format?.length ?? 0, '0') : '';
+      case 'date':
+        return this.formatDate(context.date ?? new Date(), format || 'yyyy-MM-dd');
+      case 'hash':
+        return context.hash ? context.hash.slice(0, Number(format) || 8) : '';
+    }
+
+    if (key.startsWith('exif.')) {
+      const value = context.exif?.[key.slice(5)];
+      if (value instanceof Date) return this.formatDate(value, format || 'yyyy-MM-dd');
+      return value !== undefined && value !== null ? String(value).trim() : '';
+    }
+    return undefined; // Unknown tokens are kept as typed
+  }
+
+  private static baseName(fileName: string): string {
+    return fileName.replace(/\.[^/.]+$/, '');
+  }
+
+  // Removes characters file systems reject and any ".." or empty folder names
+  private static sanitizePath(path: string): string {
+    return path
+      .split(/[\\/]+/)
+      .map(segment => segment.replace(/[<>:"|?*\u0000-\u001f]/g, '_').trim())
+      .filter(segment => segment && segment !== '.' && segment !== '..')
+      .join('/');
+  }
+}
@@ -0,0 +1,484 @@
+import type { AnimatedImage, FrameDisposal, FramePatch } from './animatedImage';
+import { FrameCompositor } from './animatedImage';
+import { ColorQuantizer, DitherMethod, QuantizeMethod } from './colorQuantizer';
+
+export type GifPaletteMode = 'global' | 'local';
+
+export interface GifEncodeOptions {
+  maxColors?: number; // 2-256, including the transparent entry
+  palette?: GifPaletteMode; // One palette for every frame, or one per frame
+  quantization?: QuantizeMethod;
+  dithering?: DitherMethod;
+  transparencyThreshold?: number; // Alpha below this is transparent, 0 keeps every pixel opaque
+  frameDelay?: number; // Milliseconds for every frame, 0 keeps the source timing
+}
+
+interface GifPalette {
+  colors: Uint8Array; // Opaque RGBA entries, transparent entry not included
+  exact: boolean; // Every color is in the palette, so no dithering is needed
+}
+
+const DISPOSALS: FrameDisposal[] = ['none', 'none', 'background', 'previous'];
+
+// Browsers play GIF delays under 20ms at 100ms
+const MIN_BROWSER_DELAY = 20;
+const DEFAULT_DELAY = 100;
+
+const MAX_CODES = 4096;
+
+// Pixels sampled when building a palette from many frames
+const MAX_PALETTE_SAMPLES = 1 << 22;
+
+/**
+ * GIF decoder/encoder. Decoding composites every frame (disposal, transparency,
+ * interlacing) and keeps delays and the NETSCAPE loop count; encoding writes
+ * full frames with a global or per-frame palette.
+ */
+export class GifCodec {
+  static isGif(bytes: Uint8Array): boolean {
+    const signature = String.fromCharCode(...bytes.subarray(0, 6));
+    return signature === 'GIF87a' || signature === 'GIF89a';
+  }
+
+  static decode(bytes: Uint8Array): AnimatedImage {
+    if (!this.isGif(bytes)) {
+      throw new Error('Not a GIF file');
+    }
+
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const width = view.getUint16(6, true);
+    const height = view.getUint16(8, true);
+    const screenFlags = bytes[10];
+    let offset = 13;
+
+    let globalPalette: Uint8Array | null = null;
+    if (screenFlags & 0x80) {
+      const size = 3 * (1 << ((screenFlags & 0x07) + 1));
+      globalPalette = bytes.subarray(offset, offset + size);
+      offset += size;
+    }
+
+    const patches: FramePatch[] = [];
+    let loopCount = 1;
+    let delay = 0;
+    let disposal: FrameDisposal = 'none';
+    let transparentIndex = -1;
+
+    while (offset < bytes.length) {
+      const blockType = bytes[offset++];
+
+      if (blockType === 0x3b) break; // Trailer
+
+      if (blockType === 0x21) {
+        const label = bytes[offset++];
+        if (label === 0xf9 && bytes[offset] >= 4) {
+          // Graphic control extension
+          const flags = bytes[offset + 1];
+          disposal = DISPOSALS[(flags >> 2) & 0x07] || 'none';
+          delay = view.getUint16(offset + 2, true) * 10;
+          transparentIndex = flags & 0x01 ? bytes[offset + 4] : -1;
+        } else if (label === 0xff && String.fromCharCode(...bytes.subarray(offset + 1, offset + 12)) === 'NETSCAPE2.0') {
+          // Stored value is the number of repeats after the first play
+          const repeats = view.getUint16(offset + 14, true);
+          loopCount = repeats === 0 ? 0 : repeats + 1;
+        }
+        offset = this.skipSubBlocks(bytes, offset);
+        continue;
+      }
+
+      if (blockType !== 0x2c) {
+        throw new Error(`Unexpected GIF block 0x${blockType.toString(16)}`);
+      }
+
+      const x = view.getUint16(offset, true);
+      const y = view.getUint16(offset + 2, true);
+      const frameWidth = view.getUint16(offset + 4, true);
+      const frameHeight = view.getUint16(offset + 6, true);
+      const frameFlags = bytes[offset + 8];
+      offset += 9;
+
+      let palette = globalPalette;
+      if (frameFlags & 0x80) {
+        const size = 3 * (1 << ((frameFlags & 0x07) + 1));
+        palette = bytes.subarray(offset, offset + size);
+        offset += size;
+      }
+
+      const minCodeSize = bytes[offset++];
+      const dataEnd = this.skipSubBlocks(bytes, offset);
+      const indices = this.lzwDecode(this.readSubBlocks(bytes, offset, dataEnd), minCodeSize, frameWidth * frameHeight);
+      offset = dataEnd;
+
+      const rows = frameFlags & 0x40 ? this.interlacedRowOrder(frameHeight) : null;
+      const pixels = new Uint8ClampedArray(frameWidth * frameHeight * 4);
+      for (let row = 0; row < frameHeight; row++) {
+        const targetRow = rows ? rows[row] : row;
+        for (let column = 0; column < frameWidth; column++) {
+          const index = indices[row * frameWidth + column];
+          if (index === transparentIndex || !palette || index * 3 >= palette.length) continue;
+          const target = (targetRow * frameWidth + column) * 4;
+          pixels[target] = palette[index * 3];
+          pixels[target + 1] = palette[index * 3 + 1];
+          pixels[target + 2] = palette[index * 3 + 2];
+          pixels[target + 3] = 255;
+        }
+      }
+
+      patches.push({
+        x,
+        y,
+        width: frameWidth,
+        height: frameHeight,
+        pixels,
+        delay: delay < MIN_BROWSER_DELAY ? DEFAULT_DELAY : delay,
+        blend: true,
+        disposal,
+      });
+
+      // Graphic control only applies to the next image
+      delay = 0;
+      disposal = 'none';
+      transparentIndex = -1;
+    }
+
+    if (patches.length === 0) {
+      throw new Error('GIF contains no frames');
+    }
+
+    return {
+      width,
+      height,
+      frames: FrameCompositor.compose(width, height, patches),
+      loopCount,
+    };
+  }
+
+  static encode(animation: AnimatedImage, options: GifEncodeOptions = {}): Blob {
+    const { width, height } = animation;
+    const maxColors = Math.min(256, Math.max(2, Math.round(options.maxColors ?? 256)));
+    const threshold = Math.min(255, Math.max(0, Math.round(options.transparencyThreshold ?? 128)));
+    const method = options.quantization || 'median-cut';
+    const dithering = options.dithering || 'floyd-steinberg';
+
+    const frames = animation.frames.map(frame => this.applyAlphaThreshold(frame.imageData, threshold));
+    const hasTransparency = frames.some(frame => frame.transparent);
+    // The transparent entry takes one palette slot
+    const colorLimit = hasTransparency ? maxColors - 1 : maxColors;
+    const globalPalette = options.palette === 'global'
+      ? this.createPalette(frames.map(frame => frame.imageData), colorLimit, method)
+      : null;
+
+    const parts: Uint8Array[] = [];
+    const header = new Uint8Array(13);
+    const headerView = new DataView(header.buffer);
+    header.set([0x47, 0x49, 0x46, 0x38, 0x39, 0x61]); // GIF89a
+    headerView.setUint16(6, width, true);
+    headerView.setUint16(8, height, true);
+    parts.push(header);
+
+    if (globalPalette) {
+      const { table, bits } = this.createColorTable(globalPalette.colors, hasTransparency);
+      header[10] = 0x80 | ((bits - 1) << 4) | (bits - 1); // Global color table
+      parts.push(table);
+    }
+
+    if (animation.frames.length > 1 && animation.loopCount !== 1) {
+      const repeats = animation.loopCount === 0 ? 0 : Math.min(0xffff, animation.loopCount - 1);
+      parts.push(new Uint8Array([
+        0x21, 0xff, 0x0b,
+        ...Array.from('NETSCAPE2.0', char => char.charCodeAt(0)),
+        0x03, 0x01, repeats & 0xff, repeats >> 8, 0x00,
+      ]));
+    }
+
+    for (const [index, frame] of frames.entries()) {
+      const palette = globalPalette || this.createPalette([frame.imageData], colorLimit, method);
+      const transparentIndex = hasTransparency ? palette.colors.length / 4 : -1;
+      const { indices } = ColorQuantizer.mapToPalette(frame.imageData, palette.colors, palette.exact ? 'none' : dithering);
+      if (frame.transparent) {
+        const { data } = frame.imageData;
+        for (let p = 0; p < indices.length; p++) {
+          if (data[p * 4 + 3] === 0) indices[p] = transparentIndex;
+        }
+      }
+
+      // Full frames: clear to transparent between frames so earlier frames don't show through
+      const disposal = hasTransparency ? 2 : 1;
+      const delay = Math.round((options.frameDelay || animation.frames[index].delay) / 10);
+      parts.push(new Uint8Array([
+        0x21, 0xf9, 0x04,
+        (disposal << 2) | (hasTransparency ? 1 : 0),
+        delay & 0xff, (delay >> 8) & 0xff,
+        Math.max(0, transparentIndex), 0x00,
+      ]));
+
+      const descriptor = new Uint8Array(10);
+      const descriptorView = new DataView(descriptor.buffer);
+      descriptor[0] = 0x2c;
+      descriptorView.setUint16(5, width, true);
+      descriptorView.setUint16(7, height, true);
+      parts.push(descriptor);
+
+      let bits: number;
+      if (globalPalette) {
+        bits = this.tableBits(globalPalette.colors, hasTransparency);
+      } else {
+        const localTable = this.createColorTable(palette.colors, hasTransparency);
+        bits = localTable.bits;
+        descriptor[9] = 0x80 | (bits - 1); // Local color table
+        parts.push(localTable.table);
+      }
+
+      const minCodeSize = Math.max(2, bits);
+      parts.push(new Uint8Array([minCodeSize]));
+      parts.push(this.toSubBlocks(this.lzwEncode(indices, minCodeSize)));
+    }
+
+    parts.push(new Uint8Array([0x3b]));
+    return new Blob(parts, { type: 'image/gif' });
+  }
+
+  // GIF transparency is on/off, so alpha is thresholded up front
+  private static applyAlphaThreshold(imageData: ImageData, threshold: number) {
+    const data = new Uint8ClampedArray(imageData.data);
+    let transparent = false;
+    for (let i = 0; i < data.length; i += 4) {
+      if (data[i + 3] < threshold) {
+        data[i] = data[i + 1] = data[i + 2] = data[i + 3] = 0;
+        transparent = true;
+      } else {
+        data[i + 3] = 255;
+      }
+    }
+    return { imageData: { data, width: imageData.width, height: imageData.height } as ImageData, transparent };
+  }
+
+  // Builds a palette from the opaque pixels of one or more frames
+  private static createPalette(images: ImageData[], maxColors: number, method: QuantizeMethod): GifPalette {
+    let opaqueCount = 0;
+    for (const image of images) {
+      for (let i = 3; i < image.data.length; i += 4) {
+        if (image.data[i] !== 0) opaqueCount++;
+      }
+    }
+    if (opaqueCount === 0) {
+      return { colors: new Uint8Array([0, 0, 0, 255]), exact: true };
+    }
+
+    const step = Math.ceil(opaqueCount / MAX_PALETTE_SAMPLES);
+    const samples = new Uint8ClampedArray(Math.ceil(opaqueCount / step) * 4);
+    let seen = 0;
+    let length = 0;
+    for (const image of images) {
+      for (let i = 0; i < image.data.length; i += 4) {
+        if (image.data[i + 3] === 0) continue;
+        if (seen++ % step === 0) {
+          samples.set(image.data.subarray(i, i + 4), length);
+          length += 4;
+        }
+      }
+    }
+
+    const sampled = { data: samples.subarray(0, length), width: length / 4, height: 1 } as ImageData;
+    // An exact palette is only trustworthy when every pixel was looked at
+    const exactColors = step === 1 ? ColorQuantizer.findExactPalette(sampled, maxColors) : null;
+    return exactColors
+      ? { colors: exactColors, exact: true }
+      : { colors: ColorQuantizer.buildPalette(sampled, maxColors, method), exact: false };
+  }
+
+  private static tableBits(colors: Uint8Array, hasTransparency: boolean): number {
+    const entries = colors.length / 4 + (hasTransparency ? 1 : 0);
+    return Math.max(1, Math.ceil(Math.log2(entries)));
+  }
+
+  // RGB color table padded to a power of two; the transparent entry stays black
+  private static createColorTable(colors: Uint8Array, hasTransparency: boolean) {
+    const bits = this.tableBits(colors, hasTransparency);
+    const table = new Uint8Array(3 * (1 << bits));
+    for (let i = 0; i < colors.length / 4; i++) {
+      table.set(colors.subarray(i * 4, i * 4 + 3), i * 3);
+    }
+    return { table, bits };
+  }
+
+  private static lzwEncode(indices: Uint8Array, minCodeSize: number): Uint8Array {
+    const clearCode = 1 << minCodeSize;
+    const endCode = clearCode + 1;
+    const dictionary = new Map<number, number>();
+    let codeSize = minCodeSize + 1;
+    let nextCode = endCode + 1;
+
+    let output = new Uint8Array(Math.max(256, indices.length >> 1));
+    let length = 0;
+    let bitBuffer = 0;
+    let bitCount = 0;
+
+    const emit = (code: number) => {
+      bitBuffer |= code << bitCount;
+      bitCount += codeSize;
+      while (bitCount >= 8) {
+        if (length === output.length) {
+          const grown = new Uint8Array(output.length * 2);
+          grown.set(output);
+          output = grown;
+        }
+        output[length++] = bitBuffer & 0xff;
+        bitBuffer >>>= 8;
+        bitCount -= 8;
+      }
+    };
+
+    emit(clearCode);
+    let current = indices[0];
+    for (let i = 1; i < indices.length; i++) {
+      const symbol = indices[i];
+      const key = (current << 8) | symbol;
+      const existing = dictionary.get(key);
+      if (existing !== undefined) {
+        current = existing;
+        continue;
+      }
+
+      emit(current);
+      if (nextCode === MAX_CODES) {
+        emit(clearCode);
+        dictionary.clear();
+        codeSize = minCodeSize + 1;
+        nextCode = endCode + 1;
+      } else {
+        if (nextCode >= 1 << codeSize) codeSize++;
+        dictionary.set(key, nextCode++);
+      }
+      current = symbol;
+    }
+    emit(current);
+    emit(endCode);
+    if (bitCount > 0) {
+      codeSize = 8;
+      emit(0);
+    }
+
+    return output.subarray(0, length);
+  }
+
+  private static lzwDecode(data: Uint8Array, minCodeSize: number, pixelCount: number): Uint8Array {
+    const output = new Uint8Array(pixelCount);
+    const clearCode = 1 << minCodeSize;
+    const endCode = clearCode + 1;
+    const prefixes = new Int16Array(MAX_CODES);
+    const suffixes = new Uint8Array(MAX_CODES);
+    const firstSymbols = new Uint8Array(MAX_CODES);
+    const stack = new Uint8Array(MAX_CODES + 1);
+
+    for (let code = 0; code < clearCode; code++) {
+      suffixes[code] = code;
+      firstSymbols[code] = code;
+    }
+
+    let codeSize = minCodeSize + 1;
+    let nextCode = endCode + 1;
+    let previous = -1;
+    let position = 0;
+    let bitBuffer = 0;
+    let bitCount = 0;
+    let dataIndex = 0;
+
+    while (position < pixelCount) {
+      while (bitCount < codeSize && dataIndex < data.length) {
+        bitBuffer |= data[dataIndex++] << bitCount;
+        bitCount += 8;
+      }
+      if (bitCount < codeSize) break;
+
+      const code = bitBuffer & ((1 << codeSize) - 1);
+      bitBuffer >>>= codeSize;
+      bitCount -= codeSize;
+
+      if (code === clearCode) {
+        codeSize = minCodeSize + 1;
+        nextCode = endCode + 1;
+        previous = -1;
+        continue;
+      }
+      if (code === endCode) break;
+
+      if (previous === -1) {
+        output[position++] = code;
+        previous = code;
+        continue;
+      }
+
+      // Unwind the code (or previous + its first symbol for the KwKwK case) onto the stack
+      let stackSize = 0;
+      let current = code;
+      if (code >= nextCode) {
+        stack[stackSize++] = firstSymbols[previous];
+        current = previous;
+      }
+      while (current >= clearCode) {
+        stack[stackSize++] = suffixes[current];
+        current = prefixes[current];
+      }
+      stack[stackSize++] = current;
+
+      while (stackSize > 0 && position < pixelCount) {
+        output[position++] = stack[--stackSize];
+      }
+
+      if (nextCode < MAX_CODES) {
+        prefixes[nextCode] = previous;
+        suffixes[nextCode] = current;
+        firstSymbols[nextCode] = firstSymbols[previous];
+        nextCode++;
+        if (nextCode === 1 << codeSize && codeSize < 12) codeSize++;
+      }
+      previous = code;
+    }
+
+    return output;
+  }
+
+  // Maps each stored row to its display row for interlaced images
+  private static interlacedRowOrder(height: number): number[] {
+    const rows: number[] = [];
+    for (const [start, step] of [[0, 8], [4, 8], [2, 4], [1, 2]]) {
+      for (let row = start; row < height; row += step) rows.push(row);
+    }
+    return rows;
+  }
+
+  private static skipSubBlocks(bytes: Uint8Array, offset: number): number {
+    while (offset < bytes.length && bytes[offset] !== 0) {
+      offset += bytes[offset] + 1;
+    }
+    return offset + 1;
+  }
+
+  private static readSubBlocks(bytes: Uint8Array, start: number, end: number): Uint8Array {
+    const data = new Uint8Array(end - start);
+    let length = 0;
+    let offset = start;
+    while (offset < end && bytes[offset] !== 0) {
+      const size = bytes[offset];
+      data.set(bytes.subarray(offset + 1, offset + 1 + size), length);
+      length += size;
+      offset += size + 1;
+    }
+    return data.subarray(0, length);
+  }
+
+  private static toSubBlocks(data: Uint8Array): Uint8Array {
+    const blockCount = Math.ceil(data.length / 255);
+    const output = new Uint8Array(data.length + blockCount + 1);
+    let offset = 0;
+    for (let i = 0; i < data.length; i += 255) {
+      const block = data.subarray(i, i + 255);
+      output[offset++] = block.length;
+      output.set(block, offset);
+      offset += block.length;
+    }
+    output[offset] = 0; // Block terminator
+    return output;
+  }
+}
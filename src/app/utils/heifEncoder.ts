@@ -0,0 +1,334 @@
+import type { FFmpeg } from '@ffmpeg/ffmpeg';
+import { IsoBmff } from './isoBmff';
+
+export type HeifChromaSubsampling = '420' | '422' | '444';
+
+export interface HeifEncodeOptions {
+  quality: number; // 0-100, mapped to x265 CRF (100 = lossless)
+  chromaSubsampling?: HeifChromaSubsampling;
+  preserveAlpha?: boolean;
+  iccProfile?: Uint8Array; // Stored next to the nclx color box
+}
+
+interface HevcImage {
+  hvcC: Uint8Array; // Complete hvcC box, copied as-is into the HEIF property container
+  data: Uint8Array; // Length-prefixed NAL units of the single coded picture
+}
+
+// ISO-BMFF brands of HEIC/HEIF files (AVIF shares mif1, so check for it first)
+const HEIF_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'];
+
+// Alpha planes are stored as auxiliary HEVC images (ISO/IEC 23008-12, 6.5.8)
+const ALPHA_AUX_TYPE = 'urn:mpeg:hevc:2015:auxid:1';
+
+/**
+ * HEIC writer built on the x265 encoder shipped with ffmpeg.wasm.
+ * ffmpeg produces a one-frame MP4 which is then repackaged into a HEIF
+ * still-image container (ftyp + meta + mdat), since ffmpeg has no HEIF muxer.
+ */
+export class HeifEncoder {
+  private static ffmpegPromise: Promise<FFmpeg> | null = null;
+
+  static isHeif(bytes: Uint8Array): boolean {
+    const brand = String.fromCharCode(...bytes.subarray(4, 12));
+    return brand.startsWith('ftyp') && HEIF_BRANDS.includes(brand.slice(4));
+  }
+
+  private static async getFFmpeg(): Promise<FFmpeg> {
+    if (!this.ffmpegPromise) {
+      this.ffmpegPromise = (async () => {
+        const { FFmpeg } = await import('@ffmpeg/ffmpeg');
+        const ffmpeg = new FFmpeg();
+        await ffmpeg.load({
+          coreURL: new URL('@ffmpeg/core/dist/esm/ffmpeg-core.js', import.meta.url).href,
+          wasmURL: new URL('@ffmpeg/core/dist/esm/ffmpeg-core.wasm', import.meta.url).href,
+        });
+        return ffmpeg;
+      })();
+
+      // Allow a retry on the next call if the core failed to load
+      this.ffmpegPromise.catch(() => {
+        this.ffmpegPromise = null;
+      });
+    }
+    return this.ffmpegPromise;
+  }
+
+  static async encode(imageData: ImageData, options: HeifEncodeOptions): Promise<Blob> {
+    const { width, height, data } = imageData;
+    const chroma = options.chromaSubsampling || '420';
+
+    // HEVC 4:2:0 / 4:2:2 need even dimensions; the padding is cropped away again with a clap box
+    const codedWidth = width + (width % 2);
+    const codedHeight = height + (height % 2);
+
+    const color = await this.encodeHevc(
+      new Uint8Array(data.buffer, data.byteOffset, data.byteLength),
+      'rgba',
+      width,
+      height,
+      `yuv${chroma}p`,
+      options.quality
+    );
+
+    let alpha: HevcImage | null = null;
+    if (options.preserveAlpha !== false && this.hasTransparency(data)) {
+      const alphaPlane = new Uint8Array(width * height);
+      for (let i = 0; i < alphaPlane.length; i++) {
+        alphaPlane[i] = data[i * 4 + 3];
+      }
+      alpha = await this.encodeHevc(alphaPlane, 'gray', width, height, 'gray', options.quality);
+    }
+
+    const heif = this.createHeifStructure({
+      width,
+      height,
+      codedWidth,
+      codedHeight,
+      brand: chroma === '420' ? 'heic' : 'heix',
+      color,
+      alpha,
+      iccProfile: options.iccProfile,
+    });
+
+    return new Blob([heif], { type: 'image/heic' });
+  }
+
+  private static hasTransparency(data: Uint8ClampedArray): boolean {
+    for (let i = 3; i < data.length; i += 4) {
+      if (data[i] !== 255) return true;
+    }
+    return false;
+  }
+
+  private static async encodeHevc(
+    pixels: Uint8Array,
+    inputPixelFormat: 'rgba' | 'gray',
+    width: number,
+    height: number,
+    outputPixelFormat: string,
+    quality: number
+  ): Promise<HevcImage> {
+    const ffmpeg = await this.getFFmpeg();
+    const id = Math.random().toString(36).slice(2);
+    const inputName = `heif-${id}.raw`;
+    const outputName = `heif-${id}.mp4`;
+
+    const lossless = quality >= 100;
+    const crf = Math.min(51, Math.max(0, Math.round((100 - quality) * 0.51)));
+    const x265Params = [
+      'log-level=error',
+      'range=full',
+      'colorprim=bt709',
+      'transfer=iec61966-2-1',
+      'colormatrix=smpte170m',
+      lossless ? 'lossless=1' : `crf=${crf}`,
+    ].join(':');
+
+    await ffmpeg.writeFile(inputName, pixels);
+
+    try {
+      const exitCode = await ffmpeg.exec([
+        '-f', 'rawvideo',
+        '-pix_fmt', inputPixelFormat,
+        '-s', `${width}x${height}`,
+        '-i', inputName,
+        '-frames:v', '1',
+        '-vf', `pad=ceil(iw/2)*2:ceil(ih/2)*2,scale=out_range=full:out_color_matrix=bt601,format=${outputPixelFormat}`,
+        '-c:v', 'libx265',
+        '-preset', 'medium',
+        '-x265-params', x265Params,
+        '-tag:v', 'hvc1',
+        '-f', 'mp4',
+        outputName,
+      ]);
+
+      if (exitCode !== 0) {
+        throw new Error(`x265 encoder exited with code ${exitCode}`);
+      }
+
+      const output = await ffmpeg.readFile(outputName);
+      if (typeof output === 'string') {
+        throw new Error('Unexpected text output from HEVC encoder');
+      }
+
+      return this.extractHevcImage(output);
+    } finally {
+      await ffmpeg.deleteFile(inputName).catch(() => undefined);
+      await ffmpeg.deleteFile(outputName).catch(() => undefined);
+    }
+  }
+
+  private static extractHevcImage(mp4: Uint8Array): HevcImage {
+    const view = new DataView(mp4.buffer, mp4.byteOffset, mp4.byteLength);
+    const topLevel = IsoBmff.readBoxes(mp4, 0, mp4.length);
+    const stbl = IsoBmff.findBox(mp4, topLevel, ['moov', 'trak', 'mdia', 'minf', 'stbl']);
+    if (!stbl) {
+      throw new Error('HEVC encoder output has no sample table');
+    }
+
+    const stblChildren = IsoBmff.readBoxes(mp4, stbl.dataStart, stbl.end);
+    const stsd = stblChildren.find(b => b.type === 'stsd');
+    const stsz = stblChildren.find(b => b.type === 'stsz');
+    const chunkOffsets = stblChildren.find(b => b.type === 'stco' || b.type === 'co64');
+    if (!stsd || !stsz || !chunkOffsets) {
+      throw new Error('HEVC encoder output is missing sample description or offsets');
+    }
+
+    // stsd: version/flags (4) + entry_count (4), then the hvc1 visual sample entry whose
+    // child boxes start after 78 bytes of fixed VisualSampleEntry fields
+    const sampleEntry = IsoBmff.readBoxes(mp4, stsd.dataStart + 8, stsd.end)[0];
+    if (!sampleEntry || sampleEntry.type !== 'hvc1') {
+      throw new Error('HEVC encoder output is not tagged as hvc1');
+    }
+    const hvcC = IsoBmff.readBoxes(mp4, sampleEntry.dataStart + 78, sampleEntry.end).find(b => b.type === 'hvcC');
+    if (!hvcC) {
+      throw new Error('HEVC encoder output has no decoder configuration');
+    }
+
+    // stsz: version/flags (4) + sample_size (4) + sample_count (4) [+ per-sample sizes]
+    const fixedSize = view.getUint32(stsz.dataStart + 4);
+    const sampleSize = fixedSize !== 0 ? fixedSize : view.getUint32(stsz.dataStart + 12);
+    const sampleOffset = chunkOffsets.type === 'co64'
+      ? Number(view.getBigUint64(chunkOffsets.dataStart + 8))
+      : view.getUint32(chunkOffsets.dataStart + 8);
+
+    return {
+      hvcC: mp4.slice(hvcC.start, hvcC.end),
+      data: mp4.slice(sampleOffset, sampleOffset + sampleSize),
+    };
+  }
+
+  private static createHeifStructure(options: {
+    width: number;
+    height: number;
+    codedWidth: number;
+    codedHeight: number;
+    brand: 'heic' | 'heix';
+    color: HevcImage;
+    alpha: HevcImage | null;
+    iccProfile?: Uint8Array;
+  }): Uint8Array {
+    const { width, height, codedWidth, codedHeight, brand, color, alpha, iccProfile } = options;
+    const needsCrop = width !== codedWidth || height !== codedHeight;
+
+    const ftyp = box('ftyp', fourCC(brand), u32(0), fourCC('mif1'), fourCC(brand));
+
+    // Item properties are referenced by 1-based index from ipma
+    const properties: Uint8Array[] = [];
+    const addProperty = (property: Uint8Array) => properties.push(property);
+
+    addProperty(color.hvcC);                                                      // 1
+    addProperty(fullBox('ispe', 0, 0, u32(codedWidth), u32(codedHeight)));       // 2
+    addProperty(fullBox('pixi', 0, 0, u8(3), u8(8), u8(8), u8(8)));              // 3
+    addProperty(box('colr', fourCC('nclx'), u16(1), u16(13), u16(6), u8(0x80))); // 4: sRGB, BT.601, full range
+    const colorAssociations = [0x81, 2, 3, 4];
+    if (iccProfile) {
+      addProperty(box('colr', fourCC('prof'), iccProfile));
+      colorAssociations.push(properties.length);
+    }
+
+    if (needsCrop) {
+      // clap offsets are relative to the image centre, crop keeps the top-left region
+      addProperty(box('clap',
+        u32(width), u32(1),
+        u32(height), u32(1),
+        i32(width - codedWidth), u32(2),
+        i32(height - codedHeight), u32(2)
+      ));
+      colorAssociations.push(0x80 | properties.length);
+    }
+
+    const alphaAssociations: number[] = [];
+    if (alpha) {
+      addProperty(alpha.hvcC);
+      alphaAssociations.push(0x80 | properties.length);
+      addProperty(fullBox('auxC', 0, 0, cString(ALPHA_AUX_TYPE)));
+      alphaAssociations.push(0x80 | properties.length, 2);
+      addProperty(fullBox('pixi', 0, 0, u8(1), u8(8)));
+      alphaAssociations.push(properties.length);
+      if (needsCrop) {
+        alphaAssociations.push(colorAssociations[colorAssociations.length - 1]);
+      }
+    }
+
+    const buildMeta = (colorOffset: number, alphaOffset: number): Uint8Array => {
+      const items = [{ id: 1, offset: colorOffset, length: color.data.length }];
+      if (alpha) items.push({ id: 2, offset: alphaOffset, length: alpha.data.length });
+
+      const infeEntries = [fullBox('infe', 2, 0, u16(1), u16(0), fourCC('hvc1'), cString(''))];
+      if (alpha) infeEntries.push(fullBox('infe', 2, 1, u16(2), u16(0), fourCC('hvc1'), cString('')));
+
+      const ipmaEntries = [u16(1), u8(colorAssociations.length), ...colorAssociations.map(u8)];
+      if (alpha) ipmaEntries.push(u16(2), u8(alphaAssociations.length), ...alphaAssociations.map(u8));
+
+      return fullBox('meta', 0, 0,
+        fullBox('hdlr', 0, 0, u32(0), fourCC('pict'), u32(0), u32(0), u32(0), cString('')),
+        fullBox('pitm', 0, 0, u16(1)),
+        fullBox('iloc', 0, 0,
+          u8(0x44), u8(0x00), // offset_size = 4, length_size = 4, base_offset_size = 0
+          u16(items.length),
+          ...items.map(item => concat(u16(item.id), u16(0), u16(1), u32(item.offset), u32(item.length)))
+        ),
+        fullBox('iinf', 0, 0, u16(infeEntries.length), ...infeEntries),
+        ...(alpha ? [fullBox('iref', 0, 0, box('auxl', u16(2), u16(1), u16(1)))] : []),
+        box('iprp',
+          box('ipco', ...properties),
+          fullBox('ipma', 0, 0, u32(items.length), ...ipmaEntries)
+        )
+      );
+    };
+
+    // iloc offsets are absolute, and the meta box size does not depend on their values
+    const metaSize = buildMeta(0, 0).length;
+    const colorOffset = ftyp.length + metaSize + 8;
+    const alphaOffset = colorOffset + color.data.length;
+    const meta = buildMeta(colorOffset, alphaOffset);
+
+    const mdat = alpha ? box('mdat', color.data, alpha.data) : box('mdat', color.data);
+
+    return concat(ftyp, meta, mdat);
+  }
+}
+
+const concat = (...parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+const u8 = (value: number): Uint8Array => new Uint8Array([value & 0xff]);
+
+const u16 = (value: number): Uint8Array => {
+  const bytes = new Uint8Array(2);
+  new DataView(bytes.buffer).setUint16(0, value);
+  return bytes;
+};
+
+const u32 = (value: number): Uint8Array => {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value);
+  return bytes;
+};
+
+const i32 = (value: number): Uint8Array => {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setInt32(0, value);
+  return bytes;
+};
+
+const fourCC = (code: string): Uint8Array => new Uint8Array([...code].map(c => c.charCodeAt(0)));
+
+const cString = (value: string): Uint8Array => concat(new TextEncoder().encode(value), u8(0));
+
+const box = (type: string, ...payload: Uint8Array[]): Uint8Array => {
+  const body = concat(...payload);
+  return concat(u32(body.length + 8), fourCC(type), body);
+};
+
+const fullBox = (type: string, version: number, flags: number, ...payload: Uint8Array[]): Uint8Array =>
+  box(type, u32(((version & 0xff) << 24) | (flags & 0xffffff)), ...payload);
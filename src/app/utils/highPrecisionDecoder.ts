@@ -0,0 +1,40 @@
+import type { ConversionSettings } from '../components/ConversionOptions';
+import { ColorManagement } from './colorManagement';
+import { HighPrecision, HighPrecisionImage } from './highPrecisionImage';
+import { ImageGeometry } from './imageGeometry';
+import { PngDecoder } from './pngDecoder';
+import { TiffDecoder } from './tiffDecoder';
+
+/**
+ * Keeps 16-bit and floating point input away from the 8-bit canvas. Input
+ * is decoded straight into a HighPrecisionImage when the output can store
+ * more than 8 bits and nothing has to be drawn; resizing and cropping still
+ * go through the canvas. The samples keep the input's color profile until
+ * they are encoded.
+ */
+export class HighPrecisionDecoder {
+  // High bit depth PNG and TIFF input, when it can be encoded without drawing; null otherwise
+  static decode(bytes: Uint8Array, settings: ConversionSettings): HighPrecisionImage | null {
+    if (!HighPrecision.isSupportedBy(settings)) {
+      return null;
+    }
+
+    let image: HighPrecisionImage | null;
+    try {
+      image = TiffDecoder.isTiff(bytes) ? TiffDecoder.decodeHighPrecision(bytes) : PngDecoder.decodeHighPrecision(bytes);
+    } catch (error) {
+      // The regular loaders report unreadable files
+      console.warn('High precision decoding failed:', error);
+      return null;
+    }
+    if (!image) {
+      return null;
+    }
+
+    const { sourceX, sourceY, sourceWidth, sourceHeight, width, height } =
+      ImageGeometry.calculateOutputGeometry(image.width, image.height, settings);
+    const unchanged = sourceX === 0 && sourceY === 0 && sourceWidth === image.width && sourceHeight === image.height &&
+      width === image.width && height === image.height;
+    return unchanged ? { ...image, profile: ColorManagement.readProfile(bytes) || undefined } : null;
+  }
+}
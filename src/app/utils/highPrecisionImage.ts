@@ -0,0 +1,83 @@
+import type { ConversionSettings } from '../components/ConversionOptions';
+import type { ColorProfile } from './iccProfile';
+
+/**
+ * Pixels with more than 8 bits per channel: straight (not premultiplied)
+ * RGBA, normalized so 1 is full intensity. Floating point sources may go
+ * past 1; integer encoders clamp.
+ */
+export interface HighPrecisionImage {
+  width: number;
+  height: number;
+  data: Float32Array;
+  bitDepth: number; // Precision of the source, 32 for floating point
+  profile?: ColorProfile; // Color space of the samples, sRGB when missing
+}
+
+// Either canvas pixels or a high-precision buffer; encoders tell them apart by the data type
+export type PixelData = ImageData | HighPrecisionImage;
+
+/**
+ * Helpers for moving pixels between canvas ImageData, high-precision
+ * buffers and encoder samples.
+ */
+export class HighPrecision {
+  static is(pixels: PixelData): pixels is HighPrecisionImage {
+    return pixels.data instanceof Float32Array;
+  }
+
+  // Outputs configured to store more than 8 bits per channel
+  static isSupportedBy(settings: ConversionSettings): boolean {
+    switch (settings.outputFormat) {
+      case 'png':
+        return settings.bitDepth === 16 && settings.colorType !== 'palette';
+      case 'avif':
+        return (settings.avifBitDepth || 8) > 8;
+      case 'tiff':
+        return [16, 32].includes(settings.tiffBitDepth || 8) && settings.tiffCompression !== 'jpeg';
+      default:
+        return false;
+    }
+  }
+
+  // Builds the buffer from integer (0 to maxValue) or floating point samples
+  static fromSamples(
+    samples: ArrayLike<number>,
+    width: number,
+    height: number,
+    channels: number,
+    bitDepth: number,
+    maxValue = 1
+  ): HighPrecisionImage {
+    const pixelCount = width * height;
+    const data = new Float32Array(pixelCount * 4);
+    const hasAlpha = channels === 2 || channels === 4;
+    const colorChannels = hasAlpha ? channels - 1 : channels;
+    for (let p = 0; p < pixelCount; p++) {
+      const i = p * channels;
+      for (let c = 0; c < 3; c++) {
+        data[p * 4 + c] = samples[i + (colorChannels === 1 ? 0 : c)] / maxValue;
+      }
+      data[p * 4 + 3] = hasAlpha ? samples[i + colorChannels] / maxValue : 1;
+    }
+    return { width, height, data, bitDepth };
+  }
+
+  static toImageData(pixels: PixelData): ImageData {
+    if (!this.is(pixels)) {
+      return pixels;
+    }
+    const imageData = new ImageData(pixels.width, pixels.height);
+    for (let i = 0; i < pixels.data.length; i++) {
+      imageData.data[i] = Math.round(pixels.data[i] * 255);
+    }
+    return imageData;
+  }
+
+  // Sample i scaled to 0..maxValue and rounded; canvas pixels are scaled exactly,
+  // so 8-bit values map to 16 bits as v * 257
+  static getSample(pixels: PixelData, i: number, maxValue: number): number {
+    const value = this.is(pixels) ? pixels.data[i] : pixels.data[i] / 255;
+    return Math.round(Math.min(1, Math.max(0, value)) * maxValue);
+  }
+}
@@ -0,0 +1,123 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ColorProfileName, IccProfile, applyMatrix, invertMatrix, multiplyMatrices } from './iccProfile';
+
+const NAMES: ColorProfileName[] = ['srgb', 'display-p3', 'adobe-rgb'];
+
+const D50 = [0.9642, 1, 0.8249];
+
+// A v2 profile with the given color space and tags, laid out in tag order
+function createProfile(colorSpace: string, tags: [string, Uint8Array][]): Uint8Array {
+  const ascii = (text: string) => new Uint8Array([...text].map(c => c.charCodeAt(0)));
+  let position = 132 + tags.length * 12;
+  const bytes = new Uint8Array(position + tags.reduce((sum, [, data]) => sum + data.length, 0));
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, bytes.length);
+  view.setUint32(8, 0x02100000);
+  bytes.set(ascii(colorSpace), 16);
+  bytes.set(ascii('XYZ '), 20);
+  bytes.set(ascii('acsp'), 36);
+  view.setUint32(128, tags.length);
+  tags.forEach(([tag, data], i) => {
+    bytes.set(ascii(tag), 132 + i * 12);
+    view.setUint32(136 + i * 12, position);
+    view.setUint32(140 + i * 12, data.length);
+    bytes.set(data, position);
+    position += data.length;
+  });
+  return bytes;
+}
+
+function textDescription(text: string): Uint8Array {
+  const data = new Uint8Array(12 + text.length + 1 + 79);
+  data.set([...'desc'].map(c => c.charCodeAt(0)));
+  new DataView(data.buffer).setUint32(8, text.length + 1);
+  data.set([...text].map(c => c.charCodeAt(0)), 12);
+  return data;
+}
+
+function curve(values: number[]): Uint8Array {
+  const data = new Uint8Array(12 + values.length * 2);
+  const view = new DataView(data.buffer);
+  data.set([...'curv'].map(c => c.charCodeAt(0)));
+  view.setUint32(8, values.length);
+  values.forEach((value, i) => view.setUint16(12 + i * 2, value));
+  return data;
+}
+
+function assertClose(actual: number[], expected: number[], tolerance: number) {
+  actual.forEach((value, i) => assert.ok(Math.abs(value - expected[i]) < tolerance, `${actual} vs ${expected}`));
+}
+
+describe('IccProfile', () => {
+  it('builds profiles that parse back with their description', () => {
+    assert.deepEqual(NAMES.map(name => IccProfile.getBuiltIn(name).description), ['sRGB', 'Display P3', 'Adobe RGB (1998) compatible']);
+    for (const name of NAMES) {
+      const profile = IccProfile.getBuiltIn(name);
+      const data = profile.data;
+
+      assert.equal(new DataView(data.buffer, data.byteOffset).getUint32(0), data.length);
+      assert.equal(data.length % 4, 0);
+      assert.equal(profile.isGray, false);
+      assert.ok(IccProfile.isEquivalent(IccProfile.parse(data.slice()), profile));
+    }
+  });
+
+  it('adapts the primaries to the D50 connection space', () => {
+    // The published sRGB matrix, Bradford-adapted to D50
+    assertClose(IccProfile.getBuiltIn('srgb').toXyz, [
+      0.4361, 0.3851, 0.1431,
+      0.2225, 0.7169, 0.0606,
+      0.0139, 0.0971, 0.7141,
+    ], 0.001);
+    // White maps to the PCS white in every profile
+    for (const name of NAMES) {
+      assertClose(applyMatrix(IccProfile.getBuiltIn(name).toXyz, [1, 1, 1]), D50, 0.001);
+    }
+  });
+
+  it('reads the parametric tone curves', () => {
+    const [srgb] = IccProfile.getBuiltIn('srgb').curves;
+    const [adobe] = IccProfile.getBuiltIn('adobe-rgb').curves;
+
+    assertClose([srgb(0), srgb(0.02), srgb(0.5), srgb(1)], [0, 0.02 / 12.92, 0.2140, 1], 0.0005);
+    assertClose([adobe(0.5), adobe(1)], [0.5 ** (563 / 256), 1], 0.0005);
+  });
+
+  it('reads gray profiles as three equal channels', () => {
+    const profile = IccProfile.parse(createProfile('GRAY', [['desc', textDescription('Gray 2.2')], ['kTRC', curve([563])]]))!;
+
+    assert.equal(profile.description, 'Gray 2.2');
+    assert.equal(profile.isGray, true);
+    assert.deepEqual(profile.whitePoint, D50);
+    assertClose(applyMatrix(profile.toXyz, [1, 1, 1]), D50, 1e-9);
+    assertClose(profile.curves.map(channel => channel(0.5)), new Array(3).fill(0.5 ** (563 / 256)), 1e-9);
+  });
+
+  it('interpolates sampled curves', () => {
+    const profile = IccProfile.parse(createProfile('GRAY', [['kTRC', curve([0, 16383, 65535])]]))!;
+    assertClose([profile.curves[0](0.25), profile.curves[0](0.75)], [0.125, 0.625], 0.0001);
+  });
+
+  it('rejects data that is not a matrix profile', () => {
+    const srgb = IccProfile.getBuiltIn('srgb').data;
+    const cmyk = srgb.slice();
+    cmyk.set([...'CMYK'].map(c => c.charCodeAt(0)), 16);
+
+    assert.equal(IccProfile.parse(new Uint8Array(200)), null);
+    assert.equal(IccProfile.parse(srgb.subarray(0, 100)), null);
+    assert.equal(IccProfile.parse(cmyk), null);
+    assert.equal(IccProfile.parse(createProfile('RGB ', [['rTRC', curve([])]])), null);
+  });
+
+  it('treats a missing profile as sRGB', () => {
+    assert.equal(IccProfile.isEquivalent(null, IccProfile.getBuiltIn('srgb')), true);
+    assert.equal(IccProfile.isEquivalent(null, IccProfile.getBuiltIn('display-p3')), false);
+    assert.equal(IccProfile.isEquivalent(IccProfile.getBuiltIn('srgb'), IccProfile.getBuiltIn('adobe-rgb')), false);
+  });
+
+  it('inverts and multiplies matrices', () => {
+    const matrix = IccProfile.getBuiltIn('display-p3').toXyz;
+    assertClose(multiplyMatrices(matrix, invertMatrix(matrix)), [1, 0, 0, 0, 1, 0, 0, 0, 1], 1e-12);
+  });
+});
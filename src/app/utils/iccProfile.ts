@@ -0,0 +1,322 @@
+export type ColorProfileName = 'srgb' | 'display-p3' | 'adobe-rgb';
+
+// Maps an encoded sample (0-1) to linear light
+export type ToneCurve = (value: number) => number;
+
+/**
+ * An ICC profile reduced to what matrix/TRC conversion needs. Gray profiles
+ * are read as RGB with three equal channels, which is how decoded gray
+ * images arrive.
+ */
+export interface ColorProfile {
+  data: Uint8Array; // The profile as stored, embedded into outputs as-is
+  description: string;
+  isGray: boolean;
+  toXyz: number[]; // Row-major 3x3 matrix from linear RGB to PCS XYZ (D50)
+  curves: ToneCurve[]; // Red, green and blue
+  whitePoint: number[]; // Media white point in PCS XYZ
+}
+
+interface BuiltInProfile {
+  description: string;
+  primaries: number[][]; // CIE xy of red, green and blue
+  whitePoint: number[]; // CIE xy
+  curve: number[]; // parametricCurveType function type followed by its parameters
+}
+
+const D50 = [0.9642, 1, 0.8249];
+const D65 = [0.3127, 0.329];
+const SRGB_CURVE = [3, 2.4, 1 / 1.055, 0.055 / 1.055, 1 / 12.92, 0.04045];
+
+const BUILT_IN_PROFILES: Record<ColorProfileName, BuiltInProfile> = {
+  srgb: {
+    description: 'sRGB',
+    primaries: [[0.64, 0.33], [0.3, 0.6], [0.15, 0.06]],
+    whitePoint: D65,
+    curve: SRGB_CURVE,
+  },
+  'display-p3': {
+    description: 'Display P3',
+    primaries: [[0.68, 0.32], [0.265, 0.69], [0.15, 0.06]],
+    whitePoint: D65,
+    curve: SRGB_CURVE,
+  },
+  'adobe-rgb': {
+    description: 'Adobe RGB (1998) compatible',
+    primaries: [[0.64, 0.33], [0.21, 0.71], [0.15, 0.06]],
+    whitePoint: D65,
+    curve: [0, 563 / 256],
+  },
+};
+
+// Bradford cone response matrix, used for chromatic adaptation to the D50 PCS
+const BRADFORD = [0.8951, 0.2664, -0.1614, -0.7502, 1.7135, 0.0367, 0.0389, -0.0685, 1.0296];
+
+// Where two profiles' curves are compared, and how close counts as the same
+const CURVE_SAMPLES = [0.05, 0.2, 0.5, 0.8, 1];
+const TOLERANCE = 0.002;
+
+/**
+ * Parses matrix/TRC ICC profiles (v2 and v4, RGB and gray with an XYZ PCS)
+ * and builds the sRGB, Display P3 and Adobe RGB profiles embedded into
+ * outputs. Profiles that only have lookup tables, such as CMYK profiles,
+ * are not supported.
+ */
+export class IccProfile {
+  private static builtIns = new Map<ColorProfileName, ColorProfile>();
+
+  static parse(data: Uint8Array): ColorProfile | null {
+    if (data.length < 132 || readFourCC(data, 36) !== 'acsp' || readFourCC(data, 20) !== 'XYZ ') {
+      return null;
+    }
+
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const tags = new Map<string, number>();
+    const tagCount = view.getUint32(128);
+    for (let i = 0; i < tagCount && 144 + i * 12 <= data.length; i++) {
+      tags.set(readFourCC(data, 132 + i * 12), view.getUint32(136 + i * 12));
+    }
+
+    try {
+      const colorSpace = readFourCC(data, 16);
+      const whitePoint = tags.has('wtpt') ? this.readXyz(view, tags.get('wtpt')!) : D50;
+      const description = tags.has('desc') ? this.readText(data, tags.get('desc')!) : '';
+
+      if (colorSpace === 'GRAY' && tags.has('kTRC')) {
+        const curve = this.readCurve(view, tags.get('kTRC')!);
+        // Equal channels sum to the PCS white
+        const toXyz = [0, 1, 2].flatMap(row => [D50[row] / 3, D50[row] / 3, D50[row] / 3]);
+        return { data, description, isGray: true, toXyz, curves: [curve, curve, curve], whitePoint };
+      }
+
+      const matrixTags = ['rXYZ', 'gXYZ', 'bXYZ', 'rTRC', 'gTRC', 'bTRC'];
+      if (colorSpace !== 'RGB ' || !matrixTags.every(tag => tags.has(tag))) {
+        return null;
+      }
+      const [red, green, blue] = ['rXYZ', 'gXYZ', 'bXYZ'].map(tag => this.readXyz(view, tags.get(tag)!));
+      return {
+        data,
+        description,
+        isGray: false,
+        toXyz: [0, 1, 2].flatMap(row => [red[row], green[row], blue[row]]),
+        curves: ['rTRC', 'gTRC', 'bTRC'].map(tag => this.readCurve(view, tags.get(tag)!)),
+        whitePoint,
+      };
+    } catch (error) {
+      console.warn('Failed to read ICC profile:', error);
+      return null;
+    }
+  }
+
+  static getBuiltIn(name: ColorProfileName): ColorProfile {
+    let profile = this.builtIns.get(name);
+    if (!profile) {
+      profile = this.parse(this.create(BUILT_IN_PROFILES[name]))!;
+      this.builtIns.set(name, profile);
+    }
+    return profile;
+  }
+
+  // Whether both profiles describe the same colors; a missing profile means sRGB
+  static isEquivalent(a: ColorProfile | null, b: ColorProfile | null): boolean {
+    const first = a || this.getBuiltIn('srgb');
+    const second = b || this.getBuiltIn('srgb');
+    return first === second || (
+      first.isGray === second.isGray &&
+      first.toXyz.every((value, i) => Math.abs(value - second.toXyz[i]) < TOLERANCE) &&
+      first.curves.every((curve, c) =>
+        CURVE_SAMPLES.every(value => Math.abs(curve(value) - second.curves[c](value)) < TOLERANCE))
+    );
+  }
+
+  // Version 4 display profile with a shared parametric curve for all three channels
+  private static create(profile: BuiltInProfile): Uint8Array {
+    const toXyz = multiplyMatrices(
+      this.getAdaptation(xyToXyz(profile.whitePoint)),
+      this.getPrimariesMatrix(profile.primaries, profile.whitePoint)
+    );
+    const [curveType, ...parameters] = profile.curve;
+    const curve = concat(fourCCBytes('para'), new Uint8Array(4), u16(curveType), new Uint8Array(2), ...parameters.map(s15Fixed16));
+    const xyz = (values: number[]) => concat(fourCCBytes('XYZ '), new Uint8Array(4), ...values.map(s15Fixed16));
+
+    const tagData: [string, Uint8Array][] = [
+      ['desc', multiLocalizedText(profile.description)],
+      ['cprt', multiLocalizedText('No copyright, use freely')],
+      ['wtpt', xyz(D50)],
+      ['rXYZ', xyz([toXyz[0], toXyz[3], toXyz[6]])],
+      ['gXYZ', xyz([toXyz[1], toXyz[4], toXyz[7]])],
+      ['bXYZ', xyz([toXyz[2], toXyz[5], toXyz[8]])],
+      ['rTRC', curve],
+      ['chad', concat(fourCCBytes('sf32'), new Uint8Array(4), ...this.getAdaptation(xyToXyz(profile.whitePoint)).map(s15Fixed16))],
+    ];
+    const sharedTags: [string, string][] = [['gTRC', 'rTRC'], ['bTRC', 'rTRC']];
+
+    // Tag data follows the header and tag table, each element on a 4-byte boundary
+    const tableSize = 4 + (tagData.length + sharedTags.length) * 12;
+    const offsets = new Map<string, { offset: number; size: number }>();
+    let position = 128 + tableSize;
+    for (const [tag, data] of tagData) {
+      offsets.set(tag, { offset: position, size: data.length });
+      position += data.length + ((4 - (data.length % 4)) % 4);
+    }
+    for (const [tag, source] of sharedTags) {
+      offsets.set(tag, offsets.get(source)!);
+    }
+
+    const bytes = new Uint8Array(position);
+    const view = new DataView(bytes.buffer);
+    view.setUint32(0, position); // Profile size
+    view.setUint32(8, 0x04300000); // Version 4.3
+    bytes.set(fourCCBytes('mntr'), 12); // Display device class
+    bytes.set(fourCCBytes('RGB '), 16);
+    bytes.set(fourCCBytes('XYZ '), 20);
+    [2024, 1, 1, 0, 0, 0].forEach((value, i) => view.setUint16(24 + i * 2, value)); // Creation date
+    bytes.set(fourCCBytes('acsp'), 36);
+    D50.forEach((value, i) => bytes.set(s15Fixed16(value), 68 + i * 4)); // PCS illuminant
+
+    view.setUint32(128, offsets.size);
+    [...offsets].forEach(([tag, { offset, size }], i) => {
+      bytes.set(fourCCBytes(tag), 132 + i * 12);
+      view.setUint32(136 + i * 12, offset);
+      view.setUint32(140 + i * 12, size);
+    });
+    for (const [tag, data] of tagData) {
+      bytes.set(data, offsets.get(tag)!.offset);
+    }
+    return bytes;
+  }
+
+  // Linear RGB to XYZ (relative to the white point) from the chromaticities
+  private static getPrimariesMatrix(primaries: number[][], whitePoint: number[]): number[] {
+    const columns = primaries.map(xyToXyz);
+    const matrix = [0, 1, 2].flatMap(row => columns.map(column => column[row]));
+    const scale = applyMatrix(invertMatrix(matrix), xyToXyz(whitePoint));
+    return matrix.map((value, i) => value * scale[i % 3]);
+  }
+
+  // Bradford adaptation from the given white to the D50 PCS illuminant
+  private static getAdaptation(white: number[]): number[] {
+    const source = applyMatrix(BRADFORD, white);
+    const target = applyMatrix(BRADFORD, D50);
+    const scale = [0, 1, 2].flatMap(row => [0, 1, 2].map(column => row === column ? target[row] / source[row] : 0));
+    return multiplyMatrices(invertMatrix(BRADFORD), multiplyMatrices(scale, BRADFORD));
+  }
+
+  private static readXyz(view: DataView, offset: number): number[] {
+    return [0, 1, 2].map(i => view.getInt32(offset + 8 + i * 4) / 65536);
+  }
+
+  private static readCurve(view: DataView, offset: number): ToneCurve {
+    const type = String.fromCharCode(...new Uint8Array(view.buffer, view.byteOffset + offset, 4));
+    if (type === 'curv') {
+      const count = view.getUint32(offset + 8);
+      if (count === 0) {
+        return value => clamp(value);
+      }
+      if (count === 1) {
+        const gamma = view.getUint16(offset + 12) / 256;
+        return value => clamp(value) ** gamma;
+      }
+      const table = Array.from({ length: count }, (_, i) => view.getUint16(offset + 12 + i * 2) / 65535);
+      return value => {
+        const position = clamp(value) * (count - 1);
+        const index = Math.min(count - 2, Math.floor(position));
+        return table[index] + (table[index + 1] - table[index]) * (position - index);
+      };
+    }
+    if (type === 'para') {
+      const functionType = view.getUint16(offset + 8);
+      const parameterCounts = [1, 3, 4, 5, 7];
+      if (functionType >= parameterCounts.length) {
+        throw new Error(`Unknown parametric curve type ${functionType}`);
+      }
+      const [g, a = 1, b = 0, c = 0, d = 0, e = 0, f = 0] = Array.from(
+        { length: parameterCounts[functionType] },
+        (_, i) => view.getInt32(offset + 12 + i * 4) / 65536
+      );
+      const power = (x: number) => Math.max(0, x) ** g;
+      switch (functionType) {
+        case 0: return value => power(clamp(value));
+        case 1: return value => clamp(value) >= -b / a ? power(a * clamp(value) + b) : 0;
+        case 2: return value => clamp(value) >= -b / a ? power(a * clamp(value) + b) + c : c;
+        case 3: return value => clamp(value) >= d ? power(a * clamp(value) + b) : c * clamp(value);
+        default: return value => clamp(value) >= d ? power(a * clamp(value) + b) + e : c * clamp(value) + f;
+      }
+    }
+    throw new Error(`Unsupported tone curve type "${type}"`);
+  }
+
+  // textDescriptionType (v2), multiLocalizedUnicodeType (v4) or plain text
+  private static readText(data: Uint8Array, offset: number): string {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const type = readFourCC(data, offset);
+    if (type === 'desc') {
+      const length = view.getUint32(offset + 8);
+      return String.fromCharCode(...data.subarray(offset + 12, offset + 12 + length)).replace(/\0+$/, '');
+    }
+    if (type === 'mluc' && view.getUint32(offset + 8) > 0) {
+      const length = view.getUint32(offset + 20);
+      const start = offset + view.getUint32(offset + 24);
+      return String.fromCharCode(...Array.from({ length: length / 2 }, (_, i) => view.getUint16(start + i * 2)));
+    }
+    if (type === 'text') {
+      return String.fromCharCode(...data.subarray(offset + 8, data.length)).split('\0')[0];
+    }
+    return '';
+  }
+}
+
+export const multiplyMatrices = (a: number[], b: number[]): number[] =>
+  [0, 1, 2].flatMap(row => [0, 1, 2].map(column =>
+    a[row * 3] * b[column] + a[row * 3 + 1] * b[3 + column] + a[row * 3 + 2] * b[6 + column]));
+
+export const applyMatrix = (matrix: number[], vector: number[]): number[] =>
+  [0, 1, 2].map(row => matrix[row * 3] * vector[0] + matrix[row * 3 + 1] * vector[1] + matrix[row * 3 + 2] * vector[2]);
+
+export const invertMatrix = (m: number[]): number[] => {
+  const cofactors = [
+    m[4] * m[8] - m[5] * m[7], m[2] * m[7] - m[1] * m[8], m[1] * m[5] - m[2] * m[4],
+    m[5] * m[6] - m[3] * m[8], m[0] * m[8] - m[2] * m[6], m[2] * m[3] - m[0] * m[5],
+    m[3] * m[7] - m[4] * m[6], m[1] * m[6] - m[0] * m[7], m[0] * m[4] - m[1] * m[3],
+  ];
+  const determinant = m[0] * cofactors[0] + m[1] * cofactors[3] + m[2] * cofactors[6];
+  return cofactors.map(value => value / determinant);
+};
+
+const clamp = (value: number): number => Math.min(1, Math.max(0, value));
+
+const xyToXyz = ([x, y]: number[]): number[] => [x / y, 1, (1 - x - y) / y];
+
+const readFourCC = (data: Uint8Array, offset: number): string => String.fromCharCode(...data.subarray(offset, offset + 4));
+
+const fourCCBytes = (code: string): Uint8Array => new Uint8Array([...code].map(c => c.charCodeAt(0)));
+
+const u16 = (value: number): Uint8Array => new Uint8Array([value >> 8, value & 0xff]);
+
+const s15Fixed16 = (value: number): Uint8Array => {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setInt32(0, Math.round(value * 65536));
+  return bytes;
+};
+
+// One en-US record of UTF-16BE text
+const multiLocalizedText = (text: string): Uint8Array => {
+  const record = new Uint8Array(12);
+  const view = new DataView(record.buffer);
+  record.set(fourCCBytes('enUS'));
+  view.setUint32(4, text.length * 2);
+  view.setUint32(8, 28);
+  const utf16 = new Uint8Array(text.length * 2);
+  [...text].forEach((char, i) => utf16.set(u16(char.charCodeAt(0)), i * 2));
+  return concat(fourCCBytes('mluc'), new Uint8Array(4), new Uint8Array([0, 0, 0, 1, 0, 0, 0, 12]), record, utf16);
+};
+
+const concat = (...parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
@@ -3,9 +3,28 @@ import {ConversionSettings} from '../components/ConversionOptions';
 import {jsPDF} from 'jspdf';
 import toICO from '2ico';
 import JSZip from 'jszip';
-import * as TIFF from 'tiff';
-// @ts-ignore - piexifjs doesn't have perfect TypeScript definitions
-import piexif from 'piexifjs';
+import { TiffDecoder } from './tiffDecoder';
+import { TiffImage } from './tiffWriter';
+import { TiffEncoder } from './tiffEncoder';
+import { HighPrecisionDecoder } from './highPrecisionDecoder';
+import { TiffPages } from './tiffPages';
+import { HeifEncoder } from './heifEncoder';
+import { ColorManagement } from './colorManagement';
+import { AvifCodec } from './avifCodec';
+import { JxlCodec } from './jxlCodec';
+import { AnimationConverter } from './animationConverter';
+import { ImageGeometry } from './imageGeometry';
+import { ImageFilters } from './imageFilters';
+import { ImageTransform } from './imageTransform';
+import { Resampler } from './resampler';
+import { RasterEncoder } from './rasterEncoder';
+import { ConversionWorkerPool } from './conversionWorkerPool';
+import { ConversionRecipes, RenditionOutput } from './conversionRecipe';
+import { FileNameTemplate } from './fileNameTemplate';
+import { TargetFileSize } from './targetFileSize';
+import { AutoQuality, AutoQualityScore } from './autoQuality';
+import { SizeEstimator } from './sizeEstimator';
+import { Diagnostics } from './diagnostics';
 
 // Type declaration for imagetracerjs
 interface ImageTracerModule {
@@ -22,12 +41,17 @@ export interface ConversionResult {
   error?: string;
   originalSize: number;
   convertedSize?: number;
-  isMergedIntoPdf?: boolean; // Flag to indicate file was merged into a multi-page PDF
+  isMergedIntoPdf?: boolean; // Flag to indicate file was merged into a multi-page PDF or TIFF
+  renditions?: RenditionOutput[]; // Recipe outputs; blob is then a ZIP of all of them
+  chosenQuality?: number; // Quality picked by the target file size or auto-quality search
+  targetSizeMet?: boolean; // False when the output is still over settings.targetSizeKB
+  qualityScore?: AutoQualityScore; // Perceptual score reached by the auto-quality search
 }
 
 export class ImageConverter {
   private static canvas: HTMLCanvasElement | null = null;
   private static ctx: CanvasRenderingContext2D | null = null;
+  private static mainThreadQueue: Promise<unknown> = Promise.resolve();
 
   private static getCanvas(): { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D } {
     if (!this.canvas) {
@@ -46,195 +70,60 @@ export class ImageConverter {
     });
   }
 
-  private static calculateDimensions(
-    originalWidth: number,
-    originalHeight: number,
-    maxWidth?: number,
-    maxHeight?: number,
-    maintainAspectRatio: boolean = true
-  ): { width: number; height: number } {
-    let width = originalWidth;
-    let height = originalHeight;
-
-    if (maxWidth || maxHeight) {
-      if (maintainAspectRatio) {
-        const aspectRatio = originalWidth / originalHeight;
-        
-        if (maxWidth && maxHeight) {
-          if (width > maxWidth || height > maxHeight) {
-            if (width / maxWidth > height / maxHeight) {
-              width = maxWidth;
-              height = width / aspectRatio;
-            } else {
-              height = maxHeight;
-              width = height * aspectRatio;
-            }
-          }
-        } else if (maxWidth && width > maxWidth) {
-          width = maxWidth;
-          height = width / aspectRatio;
-        } else if (maxHeight && height > maxHeight) {
-          height = maxHeight;
-          width = height * aspectRatio;
-        }
-      } else {
-        if (maxWidth) width = maxWidth;
-        if (maxHeight) height = maxHeight;
-      }
-    }
-
-    return { width: Math.round(width), height: Math.round(height) };
-  }
-
-  private static calculateCropDimensions(
-    originalWidth: number,
-    originalHeight: number,
-    targetAspectRatio: number,
-    cropMode: 'center' | 'smart' = 'center',
-    cropSizeMode: 'fit' | 'fill' | 'extend' = 'fit'
-  ): { x: number; y: number; width: number; height: number } {
-    const originalAspectRatio = originalWidth / originalHeight;
-    
-    let cropWidth: number;
-    let cropHeight: number;
-    
-    // Calculate crop dimensions based on size mode
-    if (cropSizeMode === 'fill') {
-      // Fill - use full longest dimension for maximum resolution
-      const longestSide = Math.max(originalWidth, originalHeight);
-      
-      if (targetAspectRatio >= 1) {
-        // Wide/square aspect ratio - use longest side as width
-        cropWidth = longestSide;
-        cropHeight = cropWidth / targetAspectRatio;
-      } else {
-        // Tall aspect ratio - use longest side as height
-        cropHeight = longestSide;
-        cropWidth = cropHeight * targetAspectRatio;
-      }
-      
-      console.log(`🎯 Fill mode: Using longest side ${longestSide} for aspect ${targetAspectRatio}`);
-    } else if (cropSizeMode === 'extend') {
-      // Extend - crop can be larger than original image in one dimension
-      const maxDimension = Math.max(originalWidth, originalHeight);
-      
-      if (targetAspectRatio > 1) {
-        // Wide aspect ratio - maximize width
-        cropWidth = maxDimension * 1.2; // 20% extension
-        cropHeight = cropWidth / targetAspectRatio;
-      } else {
-        // Tall aspect ratio - maximize height
-        cropHeight = maxDimension * 1.2; // 20% extension
-        cropWidth = cropHeight * targetAspectRatio;
-      }
-    } else {
-      // Fit - standard crop that fits within image (original logic)
-      if (originalAspectRatio > targetAspectRatio) {
-        // Original is wider, need to crop width
-        cropHeight = originalHeight;
-        cropWidth = cropHeight * targetAspectRatio;
-      } else {
-        // Original is taller, need to crop height
-        cropWidth = originalWidth;
-        cropHeight = cropWidth / targetAspectRatio;
-      }
-      
-      // Ensure crop dimensions don't exceed original
-      cropWidth = Math.min(cropWidth, originalWidth);
-      cropHeight = Math.min(cropHeight, originalHeight);
-    }
-    
-    // Calculate crop position
-    let cropX: number;
-    let cropY: number;
-    
-    if (cropMode === 'center') {
-      // Center crop
-      cropX = (originalWidth - cropWidth) / 2;
-      cropY = (originalHeight - cropHeight) / 2;
-    } else {
-      // Smart crop (for now, use center - can be enhanced later)
-      cropX = (originalWidth - cropWidth) / 2;
-      cropY = (originalHeight - cropHeight) / 2;
-    }
-    
-    console.log(`🎯 Crop Size Mode: ${cropSizeMode}`);
-    console.log(`📏 Calculated dimensions:`, {
-      cropWidth: Math.round(cropWidth),
-      cropHeight: Math.round(cropHeight),
-      cropX: Math.round(cropX),
-      cropY: Math.round(cropY),
-      resultAspectRatio: (cropWidth / cropHeight).toFixed(3)
-    });
-    
-    return {
-      x: Math.round(cropX),
-      y: Math.round(cropY),
-      width: Math.round(cropWidth),
-      height: Math.round(cropHeight)
-    };
-  }
-
   private static async convertWithCanvas(
     image: HTMLImageElement,
     settings: ConversionSettings,
-    originalFile?: File
+    originalFile?: File,
+    isVectorInput: boolean = false
   ): Promise<Blob> {
+    const { canvas, width, height } = this.drawOnCanvas(image, settings, isVectorInput);
+    return await this.encodeCanvas(canvas, width, height, settings, originalFile);
+  }
+
+  // Crops and resizes the image onto the shared canvas
+  private static drawOnCanvas(
+    image: HTMLImageElement,
+    settings: ConversionSettings,
+    isVectorInput: boolean = false
+  ): { canvas: HTMLCanvasElement; width: number; height: number } {
     const { canvas, ctx } = this.getCanvas();
-    
-    let sourceWidth = image.naturalWidth;
-    let sourceHeight = image.naturalHeight;
-    let sourceX = 0;
-    let sourceY = 0;
-    
-    // Apply automatic crop if enabled
-    if (settings.enableCrop && settings.cropAspectRatio) {
-      console.log('🔄 Applying automatic crop:', {
-        originalDimensions: { width: sourceWidth, height: sourceHeight },
-        targetAspectRatio: settings.cropAspectRatio,
-        cropMode: settings.cropMode,
-        cropSizeMode: settings.cropSizeMode
-      });
-      
-      const cropResult = this.calculateCropDimensions(
-        sourceWidth,
-        sourceHeight,
-        settings.cropAspectRatio,
-        settings.cropMode || 'center',
-        settings.cropSizeMode || 'fit'
-      );
-      
-      console.log('✂️ Crop result:', cropResult);
-      console.log('📐 Original aspect ratio:', (sourceWidth / sourceHeight).toFixed(3));
-      console.log('📐 Target aspect ratio:', settings.cropAspectRatio.toFixed(3));
-      
-      sourceX = cropResult.x;
-      sourceY = cropResult.y;
-      sourceWidth = cropResult.width;
-      sourceHeight = cropResult.height;
+    const geometry = ImageGeometry.calculateOutputGeometry(image.naturalWidth, image.naturalHeight, settings);
+
+    // Vector images are simply rendered at the output size. Without a chosen filter, raster images
+    // are scaled by the browser too: the JS resampler would block the page for large images.
+    const drawsScaled = !settings.resampling && Resampler.isScaled(geometry);
+    if (isVectorInput || drawsScaled) {
+      const { sourceX, sourceY, sourceWidth, sourceHeight, width, height } = geometry;
+      canvas.width = width;
+      canvas.height = height;
+      ctx.clearRect(0, 0, width, height);
+      ctx.imageSmoothingQuality = 'high';
+      ctx.drawImage(image, sourceX, sourceY, sourceWidth, sourceHeight, 0, 0, width, height);
+      if (drawsScaled && !isVectorInput) {
+        ctx.putImageData(ImageFilters.sharpenResized(ctx.getImageData(0, 0, width, height), settings), 0, 0);
+      }
+      return { canvas, width, height };
     }
-    
-    const { width, height } = this.calculateDimensions(
-      sourceWidth,
-      sourceHeight,
-      settings.maxWidth,
-      settings.maxHeight,
-      settings.maintainAspectRatio
-    );
-
-    canvas.width = width;
-    canvas.height = height;
 
-    // Clear canvas
-    ctx.clearRect(0, 0, width, height);
+    canvas.width = image.naturalWidth;
+    canvas.height = image.naturalHeight;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(image, 0, 0);
+    const transformed = ImageTransform.apply(ctx.getImageData(0, 0, canvas.width, canvas.height), settings);
 
-    // Draw image with cropping if applied
-    ctx.drawImage(
-      image,
-      sourceX, sourceY, sourceWidth, sourceHeight, // Source rectangle (potentially cropped)
-      0, 0, width, height // Destination rectangle
-    );
+    canvas.width = transformed.width;
+    canvas.height = transformed.height;
+    ctx.putImageData(transformed, 0, 0);
+    return { canvas, width: transformed.width, height: transformed.height };
+  }
 
+  private static async encodeCanvas(
+    canvas: HTMLCanvasElement,
+    width: number,
+    height: number,
+    settings: ConversionSettings,
+    originalFile?: File
+  ): Promise<Blob> {
     // Handle SVG output
     if (settings.outputFormat === 'svg') {
       return await this.convertToSvg(canvas, width, height, settings);
@@ -250,42 +139,46 @@ export class ImageConverter {
       return await this.convertToIco(canvas, settings);
     }
 
-    // Handle TIFF output
-    if (settings.outputFormat === 'tiff') {
-      return await this.convertToTiff(canvas, width, height, settings);
+    // Handle HEIC output
+    if (settings.outputFormat === 'heic') {
+      return await this.convertToHeic(canvas, width, height, settings, originalFile);
     }
 
-    // Convert to blob for other formats
-    return new Promise(async (resolve, reject) => {
-      const mimeType = settings.outputFormat === 'jpeg' ? 'image/jpeg' : 
-                      settings.outputFormat === 'png' ? 'image/png' :
-                      settings.outputFormat === 'webp' ? 'image/webp' : 'image/jpeg';
-      
+    // Pixel-based formats (JPEG, PNG, WebP, AVIF, JPEG XL, GIF, TIFF)
+    if (RasterEncoder.supports(settings.outputFormat)) {
+      const imageData = canvas.getContext('2d')!.getImageData(0, 0, width, height);
+      return await RasterEncoder.encode(imageData, settings, originalFile);
+    }
+
+    // Other formats fall back to the browser's JPEG encoder
+    return new Promise((resolve, reject) => {
       canvas.toBlob(
-        async (blob) => {
+        (blob) => {
           if (blob) {
-            // Preserve metadata if not removing it and original file exists
-            if (!settings.removeMetadata && originalFile && (settings.outputFormat === 'jpeg')) {
-              try {
-                const blobWithMetadata = await this.preserveMetadata(blob, originalFile);
-                resolve(blobWithMetadata);
-              } catch (error) {
-                console.warn('Failed to preserve metadata, returning image without metadata:', error);
             resolve(blob);
-              }
-            } else {
-              resolve(blob);
-            }
           } else {
             reject(new Error('Failed to convert image'));
           }
         },
-        mimeType,
+        'image/jpeg',
         settings.quality / 100
       );
     });
   }
 
+  // Encodes decoded pixels through the shared canvas, so every output format is available
+  private static async encodeImageData(
+    imageData: ImageData,
+    settings: ConversionSettings,
+    originalFile?: File
+  ): Promise<Blob> {
+    const { canvas, ctx } = this.getCanvas();
+    canvas.width = imageData.width;
+    canvas.height = imageData.height;
+    ctx.putImageData(imageData, 0, 0);
+    return await this.encodeCanvas(canvas, imageData.width, imageData.height, settings, originalFile);
+  }
+
   private static async convertToSvg(canvas: HTMLCanvasElement, width: number, height: number, settings?: ConversionSettings): Promise<Blob> {
     try {
       // Optimize dimensions for very large images
@@ -399,7 +292,7 @@ export class ImageConverter {
   }
 
   private static async convertToSvgFallback(canvas: HTMLCanvasElement, width: number, height: number): Promise<Blob> {
-    console.log('Using fallback SVG conversion method');
+    Diagnostics.log('Using fallback SVG conversion method');
     
     // Fallback: Simple SVG with embedded bitmap (smaller than before)
     const jpegBlob = await new Promise<Blob>((resolve, reject) => {
@@ -416,7 +309,7 @@ export class ImageConverter {
       );
     });
 
-    const jpegBase64 = await this.blobToBase64(jpegBlob);
+    const jpegBase64 = await RasterEncoder.blobToBase64(jpegBlob);
     
     const svgContent = `<?xml version="1.0" encoding="UTF-8"?>
 <svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" 
@@ -431,41 +324,30 @@ export class ImageConverter {
     return new Blob([svgContent], { type: 'image/svg+xml' });
   }
 
-  private static async blobToBase64(blob: Blob): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = () => {
-        if (typeof reader.result === 'string') {
-          resolve(reader.result);
-        } else {
-          reject(new Error('Failed to convert blob to base64'));
-        }
-      };
-      reader.onerror = reject;
-      reader.readAsDataURL(blob);
-    });
-  }
-
-  private static async preserveMetadata(convertedBlob: Blob, originalFile: File): Promise<Blob> {
+  private static async convertToHeic(
+    canvas: HTMLCanvasElement,
+    width: number,
+    height: number,
+    settings: ConversionSettings,
+    originalFile?: File
+  ): Promise<Blob> {
     try {
-      // Extract EXIF data from original file
-      const originalDataUrl = await this.blobToBase64(originalFile);
-      const exifData = piexif.load(originalDataUrl);
-
-      // Convert converted blob to data URL
-      const convertedDataUrl = await this.blobToBase64(convertedBlob);
-
-      // Insert EXIF data into converted image
-      const exifBytes = piexif.dump(exifData);
-      const imageWithExif = piexif.insert(exifBytes, convertedDataUrl);
+      const ctx = canvas.getContext('2d')!;
+      const { pixels, profile } = await ColorManagement.prepareOutput(
+        ctx.getImageData(0, 0, width, height),
+        settings,
+        originalFile
+      );
 
-      // Convert back to blob
-      const response = await fetch(imageWithExif);
-      return await response.blob();
+      return await HeifEncoder.encode(pixels, {
+        quality: settings.quality,
+        chromaSubsampling: settings.heicChromaSubsampling || '420',
+        preserveAlpha: settings.heicPreserveAlpha !== false,
+        iccProfile: profile?.data,
+      });
     } catch (error) {
-      console.warn('Failed to preserve metadata:', error);
-      // Return original blob if metadata preservation fails
-      return convertedBlob;
+      console.error('HEIC conversion failed:', error);
+      throw new Error(`Failed to convert to HEIC: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
@@ -499,7 +381,7 @@ export class ImageConverter {
     icoSizes: number[]
   ): Promise<Blob> {
     try {
-      console.log('Converting to single ICO with sizes:', icoSizes);
+      Diagnostics.log('Converting to single ICO with sizes:', icoSizes);
       
       // Validate sizes
       const validSizes = icoSizes.filter(size => size > 0 && size <= 256);
@@ -507,7 +389,7 @@ export class ImageConverter {
         throw new Error('No valid icon sizes provided');
       }
       
-      console.log('Valid ICO sizes to include:', validSizes);
+      Diagnostics.log('Valid ICO sizes to include:', validSizes);
       
       // Use toICO library to convert canvas to ICO
       const icoDataUrl = toICO(canvas, validSizes);
@@ -516,7 +398,7 @@ export class ImageConverter {
         throw new Error('Invalid ICO data URL generated');
       }
       
-      console.log('ICO data URL generated successfully, length:', icoDataUrl.length);
+      Diagnostics.log('ICO data URL generated successfully, length:', icoDataUrl.length);
       
       // Convert data URL to blob
       const response = await fetch(icoDataUrl);
@@ -530,7 +412,7 @@ export class ImageConverter {
         throw new Error('Generated ICO blob is empty');
       }
       
-      console.log('ICO blob generated successfully:', {
+      Diagnostics.log('ICO blob generated successfully:', {
         size: blob.size,
         type: blob.type,
         includesSizes: validSizes.length
@@ -541,7 +423,7 @@ export class ImageConverter {
       console.error('Single ICO conversion failed:', error);
       
       // Fallback: create a simple ICO using canvas conversion
-      console.log('Using fallback ICO conversion method');
+      Diagnostics.log('Using fallback ICO conversion method');
       return await this.convertToIcoFallback(canvas, icoSizes);
     }
   }
@@ -551,7 +433,7 @@ export class ImageConverter {
     icoSizes: number[],
     settings: ConversionSettings
   ): Promise<Blob> {
-    console.log('Converting to multiple PNG files in ZIP with sizes:', icoSizes);
+    Diagnostics.log('Converting to multiple PNG files in ZIP with sizes:', icoSizes);
     
     try {
       const zip = new JSZip();
@@ -562,14 +444,14 @@ export class ImageConverter {
         throw new Error('No valid icon sizes provided for PNG generation');
       }
       
-      console.log('Valid PNG sizes to generate:', validSizes);
+      Diagnostics.log('Valid PNG sizes to generate:', validSizes);
       
       const generatedFiles: { name: string; blob: Blob }[] = [];
       
       // Generate all PNG files first
       for (const size of validSizes) {
         try {
-          console.log(`Generating PNG for size: ${size}x${size}`);
+          Diagnostics.log(`Generating PNG for size: ${size}x${size}`);
           
           // Create a fresh canvas for each size
           const tempCanvas = document.createElement('canvas');
@@ -614,7 +496,7 @@ export class ImageConverter {
           const filename = `icon-${size}x${size}.png`;
           generatedFiles.push({ name: filename, blob: pngBlob });
           
-          console.log(`Successfully generated ${filename} (${pngBlob.size} bytes)`);
+          Diagnostics.log(`Successfully generated ${filename} (${pngBlob.size} bytes)`);
         } catch (error) {
           console.error(`Failed to generate PNG for size ${size}x${size}:`, error);
           // Continue with other sizes but log the error
@@ -625,7 +507,7 @@ export class ImageConverter {
         throw new Error('Failed to generate any PNG files');
       }
       
-      console.log(`Generated ${generatedFiles.length} PNG files`);
+      Diagnostics.log(`Generated ${generatedFiles.length} PNG files`);
       
       // Add files to ZIP with proper error handling
       for (const file of generatedFiles) {
@@ -633,7 +515,7 @@ export class ImageConverter {
           // Convert blob to ArrayBuffer for more reliable ZIP handling
           const arrayBuffer = await file.blob.arrayBuffer();
           zip.file(file.name, arrayBuffer);
-          console.log(`Added ${file.name} to ZIP (${arrayBuffer.byteLength} bytes)`);
+          Diagnostics.log(`Added ${file.name} to ZIP (${arrayBuffer.byteLength} bytes)`);
         } catch (error) {
           console.error(`Failed to add ${file.name} to ZIP:`, error);
           throw new Error(`Failed to add ${file.name} to ZIP: ${error}`);
@@ -641,7 +523,7 @@ export class ImageConverter {
       }
       
       // Generate ZIP blob with optimal settings
-      console.log('Generating ZIP file...');
+      Diagnostics.log('Generating ZIP file...');
       const zipBlob = await zip.generateAsync({ 
         type: 'blob',
         compression: 'DEFLATE',
@@ -660,7 +542,7 @@ export class ImageConverter {
       try {
         const testZip = await JSZip.loadAsync(zipBlob);
         const fileNames = Object.keys(testZip.files);
-        console.log('ZIP validation successful. Contains files:', fileNames);
+        Diagnostics.log('ZIP validation successful. Contains files:', fileNames);
         
         if (fileNames.length !== generatedFiles.length) {
           throw new Error(`ZIP validation failed: expected ${generatedFiles.length} files, got ${fileNames.length}`);
@@ -670,7 +552,7 @@ export class ImageConverter {
         throw new Error(`Generated ZIP file is corrupted: ${error}`);
       }
       
-      console.log('ZIP file generated successfully:', {
+      Diagnostics.log('ZIP file generated successfully:', {
         size: zipBlob.size,
         filesCount: generatedFiles.length,
         files: generatedFiles.map(f => f.name)
@@ -830,7 +712,7 @@ export class ImageConverter {
       // Apply compression if specified
       if (settings.pdfCompression && settings.pdfCompression > 1) {
         // Note: jsPDF handles compression internally, this is just for user feedback
-        console.log(`PDF compression level: ${settings.pdfCompression}`);
+        Diagnostics.log(`PDF compression level: ${settings.pdfCompression}`);
       }
 
       // Set PDF metadata
@@ -845,7 +727,7 @@ export class ImageConverter {
       if (settings.passwordProtect) {
         // Note: jsPDF security features are limited
         // For full security, you'd need a server-side PDF library
-        console.log('Password protection requested (limited browser support)');
+        Diagnostics.log('Password protection requested (limited browser support)');
         
         // Set document permissions
         const permissions = [];
@@ -854,10 +736,10 @@ export class ImageConverter {
         
         // Basic protection (browser limitations apply)
         if (settings.userPassword) {
-          console.log('User password set (browser implementation has limitations)');
+          Diagnostics.log('User password set (browser implementation has limitations)');
         }
         if (settings.ownerPassword) {
-          console.log('Owner password set (browser implementation has limitations)');
+          Diagnostics.log('Owner password set (browser implementation has limitations)');
         }
       }
 
@@ -912,17 +794,28 @@ export class ImageConverter {
     settings: ConversionSettings
   ): Promise<Blob> {
     try {
+      // Decode to a lossless intermediate; every format except PNG is then
+      // encoded on the canvas so its own encoder settings apply
       const convertedBlob = await heicTo({
         blob: file,
-        type: settings.outputFormat === 'jpeg' ? 'image/jpeg' : 
-              settings.outputFormat === 'png' ? 'image/png' : 'image/jpeg',
+        type: 'image/png',
         quality: settings.quality / 100
       });
 
-      // If resizing is needed, convert the blob to image and resize
-      if (settings.maxWidth || settings.maxHeight) {
-        const tempFileName = settings.outputFormat === 'jpeg' ? 'temp.jpg' : 'temp.png';
-        const img = await this.loadImage(new File([convertedBlob], tempFileName, { type: settings.outputFormat === 'jpeg' ? 'image/jpeg' : 'image/png' }));
+      // If resizing, re-encoding or color conversion is needed, convert the blob to image and draw it.
+      // libheif hands back the samples in the image's own color space.
+      const profile = ColorManagement.readProfile(new Uint8Array(await file.arrayBuffer()));
+      if (settings.maxWidth || settings.maxHeight || settings.outputFormat !== 'png' || profile) {
+        let img = await this.loadImage(new File([convertedBlob], 'temp.png', { type: 'image/png' }));
+        if (profile) {
+          const { canvas, ctx } = this.getCanvas();
+          canvas.width = img.naturalWidth;
+          canvas.height = img.naturalHeight;
+          ctx.clearRect(0, 0, canvas.width, canvas.height);
+          ctx.drawImage(img, 0, 0);
+          const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+          img = await this.imageDataToImage(ColorManagement.toSrgb(imageData, profile, settings), 'HEIC');
+        }
         return await this.convertWithCanvas(img, settings, file);
       }
 
@@ -932,118 +825,99 @@ export class ImageConverter {
     }
   }
 
-  private static async loadTiffAsImage(file: File): Promise<HTMLImageElement> {
+  private static async loadTiffAsImage(file: File, settings: ConversionSettings): Promise<HTMLImageElement> {
     if (!file || !file.name) {
       throw new Error('Invalid TIFF file provided');
     }
-    
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = async (e) => {
-        try {
-          const arrayBuffer = e.target?.result as ArrayBuffer;
-          if (!arrayBuffer) {
-            reject(new Error('Failed to read TIFF file content'));
-            return;
-          }
-          
-          // Decode TIFF using the tiff library
-          const uint8Array = new Uint8Array(arrayBuffer);
-          const ifds = TIFF.decode(uint8Array);
-          
-          if (!ifds || ifds.length === 0) {
-            reject(new Error('No image data found in TIFF file'));
-            return;
-          }
-          
-          // Use the first IFD (page)
-          const ifd = ifds[0];
-          const width = ifd.width;
-          const height = ifd.height;
-          const data = ifd.data;
-          
-          // Create canvas to convert TIFF data to image
-          const canvas = document.createElement('canvas');
-          const ctx = canvas.getContext('2d');
-          if (!ctx) {
-            reject(new Error('Failed to get canvas context'));
-            return;
-          }
-          
-          canvas.width = width;
-          canvas.height = height;
-          
-          // Create ImageData from TIFF data
-          const imageData = ctx.createImageData(width, height);
-          
-          // Convert TIFF data to RGBA format
-          if (ifd.alpha) {
-            // RGBA data
-            if (data instanceof Uint8Array) {
-              imageData.data.set(data);
-            } else if (data instanceof Uint16Array) {
-              // Convert 16-bit to 8-bit
-              for (let i = 0; i < data.length; i++) {
-                imageData.data[i] = Math.round(data[i] / 257); // 65535 / 255 ≈ 257
-              }
-            }
-          } else {
-            // RGB data (add alpha channel)
-            const channels = ifd.samplesPerPixel || 3;
-            for (let i = 0; i < width * height; i++) {
-              if (channels === 1) {
-                // Grayscale
-                const gray = data instanceof Uint16Array ? Math.round(data[i] / 257) : data[i];
-                imageData.data[i * 4] = gray;     // R
-                imageData.data[i * 4 + 1] = gray; // G
-                imageData.data[i * 4 + 2] = gray; // B
-                imageData.data[i * 4 + 3] = 255;  // A
-              } else {
-                // RGB
-                const r = data instanceof Uint16Array ? Math.round(data[i * 3] / 257) : data[i * 3];
-                const g = data instanceof Uint16Array ? Math.round(data[i * 3 + 1] / 257) : data[i * 3 + 1];
-                const b = data instanceof Uint16Array ? Math.round(data[i * 3 + 2] / 257) : data[i * 3 + 2];
-                
-                imageData.data[i * 4] = r;       // R
-                imageData.data[i * 4 + 1] = g;   // G
-                imageData.data[i * 4 + 2] = b;   // B
-                imageData.data[i * 4 + 3] = 255; // A
-              }
-            }
-          }
-          
-          // Put image data on canvas
-          ctx.putImageData(imageData, 0, 0);
-          
-          // Convert canvas to image
-          const img = new Image();
-          img.onload = () => {
-            URL.revokeObjectURL(img.src);
-            resolve(img);
-          };
-          img.onerror = (error) => {
-            URL.revokeObjectURL(img.src);
-            reject(new Error('Failed to load TIFF as image: ' + error));
-          };
-          
-          // Create blob URL from canvas
-          canvas.toBlob((blob) => {
-            if (blob) {
-              img.src = URL.createObjectURL(blob);
-            } else {
-              reject(new Error('Failed to create blob from TIFF canvas'));
-            }
-          }, 'image/png');
-          
-        } catch (error) {
-          reject(new Error('Error processing TIFF file: ' + error));
+
+    let imageData: ImageData;
+    try {
+      const bytes = new Uint8Array(await file.arrayBuffer());
+      imageData = ColorManagement.toSrgb(TiffDecoder.decode(bytes), ColorManagement.readProfile(bytes), settings);
+    } catch (error) {
+      throw new Error('Error processing TIFF file: ' + error);
+    }
+
+    return await this.imageDataToImage(imageData, 'TIFF');
+  }
+
+  private static async loadAvifAsImage(file: File, settings: ConversionSettings): Promise<HTMLImageElement> {
+    if (!file || !file.name) {
+      throw new Error('Invalid AVIF file provided');
+    }
+
+    const profile = ColorManagement.readProfile(new Uint8Array(await file.arrayBuffer()));
+    return await this.imageDataToImage(ColorManagement.toSrgb(await AvifCodec.decode(file), profile, settings), 'AVIF');
+  }
+
+  private static async loadJxlAsImage(file: File): Promise<HTMLImageElement> {
+    if (!file || !file.name) {
+      throw new Error('Invalid JPEG XL file provided');
+    }
+
+    return await this.imageDataToImage(await JxlCodec.decode(file), 'JPEG XL');
+  }
+
+  // Draw decoded pixels on a canvas and hand back an image element like the other loaders
+  private static async imageDataToImage(imageData: ImageData, formatName: string): Promise<HTMLImageElement> {
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Failed to get canvas context');
+    }
+    canvas.width = imageData.width;
+    canvas.height = imageData.height;
+    ctx.putImageData(imageData, 0, 0);
+
+    const pngBlob = await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob((blob) => {
+        if (blob) {
+          resolve(blob);
+        } else {
+          reject(new Error(`Failed to create blob from ${formatName} canvas`));
         }
+      }, 'image/png');
+    });
+
+    return new Promise((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => {
+        URL.revokeObjectURL(img.src);
+        resolve(img);
+      };
+      img.onerror = (error) => {
+        URL.revokeObjectURL(img.src);
+        reject(new Error(`Failed to load ${formatName} as image: ` + error));
       };
-      reader.onerror = (error) => reject(new Error('Failed to read TIFF file: ' + error));
-      reader.readAsArrayBuffer(file);
+      img.src = URL.createObjectURL(pngBlob);
     });
   }
 
+  // Loads every page of multi-page TIFF input, or the single image of any other input
+  private static async loadPages(file: File, settings: ConversionSettings): Promise<HTMLImageElement[]> {
+    if (await isHeic(file)) {
+      // Convert HEIC to canvas first
+      const tempBlob = await this.convertFromHeic(file, { ...settings, outputFormat: 'jpeg', colorProfile: 'srgb' });
+      const tempFile = new File([tempBlob], 'temp.jpg', { type: 'image/jpeg' });
+      return [await this.loadImage(tempFile)];
+    }
+    if (await this.isTiff(file)) {
+      const images: HTMLImageElement[] = [];
+      for (const page of TiffPages.decode(new Uint8Array(await file.arrayBuffer()), settings)) {
+        images.push(await this.imageDataToImage(page, 'TIFF'));
+      }
+      return images;
+    }
+    if (await AvifCodec.isAvif(file)) {
+      return [await this.loadAvifAsImage(file, settings)];
+    }
+    if (await JxlCodec.isJxl(file)) {
+      return [await this.loadJxlAsImage(file)];
+    }
+    const isSvgInput = (file.type === 'image/svg+xml') || file.name.toLowerCase().endsWith('.svg');
+    return [isSvgInput ? await this.loadSvgAsImage(file) : await this.loadImage(file)];
+  }
+
   private static async isTiff(file: File): Promise<boolean> {
     if (!file || !file.name) return false;
     
@@ -1091,12 +965,46 @@ export class ImageConverter {
     // Check if input is TIFF
     const isTiffInput = await this.isTiff(file);
     
+    // Check if input is AVIF
+    const isAvifInput = await AvifCodec.isAvif(file);
+    
+    // Check if input is JPEG XL
+    const isJxlInput = await JxlCodec.isJxl(file);
+
+    // Animated input keeps every frame when the output supports it
+    const animation = isSvgInput || isTiffInput ? null : await AnimationConverter.load(file, settings);
+    if (animation) {
+      return await AnimationConverter.convert(
+        animation,
+        settings,
+        file,
+        imageData => this.encodeImageData(imageData, settings, file)
+      );
+    }
+
+    const bytes = new Uint8Array(await file.arrayBuffer());
+
+    // Multi-page TIFF input keeps every page for TIFF and PDF output or page extraction
+    if (isTiffInput && TiffPages.keepsPages(bytes, settings)) {
+      return await this.convertTiffPages(file, bytes, settings);
+    }
+
+    // High bit depth PNG and TIFF input skips the 8-bit canvas when the output keeps the precision
+    const highPrecision = isSvgInput ? null : HighPrecisionDecoder.decode(bytes, settings);
+    if (highPrecision) {
+      return await RasterEncoder.encode(highPrecision, settings, file);
+    }
+    
     let img: HTMLImageElement;
     try {
       if (isSvgInput) {
         img = await this.loadSvgAsImage(file);
       } else if (isTiffInput) {
-        img = await this.loadTiffAsImage(file);
+        img = await this.loadTiffAsImage(file, settings);
+      } else if (isAvifInput) {
+        img = await this.loadAvifAsImage(file, settings);
+      } else if (isJxlInput) {
+        img = await this.loadJxlAsImage(file);
       } else {
         img = await this.loadImage(file);
       }
@@ -1104,7 +1012,138 @@ export class ImageConverter {
       throw new Error(`Failed to load image: ${error instanceof Error ? error.message : error}`);
     }
     
-    return await this.convertWithCanvas(img, settings, file);
+    return await this.convertWithCanvas(img, settings, file, isSvgInput);
+  }
+
+  private static async convertTiffPages(file: File, bytes: Uint8Array, settings: ConversionSettings): Promise<Blob> {
+    if (settings.outputFormat === 'pdf' && !settings.extractPages) {
+      const result = await this.convertMultipleImagesToPdf([file], settings);
+      if (!result.success || !result.blob) {
+        throw new Error(result.error || 'Failed to create multi-page PDF');
+      }
+      return result.blob;
+    }
+
+    const pages = TiffPages.decode(bytes, settings);
+    if (settings.extractPages) {
+      return await TiffPages.extractPagesToZip(
+        pages,
+        settings,
+        file,
+        async imageData => this.convertWithCanvas(await this.imageDataToImage(imageData, 'TIFF'), settings, file)
+      );
+    }
+
+    const tiffPages: TiffImage[] = [];
+    for (const page of pages) {
+      const { canvas, width, height } = this.drawOnCanvas(await this.imageDataToImage(page, 'TIFF'), settings);
+      tiffPages.push(await TiffEncoder.getImage(canvas.getContext('2d')!.getImageData(0, 0, width, height), settings, file));
+    }
+    return await TiffEncoder.write(tiffPages, settings);
+  }
+
+  // Main-thread conversions share one canvas, so they run one at a time
+  private static runOnMainThread<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.mainThreadQueue.then(task, task);
+    this.mainThreadQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  private static async convertOnMainThread(
+    file: File,
+    settings: ConversionSettings,
+    onProgress?: (progress: number) => void,
+    abortSignal?: AbortSignal
+  ): Promise<Blob> {
+    let convertedBlob: Blob;
+
+    // Check if input is HEIC or TIFF
+    const isInputHeic = await isHeic(file);
+    const isInputTiff = await this.isTiff(file);
+    onProgress?.(20);
+
+    // Check for cancellation
+    if (abortSignal?.aborted) {
+      throw new Error('Conversion cancelled');
+    }
+
+    if (isInputHeic) {
+      // Converting FROM HEIC
+      if (settings.outputFormat === 'heic') {
+        // HEIC to HEIC (decode, resize/crop and re-encode if needed)
+        if (settings.maxWidth || settings.maxHeight || settings.enableCrop ||
+            ColorManagement.changesProfile(new Uint8Array(await file.arrayBuffer()), settings)) {
+          onProgress?.(50);
+          convertedBlob = await this.convertFromHeic(file, settings);
+          onProgress?.(80);
+        } else {
+          // No conversion needed, just return original
+          onProgress?.(80);
+          convertedBlob = file;
+        }
+                } else {
+          // HEIC to other format
+          onProgress?.(40);
+          
+          // Check for cancellation
+          if (abortSignal?.aborted) {
+            throw new Error('Conversion cancelled');
+          }
+          
+          convertedBlob = await this.convertFromHeic(file, settings);
+          onProgress?.(80);
+        }
+    } else {
+      // Converting FROM regular image format
+      // Check for SVG to SVG conversion
+      const isSvgInput = (file.type === 'image/svg+xml') || file.name.toLowerCase().endsWith('.svg');
+      
+      // Check for TIFF to TIFF conversion
+      if (isInputTiff && settings.outputFormat === 'tiff' && !settings.extractPages) {
+        // TIFF to TIFF - check if resize or settings change is needed
+        if (settings.maxWidth || settings.maxHeight || 
+            settings.tiffCompression !== 'lzw' || 
+            settings.tiffBitDepth !== 8 || 
+            settings.tiffColorModel !== 'rgb' ||
+            ColorManagement.changesProfile(new Uint8Array(await file.arrayBuffer()), settings)) {
+          // Need to process, so convert through canvas
+          onProgress?.(40);
+          convertedBlob = await this.convertRegularImage(file, settings);
+          onProgress?.(80);
+        } else {
+          // No processing needed, just return original TIFF
+          onProgress?.(50);
+          convertedBlob = file;
+          onProgress?.(80);
+        }
+      } else if (isSvgInput && settings.outputFormat === 'svg') {
+        // SVG to SVG - check if resize is needed
+        if (settings.maxWidth || settings.maxHeight) {
+          // Need to resize, so process through canvas
+          onProgress?.(40);
+          convertedBlob = await this.convertRegularImage(file, settings);
+          onProgress?.(80);
+        } else {
+          // No resize needed, just return original SVG
+          onProgress?.(50);
+          convertedBlob = file;
+          onProgress?.(80);
+        }
+      } else {
+        // Regular image conversion
+        onProgress?.(40);
+        
+        // Check for cancellation
+        if (abortSignal?.aborted) {
+          throw new Error('Conversion cancelled');
+        }
+        
+        convertedBlob = await this.convertRegularImage(file, settings);
+        onProgress?.(80);
+      }
+    }
+
+    return convertedBlob;
   }
 
   static async convertImage(
@@ -1124,8 +1163,16 @@ export class ImageConverter {
         throw new Error('Invalid file provided');
       }
 
+      // A target file size takes precedence, both searches drive the same quality setting
+      if (TargetFileSize.isActive(settings)) {
+        return await this.convertToTargetSize(file, settings, onProgress, abortSignal);
+      }
+
+      if (AutoQuality.isActive(settings)) {
+        return await this.convertToQualityTarget(file, settings, onProgress, abortSignal);
+      }
+
       const originalSize = file.size;
-      let convertedBlob: Blob;
 
       // Report initial progress
       onProgress?.(10);
@@ -1135,95 +1182,14 @@ export class ImageConverter {
         throw new Error('Conversion cancelled');
       }
 
-      // Check if input is HEIC or TIFF
-      const isInputHeic = await isHeic(file);
-      const isInputTiff = await this.isTiff(file);
-      onProgress?.(20);
+      // Raster output is converted in the worker pool; conversions that need the DOM
+      // come back as null and run on the main thread
+      const workerBlob = ConversionWorkerPool.isSupported()
+        ? await ConversionWorkerPool.convert(file, settings, onProgress, abortSignal)
+        : null;
 
-      // Check for cancellation
-      if (abortSignal?.aborted) {
-        throw new Error('Conversion cancelled');
-      }
-
-      if (isInputHeic) {
-        // Converting FROM HEIC
-        if (settings.outputFormat === 'heic') {
-          // HEIC to HEIC (just resize if needed)
-          if (settings.maxWidth || settings.maxHeight) {
-            onProgress?.(50);
-            convertedBlob = await this.convertFromHeic(file, { ...settings, outputFormat: 'jpeg' });
-            // Then convert back - but browsers can't create HEIC, so this will fail
-            throw new Error('HEIC to HEIC conversion with resizing is not supported');
-          } else {
-            // No conversion needed, just return original
-            onProgress?.(80);
-            convertedBlob = file;
-          }
-                  } else {
-            // HEIC to other format
-            onProgress?.(40);
-            
-            // Check for cancellation
-            if (abortSignal?.aborted) {
-              throw new Error('Conversion cancelled');
-            }
-            
-            convertedBlob = await this.convertFromHeic(file, settings);
-            onProgress?.(80);
-          }
-      } else {
-        // Converting FROM regular image format
-        if (settings.outputFormat === 'heic') {
-          // Convert TO HEIC (not supported)
-          throw new Error('Converting to HEIC format is not supported in browsers');
-        } else {
-          // Check for SVG to SVG conversion
-          const isSvgInput = (file.type === 'image/svg+xml') || file.name.toLowerCase().endsWith('.svg');
-          
-          // Check for TIFF to TIFF conversion
-          if (isInputTiff && settings.outputFormat === 'tiff') {
-            // TIFF to TIFF - check if resize or settings change is needed
-            if (settings.maxWidth || settings.maxHeight || 
-                settings.tiffCompression !== 'lzw' || 
-                settings.tiffBitDepth !== 8 || 
-                settings.tiffColorModel !== 'rgb') {
-              // Need to process, so convert through canvas
-              onProgress?.(40);
-              convertedBlob = await this.convertRegularImage(file, settings);
-              onProgress?.(80);
-            } else {
-              // No processing needed, just return original TIFF
-              onProgress?.(50);
-              convertedBlob = file;
-              onProgress?.(80);
-            }
-          } else if (isSvgInput && settings.outputFormat === 'svg') {
-            // SVG to SVG - check if resize is needed
-            if (settings.maxWidth || settings.maxHeight) {
-              // Need to resize, so process through canvas
-              onProgress?.(40);
-              convertedBlob = await this.convertRegularImage(file, settings);
-              onProgress?.(80);
-            } else {
-              // No resize needed, just return original SVG
-              onProgress?.(50);
-              convertedBlob = file;
-              onProgress?.(80);
-            }
-          } else {
-            // Regular image conversion
-            onProgress?.(40);
-            
-            // Check for cancellation
-            if (abortSignal?.aborted) {
-              throw new Error('Conversion cancelled');
-            }
-            
-            convertedBlob = await this.convertRegularImage(file, settings);
-            onProgress?.(80);
-          }
-        }
-      }
+      const convertedBlob = workerBlob ||
+        await this.runOnMainThread(() => this.convertOnMainThread(file, settings, onProgress, abortSignal));
 
       onProgress?.(90);
 
@@ -1260,6 +1226,77 @@ export class ImageConverter {
     }
   }
 
+  // Runs a full conversion for every quality the search tries
+  private static async convertToTargetSize(
+    file: File,
+    settings: ConversionSettings,
+    onProgress?: (progress: number) => void,
+    abortSignal?: AbortSignal
+  ): Promise<ConversionResult> {
+    let attempts = 0;
+    const result = await TargetFileSize.search(
+      settings,
+      async (attemptSettings) => {
+        const attempt = await this.convertImage(file, attemptSettings, undefined, abortSignal);
+        if (!attempt.success || !attempt.blob) {
+          throw new Error(attempt.error || 'Conversion failed');
+        }
+        // The number of attempts is unknown up front, so progress approaches 90%
+        onProgress?.(90 - 80 / (1 + ++attempts / 3));
+        return attempt.blob;
+      },
+      async (blob) => {
+        const bitmap = await createImageBitmap(blob);
+        const { width, height } = bitmap;
+        bitmap.close();
+        return { width, height };
+      },
+      abortSignal
+    );
+
+    onProgress?.(100);
+    return {
+      success: true,
+      blob: result.blob,
+      originalSize: file.size,
+      convertedSize: result.blob.size,
+      chosenQuality: result.quality,
+      targetSizeMet: result.met,
+    };
+  }
+
+  // Runs a full conversion for the lossless reference and every quality the search tries
+  private static async convertToQualityTarget(
+    file: File,
+    settings: ConversionSettings,
+    onProgress?: (progress: number) => void,
+    abortSignal?: AbortSignal
+  ): Promise<ConversionResult> {
+    let attempts = 0;
+    const result = await AutoQuality.search(
+      settings,
+      async (attemptSettings) => {
+        const attempt = await this.convertImage(file, attemptSettings, undefined, abortSignal);
+        if (!attempt.success || !attempt.blob) {
+          throw new Error(attempt.error || 'Conversion failed');
+        }
+        onProgress?.(90 - 80 / (1 + ++attempts / 3));
+        return attempt.blob;
+      },
+      abortSignal
+    );
+
+    onProgress?.(100);
+    return {
+      success: true,
+      blob: result.blob,
+      originalSize: file.size,
+      convertedSize: result.blob.size,
+      chosenQuality: result.quality,
+      qualityScore: result.score,
+    };
+  }
+
   static async convertMultipleImages(
     files: File[],
     settings: ConversionSettings,
@@ -1267,21 +1304,18 @@ export class ImageConverter {
     onIndividualProgress?: (fileIndex: number, progress: number) => void,
     abortSignal?: AbortSignal
   ): Promise<ConversionResult[]> {
-    // Special handling for PDF - create multi-page PDF
-          if (settings.outputFormat === 'pdf' && files.length > 1) {
-      const multiPageResult = await this.convertMultipleImagesToPdf(
-        files, 
-        settings, 
-        onOverallProgress, 
-        onIndividualProgress,
-        abortSignal
-      );
+    // Special handling for PDF and multi-page TIFF - merge every file into one document
+    const mergesFiles = settings.outputFormat === 'pdf' || (settings.outputFormat === 'tiff' && settings.tiffMultiPage);
+    if (mergesFiles && files.length > 1 && !ConversionRecipes.isActive(settings)) {
+      const multiPageResult = settings.outputFormat === 'pdf'
+        ? await this.convertMultipleImagesToPdf(files, settings, onOverallProgress, onIndividualProgress, abortSignal)
+        : await this.convertMultipleImagesToTiff(files, settings, onOverallProgress, onIndividualProgress, abortSignal);
       
-      // For PDF multi-page conversion, treat it as one successful conversion for first file
+      // For multi-page conversion, treat it as one successful conversion for first file
       // and mark others as completed but point to the same result
       const results: ConversionResult[] = files.map((file, index) => {
         if (index === 0) {
-          // First file gets the actual PDF result
+          // First file gets the actual PDF or TIFF result
           return {
             success: multiPageResult.success,
             blob: multiPageResult.blob,
@@ -1290,7 +1324,7 @@ export class ImageConverter {
             convertedSize: multiPageResult.convertedSize
           };
         } else {
-          // Other files are marked as "completed" but merged into the first PDF
+          // Other files are marked as "completed" but merged into the first file's output
           return {
             success: true,
             blob: undefined, // No individual blob, merged into first file
@@ -1304,56 +1338,99 @@ export class ImageConverter {
       return results;
     }
 
-    // Regular conversion for other formats
-    const results: ConversionResult[] = [];
-
-    for (let i = 0; i < files.length; i++) {
+    // Regular conversion for other formats. Files are started together and the
+    // worker pool decides how many actually run in parallel.
+    let completed = 0;
+    return await Promise.all(files.map(async (file, i): Promise<ConversionResult> => {
       // Check for cancellation before processing each file
       if (abortSignal?.aborted) {
-        // Return partial results for already processed files and mark remaining as cancelled
-        for (let j = i; j < files.length; j++) {
-          results.push({
-            success: false,
-            error: 'Conversion cancelled by user',
-            originalSize: files[j]?.size || 0
-          });
-        }
-        break;
+        return {
+          success: false,
+          error: 'Conversion cancelled by user',
+          originalSize: file?.size || 0
+        };
       }
 
+      let result: ConversionResult;
       try {
-        const result = await this.convertImage(
-          files[i], 
-          settings,
-          (progress) => onIndividualProgress?.(i, progress),
-          abortSignal
-        );
+        result = ConversionRecipes.isActive(settings)
+          ? await this.convertRenditions(file, settings, (progress) => onIndividualProgress?.(i, progress), abortSignal)
+          : await this.convertImage(
+              file, 
+              settings,
+              (progress) => onIndividualProgress?.(i, progress),
+              abortSignal
+            );
         
         // Ensure result is valid
         if (!result) {
-          results.push({
+          result = {
             success: false,
             error: 'convertImage returned null or undefined',
-            originalSize: files[i]?.size || 0
-          });
-        } else {
-          results.push(result);
+            originalSize: file?.size || 0
+          };
         }
       } catch (error) {
-        // Handle any exceptions and ensure we still push a valid result
-        results.push({
+        // Handle any exceptions and ensure we still return a valid result
+        result = {
           success: false,
           error: error instanceof Error ? error.message : 'Unknown error in convertImage',
-          originalSize: files[i]?.size || 0
-        });
+          originalSize: file?.size || 0
+        };
       }
       
-      if (onOverallProgress) {
-        onOverallProgress(i + 1, files.length);
-      }
+      completed++;
+      onOverallProgress?.(completed, files.length);
+      return result;
+    }));
+  }
+
+  // Converts one file into every rendition of the recipe and bundles them in a ZIP
+  private static async convertRenditions(
+    file: File,
+    settings: ConversionSettings,
+    onProgress?: (progress: number) => void,
+    abortSignal?: AbortSignal
+  ): Promise<ConversionResult> {
+    const renditions = ConversionRecipes.expand(settings);
+    const progress = new Array(renditions.length).fill(0);
+    const template = settings.recipe?.fileNameTemplate || '';
+
+    const results = await Promise.all(renditions.map((rendition, index) =>
+      this.convertImage(file, rendition.settings, (value) => {
+        progress[index] = value;
+        onProgress?.(progress.reduce((sum, current) => sum + current, 0) / renditions.length);
+      }, abortSignal)
+    ));
+
+    const failed = results.find(result => !result.success || !result.blob);
+    if (failed) {
+      return { success: false, error: failed.error || 'Rendition conversion failed', originalSize: file.size };
+    }
+
+    const outputs: RenditionOutput[] = await Promise.all(renditions.map(async (rendition, index) => {
+      const blob = results[index].blob!;
+      const hash = FileNameTemplate.usesToken(template, 'hash') ? await FileNameTemplate.hash(blob) : undefined;
+      return { fileName: ConversionRecipes.getFileName(template, file.name, rendition, hash), format: rendition.format, width: rendition.width, blob };
+    }));
+
+    // Templates without {width} or {format} would otherwise overwrite each other
+    const usedPaths = new Set<string>();
+    for (const output of outputs) {
+      output.fileName = FileNameTemplate.makeUnique(output.fileName, usedPaths);
     }
 
-    return results;
+    const zip = new JSZip();
+    outputs.forEach(output => zip.file(output.fileName, output.blob));
+    const blob = await zip.generateAsync({ type: 'blob' });
+
+    return {
+      success: true,
+      blob,
+      originalSize: file.size,
+      convertedSize: outputs.reduce((sum, output) => sum + output.blob.size, 0),
+      renditions: outputs,
+    };
   }
 
   private static async convertMultipleImagesToPdf(
@@ -1430,106 +1507,87 @@ export class ImageConverter {
             throw new Error('PDF conversion cancelled by user');
           }
 
-          // Load and process image
-          let img: HTMLImageElement;
-          const isInputHeic = await isHeic(file);
-          const isInputTiff = await this.isTiff(file);
-          
-          if (isInputHeic) {
-            // Convert HEIC to canvas first
-            const tempBlob = await this.convertFromHeic(file, { ...settings, outputFormat: 'jpeg' });
-            const tempFile = new File([tempBlob], 'temp.jpg', { type: 'image/jpeg' });
-            img = await this.loadImage(tempFile);
-          } else if (isInputTiff) {
-            // Load TIFF directly
-            img = await this.loadTiffAsImage(file);
-          } else {
-            const isSvgInput = (file.type === 'image/svg+xml') || file.name.toLowerCase().endsWith('.svg');
-            if (isSvgInput) {
-              img = await this.loadSvgAsImage(file);
-            } else {
-              img = await this.loadImage(file);
-            }
-          }
+          // Load every page of the input
+          const images = await this.loadPages(file, settings);
 
           onIndividualProgress?.(fileIndex, 50);
 
-          // Create canvas for this image
-          const { canvas, ctx } = this.getCanvas();
-          const { width, height } = this.calculateDimensions(
-            img.naturalWidth,
-            img.naturalHeight,
-            settings.maxWidth,
-            settings.maxHeight,
-            settings.maintainAspectRatio
-          );
-
-          canvas.width = width;
-          canvas.height = height;
-          ctx.clearRect(0, 0, width, height);
-          ctx.drawImage(img, 0, 0, width, height);
-
-          // Convert to image data
-          let imageFormat = 'JPEG';
-          let imageQuality = quality / 100;
-          if (quality >= 90) {
-            imageFormat = 'PNG';
-            imageQuality = 1.0;
-          }
-          const imageData = canvas.toDataURL(`image/${imageFormat.toLowerCase()}`, imageQuality);
+          for (const img of images) {
+            // Create canvas for this image
+            const { canvas, ctx } = this.getCanvas();
+            const { width, height } = ImageGeometry.calculateDimensions(
+              img.naturalWidth,
+              img.naturalHeight,
+              settings.maxWidth,
+              settings.maxHeight,
+              settings.maintainAspectRatio
+            );
 
-          // Add new page if needed
-          if (imagesOnCurrentPage === 0 && currentPage > 0) {
-            pdf.addPage();
-          }
+            canvas.width = width;
+            canvas.height = height;
+            ctx.clearRect(0, 0, width, height);
+            ctx.drawImage(img, 0, 0, width, height);
+
+            // Convert to image data
+            let imageFormat = 'JPEG';
+            let imageQuality = quality / 100;
+            if (quality >= 90) {
+              imageFormat = 'PNG';
+              imageQuality = 1.0;
+            }
+            const imageData = canvas.toDataURL(`image/${imageFormat.toLowerCase()}`, imageQuality);
 
-          // Calculate position on page
-          const gridIndex = imagesOnCurrentPage;
-          const col = gridIndex % cols;
-          const row = Math.floor(gridIndex / cols);
+            // Add new page if needed
+            if (imagesOnCurrentPage === 0 && currentPage > 0) {
+              pdf.addPage();
+            }
+
+            // Calculate position on page
+            const gridIndex = imagesOnCurrentPage;
+            const col = gridIndex % cols;
+            const row = Math.floor(gridIndex / cols);
 
-          const cellX = marginLeft + col * cellWidth;
-          const cellY = marginTop + row * cellHeight;
+            const cellX = marginLeft + col * cellWidth;
+            const cellY = marginTop + row * cellHeight;
 
-          // Calculate image size within cell
-          const pixelsToMm = (pixels: number) => (pixels * 25.4) / dpi;
-          const originalWidthMm = pixelsToMm(width);
-          const originalHeightMm = pixelsToMm(height);
+            // Calculate image size within cell
+            const pixelsToMm = (pixels: number) => (pixels * 25.4) / dpi;
+            const originalWidthMm = pixelsToMm(width);
+            const originalHeightMm = pixelsToMm(height);
 
-          let imgWidth, imgHeight, x, y;
+            let imgWidth, imgHeight, x, y;
 
-          if (imagePlacement === 'fit') {
-            const scaleX = cellWidth / originalWidthMm;
-            const scaleY = cellHeight / originalHeightMm;
-            const scale = Math.min(scaleX, scaleY);
+            if (imagePlacement === 'fit') {
+              const scaleX = cellWidth / originalWidthMm;
+              const scaleY = cellHeight / originalHeightMm;
+              const scale = Math.min(scaleX, scaleY);
             
-            imgWidth = originalWidthMm * scale;
-            imgHeight = originalHeightMm * scale;
+              imgWidth = originalWidthMm * scale;
+              imgHeight = originalHeightMm * scale;
             
-            x = cellX + (cellWidth - imgWidth) / 2;
-            y = cellY + (cellHeight - imgHeight) / 2;
-          } else if (imagePlacement === 'fill') {
-            imgWidth = cellWidth;
-            imgHeight = cellHeight;
-            x = cellX;
-            y = cellY;
-          } else { // center, stretch, etc.
-            imgWidth = Math.min(originalWidthMm, cellWidth);
-            imgHeight = Math.min(originalHeightMm, cellHeight);
-            x = cellX + (cellWidth - imgWidth) / 2;
-            y = cellY + (cellHeight - imgHeight) / 2;
-          }
-
-          // Add image to PDF
-          pdf.addImage(imageData, imageFormat, x, y, imgWidth, imgHeight);
+              x = cellX + (cellWidth - imgWidth) / 2;
+              y = cellY + (cellHeight - imgHeight) / 2;
+            } else if (imagePlacement === 'fill') {
+              imgWidth = cellWidth;
+              imgHeight = cellHeight;
+              x = cellX;
+              y = cellY;
+            } else { // center, stretch, etc.
+              imgWidth = Math.min(originalWidthMm, cellWidth);
+              imgHeight = Math.min(originalHeightMm, cellHeight);
+              x = cellX + (cellWidth - imgWidth) / 2;
+              y = cellY + (cellHeight - imgHeight) / 2;
+            }
 
-          onIndividualProgress?.(fileIndex, 90);
+            // Add image to PDF
+            pdf.addImage(imageData, imageFormat, x, y, imgWidth, imgHeight);
 
-          // Update counters
-          imagesOnCurrentPage++;
-          if (imagesOnCurrentPage >= imagesPerPage) {
-            imagesOnCurrentPage = 0;
-            currentPage++;
+            // Update counters
+            imagesOnCurrentPage++;
+            if (imagesOnCurrentPage >= imagesPerPage) {
+              imagesOnCurrentPage = 0;
+              currentPage++;
+            }
           }
 
           onIndividualProgress?.(fileIndex, 100);
@@ -1552,7 +1610,7 @@ export class ImageConverter {
 
       // Apply security settings if specified
       if (settings.passwordProtect) {
-        console.log('Password protection requested (limited browser support)');
+        Diagnostics.log('Password protection requested (limited browser support)');
       }
 
       // Generate PDF blob
@@ -1579,382 +1637,74 @@ export class ImageConverter {
     }
   }
 
-  private static async convertToTiff(
-    canvas: HTMLCanvasElement,
-    width: number,
-    height: number,
-    settings: ConversionSettings
-  ): Promise<Blob> {
+  // Writes every page of every file into one multi-page TIFF
+  private static async convertMultipleImagesToTiff(
+    files: File[],
+    settings: ConversionSettings,
+    onOverallProgress?: (completed: number, total: number) => void,
+    onIndividualProgress?: (fileIndex: number, progress: number) => void,
+    abortSignal?: AbortSignal
+  ): Promise<ConversionResult> {
+    const originalSize = files.reduce((sum, file) => sum + file.size, 0);
     try {
-      // Get TIFF settings with defaults
-      const compression = settings.tiffCompression || 'lzw';
-      const bitDepth = settings.tiffBitDepth || 8;
-      const colorModel = settings.tiffColorModel || 'rgb';
-      const resolutionX = settings.tiffResolutionX || 300;
-      const resolutionY = settings.tiffResolutionY || 300;
-      const resolutionUnit = settings.tiffResolutionUnit || 'inch';
-      const predictor = settings.tiffPredictor || 1;
-      const planarConfig = settings.tiffPlanarConfig || 'chunky';
-      const fillOrder = settings.tiffFillOrder || 'msb2lsb';
-      const photometric = settings.tiffPhotometric || 'rgb';
-      const tileSize = settings.tiffTileSize || 0;
-      const rowsPerStrip = settings.tiffRowsPerStrip || 8;
-
-      console.log('Converting to TIFF with settings:', {
-        compression,
-        bitDepth,
-        colorModel,
-        resolution: `${resolutionX}x${resolutionY} ${resolutionUnit}`,
-        predictor,
-        planarConfig,
-        fillOrder,
-        photometric,
-        tileSize,
-        rowsPerStrip
-      });
+      const pages: TiffImage[] = [];
+      for (const [fileIndex, file] of files.entries()) {
+        if (abortSignal?.aborted) {
+          throw new Error('TIFF conversion cancelled by user');
+        }
 
-      // Get image data from canvas
-      const ctx = canvas.getContext('2d')!;
-      const imageData = ctx.getImageData(0, 0, width, height);
-      
-      // Convert image data based on color model and bit depth
-      let processedData: Uint8Array | Uint16Array | Uint32Array;
-      let samplesPerPixel: number;
-      let bitsPerSample: number[];
-      
-      switch (colorModel) {
-        case 'grayscale':
-          samplesPerPixel = 1;
-          bitsPerSample = [bitDepth];
-          processedData = this.convertToGrayscale(imageData, bitDepth);
-          break;
-        case 'rgba':
-          samplesPerPixel = 4;
-          bitsPerSample = [bitDepth, bitDepth, bitDepth, bitDepth];
-          processedData = this.convertToRGBA(imageData, bitDepth);
-          break;
-        case 'cmyk':
-          samplesPerPixel = 4;
-          bitsPerSample = [bitDepth, bitDepth, bitDepth, bitDepth];
-          processedData = this.convertToCMYK(imageData, bitDepth);
-          break;
-        default: // 'rgb'
-          samplesPerPixel = 3;
-          bitsPerSample = [bitDepth, bitDepth, bitDepth];
-          processedData = this.convertToRGB(imageData, bitDepth);
-          break;
+        onIndividualProgress?.(fileIndex, 10);
+        const isSvgInput = (file.type === 'image/svg+xml') || file.name.toLowerCase().endsWith('.svg');
+        for (const img of await this.loadPages(file, settings)) {
+          const { canvas, width, height } = this.drawOnCanvas(img, settings, isSvgInput);
+          pages.push(await TiffEncoder.getImage(canvas.getContext('2d')!.getImageData(0, 0, width, height), settings, file));
+        }
+        onIndividualProgress?.(fileIndex, 100);
+        onOverallProgress?.(fileIndex + 1, files.length);
       }
 
-      // Create TIFF structure manually since we need encoding capability
-      const tiffData = this.createTiffStructure({
-        width,
-        height,
-        imageData: processedData,
-        samplesPerPixel,
-        bitsPerSample,
-        compression,
-        photometric: this.getPhotometricInterpretation(colorModel),
-        resolutionX,
-        resolutionY,
-        resolutionUnit: resolutionUnit === 'inch' ? 2 : 3, // 2 = inch, 3 = centimeter
-        predictor,
-        planarConfig: planarConfig === 'chunky' ? 1 : 2,
-        fillOrder: fillOrder === 'msb2lsb' ? 1 : 2,
-        tileSize,
-        rowsPerStrip: tileSize === 0 ? rowsPerStrip : undefined
-      });
-
-      return new Blob([tiffData], { type: 'image/tiff' });
+      const blob = await TiffEncoder.write(pages, settings);
+      return { success: true, blob, originalSize, convertedSize: blob.size };
     } catch (error) {
-      console.error('TIFF conversion failed:', error);
-      throw new Error(`Failed to convert to TIFF: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
-  }
-
-  private static convertToGrayscale(imageData: ImageData, bitDepth: number): Uint8Array | Uint16Array | Uint32Array {
-    const data = imageData.data;
-    const pixelCount = imageData.width * imageData.height;
-    
-    if (bitDepth === 8) {
-      const grayscaleData = new Uint8Array(pixelCount);
-      for (let i = 0; i < pixelCount; i++) {
-        const r = data[i * 4];
-        const g = data[i * 4 + 1];
-        const b = data[i * 4 + 2];
-        // Use standard grayscale conversion formula
-        grayscaleData[i] = Math.round(0.299 * r + 0.587 * g + 0.114 * b);
-      }
-      return grayscaleData;
-    } else if (bitDepth === 16) {
-      const grayscaleData = new Uint16Array(pixelCount);
-      for (let i = 0; i < pixelCount; i++) {
-        const r = data[i * 4];
-        const g = data[i * 4 + 1];
-        const b = data[i * 4 + 2];
-        const gray = Math.round(0.299 * r + 0.587 * g + 0.114 * b);
-        grayscaleData[i] = (gray << 8) | gray; // Convert 8-bit to 16-bit
-      }
-      return grayscaleData;
-    } else {
-      // Default to 8-bit
-      return this.convertToGrayscale(imageData, 8);
-    }
-  }
-
-  private static convertToRGB(imageData: ImageData, bitDepth: number): Uint8Array | Uint16Array {
-    const data = imageData.data;
-    const pixelCount = imageData.width * imageData.height;
-    
-    if (bitDepth === 8) {
-      const rgbData = new Uint8Array(pixelCount * 3);
-      for (let i = 0; i < pixelCount; i++) {
-        rgbData[i * 3] = data[i * 4];     // R
-        rgbData[i * 3 + 1] = data[i * 4 + 1]; // G
-        rgbData[i * 3 + 2] = data[i * 4 + 2]; // B
-      }
-      return rgbData;
-    } else if (bitDepth === 16) {
-      const rgbData = new Uint16Array(pixelCount * 3);
-      for (let i = 0; i < pixelCount; i++) {
-        rgbData[i * 3] = (data[i * 4] << 8) | data[i * 4];         // R
-        rgbData[i * 3 + 1] = (data[i * 4 + 1] << 8) | data[i * 4 + 1]; // G
-        rgbData[i * 3 + 2] = (data[i * 4 + 2] << 8) | data[i * 4 + 2]; // B
-      }
-      return rgbData;
-    } else {
-      // Default to 8-bit
-      return this.convertToRGB(imageData, 8);
-    }
-  }
-
-  private static convertToRGBA(imageData: ImageData, bitDepth: number): Uint8Array | Uint16Array {
-    const data = imageData.data;
-    const pixelCount = imageData.width * imageData.height;
-    
-    if (bitDepth === 8) {
-      // Data is already in RGBA format for 8-bit
-      return new Uint8Array(data);
-    } else if (bitDepth === 16) {
-      const rgbaData = new Uint16Array(pixelCount * 4);
-      for (let i = 0; i < pixelCount; i++) {
-        rgbaData[i * 4] = (data[i * 4] << 8) | data[i * 4];         // R
-        rgbaData[i * 4 + 1] = (data[i * 4 + 1] << 8) | data[i * 4 + 1]; // G
-        rgbaData[i * 4 + 2] = (data[i * 4 + 2] << 8) | data[i * 4 + 2]; // B
-        rgbaData[i * 4 + 3] = (data[i * 4 + 3] << 8) | data[i * 4 + 3]; // A
-      }
-      return rgbaData;
-    } else {
-      // Default to 8-bit
-      return this.convertToRGBA(imageData, 8);
-    }
-  }
-
-  private static convertToCMYK(imageData: ImageData, bitDepth: number): Uint8Array | Uint16Array {
-    const data = imageData.data;
-    const pixelCount = imageData.width * imageData.height;
-    
-    if (bitDepth === 8) {
-      const cmykData = new Uint8Array(pixelCount * 4);
-      for (let i = 0; i < pixelCount; i++) {
-        const r = data[i * 4] / 255;
-        const g = data[i * 4 + 1] / 255;
-        const b = data[i * 4 + 2] / 255;
-        
-        // Convert RGB to CMYK
-        const k = 1 - Math.max(r, g, b);
-        const c = k === 1 ? 0 : (1 - r - k) / (1 - k);
-        const m = k === 1 ? 0 : (1 - g - k) / (1 - k);
-        const y = k === 1 ? 0 : (1 - b - k) / (1 - k);
-        
-        cmykData[i * 4] = Math.round(c * 255);     // C
-        cmykData[i * 4 + 1] = Math.round(m * 255); // M
-        cmykData[i * 4 + 2] = Math.round(y * 255); // Y
-        cmykData[i * 4 + 3] = Math.round(k * 255); // K
-      }
-      return cmykData;
-    } else {
-      // For simplicity, convert to 8-bit first
-      return this.convertToCMYK(imageData, 8);
-    }
-  }
-
-  private static getPhotometricInterpretation(colorModel: string): number {
-    switch (colorModel) {
-      case 'grayscale': return 1; // BlackIsZero
-      case 'rgb': 
-      case 'rgba': return 2; // RGB
-      case 'cmyk': return 5; // Separated (CMYK)
-      default: return 2; // RGB
-    }
-  }
-
-  private static createTiffStructure(options: {
-    width: number;
-    height: number;
-    imageData: Uint8Array | Uint16Array | Uint32Array;
-    samplesPerPixel: number;
-    bitsPerSample: number[];
-    compression: string;
-    photometric: number;
-    resolutionX: number;
-    resolutionY: number;
-    resolutionUnit: number;
-    predictor: number;
-    planarConfig: number;
-    fillOrder: number;
-    tileSize: number;
-          rowsPerStrip?: number;
-    }): ArrayBuffer {
-      // This is a simplified TIFF implementation
-      // For production use, consider using a more robust TIFF library
-      
-      const {
-        width,
-        height,
-        imageData,
-        samplesPerPixel,
-        bitsPerSample,
-        compression,
-        photometric,
-        resolutionX,
-        resolutionY,
-        resolutionUnit,
-        predictor,
-        planarConfig,
-        fillOrder: _fillOrder, // Mark as used for TIFF structure
-        tileSize,
-        rowsPerStrip = 8
-      } = options;
-
-    // Calculate compressed data (simplified - just use raw data for now)
-    let compressedData: Uint8Array;
-    
-    if (compression === 'none') {
-      compressedData = new Uint8Array(imageData.buffer);
-    } else {
-      // For demo purposes, we'll use uncompressed data
-      // In production, implement actual compression algorithms
-      console.warn(`TIFF compression '${compression}' not fully implemented, using uncompressed data`);
-      compressedData = new Uint8Array(imageData.buffer);
-    }
-
-    // Create basic TIFF structure
-    const tiffHeader = new ArrayBuffer(8);
-    const headerView = new DataView(tiffHeader);
-    
-    // Write TIFF header (little-endian)
-    headerView.setUint16(0, 0x4949, true); // "II" - little endian
-    headerView.setUint16(2, 42, true);     // TIFF magic number
-    headerView.setUint32(4, 8, true);      // Offset to first IFD
-    
-    // Create IFD (Image File Directory)
-    const ifdEntries = [
-      { tag: 256, type: 4, count: 1, value: width },           // ImageWidth
-      { tag: 257, type: 4, count: 1, value: height },          // ImageLength
-      { tag: 258, type: 3, count: samplesPerPixel, value: bitsPerSample }, // BitsPerSample
-      { tag: 259, type: 3, count: 1, value: this.getCompressionValue(compression) }, // Compression
-      { tag: 262, type: 3, count: 1, value: photometric },     // PhotometricInterpretation
-      { tag: 273, type: 4, count: 1, value: 0 },               // StripOffsets (will be updated)
-      { tag: 277, type: 3, count: 1, value: samplesPerPixel }, // SamplesPerPixel
-      { tag: 278, type: 4, count: 1, value: tileSize === 0 ? rowsPerStrip : height }, // RowsPerStrip
-      { tag: 279, type: 4, count: 1, value: compressedData.length }, // StripByteCounts
-      { tag: 282, type: 5, count: 1, value: 0 },               // XResolution (rational)
-      { tag: 283, type: 5, count: 1, value: 0 },               // YResolution (rational)
-      { tag: 284, type: 3, count: 1, value: planarConfig },    // PlanarConfiguration
-      { tag: 296, type: 3, count: 1, value: resolutionUnit },  // ResolutionUnit
-    ];
-
-    // Add predictor if compression supports it
-    if (compression === 'lzw' || compression === 'deflate') {
-      ifdEntries.push({ tag: 317, type: 3, count: 1, value: predictor }); // Predictor
-    }
-
-    // Calculate total size needed
-    const ifdSize = 2 + (ifdEntries.length * 12) + 4; // entry count + entries + next IFD offset
-    const rationalsSize = 16; // Two rational values for X and Y resolution
-    const dataOffset = 8 + ifdSize + rationalsSize;
-    const totalSize = dataOffset + compressedData.length;
-
-    // Create final buffer
-    const buffer = new ArrayBuffer(totalSize);
-    const view = new DataView(buffer);
-    const uint8View = new Uint8Array(buffer);
-
-    // Copy header
-    uint8View.set(new Uint8Array(tiffHeader), 0);
-
-    // Write IFD
-    let offset = 8;
-    view.setUint16(offset, ifdEntries.length, true); // Number of entries
-    offset += 2;
-
-    // Write IFD entries
-    for (let i = 0; i < ifdEntries.length; i++) {
-      const entry = ifdEntries[i];
-      view.setUint16(offset, entry.tag, true);
-      view.setUint16(offset + 2, entry.type, true);
-      view.setUint32(offset + 4, entry.count, true);
-      
-      if (entry.tag === 273) { // StripOffsets
-        view.setUint32(offset + 8, dataOffset, true);
-      } else if (entry.tag === 282) { // XResolution
-        view.setUint32(offset + 8, 8 + ifdSize, true); // Offset to rational
-      } else if (entry.tag === 283) { // YResolution
-        view.setUint32(offset + 8, 8 + ifdSize + 8, true); // Offset to rational
-             } else if (entry.tag === 258 && Array.isArray(entry.value)) { // BitsPerSample array
-         if (entry.value.length === 1) {
-           view.setUint32(offset + 8, entry.value[0], true);
-         } else {
-           // For multiple values, would need to store separately
-           view.setUint32(offset + 8, entry.value[0], true); // Simplified
-         }
-       } else {
-         view.setUint32(offset + 8, typeof entry.value === 'number' ? entry.value : entry.value[0], true);
-       }
-      
-      offset += 12;
+      const isCancelled = error instanceof Error && (error.message.includes('cancelled') || error.name === 'AbortError');
+      return {
+        success: false,
+        error: isCancelled
+          ? 'TIFF conversion cancelled by user'
+          : (error instanceof Error ? error.message : 'Failed to create multi-page TIFF'),
+        originalSize
+      };
     }
-
-    // Next IFD offset (0 = no more IFDs)
-    view.setUint32(offset, 0, true);
-    offset += 4;
-
-    // Write resolution rationals
-    // X Resolution
-    view.setUint32(offset, resolutionX, true);     // Numerator
-    view.setUint32(offset + 4, 1, true);          // Denominator
-    offset += 8;
-    
-    // Y Resolution
-    view.setUint32(offset, resolutionY, true);     // Numerator
-    view.setUint32(offset + 4, 1, true);          // Denominator
-    offset += 8;
-
-    // Write image data
-    uint8View.set(compressedData, dataOffset);
-
-    return buffer;
   }
 
-  private static getCompressionValue(compression: string): number {
-    switch (compression) {
-      case 'none': return 1;       // No compression
-      case 'lzw': return 5;        // LZW
-      case 'packbits': return 32773; // PackBits
-      case 'deflate': return 8;    // Deflate/ZIP
-      case 'jpeg': return 7;       // JPEG
-      default: return 1;           // No compression
+  // Output size barely depends on encoder effort, so estimates use the fast settings
+  private static getEstimateSettings(settings: ConversionSettings): ConversionSettings {
+    switch (settings.outputFormat) {
+      case 'avif':
+        return { ...settings, avifSpeed: 10 };
+      case 'jxl':
+        return { ...settings, jxlEffort: Math.min(settings.jxlEffort ?? 7, 3) };
+      case 'png':
+        return { ...settings, compressionLevel: Math.min(settings.compressionLevel, 6) };
+      default:
+        return settings;
     }
   }
 
+  // Predicts the output size from an encoded sample; outputs the sampler can't reproduce
+  // (PDF, SVG, TIFF, animations, ...) still run a full conversion. Cancelled estimates reject.
   static async estimateConvertedSize(
     file: File,
-    settings: ConversionSettings
+    settings: ConversionSettings,
+    abortSignal?: AbortSignal
   ): Promise<number> {
     try {
-      const result = await this.convertImage(file, settings);
-      return result.convertedSize || 0;
-    } catch {
+      return await SizeEstimator.estimate(file, settings, async () => {
+        const result = await this.convertImage(file, { ...this.getEstimateSettings(settings), targetSizeKB: 0 }, undefined, abortSignal);
+        return result.convertedSize || 0;
+      }, abortSignal);
+    } catch (error) {
+      if (abortSignal?.aborted) throw error;
       return 0;
     }
   }
@@ -0,0 +1,167 @@
+import type { ConversionSettings } from '../components/ConversionOptions';
+
+export interface UnsharpMaskOptions {
+  radius: number; // Gaussian blur radius (sigma) in pixels
+  amount: number; // Strength in percent, 100 adds the full difference back
+  threshold: number; // Minimum luminance difference (0-255) before a pixel is sharpened
+}
+
+export interface DenoiseOptions {
+  strength: number; // 0-100
+  preserveDetails: boolean; // Tighter edge detection, keeps fine texture at the cost of less smoothing
+}
+
+/**
+ * Post-processing filters for resized images: unsharp masking to restore
+ * crispness after downscaling, and an edge-preserving bilateral filter for
+ * noise reduction. Both work on RGBA ImageData and leave alpha untouched.
+ */
+export class ImageFilters {
+  static unsharpMask(source: ImageData, options: UnsharpMaskOptions): ImageData {
+    const { width, height, data } = source;
+    const amount = options.amount / 100;
+    if (amount <= 0 || options.radius <= 0) {
+      return source;
+    }
+
+    const blurred = this.gaussianBlur(source, options.radius);
+    const output = new Uint8ClampedArray(data);
+
+    for (let i = 0; i < width * height * 4; i += 4) {
+      const dr = data[i] - blurred[i];
+      const dg = data[i + 1] - blurred[i + 1];
+      const db = data[i + 2] - blurred[i + 2];
+      // The threshold keeps smooth areas such as skin and sky from turning grainy
+      if (Math.abs(0.299 * dr + 0.587 * dg + 0.114 * db) < options.threshold) continue;
+
+      output[i] = data[i] + dr * amount;
+      output[i + 1] = data[i + 1] + dg * amount;
+      output[i + 2] = data[i + 2] + db * amount;
+    }
+
+    return new ImageData(output, width, height);
+  }
+
+  static denoise(source: ImageData, options: DenoiseOptions): ImageData {
+    const { width, height, data } = source;
+    const strength = Math.min(100, options.strength) / 100;
+    if (strength <= 0) {
+      return source;
+    }
+
+    const spatialSigma = 1 + strength;
+    const rangeSigma = strength * (options.preserveDetails ? 25 : 50);
+    const radius = Math.ceil(spatialSigma * 2);
+
+    const spatialWeights = new Float32Array((radius * 2 + 1) ** 2);
+    for (let dy = -radius; dy <= radius; dy++) {
+      for (let dx = -radius; dx <= radius; dx++) {
+        spatialWeights[(dy + radius) * (radius * 2 + 1) + dx + radius] =
+          Math.exp(-(dx * dx + dy * dy) / (2 * spatialSigma * spatialSigma));
+      }
+    }
+
+    // Range weights indexed by the squared RGB distance, quantised to 8 units
+    const rangeWeights = new Float32Array(Math.ceil(3 * 255 * 255 / 8) + 1);
+    for (let i = 0; i < rangeWeights.length; i++) {
+      rangeWeights[i] = Math.exp(-(i * 8) / (2 * rangeSigma * rangeSigma));
+    }
+
+    const output = new Uint8ClampedArray(data);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const center = (y * width + x) * 4;
+        const cr = data[center], cg = data[center + 1], cb = data[center + 2];
+        let r = 0, g = 0, b = 0, total = 0;
+
+        for (let dy = -radius; dy <= radius; dy++) {
+          const sy = y + dy;
+          if (sy < 0 || sy >= height) continue;
+
+          for (let dx = -radius; dx <= radius; dx++) {
+            const sx = x + dx;
+            if (sx < 0 || sx >= width) continue;
+
+            const index = (sy * width + sx) * 4;
+            const distance = (data[index] - cr) ** 2 + (data[index + 1] - cg) ** 2 + (data[index + 2] - cb) ** 2;
+            const weight = spatialWeights[(dy + radius) * (radius * 2 + 1) + dx + radius] * rangeWeights[distance >> 3];
+            r += data[index] * weight;
+            g += data[index + 1] * weight;
+            b += data[index + 2] * weight;
+            total += weight;
+          }
+        }
+
+        output[center] = r / total;
+        output[center + 1] = g / total;
+        output[center + 2] = b / total;
+      }
+    }
+
+    return new ImageData(output, width, height);
+  }
+
+  // Post-resize sharpening from the batch settings, off unless sharpenAmount is set
+  static sharpenResized(imageData: ImageData, settings: ConversionSettings): ImageData {
+    if (!settings.sharpenAmount) {
+      return imageData;
+    }
+    return this.unsharpMask(imageData, {
+      radius: settings.sharpenRadius ?? 0.5,
+      amount: settings.sharpenAmount,
+      threshold: settings.sharpenThreshold ?? 0,
+    });
+  }
+
+  // Separable Gaussian blur of the colour channels, returned as floats
+  private static gaussianBlur(source: ImageData, sigma: number): Float32Array {
+    const { width, height, data } = source;
+    const radius = Math.ceil(sigma * 3);
+    const kernel = new Float32Array(radius * 2 + 1);
+    let sum = 0;
+    for (let i = -radius; i <= radius; i++) {
+      kernel[i + radius] = Math.exp(-(i * i) / (2 * sigma * sigma));
+      sum += kernel[i + radius];
+    }
+    kernel.forEach((value, i) => (kernel[i] = value / sum));
+
+    // Edges repeat the border pixel
+    const horizontal = new Float32Array(width * height * 4);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let r = 0, g = 0, b = 0;
+        for (let k = -radius; k <= radius; k++) {
+          const index = (y * width + Math.min(width - 1, Math.max(0, x + k))) * 4;
+          const weight = kernel[k + radius];
+          r += data[index] * weight;
+          g += data[index + 1] * weight;
+          b += data[index + 2] * weight;
+        }
+        const index = (y * width + x) * 4;
+        horizontal[index] = r;
+        horizontal[index + 1] = g;
+        horizontal[index + 2] = b;
+      }
+    }
+
+    const blurred = new Float32Array(width * height * 4);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let r = 0, g = 0, b = 0;
+        for (let k = -radius; k <= radius; k++) {
+          const index = (Math.min(height - 1, Math.max(0, y + k)) * width + x) * 4;
+          const weight = kernel[k + radius];
+          r += horizontal[index] * weight;
+          g += horizontal[index + 1] * weight;
+          b += horizontal[index + 2] * weight;
+        }
+        const index = (y * width + x) * 4;
+        blurred[index] = r;
+        blurred[index + 1] = g;
+        blurred[index + 2] = b;
+      }
+    }
+
+    return blurred;
+  }
+}
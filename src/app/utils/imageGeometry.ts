@@ -0,0 +1,195 @@
+import type { ConversionSettings } from '../components/ConversionOptions';
+import { Diagnostics } from './diagnostics';
+
+export interface OutputGeometry {
+  sourceX: number;
+  sourceY: number;
+  sourceWidth: number;
+  sourceHeight: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Resize and crop calculations shared by the main-thread converter and the
+ * conversion workers.
+ */
+export class ImageGeometry {
+  static calculateDimensions(
+    originalWidth: number,
+    originalHeight: number,
+    maxWidth?: number,
+    maxHeight?: number,
+    maintainAspectRatio: boolean = true
+  ): { width: number; height: number } {
+    let width = originalWidth;
+    let height = originalHeight;
+
+    if (maxWidth || maxHeight) {
+      if (maintainAspectRatio) {
+        const aspectRatio = originalWidth / originalHeight;
+        
+        if (maxWidth && maxHeight) {
+          if (width > maxWidth || height > maxHeight) {
+            if (width / maxWidth > height / maxHeight) {
+              width = maxWidth;
+              height = width / aspectRatio;
+            } else {
+              height = maxHeight;
+              width = height * aspectRatio;
+            }
+          }
+        } else if (maxWidth && width > maxWidth) {
+          width = maxWidth;
+          height = width / aspectRatio;
+        } else if (maxHeight && height > maxHeight) {
+          height = maxHeight;
+          width = height * aspectRatio;
+        }
+      } else {
+        if (maxWidth) width = maxWidth;
+        if (maxHeight) height = maxHeight;
+      }
+    }
+
+    return { width: Math.round(width), height: Math.round(height) };
+  }
+
+  static calculateCropDimensions(
+    originalWidth: number,
+    originalHeight: number,
+    targetAspectRatio: number,
+    cropMode: 'center' | 'smart' = 'center',
+    cropSizeMode: 'fit' | 'fill' | 'extend' = 'fit'
+  ): { x: number; y: number; width: number; height: number } {
+    const originalAspectRatio = originalWidth / originalHeight;
+    
+    let cropWidth: number;
+    let cropHeight: number;
+    
+    // Calculate crop dimensions based on size mode
+    if (cropSizeMode === 'fill') {
+      // Fill - use full longest dimension for maximum resolution
+      const longestSide = Math.max(originalWidth, originalHeight);
+      
+      if (targetAspectRatio >= 1) {
+        // Wide/square aspect ratio - use longest side as width
+        cropWidth = longestSide;
+        cropHeight = cropWidth / targetAspectRatio;
+      } else {
+        // Tall aspect ratio - use longest side as height
+        cropHeight = longestSide;
+        cropWidth = cropHeight * targetAspectRatio;
+      }
+      
+      Diagnostics.log(`🎯 Fill mode: Using longest side ${longestSide} for aspect ${targetAspectRatio}`);
+    } else if (cropSizeMode === 'extend') {
+      // Extend - crop can be larger than original image in one dimension
+      const maxDimension = Math.max(originalWidth, originalHeight);
+      
+      if (targetAspectRatio > 1) {
+        // Wide aspect ratio - maximize width
+        cropWidth = maxDimension * 1.2; // 20% extension
+        cropHeight = cropWidth / targetAspectRatio;
+      } else {
+        // Tall aspect ratio - maximize height
+        cropHeight = maxDimension * 1.2; // 20% extension
+        cropWidth = cropHeight * targetAspectRatio;
+      }
+    } else {
+      // Fit - standard crop that fits within image (original logic)
+      if (originalAspectRatio > targetAspectRatio) {
+        // Original is wider, need to crop width
+        cropHeight = originalHeight;
+        cropWidth = cropHeight * targetAspectRatio;
+      } else {
+        // Original is taller, need to crop height
+        cropWidth = originalWidth;
+        cropHeight = cropWidth / targetAspectRatio;
+      }
+      
+      // Ensure crop dimensions don't exceed original
+      cropWidth = Math.min(cropWidth, originalWidth);
+      cropHeight = Math.min(cropHeight, originalHeight);
+    }
+    
+    // Calculate crop position
+    let cropX: number;
+    let cropY: number;
+    
+    if (cropMode === 'center') {
+      // Center crop
+      cropX = (originalWidth - cropWidth) / 2;
+      cropY = (originalHeight - cropHeight) / 2;
+    } else {
+      // Smart crop (for now, use center - can be enhanced later)
+      cropX = (originalWidth - cropWidth) / 2;
+      cropY = (originalHeight - cropHeight) / 2;
+    }
+    
+    Diagnostics.log(`🎯 Crop Size Mode: ${cropSizeMode}`);
+    Diagnostics.log(`📏 Calculated dimensions:`, {
+      cropWidth: Math.round(cropWidth),
+      cropHeight: Math.round(cropHeight),
+      cropX: Math.round(cropX),
+      cropY: Math.round(cropY),
+      resultAspectRatio: (cropWidth / cropHeight).toFixed(3)
+    });
+    
+    return {
+      x: Math.round(cropX),
+      y: Math.round(cropY),
+      width: Math.round(cropWidth),
+      height: Math.round(cropHeight)
+    };
+  }
+
+  // Source rectangle after the automatic crop, and the output size after resizing
+  static calculateOutputGeometry(
+    originalWidth: number,
+    originalHeight: number,
+    settings: ConversionSettings
+  ): OutputGeometry {
+    let sourceWidth = originalWidth;
+    let sourceHeight = originalHeight;
+    let sourceX = 0;
+    let sourceY = 0;
+    
+    // Apply automatic crop if enabled
+    if (settings.enableCrop && settings.cropAspectRatio) {
+      Diagnostics.log('🔄 Applying automatic crop:', {
+        originalDimensions: { width: sourceWidth, height: sourceHeight },
+        targetAspectRatio: settings.cropAspectRatio,
+        cropMode: settings.cropMode,
+        cropSizeMode: settings.cropSizeMode
+      });
+      
+      const cropResult = this.calculateCropDimensions(
+        sourceWidth,
+        sourceHeight,
+        settings.cropAspectRatio,
+        settings.cropMode || 'center',
+        settings.cropSizeMode || 'fit'
+      );
+      
+      Diagnostics.log('✂️ Crop result:', cropResult);
+      Diagnostics.log('📐 Original aspect ratio:', (sourceWidth / sourceHeight).toFixed(3));
+      Diagnostics.log('📐 Target aspect ratio:', settings.cropAspectRatio.toFixed(3));
+      
+      sourceX = cropResult.x;
+      sourceY = cropResult.y;
+      sourceWidth = cropResult.width;
+      sourceHeight = cropResult.height;
+    }
+    
+    const { width, height } = this.calculateDimensions(
+      sourceWidth,
+      sourceHeight,
+      settings.maxWidth,
+      settings.maxHeight,
+      settings.maintainAspectRatio
+    );
+
+    return { sourceX, sourceY, sourceWidth, sourceHeight, width, height };
+  }
+}
@@ -0,0 +1,349 @@
+export type QualityMetric = 'ssim' | 'ms-ssim' | 'distance' | 'psnr';
+
+export interface ImageQualityMetrics {
+  psnr: number; // dB over RGB, Infinity for identical images
+  ssim: number; // 0-1, single scale on luma
+  msSsim: number; // 0-1, multi-scale SSIM on luma
+  distance: number; // Max perceptual distance, < 1 is usually invisible
+  distancePNorm: number; // 3-norm of the same distance map, less sensitive to single spots
+  heatmap: ImageData; // Distance map coloured over a dimmed copy of the original
+}
+
+// A single channel of float samples
+interface Plane {
+  data: Float32Array;
+  width: number;
+  height: number;
+}
+
+const SSIM_C1 = (0.01 * 255) ** 2;
+const SSIM_C2 = (0.03 * 255) ** 2;
+const MS_SSIM_WEIGHTS = [0.0448, 0.2856, 0.3001, 0.2363, 0.1333];
+
+// Opsin absorbance mix from linear sRGB, as used by Butteraugli and the JPEG XL XYB space
+const OPSIN_MIX = [
+  [0.3, 0.622, 0.078],
+  [0.23, 0.692, 0.078],
+  [0.2434226892, 0.2047674442, 0.5518098665],
+];
+const OPSIN_BIAS = 0.0037930732552754493;
+
+// Weights of the X, Y and B channel differences in each frequency band. These and the scale
+// were tuned by eye on test images, not calibrated against libjxl's butteraugli.
+const BAND_WEIGHTS = {
+  high: [6, 1, 0.15],
+  medium: [8, 0.8, 0.3],
+  low: [10, 0.4, 0.5],
+};
+const DISTANCE_SCALE = 100; // Puts a just-visible difference near 1
+const MASKING_STRENGTH = 8;
+
+// Distance → colour stops of the heatmap
+const HEATMAP_STOPS: [number, number, number, number][] = [
+  [0, 0, 0, 0],
+  [0.5, 0, 64, 255],
+  [1, 0, 200, 80],
+  [2, 255, 220, 0],
+  [3, 255, 0, 0],
+];
+const HEATMAP_MAX = 3;
+
+/**
+ * Objective quality scores between an original and a converted image of the
+ * same size: PSNR, SSIM, MS-SSIM and a perceptual distance, plus a difference
+ * heatmap. The distance is an approximation modelled on Butteraugli (XYB
+ * colour, three frequency bands and contrast masking) but is not calibrated
+ * against it: its values are not Butteraugli or JPEG XL distances.
+ */
+export class ImageMetrics {
+  static compare(original: ImageData, converted: ImageData): ImageQualityMetrics {
+    if (original.width !== converted.width || original.height !== converted.height) {
+      throw new Error('Images must have the same dimensions');
+    }
+
+    const lumaA = this.toLuma(original);
+    const lumaB = this.toLuma(converted);
+    const { ssim, msSsim } = this.computeSsim(lumaA, lumaB);
+    const { distanceMap, max, pNorm } = this.computeDistance(original, converted);
+
+    return {
+      psnr: this.computePsnr(original, converted),
+      ssim,
+      msSsim,
+      distance: max,
+      distancePNorm: pNorm,
+      heatmap: this.renderHeatmap(distanceMap, lumaA),
+    };
+  }
+
+  // A single metric, for searches that compare many candidates
+  static score(original: ImageData, converted: ImageData, metric: QualityMetric): number {
+    if (original.width !== converted.width || original.height !== converted.height) {
+      throw new Error('Images must have the same dimensions');
+    }
+
+    switch (metric) {
+      case 'psnr':
+        return this.computePsnr(original, converted);
+      case 'ssim':
+        return this.ssimStatistics(this.toLuma(original), this.toLuma(converted)).ssim;
+      case 'ms-ssim':
+        return this.computeSsim(this.toLuma(original), this.toLuma(converted)).msSsim;
+      case 'distance':
+        return this.computeDistance(original, converted).max;
+    }
+  }
+
+  // Distances fall as quality improves, the other scores rise
+  static isLowerBetter(metric: QualityMetric): boolean {
+    return metric === 'distance';
+  }
+
+  static computePsnr(a: ImageData, b: ImageData): number {
+    let squaredError = 0;
+    for (let i = 0; i < a.data.length; i += 4) {
+      for (let c = 0; c < 3; c++) {
+        const difference = a.data[i + c] - b.data[i + c];
+        squaredError += difference * difference;
+      }
+    }
+
+    const mse = squaredError / (a.width * a.height * 3);
+    return mse === 0 ? Infinity : 10 * Math.log10((255 * 255) / mse);
+  }
+
+  // SSIM with the standard 11×11 Gaussian window (σ = 1.5). MS-SSIM repeats the
+  // contrast-structure term on up to five halvings of the image.
+  private static computeSsim(a: Plane, b: Plane): { ssim: number; msSsim: number } {
+    const maxScales = Math.max(1, Math.min(MS_SSIM_WEIGHTS.length, Math.floor(Math.log2(Math.min(a.width, a.height) / 11)) + 1));
+    const weights = MS_SSIM_WEIGHTS.slice(0, maxScales);
+    const weightSum = weights.reduce((sum, weight) => sum + weight, 0);
+
+    let ssim = 0;
+    let msSsim = 1;
+    let planeA = a;
+    let planeB = b;
+    for (let scale = 0; scale < maxScales; scale++) {
+      const stats = this.ssimStatistics(planeA, planeB);
+      if (scale === 0) ssim = stats.ssim;
+
+      const weight = weights[scale] / weightSum;
+      const term = scale === maxScales - 1 ? stats.ssim : stats.contrastStructure;
+      msSsim *= Math.pow(Math.max(0, term), weight);
+
+      planeA = this.halve(planeA);
+      planeB = this.halve(planeB);
+    }
+
+    return { ssim, msSsim };
+  }
+
+  private static ssimStatistics(a: Plane, b: Plane): { ssim: number; contrastStructure: number } {
+    const size = a.data.length;
+    const squaredA = new Float32Array(size);
+    const squaredB = new Float32Array(size);
+    const product = new Float32Array(size);
+    for (let i = 0; i < size; i++) {
+      squaredA[i] = a.data[i] * a.data[i];
+      squaredB[i] = b.data[i] * b.data[i];
+      product[i] = a.data[i] * b.data[i];
+    }
+
+    const meanA = this.blur(a, 1.5).data;
+    const meanB = this.blur(b, 1.5).data;
+    const meanSquaredA = this.blur({ ...a, data: squaredA }, 1.5).data;
+    const meanSquaredB = this.blur({ ...a, data: squaredB }, 1.5).data;
+    const meanProduct = this.blur({ ...a, data: product }, 1.5).data;
+
+    let ssimSum = 0;
+    let contrastStructureSum = 0;
+    for (let i = 0; i < size; i++) {
+      const varianceA = meanSquaredA[i] - meanA[i] * meanA[i];
+      const varianceB = meanSquaredB[i] - meanB[i] * meanB[i];
+      const covariance = meanProduct[i] - meanA[i] * meanB[i];
+
+      const luminance = (2 * meanA[i] * meanB[i] + SSIM_C1) / (meanA[i] * meanA[i] + meanB[i] * meanB[i] + SSIM_C1);
+      const contrastStructure = (2 * covariance + SSIM_C2) / (varianceA + varianceB + SSIM_C2);
+      ssimSum += luminance * contrastStructure;
+      contrastStructureSum += contrastStructure;
+    }
+
+    return { ssim: ssimSum / size, contrastStructure: contrastStructureSum / size };
+  }
+
+  // Per-pixel distance from the difference in three frequency bands of XYB, masked by the
+  // local contrast of the original (busy areas hide more error)
+  private static computeDistance(a: ImageData, b: ImageData): { distanceMap: Float32Array; max: number; pNorm: number } {
+    const { width, height } = a;
+    const size = width * height;
+    const xybA = this.toXyb(a);
+    const xybB = this.toXyb(b);
+
+    const distance = new Float32Array(size);
+    for (let c = 0; c < 3; c++) {
+      const difference = new Float32Array(size);
+      for (let i = 0; i < size; i++) {
+        difference[i] = xybA[c].data[i] - xybB[c].data[i];
+      }
+
+      // Blurring is linear, so the bands of the difference are the difference of the bands
+      const plane = { data: difference, width, height };
+      const medium = this.blur(plane, 1.5).data;
+      const low = this.blur(plane, 4).data;
+      for (let i = 0; i < size; i++) {
+        const highBand = difference[i] - medium[i];
+        const mediumBand = medium[i] - low[i];
+        distance[i] +=
+          BAND_WEIGHTS.high[c] * highBand * highBand +
+          BAND_WEIGHTS.medium[c] * mediumBand * mediumBand +
+          BAND_WEIGHTS.low[c] * low[i] * low[i];
+      }
+    }
+
+    // Local contrast of the original's luminance channel
+    const luminance = xybA[1];
+    const smoothed = this.blur(luminance, 1.5).data;
+    const activity = new Float32Array(size);
+    for (let i = 0; i < size; i++) {
+      activity[i] = Math.abs(luminance.data[i] - smoothed[i]);
+    }
+    const masking = this.blur({ data: activity, width, height }, 3).data;
+
+    for (let i = 0; i < size; i++) {
+      distance[i] = (DISTANCE_SCALE * Math.sqrt(distance[i])) / (1 + MASKING_STRENGTH * masking[i]);
+    }
+
+    // Single noisy pixels aren't visible, so the maximum is taken after a light blur
+    const distanceMap = this.blur({ data: distance, width, height }, 1).data;
+    let max = 0;
+    let cubedSum = 0;
+    for (let i = 0; i < size; i++) {
+      max = Math.max(max, distanceMap[i]);
+      cubedSum += distanceMap[i] ** 3;
+    }
+
+    return { distanceMap, max, pNorm: Math.cbrt(cubedSum / size) };
+  }
+
+  // Dimmed grey original with the distance on top: blue at 0.5, green at 1, yellow at 2, red from 3
+  private static renderHeatmap(distanceMap: Float32Array, luma: Plane): ImageData {
+    const heatmap = new ImageData(luma.width, luma.height);
+    const palette = this.getHeatmapPalette();
+    const lastEntry = palette.length / 3 - 1;
+
+    for (let i = 0; i < distanceMap.length; i++) {
+      const value = distanceMap[i];
+      const entry = Math.min(lastEntry, Math.round((value / HEATMAP_MAX) * lastEntry)) * 3;
+      // Low distances let the original show through
+      const opacity = Math.min(1, value / 0.5);
+      const background = luma.data[i] * 0.35;
+      heatmap.data[i * 4] = background + (palette[entry] - background) * opacity;
+      heatmap.data[i * 4 + 1] = background + (palette[entry + 1] - background) * opacity;
+      heatmap.data[i * 4 + 2] = background + (palette[entry + 2] - background) * opacity;
+      heatmap.data[i * 4 + 3] = 255;
+    }
+
+    return heatmap;
+  }
+
+  // RGB colours for distances 0 to HEATMAP_MAX, interpolated between the colour stops
+  private static getHeatmapPalette(): Uint8ClampedArray {
+    const entries = 256;
+    const palette = new Uint8ClampedArray(entries * 3);
+    for (let entry = 0; entry < entries; entry++) {
+      const value = (entry / (entries - 1)) * HEATMAP_MAX;
+      const upper = Math.max(1, HEATMAP_STOPS.findIndex(stop => stop[0] >= value));
+      const [fromValue, ...from] = HEATMAP_STOPS[upper - 1];
+      const [toValue, ...to] = HEATMAP_STOPS[upper];
+      const t = Math.min(1, (value - fromValue) / (toValue - fromValue));
+      from.forEach((channel, c) => (palette[entry * 3 + c] = channel + (to[c] - channel) * t));
+    }
+    return palette;
+  }
+
+  private static toLuma(image: ImageData): Plane {
+    const data = new Float32Array(image.width * image.height);
+    for (let i = 0; i < data.length; i++) {
+      data[i] = 0.299 * image.data[i * 4] + 0.587 * image.data[i * 4 + 1] + 0.114 * image.data[i * 4 + 2];
+    }
+    return { data, width: image.width, height: image.height };
+  }
+
+  private static toXyb(image: ImageData): [Plane, Plane, Plane] {
+    const size = image.width * image.height;
+    const planes = [new Float32Array(size), new Float32Array(size), new Float32Array(size)];
+    const opsinOffset = Math.cbrt(OPSIN_BIAS);
+    const linear = new Float32Array(256);
+    for (let value = 0; value < 256; value++) {
+      const normalized = value / 255;
+      linear[value] = normalized <= 0.04045 ? normalized / 12.92 : Math.pow((normalized + 0.055) / 1.055, 2.4);
+    }
+
+    for (let i = 0; i < size; i++) {
+      const r = linear[image.data[i * 4]];
+      const g = linear[image.data[i * 4 + 1]];
+      const b = linear[image.data[i * 4 + 2]];
+      const l = Math.cbrt(OPSIN_MIX[0][0] * r + OPSIN_MIX[0][1] * g + OPSIN_MIX[0][2] * b + OPSIN_BIAS) - opsinOffset;
+      const m = Math.cbrt(OPSIN_MIX[1][0] * r + OPSIN_MIX[1][1] * g + OPSIN_MIX[1][2] * b + OPSIN_BIAS) - opsinOffset;
+      const s = Math.cbrt(OPSIN_MIX[2][0] * r + OPSIN_MIX[2][1] * g + OPSIN_MIX[2][2] * b + OPSIN_BIAS) - opsinOffset;
+      planes[0][i] = (l - m) / 2;
+      planes[1][i] = (l + m) / 2;
+      planes[2][i] = s;
+    }
+
+    return planes.map(data => ({ data, width: image.width, height: image.height })) as [Plane, Plane, Plane];
+  }
+
+  // Separable Gaussian blur, edges repeat the border sample
+  private static blur(plane: Plane, sigma: number): Plane {
+    const { data, width, height } = plane;
+    const radius = Math.ceil(sigma * 3);
+    const kernel = new Float32Array(radius * 2 + 1);
+    let sum = 0;
+    for (let i = -radius; i <= radius; i++) {
+      kernel[i + radius] = Math.exp(-(i * i) / (2 * sigma * sigma));
+      sum += kernel[i + radius];
+    }
+    kernel.forEach((value, i) => (kernel[i] = value / sum));
+
+    const horizontal = new Float32Array(data.length);
+    for (let y = 0; y < height; y++) {
+      const row = y * width;
+      for (let x = 0; x < width; x++) {
+        let value = 0;
+        for (let k = -radius; k <= radius; k++) {
+          value += data[row + Math.min(width - 1, Math.max(0, x + k))] * kernel[k + radius];
+        }
+        horizontal[row + x] = value;
+      }
+    }
+
+    const output = new Float32Array(data.length);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let value = 0;
+        for (let k = -radius; k <= radius; k++) {
+          value += horizontal[Math.min(height - 1, Math.max(0, y + k)) * width + x] * kernel[k + radius];
+        }
+        output[y * width + x] = value;
+      }
+    }
+
+    return { data: output, width, height };
+  }
+
+  // 2×2 box downsample for the MS-SSIM scales
+  private static halve(plane: Plane): Plane {
+    const width = Math.max(1, Math.floor(plane.width / 2));
+    const height = Math.max(1, Math.floor(plane.height / 2));
+    const data = new Float32Array(width * height);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const top = 2 * y * plane.width + 2 * x;
+        const bottom = top + plane.width;
+        data[y * width + x] = (plane.data[top] + plane.data[top + 1] + plane.data[bottom] + plane.data[bottom + 1]) / 4;
+      }
+    }
+    return { data, width, height };
+  }
+}
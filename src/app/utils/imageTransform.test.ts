@@ -0,0 +1,39 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import { NodeEnvironment } from '../../cli/nodeEnvironment';
+import { createImage, createSettings, pixelAt } from '../../test/fixtures';
+import { ImageTransform } from './imageTransform';
+
+describe('ImageTransform', () => {
+  before(() => NodeEnvironment.install());
+
+  it('returns images the settings leave unchanged', () => {
+    const image = createImage(8, 6);
+    assert.equal(ImageTransform.apply(image, createSettings({ maxWidth: undefined, maxHeight: undefined })), image);
+  });
+
+  it('copies crops without resampling', () => {
+    const image = createImage(8, 4, x => [x * 10, 0, 0]);
+    const cropped = ImageTransform.apply(image, createSettings({
+      maxWidth: undefined,
+      maxHeight: undefined,
+      enableCrop: true,
+      cropAspectRatio: 1,
+      cropMode: 'center',
+    }));
+
+    assert.equal(cropped.width, 4);
+    assert.equal(cropped.height, 4);
+    assert.deepEqual([0, 1, 2, 3].map(x => pixelAt(cropped, x)[0]), [20, 30, 40, 50]);
+  });
+
+  it('resamples and sharpens scaled images', () => {
+    const image = createImage(40, 20, x => (x % 16 < 8 ? [40, 40, 40] : [200, 200, 200]));
+    const resized = ImageTransform.apply(image, createSettings({ maxWidth: 10, maxHeight: undefined }));
+    const sharpened = ImageTransform.apply(image, createSettings({ maxWidth: 10, maxHeight: undefined, sharpenAmount: 100 }));
+
+    assert.equal(resized.width, 10);
+    assert.equal(resized.height, 5);
+    assert.notDeepEqual(sharpened.data, resized.data);
+  });
+});
@@ -0,0 +1,55 @@
+import type { ConversionSettings } from '../components/ConversionOptions';
+import { ImageFilters } from './imageFilters';
+import { ImageGeometry, OutputGeometry } from './imageGeometry';
+import { RasterEncoder } from './rasterEncoder';
+import { Resampler } from './resampler';
+
+/**
+ * The crop, resize and sharpen steps every converter runs between decoding
+ * and encoding. The main thread, the conversion worker, the CLI and the
+ * animation converter all hand their decoded pixels to it, so a chosen
+ * resampling filter gives the same output wherever the conversion ran.
+ */
+export class ImageTransform {
+  // Crops, resizes and sharpens decoded pixels as the settings ask; unchanged images are returned as-is
+  static apply(source: ImageData, settings: ConversionSettings): ImageData {
+    const geometry = ImageGeometry.calculateOutputGeometry(source.width, source.height, settings);
+    if (this.isIdentity(source, geometry)) {
+      return source;
+    }
+    if (Resampler.isScaled(geometry)) {
+      return ImageFilters.sharpenResized(Resampler.resample(source, geometry, settings.resampling), settings);
+    }
+    return this.crop(source, geometry);
+  }
+
+  // Transforms decoded pixels and encodes them in one of the raster output formats
+  static async encode(source: ImageData, settings: ConversionSettings, originalFile?: File): Promise<Blob> {
+    return await RasterEncoder.encode(this.apply(source, settings), settings, originalFile);
+  }
+
+  static isIdentity(source: { width: number; height: number }, geometry: OutputGeometry): boolean {
+    return geometry.sourceX === 0 && geometry.sourceY === 0 &&
+      geometry.sourceWidth === source.width && geometry.sourceHeight === source.height &&
+      geometry.width === source.width && geometry.height === source.height;
+  }
+
+  // Copies the source rectangle row by row; pixels outside the source stay transparent
+  private static crop(source: ImageData, geometry: OutputGeometry): ImageData {
+    const { sourceX, sourceY, width, height } = geometry;
+    const output = new ImageData(width, height);
+    const left = Math.max(0, sourceX);
+    const right = Math.min(source.width, sourceX + width);
+    if (right <= left) {
+      return output;
+    }
+
+    for (let y = 0; y < height; y++) {
+      const row = sourceY + y;
+      if (row < 0 || row >= source.height) continue;
+      const start = (row * source.width + left) * 4;
+      output.data.set(source.data.subarray(start, start + (right - left) * 4), (y * width + left - sourceX) * 4);
+    }
+    return output;
+  }
+}
@@ -0,0 +1,49 @@
+export interface IsoBmffBox {
+  type: string;
+  start: number;
+  end: number;
+  dataStart: number;
+}
+
+/**
+ * Reads the box structure of ISO base media files (MP4, HEIF and AVIF).
+ */
+export class IsoBmff {
+  static readBoxes(data: Uint8Array, start: number, end: number): IsoBmffBox[] {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const boxes: IsoBmffBox[] = [];
+    let offset = start;
+
+    while (offset + 8 <= end) {
+      let size = view.getUint32(offset);
+      const type = String.fromCharCode(...data.subarray(offset + 4, offset + 8));
+      let headerSize = 8;
+
+      if (size === 1) {
+        size = Number(view.getBigUint64(offset + 8));
+        headerSize = 16;
+      } else if (size === 0) {
+        size = end - offset;
+      }
+
+      if (size < headerSize || offset + size > end) break;
+
+      boxes.push({ type, start: offset, end: offset + size, dataStart: offset + headerSize });
+      offset += size;
+    }
+
+    return boxes;
+  }
+
+  // Children of a box; those of full boxes such as meta start after the version and flags
+  static readChildren(data: Uint8Array, box: IsoBmffBox, isFullBox = false): IsoBmffBox[] {
+    return this.readBoxes(data, box.dataStart + (isFullBox ? 4 : 0), box.end);
+  }
+
+  static findBox(data: Uint8Array, boxes: IsoBmffBox[], path: string[]): IsoBmffBox | null {
+    const [type, ...rest] = path;
+    const box = boxes.find(b => b.type === type);
+    if (!box || rest.length === 0) return box || null;
+    return this.findBox(data, this.readChildren(data, box, box.type === 'meta'), rest);
+  }
+}
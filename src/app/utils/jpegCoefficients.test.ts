@@ -0,0 +1,86 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import { NodeEnvironment } from '../../cli/nodeEnvironment';
+import { createImage, toBytes } from '../../test/fixtures';
+import { JpegCoefficients } from './jpegCoefficients';
+import { JpegEncodeOptions, MozJpegEncoder } from './mozjpegEncoder';
+
+// libjpeg decodes the streams, so they are checked by a reader other than our own
+async function decode(jpeg: Uint8Array): Promise<ImageData> {
+  const { default: decodeJpeg } = await import('@jsquash/jpeg/decode');
+  return decodeJpeg(jpeg.slice().buffer);
+}
+
+async function encode(image: ImageData, options: Partial<JpegEncodeOptions>): Promise<Uint8Array> {
+  return toBytes(await MozJpegEncoder.encode(image, { quality: 80, ...options }));
+}
+
+// Start of frame markers and the sampling factors of the first frame header
+function readFrame(jpeg: Uint8Array): { marker: number; factors: number[] } {
+  for (let offset = 2; offset < jpeg.length;) {
+    const marker = jpeg[offset + 1];
+    if (marker === 0xc0 || marker === 0xc2) {
+      const count = jpeg[offset + 9];
+      return { marker, factors: Array.from({ length: count }, (_, i) => jpeg[offset + 11 + i * 3]) };
+    }
+    offset += 2 + ((jpeg[offset + 2] << 8) | jpeg[offset + 3]);
+  }
+  throw new Error('No frame header');
+}
+
+function countScans(jpeg: Uint8Array): number {
+  let scans = 0;
+  for (let i = 0; i + 1 < jpeg.length; i++) {
+    if (jpeg[i] === 0xff && jpeg[i + 1] === 0xda) scans++;
+  }
+  return scans;
+}
+
+describe('JpegCoefficients', () => {
+  before(() => NodeEnvironment.install());
+
+  it('rewrites baseline streams without changing the decoded pixels', async () => {
+    for (const options of [{ chromaSubsampling: '444' as const }, { chromaSubsampling: '420' as const }, { grayscale: true }]) {
+      const jpeg = await encode(createImage(37, 21), options);
+      const rewritten = JpegCoefficients.write(JpegCoefficients.read(jpeg));
+
+      assert.deepEqual((await decode(rewritten)).data, (await decode(jpeg)).data);
+    }
+  });
+
+  it('writes progressive scans holding the same coefficients', async () => {
+    for (const options of [{ chromaSubsampling: '444' as const }, { chromaSubsampling: '420' as const }, { grayscale: true }]) {
+      const jpeg = await encode(createImage(45, 29), options);
+      const progressive = JpegCoefficients.write(JpegCoefficients.read(jpeg), { progressive: true });
+
+      assert.equal(readFrame(progressive).marker, 0xc2);
+      // One DC scan, two luma bands and one scan per chroma component
+      assert.equal(countScans(progressive), options.grayscale ? 3 : 5);
+      assert.deepEqual((await decode(progressive)).data, (await decode(jpeg)).data);
+    }
+  });
+
+  it('codes runs of empty blocks as one end-of-band run', async () => {
+    const flat = createImage(256, 256, () => [90, 120, 150]);
+    const jpeg = await encode(flat, { chromaSubsampling: '444' });
+    const progressive = JpegCoefficients.write(JpegCoefficients.read(jpeg), { progressive: true });
+
+    assert.ok(progressive.length < jpeg.length);
+    assert.deepEqual((await decode(progressive)).data, (await decode(jpeg)).data);
+  });
+
+  it('encodes 4:2:2 as baseline or progressive', async () => {
+    const image = createImage(50, 30);
+    const baseline = await encode(image, { chromaSubsampling: '422' });
+    const progressive = await encode(image, { chromaSubsampling: '422', progressive: true });
+
+    assert.deepEqual(readFrame(baseline), { marker: 0xc0, factors: [0x21, 0x11, 0x11] });
+    assert.deepEqual(readFrame(progressive), { marker: 0xc2, factors: [0x21, 0x11, 0x11] });
+    assert.deepEqual((await decode(progressive)).data, (await decode(baseline)).data);
+  });
+
+  it('only reads sequential streams', async () => {
+    const progressive = await encode(createImage(16, 16), { progressive: true, chromaSubsampling: '444' });
+    assert.throws(() => JpegCoefficients.read(progressive), /Only baseline JPEG coefficients can be read/);
+  });
+});
@@ -0,0 +1,508 @@
+// Quantized DCT coefficients of one component, 64 per block in zigzag order
+export interface JpegComponent {
+  id: number;
+  h: number; // Horizontal sampling factor
+  v: number; // Vertical sampling factor
+  quantTable: number;
+  blocksPerLine: number;
+  blocksPerColumn: number;
+  blocks: Int16Array;
+}
+
+export interface JpegCoefficientImage {
+  width: number;
+  height: number;
+  headers: Uint8Array; // Segments before the frame header (APPn, DQT, COM)
+  components: JpegComponent[];
+}
+
+interface HuffmanTable {
+  maxCode: number[]; // Largest code of each length, -1 when there is none
+  valueOffset: number[];
+  symbols: Uint8Array;
+}
+
+export interface JpegWriteOptions {
+  progressive?: boolean; // Spectral selection scans, the first one holding every DC coefficient
+}
+
+// Components (indexes into the frame) and the zigzag band a scan codes
+interface JpegScan {
+  components: number[];
+  start: number;
+  end: number;
+}
+
+type Emit = (table: number, symbol: number, bits: number, length: number) => void;
+
+/**
+ * Reads and writes baseline JPEGs at the level of quantized coefficients, so
+ * components from different encodes can be combined without decoding them
+ * to pixels. Only sequential single-scan streams without restart markers are
+ * read, which is what MozJPEG writes when progressive mode is off. Written
+ * streams are baseline or progressive, with Huffman tables built for the
+ * symbols of each scan.
+ */
+export class JpegCoefficients {
+  static read(jpeg: Uint8Array): JpegCoefficientImage {
+    const headers: Uint8Array[] = [];
+    const tables = new Map<number, HuffmanTable>();
+    let frame: Omit<JpegCoefficientImage, 'headers'> | null = null;
+
+    for (let offset = 2; offset + 4 <= jpeg.length;) {
+      const marker = jpeg[offset + 1];
+      const length = (jpeg[offset + 2] << 8) | jpeg[offset + 3];
+      const segment = jpeg.subarray(offset + 4, offset + 2 + length);
+
+      if (marker === 0xc0 || marker === 0xc1) {
+        frame = this.readFrame(segment);
+      } else if (marker >= 0xc2 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        throw new Error('Only baseline JPEG coefficients can be read');
+      } else if (marker === 0xc4) {
+        this.readHuffmanTables(segment, tables);
+      } else if (marker === 0xdd && ((segment[0] << 8) | segment[1]) !== 0) {
+        throw new Error('JPEG restart intervals are not supported');
+      } else if (marker === 0xda) {
+        if (!frame) {
+          throw new Error('JPEG scan before the frame header');
+        }
+        this.readScan(jpeg, offset + 2 + length, segment, frame, tables);
+        return { ...frame, headers: concat(headers) };
+      } else if (marker !== 0xdd) {
+        headers.push(jpeg.subarray(offset, offset + 2 + length));
+      }
+      offset += 2 + length;
+    }
+    throw new Error('JPEG has no image data');
+  }
+
+  // Components whose block grid is smaller than the MCU layout needs are padded
+  // with blocks repeating the DC of the nearest real block, as libjpeg does
+  static write(image: JpegCoefficientImage, options: JpegWriteOptions = {}): Uint8Array {
+    const { width, height, components } = image;
+    const output: number[] = [0xff, 0xd8, ...image.headers];
+
+    const frame = [8, height >> 8, height & 0xff, width >> 8, width & 0xff, components.length];
+    for (const component of components) {
+      frame.push(component.id, (component.h << 4) | component.v, component.quantTable);
+    }
+    output.push(...segment(options.progressive ? 0xc2 : 0xc0, frame));
+
+    const all = components.map((_, c) => c);
+    const scans: JpegScan[] = options.progressive
+      ? [{ components: all, start: 0, end: 0 }, ...all.flatMap(c => this.getAcBands(c).map(([start, end]) => ({ components: [c], start, end })))]
+      : [{ components: all, start: 0, end: 63 }];
+    for (const scan of scans) {
+      this.writeScan(output, image, scan);
+    }
+    output.push(0xff, 0xd9);
+    return new Uint8Array(output);
+  }
+
+  // libjpeg's spectral selection: the low luma frequencies come first, chroma in one scan
+  private static getAcBands(component: number): [number, number][] {
+    return component === 0 ? [[1, 5], [6, 63]] : [[1, 63]];
+  }
+
+  // Each scan gets Huffman tables built for its own symbols; the first pass counts them
+  private static writeScan(output: number[], image: JpegCoefficientImage, scan: JpegScan) {
+    const counts = Array.from({ length: 4 }, () => new Array<number>(256).fill(0));
+    const tableIndex = (table: number) => (table >> 4) * 2 + (table & 1);
+    this.encodeScan(image, scan, (table, symbol) => counts[tableIndex(table)][symbol]++);
+
+    const codes: { code: number; length: number }[][] = [];
+    const huffman: number[] = [];
+    for (const [index, frequencies] of counts.entries()) {
+      // Tables the scan doesn't use, such as chroma tables of grayscale images, are left out
+      if (frequencies.every(count => count === 0)) continue;
+      const table = ((index >> 1) << 4) | (index & 1);
+      const { bits, symbols } = this.buildHuffmanTable(frequencies);
+      huffman.push(table, ...bits.slice(1, 17), ...symbols);
+      codes[index] = this.assignCodes(bits, symbols);
+    }
+    output.push(...segment(0xc4, huffman));
+
+    const header = [scan.components.length];
+    scan.components.forEach(c => header.push(image.components[c].id, c === 0 ? 0x00 : 0x11));
+    header.push(scan.start, scan.end, 0);
+    output.push(...segment(0xda, header));
+
+    const writer = new BitWriter(output);
+    this.encodeScan(image, scan, (table, symbol, bits, length) => {
+      const { code, length: codeLength } = codes[tableIndex(table)][symbol];
+      writer.write(code, codeLength);
+      if (length > 0) writer.write(bits, length);
+    });
+    writer.flush();
+  }
+
+  private static readFrame(data: Uint8Array): Omit<JpegCoefficientImage, 'headers'> {
+    const height = (data[1] << 8) | data[2];
+    const width = (data[3] << 8) | data[4];
+    const count = data[5];
+    const factors = Array.from({ length: count }, (_, i) => data[7 + i * 3]);
+    const maxH = Math.max(...factors.map(f => f >> 4));
+    const maxV = Math.max(...factors.map(f => f & 15));
+    const mcusX = Math.ceil(width / (8 * maxH));
+    const mcusY = Math.ceil(height / (8 * maxV));
+
+    const components = factors.map((factor, i): JpegComponent => {
+      const h = factor >> 4;
+      const v = factor & 15;
+      // A single component is coded without MCU padding
+      const blocksPerLine = count === 1 ? Math.ceil(width / 8) : mcusX * h;
+      const blocksPerColumn = count === 1 ? Math.ceil(height / 8) : mcusY * v;
+      return {
+        id: data[6 + i * 3],
+        h,
+        v,
+        quantTable: data[8 + i * 3],
+        blocksPerLine,
+        blocksPerColumn,
+        blocks: new Int16Array(blocksPerLine * blocksPerColumn * 64),
+      };
+    });
+    return { width, height, components };
+  }
+
+  private static readHuffmanTables(data: Uint8Array, tables: Map<number, HuffmanTable>) {
+    for (let offset = 0; offset < data.length;) {
+      const id = data[offset];
+      const counts = data.subarray(offset + 1, offset + 17);
+      const total = counts.reduce((sum, count) => sum + count, 0);
+      const maxCode: number[] = [];
+      const valueOffset: number[] = [];
+      let code = 0;
+      let index = 0;
+      for (let length = 1; length <= 16; length++) {
+        valueOffset[length] = index - code;
+        code += counts[length - 1];
+        index += counts[length - 1];
+        maxCode[length] = counts[length - 1] > 0 ? code - 1 : -1;
+        code <<= 1;
+      }
+      tables.set(id, { maxCode, valueOffset, symbols: data.slice(offset + 17, offset + 17 + total) });
+      offset += 17 + total;
+    }
+  }
+
+  private static readScan(
+    jpeg: Uint8Array,
+    start: number,
+    header: Uint8Array,
+    frame: Omit<JpegCoefficientImage, 'headers'>,
+    tables: Map<number, HuffmanTable>
+  ) {
+    const count = header[0];
+    if (count !== frame.components.length) {
+      throw new Error('Only single-scan JPEGs can be read');
+    }
+    const scanTables = Array.from({ length: count }, (_, i) => header[2 + i * 2]);
+    const reader = new BitReader(jpeg, start);
+    const predictions = new Array<number>(count).fill(0);
+
+    const decode = (id: number) => {
+      const table = tables.get(id);
+      if (!table) {
+        throw new Error('JPEG Huffman table missing');
+      }
+      let code = 0;
+      for (let length = 1; length <= 16; length++) {
+        code = (code << 1) | reader.read(1);
+        if (code <= table.maxCode[length]) {
+          return table.symbols[table.valueOffset[length] + code];
+        }
+      }
+      throw new Error('Invalid JPEG Huffman code');
+    };
+
+    this.forEachBlock(frame, (component, c, blockIndex) => {
+      const block = component.blocks.subarray(blockIndex * 64, blockIndex * 64 + 64);
+      const dcSize = decode(scanTables[c] >> 4);
+      predictions[c] += dcSize ? extend(reader.read(dcSize), dcSize) : 0;
+      block[0] = predictions[c];
+      for (let k = 1; k < 64;) {
+        const symbol = decode(0x10 | (scanTables[c] & 15));
+        const run = symbol >> 4;
+        const size = symbol & 15;
+        if (size === 0) {
+          if (run !== 15) break;
+          k += 16;
+          continue;
+        }
+        k += run;
+        block[k++] = extend(reader.read(size), size);
+      }
+    });
+  }
+
+  private static encodeScan(image: Omit<JpegCoefficientImage, 'headers'>, scan: JpegScan, emit: Emit) {
+    if (scan.start > 0) {
+      this.encodeAcScan(image, scan, emit);
+      return;
+    }
+
+    const predictions = new Array<number>(image.components.length).fill(0);
+    const padding = new Int16Array(64);
+
+    this.forEachBlock(image, (component, c, blockIndex, row, column) => {
+      let block: Int16Array;
+      if (row < component.blocksPerColumn && column < component.blocksPerLine) {
+        block = component.blocks.subarray(blockIndex * 64, blockIndex * 64 + 64);
+      } else {
+        const nearest = Math.min(row, component.blocksPerColumn - 1) * component.blocksPerLine +
+          Math.min(column, component.blocksPerLine - 1);
+        padding[0] = component.blocks[nearest * 64];
+        block = padding;
+      }
+
+      const dcTable = c === 0 ? 0x00 : 0x01;
+      const acTable = c === 0 ? 0x10 : 0x11;
+      const diff = block[0] - predictions[c];
+      predictions[c] = block[0];
+      const dcSize = magnitude(diff);
+      emit(dcTable, dcSize, encodeValue(diff, dcSize), dcSize);
+      if (scan.end === 0) return;
+
+      let run = 0;
+      for (let k = 1; k < 64; k++) {
+        if (block[k] === 0) {
+          run++;
+          continue;
+        }
+        while (run > 15) {
+          emit(acTable, 0xf0, 0, 0);
+          run -= 16;
+        }
+        const size = magnitude(block[k]);
+        emit(acTable, (run << 4) | size, encodeValue(block[k], size), size);
+        run = 0;
+      }
+      if (run > 0) emit(acTable, 0x00, 0, 0);
+    });
+  }
+
+  // First AC scan of a progressive image (Annex G.1.2.2): one component, its blocks in
+  // raster order without MCU padding, and runs of blocks ending in zeros coded as one EOBn
+  private static encodeAcScan(image: Omit<JpegCoefficientImage, 'headers'>, scan: JpegScan, emit: Emit) {
+    const [c] = scan.components;
+    const component = image.components[c];
+    const acTable = c === 0 ? 0x10 : 0x11;
+    const maxH = Math.max(...image.components.map(({ h }) => h));
+    const maxV = Math.max(...image.components.map(({ v }) => v));
+    const blocksPerLine = Math.ceil(Math.ceil(image.width * component.h / maxH) / 8);
+    const blocksPerColumn = Math.ceil(Math.ceil(image.height * component.v / maxV) / 8);
+
+    let endOfBandRun = 0;
+    const flushEndOfBandRun = () => {
+      if (endOfBandRun === 0) return;
+      const size = magnitude(endOfBandRun) - 1;
+      emit(acTable, size << 4, endOfBandRun - (1 << size), size);
+      endOfBandRun = 0;
+    };
+
+    for (let row = 0; row < blocksPerColumn; row++) {
+      for (let column = 0; column < blocksPerLine; column++) {
+        const offset = (row * component.blocksPerLine + column) * 64;
+        let run = 0;
+        for (let k = scan.start; k <= scan.end; k++) {
+          const value = component.blocks[offset + k];
+          if (value === 0) {
+            run++;
+            continue;
+          }
+          flushEndOfBandRun();
+          while (run > 15) {
+            emit(acTable, 0xf0, 0, 0);
+            run -= 16;
+          }
+          const size = magnitude(value);
+          emit(acTable, (run << 4) | size, encodeValue(value, size), size);
+          run = 0;
+        }
+        if (run > 0 && ++endOfBandRun === 0x7fff) flushEndOfBandRun();
+      }
+    }
+    flushEndOfBandRun();
+  }
+
+  // Visits blocks in scan order: MCU by MCU, each component's h x v blocks in turn
+  private static forEachBlock(
+    image: Omit<JpegCoefficientImage, 'headers'>,
+    visit: (component: JpegComponent, index: number, blockIndex: number, row: number, column: number) => void
+  ) {
+    const { width, height, components } = image;
+    if (components.length === 1) {
+      const [component] = components;
+      for (let row = 0; row < Math.ceil(height / 8); row++) {
+        for (let column = 0; column < Math.ceil(width / 8); column++) {
+          visit(component, 0, row * component.blocksPerLine + column, row, column);
+        }
+      }
+      return;
+    }
+
+    const maxH = Math.max(...components.map(component => component.h));
+    const maxV = Math.max(...components.map(component => component.v));
+    const mcusX = Math.ceil(width / (8 * maxH));
+    const mcusY = Math.ceil(height / (8 * maxV));
+    for (let mcuY = 0; mcuY < mcusY; mcuY++) {
+      for (let mcuX = 0; mcuX < mcusX; mcuX++) {
+        components.forEach((component, c) => {
+          for (let y = 0; y < component.v; y++) {
+            for (let x = 0; x < component.h; x++) {
+              const row = mcuY * component.v + y;
+              const column = mcuX * component.h + x;
+              visit(component, c, row * component.blocksPerLine + column, row, column);
+            }
+          }
+        });
+      }
+    }
+  }
+
+  // Code lengths from symbol frequencies, limited to 16 bits (JPEG Annex K.2 and K.3)
+  private static buildHuffmanTable(counts: number[]): { bits: number[]; symbols: number[] } {
+    // A reserved symbol keeps any real code from being all ones
+    const frequencies = [...counts, 1];
+    const codeSizes = new Array<number>(257).fill(0);
+    const others = new Array<number>(257).fill(-1);
+
+    for (;;) {
+      let c1 = -1;
+      let c2 = -1;
+      for (let i = 0; i < 257; i++) {
+        if (frequencies[i] > 0 && (c1 < 0 || frequencies[i] <= frequencies[c1])) c1 = i;
+      }
+      for (let i = 0; i < 257; i++) {
+        if (frequencies[i] > 0 && i !== c1 && (c2 < 0 || frequencies[i] <= frequencies[c2])) c2 = i;
+      }
+      if (c2 < 0) break;
+
+      frequencies[c1] += frequencies[c2];
+      frequencies[c2] = 0;
+      codeSizes[c1]++;
+      while (others[c1] >= 0) {
+        c1 = others[c1];
+        codeSizes[c1]++;
+      }
+      others[c1] = c2;
+      codeSizes[c2]++;
+      while (others[c2] >= 0) {
+        c2 = others[c2];
+        codeSizes[c2]++;
+      }
+    }
+
+    const bits = new Array<number>(33).fill(0);
+    for (const size of codeSizes) {
+      if (size > 0) bits[size]++;
+    }
+    for (let i = 32; i > 16; i--) {
+      while (bits[i] > 0) {
+        let j = i - 2;
+        while (bits[j] === 0) j--;
+        bits[i] -= 2;
+        bits[i - 1]++;
+        bits[j + 1] += 2;
+        bits[j]--;
+      }
+    }
+    let longest = 16;
+    while (bits[longest] === 0) longest--;
+    bits[longest]--;
+
+    const symbols: number[] = [];
+    for (let size = 1; size <= 32; size++) {
+      for (let symbol = 0; symbol < 256; symbol++) {
+        if (codeSizes[symbol] === size) symbols.push(symbol);
+      }
+    }
+    return { bits, symbols };
+  }
+
+  private static assignCodes(bits: number[], symbols: number[]): { code: number; length: number }[] {
+    const codes: { code: number; length: number }[] = [];
+    let code = 0;
+    let index = 0;
+    for (let length = 1; length <= 16; length++) {
+      for (let i = 0; i < bits[length]; i++) {
+        codes[symbols[index++]] = { code: code++, length };
+      }
+      code <<= 1;
+    }
+    return codes;
+  }
+}
+
+// Entropy-coded data, with the 0x00 stuffed after every 0xFF byte skipped
+class BitReader {
+  private buffer = 0;
+  private bits = 0;
+
+  constructor(private data: Uint8Array, private offset: number) {}
+
+  read(count: number): number {
+    while (this.bits < count) {
+      let byte = this.data[this.offset++] ?? 0;
+      if (byte === 0xff) {
+        if (this.data[this.offset] === 0) {
+          this.offset++;
+        } else {
+          // A marker ends the data; pad with ones like libjpeg
+          this.offset--;
+          byte = 0xff;
+        }
+      }
+      this.buffer = ((this.buffer << 8) | byte) >>> 0;
+      this.bits += 8;
+    }
+    this.bits -= count;
+    return (this.buffer >>> this.bits) & ((1 << count) - 1);
+  }
+}
+
+class BitWriter {
+  private buffer = 0;
+  private bits = 0;
+
+  constructor(private output: number[]) {}
+
+  write(value: number, count: number) {
+    this.buffer = ((this.buffer << count) | (value & ((1 << count) - 1))) >>> 0;
+    this.bits += count;
+    while (this.bits >= 8) {
+      this.bits -= 8;
+      const byte = (this.buffer >>> this.bits) & 0xff;
+      this.output.push(byte);
+      if (byte === 0xff) this.output.push(0);
+    }
+    this.buffer &= (1 << this.bits) - 1;
+  }
+
+  // The last byte is padded with one bits
+  flush() {
+    if (this.bits > 0) this.write((1 << (8 - this.bits)) - 1, 8 - this.bits);
+  }
+}
+
+const segment = (marker: number, data: number[]): number[] =>
+  [0xff, marker, (data.length + 2) >> 8, (data.length + 2) & 0xff, ...data];
+
+// Number of bits in the magnitude of a coefficient
+const magnitude = (value: number): number => (value === 0 ? 0 : 32 - Math.clz32(Math.abs(value)));
+
+// Negative values are written as the ones' complement of their magnitude
+const encodeValue = (value: number, size: number): number => (value < 0 ? value + (1 << size) - 1 : value);
+
+const extend = (value: number, size: number): number => (value < 1 << (size - 1) ? value - (1 << size) + 1 : value);
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
@@ -0,0 +1,38 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import { NodeEnvironment } from '../../cli/nodeEnvironment';
+import { createImage, maxDifference } from '../../test/fixtures';
+import { JxlCodec } from './jxlCodec';
+
+describe('JxlCodec', () => {
+  before(() => NodeEnvironment.install());
+
+  // The WASM decoder can round the odd sample one level away from what was encoded
+  it('round-trips lossless images', async () => {
+    const image = createImage(24, 17);
+    const decoded = await JxlCodec.decode(await JxlCodec.encode(image, { quality: 90, lossless: true, effort: 1 }));
+
+    assert.equal(decoded.width, 24);
+    assert.equal(decoded.height, 17);
+    assert.ok(maxDifference(decoded, image) <= 1);
+  });
+
+  it('treats distance 0 as lossless', async () => {
+    const image = createImage(9, 9);
+    const lossless = await JxlCodec.encode(image, { quality: 10, distance: 0, effort: 1 });
+    const lossy = await JxlCodec.encode(image, { quality: 10, effort: 1 });
+
+    assert.ok(maxDifference(await JxlCodec.decode(lossless), image) <= 1);
+    assert.ok(lossless.size > lossy.size);
+  });
+
+  it('recognises codestreams and containers by their signature', async () => {
+    const codestream = new File([new Uint8Array([0xff, 0x0a, 0, 0])], 'image.bin');
+    const container = new File([new Uint8Array([0, 0, 0, 12, 0x4a, 0x58, 0x4c, 0x20, 0x0d, 0x0a, 0x87, 0x0a])], 'image.bin');
+    const png = new File([new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])], 'image.bin');
+
+    assert.equal(await JxlCodec.isJxl(codestream), true);
+    assert.equal(await JxlCodec.isJxl(container), true);
+    assert.equal(await JxlCodec.isJxl(png), false);
+  });
+});
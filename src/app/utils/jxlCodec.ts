@@ -0,0 +1,72 @@
+export interface JxlEncodeOptions {
+  quality: number; // 0-100, used when distance is not set
+  distance?: number; // Butteraugli distance: 0 = lossless, 1 = visually lossless, up to 15
+  effort?: number; // 1 (fastest) - 9 (slowest, smallest)
+  progressive?: boolean;
+  lossless?: boolean;
+}
+
+export const JXL_MAX_DISTANCE = 15;
+
+/**
+ * JPEG XL encoder/decoder backed by the libjxl WASM build from jSquash.
+ * Codec modules are imported lazily so the WASM is only fetched when JPEG XL is used.
+ */
+export class JxlCodec {
+  static async encode(imageData: ImageData, options: JxlEncodeOptions): Promise<Blob> {
+    const { default: encode } = await import('@jsquash/jxl/encode');
+    const lossless = options.lossless || options.distance === 0;
+
+    const buffer = await encode(imageData, {
+      effort: Math.min(9, Math.max(1, Math.round(options.effort ?? 7))),
+      quality: lossless
+        ? 100
+        : options.distance !== undefined
+          ? this.distanceToQuality(options.distance)
+          : Math.min(99, Math.max(0, options.quality)),
+      progressive: options.progressive || false,
+      lossless,
+    });
+
+    return new Blob([buffer], { type: 'image/jxl' });
+  }
+
+  static async decode(file: Blob): Promise<ImageData> {
+    const { default: decode } = await import('@jsquash/jxl/decode');
+    const imageData = await decode(await file.arrayBuffer());
+    if (!imageData) {
+      throw new Error('JPEG XL decoder returned no image data');
+    }
+    return imageData;
+  }
+
+  static async isJxl(file: File): Promise<boolean> {
+    if (!file || !file.name) return false;
+
+    if (file.name.toLowerCase().endsWith('.jxl') || file.type === 'image/jxl') {
+      return true;
+    }
+
+    // Bare codestream (FF 0A) or ISOBMFF container starting with a "JXL " box
+    try {
+      const header = new Uint8Array(await file.slice(0, 12).arrayBuffer());
+      if (header[0] === 0xff && header[1] === 0x0a) {
+        return true;
+      }
+      return String.fromCharCode(...header.subarray(4, 8)) === 'JXL ' &&
+        header[8] === 0x0d && header[9] === 0x0a && header[10] === 0x87 && header[11] === 0x0a;
+    } catch {
+      return false;
+    }
+  }
+
+  // Inverse of the quality -> distance mapping used by cjxl and the jSquash encoder
+  private static distanceToQuality(distance: number): number {
+    const d = Math.min(JXL_MAX_DISTANCE, Math.max(0.1, distance));
+    if (d <= 6.4) {
+      // Quality 100 switches the encoder to lossless, so stay just below it
+      return Math.min(99.9, 100 - (d - 0.1) / 0.09);
+    }
+    return 30 - (5 * Math.log(6.25 * (d - 6.4))) / Math.log(2.5);
+  }
+}
@@ -0,0 +1,124 @@
+import { JpegCoefficients } from './jpegCoefficients';
+
+export type JpegChromaSubsampling = '420' | '422' | '444';
+
+export interface JpegEncodeOptions {
+  quality: number; // 0-100
+  progressive?: boolean;
+  optimizeHuffman?: boolean;
+  chromaSubsampling?: JpegChromaSubsampling;
+  grayscale?: boolean; // Single-channel JPEG
+  iccProfile?: Uint8Array; // Written as APP2 ICC_PROFILE segments
+}
+
+// MozJPEG luma sampling factor, used for both directions; chroma stays at 1x1
+const SAMPLING_FACTORS: Record<JpegChromaSubsampling, number> = {
+  '420': 2,
+  '422': 1, // Assembled from two 4:4:4 encodes, see encode422
+  '444': 1,
+};
+
+// APP2 payload left after the length, "ICC_PROFILE\0" and the chunk numbers
+const MAX_ICC_CHUNK = 65535 - 2 - 14;
+
+/**
+ * JPEG encoder backed by the MozJPEG WASM build from jSquash.
+ * Unlike canvas.toBlob it honours progressive scans, Huffman optimisation,
+ * trellis quantisation and chroma subsampling.
+ */
+export class MozJpegEncoder {
+  static async encode(imageData: ImageData, options: JpegEncodeOptions): Promise<Blob> {
+    const bytes = options.chromaSubsampling === '422' && !options.grayscale
+      ? await this.encode422(imageData, options)
+      : await this.encodeWithMozJpeg(imageData, options);
+    return new Blob([options.iccProfile ? this.insertIccProfile(bytes, options.iccProfile) : bytes], { type: 'image/jpeg' });
+  }
+
+  // libjpeg always optimises Huffman tables for progressive scans, 4:2:2 streams are
+  // rewritten with tables of their own, and this build writes undecodable 4:2:0 scans
+  // with the standard tables. Only baseline 4:4:4 and grayscale honour optimizeHuffman.
+  static forcesOptimizedHuffman(options: Pick<JpegEncodeOptions, 'progressive' | 'chromaSubsampling' | 'grayscale'>): boolean {
+    return !!options.progressive || (!options.grayscale && (options.chromaSubsampling || '420') !== '444');
+  }
+
+  private static async encodeWithMozJpeg(imageData: ImageData, options: JpegEncodeOptions): Promise<Uint8Array> {
+    const { default: encode } = await import('@jsquash/jpeg/encode');
+    const progressive = options.progressive || false;
+    const subsampling = options.grayscale ? '444' : options.chromaSubsampling || '420';
+
+    const buffer = await encode(imageData, {
+      quality: Math.min(100, Math.max(0, Math.round(options.quality))),
+      progressive,
+      optimize_coding: this.forcesOptimizedHuffman(options) || options.optimizeHuffman || false,
+      auto_subsample: false,
+      chroma_subsample: SAMPLING_FACTORS[subsampling],
+      color_space: options.grayscale ? 1 /* MozJpegColorSpace.GRAYSCALE */ : 3 /* MozJpegColorSpace.YCbCr */,
+    });
+
+    return new Uint8Array(buffer);
+  }
+
+  // The WASM build subsamples both directions alike, so 4:2:2 takes the luma of a
+  // full-size encode and the chroma of a half-width one whose pixels average
+  // horizontal pairs. The coefficients are rewritten as one JPEG.
+  private static async encode422(imageData: ImageData, options: JpegEncodeOptions): Promise<Uint8Array> {
+    const baseline = { ...options, progressive: false, chromaSubsampling: '444' as const };
+    const full = JpegCoefficients.read(await this.encodeWithMozJpeg(imageData, baseline));
+    const half = JpegCoefficients.read(await this.encodeWithMozJpeg(this.halveWidth(imageData), baseline));
+    const [luma] = full.components;
+    const [, blue, red] = half.components;
+
+    return JpegCoefficients.write({
+      ...full,
+      components: [{ ...luma, h: 2, v: 1 }, { ...blue, h: 1, v: 1 }, { ...red, h: 1, v: 1 }],
+    }, { progressive: options.progressive });
+  }
+
+  // Averaging RGB pairs averages their chroma too, since YCbCr is a linear transform of RGB
+  private static halveWidth(imageData: ImageData): ImageData {
+    const { width, height, data } = imageData;
+    const halfWidth = Math.ceil(width / 2);
+    const output = new ImageData(halfWidth, height);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < halfWidth; x++) {
+        const left = (y * width + x * 2) * 4;
+        const right = (y * width + Math.min(x * 2 + 1, width - 1)) * 4;
+        const target = (y * halfWidth + x) * 4;
+        for (let c = 0; c < 4; c++) {
+          output.data[target + c] = (data[left + c] + data[right + c] + 1) >> 1;
+        }
+      }
+    }
+    return output;
+  }
+
+  // Splits the profile over APP2 segments placed after the JFIF header
+  private static insertIccProfile(jpeg: Uint8Array, profile: Uint8Array): Uint8Array {
+    let offset = 2;
+    while (jpeg[offset] === 0xff && jpeg[offset + 1] === 0xe0) {
+      offset += 2 + ((jpeg[offset + 2] << 8) | jpeg[offset + 3]);
+    }
+
+    const count = Math.ceil(profile.length / MAX_ICC_CHUNK);
+    const segments = Array.from({ length: count }, (_, i) => {
+      const chunk = profile.subarray(i * MAX_ICC_CHUNK, (i + 1) * MAX_ICC_CHUNK);
+      const segment = new Uint8Array(4 + 14 + chunk.length);
+      const length = segment.length - 2;
+      segment.set([0xff, 0xe2, length >> 8, length & 0xff]);
+      segment.set([...'ICC_PROFILE'].map(c => c.charCodeAt(0)), 4);
+      segment.set([0, i + 1, count], 15);
+      segment.set(chunk, 18);
+      return segment;
+    });
+
+    const output = new Uint8Array(jpeg.length + segments.reduce((sum, segment) => sum + segment.length, 0));
+    output.set(jpeg.subarray(0, offset));
+    let position = offset;
+    for (const segment of segments) {
+      output.set(segment, position);
+      position += segment.length;
+    }
+    output.set(jpeg.subarray(offset), position);
+    return output;
+  }
+}
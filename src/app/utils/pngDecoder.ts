@@ -0,0 +1,117 @@
+import pako from 'pako';
+import { HighPrecision, HighPrecisionImage } from './highPrecisionImage';
+import { PNG_SIGNATURE } from './pngEncoder';
+
+// Samples per pixel of the color types that allow 16 bits
+const CHANNELS: Record<number, number> = {
+  0: 1, // gray
+  2: 3, // rgb
+  4: 2, // gray-alpha
+  6: 4, // rgba
+};
+
+/**
+ * Decodes 16-bit PNG without going through the browser's 8-bit decoder.
+ * Interlaced images are left to the browser, as is every other bit depth.
+ */
+export class PngDecoder {
+  static isHighBitDepth(bytes: Uint8Array): boolean {
+    return bytes.length >= 33 && PNG_SIGNATURE.every((byte, i) => bytes[i] === byte) &&
+      String.fromCharCode(...bytes.subarray(12, 16)) === 'IHDR' && bytes[24] === 16;
+  }
+
+  static decodeHighPrecision(bytes: Uint8Array): HighPrecisionImage | null {
+    if (!this.isHighBitDepth(bytes)) {
+      return null;
+    }
+
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const width = view.getUint32(16);
+    const height = view.getUint32(20);
+    const channels = CHANNELS[bytes[25]];
+    const interlaced = bytes[28] !== 0;
+    if (!channels || interlaced) {
+      return null;
+    }
+
+    const idat: Uint8Array[] = [];
+    let transparentColor: number[] | null = null;
+    for (let offset = PNG_SIGNATURE.length; offset + 8 <= bytes.length;) {
+      const length = view.getUint32(offset);
+      const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+      const data = bytes.subarray(offset + 8, offset + 8 + length);
+      if (type === 'IDAT') {
+        idat.push(data);
+      } else if (type === 'tRNS') {
+        // Gray or RGB samples of the one fully transparent color
+        transparentColor = Array.from({ length: data.length / 2 }, (_, i) => (data[i * 2] << 8) | data[i * 2 + 1]);
+      } else if (type === 'IEND') {
+        break;
+      }
+      offset += length + 12;
+    }
+
+    const compressed = new Uint8Array(idat.reduce((sum, chunk) => sum + chunk.length, 0));
+    let position = 0;
+    for (const chunk of idat) {
+      compressed.set(chunk, position);
+      position += chunk.length;
+    }
+    const rows = this.unfilter(pako.inflate(compressed), width * channels * 2, height, channels * 2);
+
+    const samples = new Uint16Array(width * height * channels);
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] = (rows[i * 2] << 8) | rows[i * 2 + 1];
+    }
+
+    const image = HighPrecision.fromSamples(samples, width, height, channels, 16, 65535);
+    if (transparentColor) {
+      for (let p = 0; p < width * height; p++) {
+        if (transparentColor.every((value, c) => samples[p * channels + c] === value)) {
+          image.data[p * 4 + 3] = 0;
+        }
+      }
+    }
+    return image;
+  }
+
+  // Reverses the per-row filters, returning the rows without their filter bytes
+  private static unfilter(data: Uint8Array, rowBytes: number, height: number, bytesPerPixel: number): Uint8Array {
+    if (data.length < (rowBytes + 1) * height) {
+      throw new Error('PNG image data is truncated');
+    }
+
+    const output = new Uint8Array(rowBytes * height);
+    for (let y = 0; y < height; y++) {
+      const filter = data[y * (rowBytes + 1)];
+      const input = y * (rowBytes + 1) + 1;
+      const row = y * rowBytes;
+      const previous = row - rowBytes;
+      for (let x = 0; x < rowBytes; x++) {
+        const left = x >= bytesPerPixel ? output[row + x - bytesPerPixel] : 0;
+        const up = y > 0 ? output[previous + x] : 0;
+        const upLeft = y > 0 && x >= bytesPerPixel ? output[previous + x - bytesPerPixel] : 0;
+        let predicted: number;
+        switch (filter) {
+          case 0: predicted = 0; break;
+          case 1: predicted = left; break;
+          case 2: predicted = up; break;
+          case 3: predicted = (left + up) >> 1; break;
+          case 4: predicted = this.paeth(left, up, upLeft); break;
+          default: throw new Error(`Invalid PNG filter type ${filter}`);
+        }
+        output[row + x] = (data[input + x] + predicted) & 0xff;
+      }
+    }
+    return output;
+  }
+
+  private static paeth(left: number, up: number, upLeft: number): number {
+    const estimate = left + up - upLeft;
+    const distanceLeft = Math.abs(estimate - left);
+    const distanceUp = Math.abs(estimate - up);
+    const distanceUpLeft = Math.abs(estimate - upLeft);
+    if (distanceLeft <= distanceUp && distanceLeft <= distanceUpLeft) return left;
+    return distanceUp <= distanceUpLeft ? up : upLeft;
+  }
+}
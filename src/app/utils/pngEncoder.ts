@@ -0,0 +1,487 @@
+import pako from 'pako';
+import { ColorQuantizer } from './colorQuantizer';
+import { HighPrecision, PixelData } from './highPrecisionImage';
+
+export type PngColorType = 'gray' | 'gray-alpha' | 'rgb' | 'rgba' | 'palette';
+export type PngBitDepth = 1 | 2 | 4 | 8 | 16;
+
+export interface PngChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+export interface EncodedPngImage {
+  header: Uint8Array; // IHDR contents
+  paletteChunks: Uint8Array[]; // Complete PLTE/tRNS chunks for palette images
+  data: Uint8Array; // zlib stream for IDAT/fdAT
+}
+
+export interface PngEncodeOptions {
+  colorType?: PngColorType;
+  bitDepth?: PngBitDepth;
+  compressionLevel?: number; // 0 (stored) - 9 (exhaustive search + zopfli)
+  dithering?: boolean; // Applies to palette and 1/2/4-bit grayscale output
+  metadata?: PngChunk[]; // Ancillary chunks copied into the output
+  iccProfile?: Uint8Array; // Written as iCCP
+}
+
+export const PNG_SIGNATURE = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const COLOR_TYPE_CODES: Record<PngColorType, number> = {
+  gray: 0,
+  rgb: 2,
+  palette: 3,
+  'gray-alpha': 4,
+  rgba: 6,
+};
+
+const CHANNELS: Record<PngColorType, number> = {
+  gray: 1,
+  rgb: 3,
+  palette: 1,
+  'gray-alpha': 2,
+  rgba: 4,
+};
+
+// Metadata that survives a pixel round trip through the canvas. Color chunks
+// (iCCP, gAMA, cHRM) are left out because the canvas already converted to sRGB.
+const METADATA_CHUNKS = ['pHYs', 'tEXt', 'zTXt', 'iTXt', 'eXIf', 'tIME'];
+
+// Levels from which every filter and deflate strategy is tried, and zopfli is added
+const EXHAUSTIVE_LEVEL = 8;
+const ZOPFLI_LEVEL = 9;
+
+// 'adaptive' picks the filter with the smallest sum of absolute differences per row
+type FilterStrategy = 0 | 1 | 2 | 3 | 4 | 'adaptive';
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * PNG writer supporting every standard color type and bit depth.
+ * Palette output is quantised (with optional dithering), and higher compression
+ * levels search filter/deflate combinations and finish with zopfli.
+ */
+export class PngEncoder {
+  static async encode(pixels: PixelData, options: PngEncodeOptions = {}): Promise<Blob> {
+    const image = await this.encodeImage(pixels, options);
+
+    const chunks: Uint8Array[] = [PNG_SIGNATURE, this.createChunk('IHDR', image.header)];
+    if (options.iccProfile) {
+      // Profile name, null separator, compression method 0 (zlib)
+      const name = new TextEncoder().encode('ICC profile\0\0');
+      const compressed = pako.deflate(options.iccProfile);
+      const data = new Uint8Array(name.length + compressed.length);
+      data.set(name);
+      data.set(compressed, name.length);
+      chunks.push(this.createChunk('iCCP', data));
+    }
+    chunks.push(...image.paletteChunks);
+    for (const chunk of options.metadata || []) {
+      chunks.push(this.createChunk(chunk.type, chunk.data));
+    }
+    chunks.push(this.createChunk('IDAT', image.data));
+    chunks.push(this.createChunk('IEND', new Uint8Array(0)));
+
+    return new Blob(chunks, { type: 'image/png' });
+  }
+
+  /**
+   * Encodes pixels into IHDR contents, PLTE/tRNS chunks and a zlib stream.
+   * A pre-quantized palette can be passed so several images (APNG frames) share one PLTE.
+   * High-precision pixels keep their precision in 16-bit output only.
+   */
+  static async encodeImage(
+    pixels: PixelData,
+    options: PngEncodeOptions = {},
+    quantized?: { palette: Uint8Array; indices: Uint8Array }
+  ): Promise<EncodedPngImage> {
+    const { width, height } = pixels;
+    const colorType = options.colorType || 'rgba';
+    const bitDepth = this.normalizeBitDepth(colorType, options.bitDepth || 8);
+    const imageData = bitDepth === 16 ? pixels : HighPrecision.toImageData(pixels);
+    const level = Math.min(9, Math.max(0, Math.round(options.compressionLevel ?? 6)));
+    const dithering = options.dithering !== false;
+
+    const header = new Uint8Array(13);
+    const headerView = new DataView(header.buffer);
+    headerView.setUint32(0, width);
+    headerView.setUint32(4, height);
+    header[8] = bitDepth;
+    header[9] = COLOR_TYPE_CODES[colorType];
+
+    const paletteChunks: Uint8Array[] = [];
+    let samples: Uint8Array | Uint16Array;
+    if (colorType === 'palette') {
+      const source = quantized || ColorQuantizer.quantize(HighPrecision.toImageData(imageData), { maxColors: 1 << bitDepth, dithering });
+      const { palette, indices, transparentCount } = this.orderPalette(source.palette, source.indices);
+
+      const plte = new Uint8Array((palette.length / 4) * 3);
+      for (let i = 0; i < palette.length / 4; i++) {
+        plte.set(palette.subarray(i * 4, i * 4 + 3), i * 3);
+      }
+      paletteChunks.push(this.createChunk('PLTE', plte));
+
+      if (transparentCount > 0) {
+        const trns = new Uint8Array(transparentCount);
+        for (let i = 0; i < transparentCount; i++) trns[i] = palette[i * 4 + 3];
+        paletteChunks.push(this.createChunk('tRNS', trns));
+      }
+      samples = indices;
+    } else {
+      samples = this.toSamples(imageData, colorType, bitDepth, dithering);
+    }
+
+    const rows = this.packRows(samples, width, height, CHANNELS[colorType], bitDepth);
+    const bytesPerPixel = Math.max(1, (CHANNELS[colorType] * bitDepth) >> 3);
+    // Filtering rarely helps indexed or sub-byte images
+    const defaultFilter: FilterStrategy = colorType === 'palette' || bitDepth < 8 ? 0 : 'adaptive';
+
+    return {
+      header,
+      paletteChunks,
+      data: await this.compress(rows, bytesPerPixel, level, defaultFilter),
+    };
+  }
+
+  /**
+   * Collects metadata chunks worth carrying over from a PNG or JPEG source.
+   * JPEG EXIF becomes an eXIf chunk with the orientation reset, since the
+   * pixels have already been rotated when drawn.
+   */
+  static async readMetadataChunks(file: Blob): Promise<PngChunk[]> {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const view = new DataView(bytes.buffer);
+    const chunks: PngChunk[] = [];
+
+    try {
+      if (PNG_SIGNATURE.every((value, index) => bytes[index] === value)) {
+        let offset = 8;
+        while (offset + 12 <= bytes.length) {
+          const length = view.getUint32(offset);
+          const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+          if (type === 'IEND') break;
+          if (METADATA_CHUNKS.includes(type)) {
+            chunks.push({ type, data: bytes.slice(offset + 8, offset + 8 + length) });
+          }
+          offset += 12 + length;
+        }
+      } else if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+        let offset = 2;
+        while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+          const marker = bytes[offset + 1];
+          if (marker === 0xda || marker === 0xd9) break; // Start of scan / end of image
+          const length = view.getUint16(offset + 2);
+          const isExif = marker === 0xe1 &&
+            String.fromCharCode(...bytes.subarray(offset + 4, offset + 10)) === 'Exif\0\0';
+          if (isExif) {
+            chunks.push({ type: 'eXIf', data: this.resetExifOrientation(bytes.slice(offset + 10, offset + 2 + length)) });
+          }
+          offset += 2 + length;
+        }
+      }
+    } catch (error) {
+      console.warn('Failed to read source metadata:', error);
+    }
+
+    return chunks;
+  }
+
+  private static normalizeBitDepth(colorType: PngColorType, bitDepth: number): PngBitDepth {
+    switch (colorType) {
+      case 'gray':
+        return ([1, 2, 4, 8, 16].includes(bitDepth) ? bitDepth : 8) as PngBitDepth;
+      case 'palette':
+        return ([1, 2, 4, 8].includes(bitDepth) ? bitDepth : 8) as PngBitDepth;
+      default:
+        return bitDepth === 16 ? 16 : 8;
+    }
+  }
+
+  // Converts canvas or high-precision RGBA to one value per PNG sample at the target depth
+  private static toSamples(
+    pixels: PixelData,
+    colorType: Exclude<PngColorType, 'palette'>,
+    bitDepth: PngBitDepth,
+    dithering: boolean
+  ): Uint8Array | Uint16Array {
+    const { data, width, height } = pixels;
+    const pixelCount = width * height;
+    const channels = CHANNELS[colorType];
+    const hasAlpha = colorType === 'rgba' || colorType === 'gray-alpha';
+    const samples = bitDepth === 16 ? new Uint16Array(pixelCount * channels) : new Uint8Array(pixelCount * channels);
+
+    if (colorType === 'rgba') {
+      const maxValue = bitDepth === 16 ? 65535 : 255;
+      for (let i = 0; i < samples.length; i++) samples[i] = HighPrecision.getSample(pixels, i, maxValue);
+      return samples;
+    }
+
+    // Values are worked out on the 8-bit scale; high-precision input is clamped to it
+    const range = HighPrecision.is(pixels) ? 1 : 255;
+    const scale = bitDepth === 16 ? 257 : 1;
+    const level = (i: number) => Math.min(255, Math.max(0, data[i] * 255 / range));
+
+    // Opaque color types are composited onto white
+    const luma = colorType === 'rgb' ? null : new Float32Array(pixelCount);
+    for (let p = 0; p < pixelCount; p++) {
+      const i = p * 4;
+      const alpha = hasAlpha ? 1 : level(i + 3) / 255;
+      const background = 255 * (1 - alpha);
+      const r = level(i) * alpha + background;
+      const g = level(i + 1) * alpha + background;
+      const b = level(i + 2) * alpha + background;
+
+      if (colorType === 'rgb') {
+        samples[p * 3] = Math.round(r * scale);
+        samples[p * 3 + 1] = Math.round(g * scale);
+        samples[p * 3 + 2] = Math.round(b * scale);
+      } else {
+        luma![p] = 0.299 * r + 0.587 * g + 0.114 * b;
+        if (colorType === 'gray-alpha') {
+          samples[p * 2] = Math.round(luma![p] * scale);
+          samples[p * 2 + 1] = Math.round(level(i + 3) * scale);
+        }
+      }
+    }
+
+    if (colorType === 'gray') {
+      if (bitDepth >= 8) {
+        for (let p = 0; p < pixelCount; p++) samples[p] = Math.round(luma![p] * scale);
+      } else {
+        samples.set(this.quantizeGray(luma!, width, height, bitDepth, dithering));
+      }
+    }
+
+    return samples;
+  }
+
+  // Reduces luma to 2/4/16 gray levels, with Floyd-Steinberg error diffusion when dithering
+  private static quantizeGray(luma: Float32Array, width: number, height: number, bitDepth: number, dithering: boolean) {
+    const maxLevel = (1 << bitDepth) - 1;
+    const levels = new Uint8Array(luma.length);
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const p = y * width + x;
+        const value = Math.min(255, Math.max(0, luma[p]));
+        const level = Math.round((value / 255) * maxLevel);
+        levels[p] = level;
+
+        if (!dithering) continue;
+        const error = value - (level * 255) / maxLevel;
+        if (x + 1 < width) luma[p + 1] += error * 7 / 16;
+        if (y + 1 < height) {
+          if (x > 0) luma[p + width - 1] += error * 3 / 16;
+          luma[p + width] += error * 5 / 16;
+          if (x + 1 < width) luma[p + width + 1] += error / 16;
+        }
+      }
+    }
+    return levels;
+  }
+
+  // Moves translucent palette entries to the front so tRNS can stay short
+  private static orderPalette(palette: Uint8Array, indices: Uint8Array) {
+    const count = palette.length / 4;
+    const order = Array.from({ length: count }, (_, i) => i)
+      .sort((a, b) => Number(palette[a * 4 + 3] === 255) - Number(palette[b * 4 + 3] === 255));
+
+    const remap = new Uint8Array(count);
+    const ordered = new Uint8Array(palette.length);
+    order.forEach((oldIndex, newIndex) => {
+      remap[oldIndex] = newIndex;
+      ordered.set(palette.subarray(oldIndex * 4, oldIndex * 4 + 4), newIndex * 4);
+    });
+
+    const remapped = new Uint8Array(indices.length);
+    for (let i = 0; i < indices.length; i++) remapped[i] = remap[indices[i]];
+
+    const transparentCount = order.filter(index => palette[index * 4 + 3] < 255).length;
+    return { palette: ordered, indices: remapped, transparentCount };
+  }
+
+  // Packs samples into unfiltered scanlines (big-endian, MSB-first for sub-byte depths)
+  private static packRows(
+    samples: Uint8Array | Uint16Array,
+    width: number,
+    height: number,
+    channels: number,
+    bitDepth: PngBitDepth
+  ): Uint8Array[] {
+    const samplesPerRow = width * channels;
+    const rowBytes = Math.ceil((samplesPerRow * bitDepth) / 8);
+    const rows: Uint8Array[] = [];
+
+    for (let y = 0; y < height; y++) {
+      const row = new Uint8Array(rowBytes);
+      const start = y * samplesPerRow;
+
+      if (bitDepth === 16) {
+        for (let s = 0; s < samplesPerRow; s++) {
+          row[s * 2] = samples[start + s] >> 8;
+          row[s * 2 + 1] = samples[start + s] & 0xff;
+        }
+      } else if (bitDepth === 8) {
+        row.set(samples.subarray(start, start + samplesPerRow));
+      } else {
+        const perByte = 8 / bitDepth;
+        for (let s = 0; s < samplesPerRow; s++) {
+          const shift = 8 - bitDepth * ((s % perByte) + 1);
+          row[Math.floor(s / perByte)] |= samples[start + s] << shift;
+        }
+      }
+      rows.push(row);
+    }
+    return rows;
+  }
+
+  private static async compress(
+    rows: Uint8Array[],
+    bytesPerPixel: number,
+    level: number,
+    defaultFilter: FilterStrategy
+  ): Promise<Uint8Array> {
+    if (level < EXHAUSTIVE_LEVEL) {
+      return pako.deflate(this.filterRows(rows, bytesPerPixel, defaultFilter), { level: level as pako.DeflateFunctionOptions['level'] });
+    }
+
+    // Rank filter strategies with a quick deflate, then try every deflate strategy on the winner
+    let bestFiltered: Uint8Array | null = null;
+    let bestTrialSize = Infinity;
+    const filters: FilterStrategy[] = [0, 1, 2, 3, 4, 'adaptive'];
+    for (const filter of filters) {
+      const filtered = this.filterRows(rows, bytesPerPixel, filter);
+      const trialSize = pako.deflate(filtered, { level: 3 }).length;
+      if (trialSize < bestTrialSize) {
+        bestTrialSize = trialSize;
+        bestFiltered = filtered;
+      }
+    }
+
+    let best: Uint8Array | null = null;
+    const strategies: pako.StrategyValues[] = [
+      pako.constants.Z_DEFAULT_STRATEGY,
+      pako.constants.Z_FILTERED,
+      pako.constants.Z_RLE,
+    ];
+    for (const strategy of strategies) {
+      const compressed = pako.deflate(bestFiltered!, { level: 9, memLevel: 9, strategy });
+      if (!best || compressed.length < best.length) best = compressed;
+    }
+
+    if (level >= ZOPFLI_LEVEL) {
+      try {
+        const { zlibAsync } = await import('@gfx/zopfli');
+        // Fewer iterations on large images, or zopfli takes minutes
+        const numiterations = bestFiltered!.length > 4_000_000 ? 1 : bestFiltered!.length > 1_000_000 ? 5 : 15;
+        const compressed = await zlibAsync(bestFiltered!, { numiterations });
+        if (compressed.length < best!.length) best = compressed;
+      } catch (error) {
+        console.warn('Zopfli compression failed, keeping deflate output:', error);
+      }
+    }
+
+    return best!;
+  }
+
+  private static filterRows(rows: Uint8Array[], bytesPerPixel: number, strategy: FilterStrategy): Uint8Array {
+    const rowBytes = rows[0]?.length ?? 0;
+    const output = new Uint8Array(rows.length * (rowBytes + 1));
+    const candidate = new Uint8Array(rowBytes);
+    let previous: Uint8Array = new Uint8Array(rowBytes);
+
+    rows.forEach((row, y) => {
+      const target = output.subarray(y * (rowBytes + 1) + 1, (y + 1) * (rowBytes + 1));
+      let filterType: number = strategy === 'adaptive' ? 0 : strategy;
+
+      if (strategy === 'adaptive') {
+        let bestSum = Infinity;
+        for (let type = 0; type <= 4; type++) {
+          this.filterRow(type, row, previous, bytesPerPixel, candidate);
+          let sum = 0;
+          for (let i = 0; i < rowBytes; i++) sum += candidate[i] < 128 ? candidate[i] : 256 - candidate[i];
+          if (sum < bestSum) {
+            bestSum = sum;
+            filterType = type;
+            target.set(candidate);
+          }
+        }
+      } else {
+        this.filterRow(filterType, row, previous, bytesPerPixel, target);
+      }
+
+      output[y * (rowBytes + 1)] = filterType;
+      previous = row;
+    });
+
+    return output;
+  }
+
+  private static filterRow(type: number, row: Uint8Array, previous: Uint8Array, bpp: number, out: Uint8Array) {
+    for (let i = 0; i < row.length; i++) {
+      const left = i >= bpp ? row[i - bpp] : 0;
+      const up = previous[i];
+      const upLeft = i >= bpp ? previous[i - bpp] : 0;
+
+      switch (type) {
+        case 0: out[i] = row[i]; break;
+        case 1: out[i] = row[i] - left; break;
+        case 2: out[i] = row[i] - up; break;
+        case 3: out[i] = row[i] - ((left + up) >> 1); break;
+        default: {
+          // Paeth predictor
+          const estimate = left + up - upLeft;
+          const distanceLeft = Math.abs(estimate - left);
+          const distanceUp = Math.abs(estimate - up);
+          const distanceUpLeft = Math.abs(estimate - upLeft);
+          const predictor = distanceLeft <= distanceUp && distanceLeft <= distanceUpLeft
+            ? left
+            : distanceUp <= distanceUpLeft ? up : upLeft;
+          out[i] = row[i] - predictor;
+        }
+      }
+    }
+  }
+
+  // Sets the IFD0 Orientation tag of a TIFF-structured EXIF block to 1 (normal)
+  private static resetExifOrientation(tiff: Uint8Array): Uint8Array {
+    const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+    const littleEndian = view.getUint16(0) === 0x4949;
+    const ifdOffset = view.getUint32(4, littleEndian);
+    const entryCount = view.getUint16(ifdOffset, littleEndian);
+
+    for (let entry = 0; entry < entryCount; entry++) {
+      const offset = ifdOffset + 2 + entry * 12;
+      if (view.getUint16(offset, littleEndian) === 0x0112) {
+        view.setUint16(offset + 8, 1, littleEndian);
+        break;
+      }
+    }
+    return tiff;
+  }
+
+  static createChunk(type: string, data: Uint8Array): Uint8Array {
+    const chunk = new Uint8Array(12 + data.length);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, data.length);
+    for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+    chunk.set(data, 8);
+    view.setUint32(8 + data.length, this.crc32(chunk.subarray(4, 8 + data.length)));
+    return chunk;
+  }
+
+  private static crc32(bytes: Uint8Array): number {
+    if (!crcTable) {
+      crcTable = new Uint32Array(256);
+      for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        crcTable[n] = c >>> 0;
+      }
+    }
+
+    let crc = 0xffffffff;
+    for (let i = 0; i < bytes.length; i++) crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+  }
+}
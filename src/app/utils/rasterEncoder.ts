@@ -0,0 +1,234 @@
+import type { ConversionSettings } from '../components/ConversionOptions';
+import piexif from 'piexifjs';
+import { AvifCodec } from './avifCodec';
+import { JxlCodec } from './jxlCodec';
+import { MozJpegEncoder } from './mozjpegEncoder';
+import { PngBitDepth, PngEncodeOptions, PngEncoder } from './pngEncoder';
+import { WebpEncodeOptions, WebpEncoder } from './webpEncoder';
+import { GifCodec, GifEncodeOptions } from './gifCodec';
+import { HighPrecision, PixelData } from './highPrecisionImage';
+import { ColorManagement } from './colorManagement';
+import { Diagnostics } from './diagnostics';
+import { TiffEncoder } from './tiffEncoder';
+
+// Formats encoded from raw pixels by WASM/JS encoders, without any DOM access
+const RASTER_FORMATS = ['jpeg', 'png', 'webp', 'avif', 'jxl', 'gif', 'tiff'];
+
+/**
+ * Encodes ImageData into the pixel-based output formats. Used by the
+ * main-thread converter and the conversion workers alike. PNG, AVIF and
+ * TIFF also take high-precision pixels; the other formats get them as 8
+ * bits. Pixels are converted to the chosen color profile first, and JPEG,
+ * PNG, WebP, AVIF and TIFF embed it.
+ */
+export class RasterEncoder {
+  static supports(outputFormat: string): boolean {
+    return RASTER_FORMATS.includes(outputFormat);
+  }
+
+  static async encode(source: PixelData, settings: ConversionSettings, originalFile?: File): Promise<Blob> {
+    if (settings.outputFormat === 'tiff') {
+      return await TiffEncoder.encode(source, settings, originalFile);
+    }
+
+    const { pixels, profile } = await ColorManagement.prepareOutput(source, settings, originalFile);
+    const iccProfile = profile?.data;
+    if (settings.outputFormat === 'png') {
+      return await this.convertToPng(pixels, settings, originalFile, iccProfile);
+    }
+    if (settings.outputFormat === 'avif') {
+      return await this.convertToAvif(pixels, settings, iccProfile);
+    }
+
+    const imageData = HighPrecision.toImageData(pixels);
+    switch (settings.outputFormat) {
+      case 'jpeg': {
+        const blob = await this.convertToJpeg(imageData, settings, iccProfile);
+
+        // Preserve metadata if not removing it and original file exists
+        if (!settings.removeMetadata && originalFile) {
+          return await this.preserveMetadata(blob, originalFile);
+        }
+        return blob;
+      }
+      case 'webp':
+        return await this.convertToWebp(imageData, settings, iccProfile);
+      case 'jxl':
+        return await this.convertToJxl(imageData, settings);
+      case 'gif':
+        return this.convertToGif(imageData, settings);
+      default:
+        throw new Error(`Unsupported raster format: ${settings.outputFormat}`);
+    }
+  }
+
+  static getPngOptions(settings: ConversionSettings): PngEncodeOptions {
+    return {
+      colorType: settings.colorType || 'rgba',
+      bitDepth: (settings.bitDepth || 8) as PngBitDepth,
+      compressionLevel: settings.compressionLevel,
+      dithering: settings.pngDithering !== false,
+    };
+  }
+
+  static getWebpOptions(settings: ConversionSettings): WebpEncodeOptions {
+    return {
+      quality: settings.quality,
+      method: settings.method ?? 4,
+      lossless: settings.lossless || false,
+      nearLossless: settings.webpNearLossless ?? 100,
+      alphaQuality: settings.webpAlphaQuality ?? 100,
+      sharpYuv: settings.webpSharpYuv || false,
+      targetSize: settings.webpTargetSizeKB ? settings.webpTargetSizeKB * 1024 : 0,
+    };
+  }
+
+  static getGifOptions(settings: ConversionSettings): GifEncodeOptions {
+    return {
+      maxColors: settings.gifMaxColors ?? 256,
+      palette: settings.gifPaletteMode || 'local',
+      quantization: settings.gifQuantization || 'median-cut',
+      dithering: settings.gifDithering || 'floyd-steinberg',
+      transparencyThreshold: settings.gifTransparencyThreshold ?? 128,
+      frameDelay: settings.gifFrameDelay || 0,
+    };
+  }
+
+  // Builds the data URL from the bytes, since FileReader is missing in Node
+  static async blobToBase64(blob: Blob): Promise<string> {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+      binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return `data:${blob.type || 'application/octet-stream'};base64,${btoa(binary)}`;
+  }
+
+  // Copies the EXIF block of JPEG input; piexifjs can't read any other container
+  private static async preserveMetadata(convertedBlob: Blob, originalFile: File): Promise<Blob> {
+    const signature = new Uint8Array(await originalFile.slice(0, 3).arrayBuffer());
+    if (signature[0] !== 0xff || signature[1] !== 0xd8 || signature[2] !== 0xff) {
+      return convertedBlob;
+    }
+
+    try {
+      // Extract EXIF data from original file
+      const originalDataUrl = await this.blobToBase64(originalFile);
+      const exifData = piexif.load(originalDataUrl);
+
+      // Convert converted blob to data URL
+      const convertedDataUrl = await this.blobToBase64(convertedBlob);
+
+      // Insert EXIF data into converted image
+      const exifBytes = piexif.dump(exifData);
+      const imageWithExif = piexif.insert(exifBytes, convertedDataUrl);
+
+      // Convert back to blob
+      const response = await fetch(imageWithExif);
+      return await response.blob();
+    } catch (error) {
+      Diagnostics.warn('Failed to preserve metadata:', error instanceof Error ? error.message : error);
+      // Return original blob if metadata preservation fails
+      return convertedBlob;
+    }
+  }
+
+  private static async convertToJpeg(
+    imageData: ImageData,
+    settings: ConversionSettings,
+    iccProfile?: Uint8Array
+  ): Promise<Blob> {
+    try {
+      return await MozJpegEncoder.encode(imageData, {
+        quality: settings.quality,
+        progressive: settings.progressive || false,
+        optimizeHuffman: settings.optimizeHuffman || false,
+        chromaSubsampling: settings.jpegChromaSubsampling || '420',
+        iccProfile,
+      });
+    } catch (error) {
+      console.error('JPEG conversion failed:', error);
+      throw new Error(`Failed to convert to JPEG: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private static async convertToPng(
+    pixels: PixelData,
+    settings: ConversionSettings,
+    originalFile?: File,
+    iccProfile?: Uint8Array
+  ): Promise<Blob> {
+    try {
+      // Ancillary chunks are only carried over when metadata is kept
+      const metadata = !settings.removeMetadata && originalFile
+        ? await PngEncoder.readMetadataChunks(originalFile)
+        : [];
+
+      return await PngEncoder.encode(pixels, { ...this.getPngOptions(settings), metadata, iccProfile });
+    } catch (error) {
+      console.error('PNG conversion failed:', error);
+      throw new Error(`Failed to convert to PNG: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private static async convertToWebp(
+    imageData: ImageData,
+    settings: ConversionSettings,
+    iccProfile?: Uint8Array
+  ): Promise<Blob> {
+    try {
+      return await WebpEncoder.encode(imageData, { ...this.getWebpOptions(settings), iccProfile });
+    } catch (error) {
+      console.error('WebP conversion failed:', error);
+      throw new Error(`Failed to convert to WebP: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private static async convertToAvif(
+    pixels: PixelData,
+    settings: ConversionSettings,
+    iccProfile?: Uint8Array
+  ): Promise<Blob> {
+    try {
+      return await AvifCodec.encode(pixels, {
+        quality: settings.quality,
+        speed: settings.avifSpeed ?? 6,
+        chromaSubsampling: settings.avifChromaSubsampling || '420',
+        bitDepth: settings.avifBitDepth || 8,
+        lossless: settings.avifLossless || false,
+        iccProfile,
+      });
+    } catch (error) {
+      console.error('AVIF conversion failed:', error);
+      throw new Error(`Failed to convert to AVIF: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private static async convertToJxl(imageData: ImageData, settings: ConversionSettings): Promise<Blob> {
+    try {
+      return await JxlCodec.encode(imageData, {
+        quality: settings.quality,
+        distance: settings.jxlDistance,
+        effort: settings.jxlEffort ?? 7,
+        progressive: settings.jxlProgressive || false,
+        lossless: settings.jxlLossless || false,
+      });
+    } catch (error) {
+      console.error('JPEG XL conversion failed:', error);
+      throw new Error(`Failed to convert to JPEG XL: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private static convertToGif(imageData: ImageData, settings: ConversionSettings): Blob {
+    try {
+      const { width, height } = imageData;
+      return GifCodec.encode(
+        { width, height, frames: [{ imageData, delay: 0 }], loopCount: 1 },
+        this.getGifOptions(settings)
+      );
+    } catch (error) {
+      console.error('GIF conversion failed:', error);
+      throw new Error(`Failed to convert to GIF: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
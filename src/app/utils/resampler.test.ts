@@ -0,0 +1,40 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import { NodeEnvironment } from '../../cli/nodeEnvironment';
+import { createImage, pixelAt } from '../../test/fixtures';
+import { Resampler } from './resampler';
+
+describe('Resampler', () => {
+  before(() => NodeEnvironment.install());
+
+  it('keeps dark averages within rounding of the exact sRGB value', () => {
+    const toLinear = (value: number) => (value <= 0.04045 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4));
+    const toSrgb = (value: number) => (value <= 0.0031308 ? value * 12.92 : 1.055 * Math.pow(value, 1 / 2.4) - 0.055);
+
+    // Every pair of dark levels, averaged by a 2:1 box filter
+    const pairs: number[][] = [];
+    for (let a = 0; a < 48; a++) {
+      for (let b = a; b < 48; b++) pairs.push([a, b]);
+    }
+    const image = createImage(pairs.length * 2, 1, x => new Array(3).fill(pairs[x >> 1][x & 1]));
+    const resized = Resampler.resample(
+      image,
+      { sourceX: 0, sourceY: 0, sourceWidth: image.width, sourceHeight: 1, width: pairs.length, height: 1 },
+      'box'
+    );
+
+    // Rounding alone is off by up to half a level; the lookup table may only add a little to that
+    pairs.forEach(([a, b], index) => {
+      const exact = 255 * toSrgb((toLinear(a / 255) + toLinear(b / 255)) / 2);
+      assert.ok(Math.abs(pixelAt(resized, index)[0] - exact) < 0.55, `average of ${a} and ${b}`);
+    });
+  });
+
+  it('averages in linear light', () => {
+    const image = createImage(2, 1, x => (x === 0 ? [0, 0, 0] : [255, 255, 255]));
+    const resized = Resampler.resample(image, { sourceX: 0, sourceY: 0, sourceWidth: 2, sourceHeight: 1, width: 1, height: 1 }, 'box');
+
+    // Half of the light is sRGB 188, not the 128 of averaging the encoded values
+    assert.deepEqual(pixelAt(resized, 0), [188, 188, 188]);
+  });
+});
@@ -0,0 +1,206 @@
+import type { OutputGeometry } from './imageGeometry';
+
+export type ResampleFilter = 'nearest' | 'bilinear' | 'bicubic' | 'mitchell' | 'lanczos2' | 'lanczos3' | 'box';
+
+interface FilterKernel {
+  support: number; // Radius in source pixels at 1:1 scale
+  weight: (x: number) => number;
+}
+
+// Contributions of the source pixels to each output pixel along one axis
+interface AxisWeights {
+  start: Int32Array;
+  count: Int32Array;
+  weights: Float32Array; // count[i] entries per output pixel, stride = maxCount
+  maxCount: number;
+}
+
+// Keys cubic (a = -0.5 is Catmull-Rom) and the Mitchell-Netravali family share one form
+function cubic(b: number, c: number) {
+  return (x: number) => {
+    x = Math.abs(x);
+    if (x < 1) {
+      return ((12 - 9 * b - 6 * c) * x * x * x + (-18 + 12 * b + 6 * c) * x * x + (6 - 2 * b)) / 6;
+    }
+    if (x < 2) {
+      return ((-b - 6 * c) * x * x * x + (6 * b + 30 * c) * x * x + (-12 * b - 48 * c) * x + (8 * b + 24 * c)) / 6;
+    }
+    return 0;
+  };
+}
+
+function sinc(x: number): number {
+  if (x === 0) return 1;
+  const px = Math.PI * x;
+  return Math.sin(px) / px;
+}
+
+function lanczos(lobes: number) {
+  return (x: number) => (Math.abs(x) < lobes ? sinc(x) * sinc(x / lobes) : 0);
+}
+
+const KERNELS: Record<Exclude<ResampleFilter, 'nearest'>, FilterKernel> = {
+  box: { support: 0.5, weight: x => (x >= -0.5 && x < 0.5 ? 1 : 0) },
+  bilinear: { support: 1, weight: x => Math.max(0, 1 - Math.abs(x)) },
+  bicubic: { support: 2, weight: cubic(0, 0.5) },
+  mitchell: { support: 2, weight: cubic(1 / 3, 1 / 3) },
+  lanczos2: { support: 2, weight: lanczos(2) },
+  lanczos3: { support: 3, weight: lanczos(3) },
+};
+
+// sRGB transfer curve lookups: 8-bit to linear, and 16-bit linear back to 8-bit. Dark 8-bit codes
+// are less than 0.0003 apart in linear light, so a coarser table would merge them into bands.
+const LINEAR_STEPS = 65535;
+const SRGB_TO_LINEAR = new Float32Array(256);
+const LINEAR_TO_SRGB = new Uint8ClampedArray(LINEAR_STEPS + 1);
+for (let i = 0; i < 256; i++) {
+  const value = i / 255;
+  SRGB_TO_LINEAR[i] = value <= 0.04045 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+}
+for (let i = 0; i <= LINEAR_STEPS; i++) {
+  const value = i / LINEAR_STEPS;
+  LINEAR_TO_SRGB[i] = Math.round(255 * (value <= 0.0031308 ? value * 12.92 : 1.055 * Math.pow(value, 1 / 2.4) - 0.055));
+}
+
+/**
+ * Separable image resampling with selectable filters. Pixels are averaged in
+ * linear light with premultiplied alpha, so downscaling keeps brightness and
+ * doesn't bleed the colour of transparent pixels. Filters widen with the
+ * reduction factor, which turns every kernel into a proper low-pass filter.
+ */
+export class Resampler {
+  // Whether the geometry scales the source at all; pure crops are copied as-is
+  static isScaled(geometry: OutputGeometry): boolean {
+    return geometry.width !== geometry.sourceWidth || geometry.height !== geometry.sourceHeight;
+  }
+
+  static resample(source: ImageData, geometry: OutputGeometry, filter: ResampleFilter = 'lanczos3'): ImageData {
+    const { sourceX, sourceY, sourceWidth, sourceHeight, width, height } = geometry;
+    const horizontal = this.computeWeights(source.width, sourceX, sourceWidth, width, filter);
+    const vertical = this.computeWeights(source.height, sourceY, sourceHeight, height, filter);
+
+    // Only the source rows some output row reads from are filtered horizontally
+    let firstRow = source.height;
+    let lastRow = 0;
+    for (let y = 0; y < height; y++) {
+      if (vertical.count[y] === 0) continue;
+      firstRow = Math.min(firstRow, vertical.start[y]);
+      lastRow = Math.max(lastRow, vertical.start[y] + vertical.count[y]);
+    }
+
+    const rows = Math.max(0, lastRow - firstRow);
+    const intermediate = new Float32Array(rows * width * 4);
+    const input = source.data;
+
+    // Horizontal pass: premultiplied linear RGBA for the needed rows
+    for (let row = 0; row < rows; row++) {
+      const inputRow = (firstRow + row) * source.width * 4;
+      const outputRow = row * width * 4;
+
+      for (let x = 0; x < width; x++) {
+        let r = 0, g = 0, b = 0, a = 0;
+        const start = horizontal.start[x];
+        const weightOffset = x * horizontal.maxCount;
+
+        for (let k = 0; k < horizontal.count[x]; k++) {
+          const weight = horizontal.weights[weightOffset + k];
+          const index = inputRow + (start + k) * 4;
+          const alpha = input[index + 3] / 255 * weight;
+          r += SRGB_TO_LINEAR[input[index]] * alpha;
+          g += SRGB_TO_LINEAR[input[index + 1]] * alpha;
+          b += SRGB_TO_LINEAR[input[index + 2]] * alpha;
+          a += alpha;
+        }
+
+        const index = outputRow + x * 4;
+        intermediate[index] = r;
+        intermediate[index + 1] = g;
+        intermediate[index + 2] = b;
+        intermediate[index + 3] = a;
+      }
+    }
+
+    // Vertical pass, then back to straight-alpha sRGB
+    const output = new Uint8ClampedArray(width * height * 4);
+    for (let y = 0; y < height; y++) {
+      const start = vertical.start[y] - firstRow;
+      const weightOffset = y * vertical.maxCount;
+
+      for (let x = 0; x < width; x++) {
+        let r = 0, g = 0, b = 0, a = 0;
+        for (let k = 0; k < vertical.count[y]; k++) {
+          const weight = vertical.weights[weightOffset + k];
+          const index = ((start + k) * width + x) * 4;
+          r += intermediate[index] * weight;
+          g += intermediate[index + 1] * weight;
+          b += intermediate[index + 2] * weight;
+          a += intermediate[index + 3] * weight;
+        }
+
+        if (a <= 0) continue; // Fully transparent
+        const index = (y * width + x) * 4;
+        output[index] = this.toSrgb(r / a);
+        output[index + 1] = this.toSrgb(g / a);
+        output[index + 2] = this.toSrgb(b / a);
+        output[index + 3] = Math.round(Math.min(1, a) * 255);
+      }
+    }
+
+    return new ImageData(output, width, height);
+  }
+
+  private static toSrgb(linear: number): number {
+    return LINEAR_TO_SRGB[Math.round(Math.min(1, Math.max(0, linear)) * LINEAR_STEPS)];
+  }
+
+  private static computeWeights(
+    size: number,
+    regionStart: number,
+    regionSize: number,
+    outputSize: number,
+    filter: ResampleFilter
+  ): AxisWeights {
+    const scale = regionSize / outputSize;
+    // Downscaling stretches the kernel over all covered source pixels
+    const filterScale = Math.max(scale, 1);
+    const kernel = filter === 'nearest' ? null : KERNELS[filter];
+    const support = kernel ? kernel.support * filterScale : 0.5;
+    const maxCount = Math.ceil(support * 2) + 2;
+
+    const start = new Int32Array(outputSize);
+    const count = new Int32Array(outputSize);
+    const weights = new Float32Array(outputSize * maxCount);
+
+    for (let i = 0; i < outputSize; i++) {
+      const center = regionStart + (i + 0.5) * scale;
+      // Output pixels centred outside the image stay transparent, like drawImage
+      if (center < 0 || center >= size) continue;
+
+      if (!kernel) {
+        start[i] = Math.min(size - 1, Math.floor(center));
+        count[i] = 1;
+        weights[i * maxCount] = 1;
+        continue;
+      }
+
+      const first = Math.max(0, Math.floor(center - support));
+      const last = Math.min(size, Math.ceil(center + support));
+      let total = 0;
+      for (let j = first; j < last; j++) {
+        const weight = kernel.weight((j + 0.5 - center) / filterScale);
+        weights[i * maxCount + j - first] = weight;
+        total += weight;
+      }
+
+      start[i] = first;
+      count[i] = last - first;
+      if (total !== 0) {
+        for (let k = 0; k < count[i]; k++) {
+          weights[i * maxCount + k] /= total;
+        }
+      }
+    }
+
+    return { start, count, weights, maxCount };
+  }
+}
@@ -0,0 +1,261 @@
+import type { ConversionSettings } from '../components/ConversionOptions';
+import { ANIMATED_OUTPUT_FORMATS, FrameCompositor } from './animatedImage';
+import { ApngCodec } from './apngCodec';
+import { AutoQuality } from './autoQuality';
+import { AvifCodec } from './avifCodec';
+import { FileNameTemplate } from './fileNameTemplate';
+import { GifCodec } from './gifCodec';
+import { HeifEncoder } from './heifEncoder';
+import { HighPrecision } from './highPrecisionImage';
+import { ImageGeometry, OutputGeometry } from './imageGeometry';
+import { JxlCodec } from './jxlCodec';
+import { PngDecoder } from './pngDecoder';
+import { RasterEncoder } from './rasterEncoder';
+import { TiffDecoder } from './tiffDecoder';
+import { WebpAnimation } from './webpAnimation';
+
+type Fallback = () => Promise<number>;
+
+interface Source {
+  bitmap: ImageBitmap;
+  width: number;
+  height: number;
+}
+
+const TILE_SIZE = 64; // Output pixels per side of each sampled tile
+const TILE_GRID = 3; // Tiles are taken from the centre of a 3×3 grid
+const PROBE_SIZE = 16; // Output pixels per side of each entropy probe
+const PROBE_GRID = 8;
+const MAX_CACHED_ESTIMATES = 500;
+const MAX_CACHED_SOURCES = 2; // Decoded images are large, so only the most recent are kept
+
+/**
+ * Fast output size prediction. Instead of converting the whole image, a
+ * mosaic of tiles at the output scale is encoded with the real encoder and
+ * its bytes per pixel are extrapolated to the output size, corrected by how
+ * much more (or less) detail the whole image has than the sampled tiles.
+ * Results are cached by file hash and settings.
+ */
+export class SizeEstimator {
+  private static estimates = new Map<string, number>();
+  private static hashes = new WeakMap<File, Promise<string>>();
+  private static sources = new Map<File, Promise<Source | null>>();
+
+  static async estimate(
+    file: File,
+    settings: ConversionSettings,
+    fallback: Fallback,
+    abortSignal?: AbortSignal
+  ): Promise<number> {
+    if (!file.size) return 0;
+
+    const key = `${await this.getHash(file)}:${this.getSettingsKey(settings)}`;
+    const cached = this.estimates.get(key);
+    if (cached !== undefined) return cached;
+    this.throwIfAborted(abortSignal);
+
+    const source = await this.canSample(file, settings) ? await this.getSource(file) : null;
+    this.throwIfAborted(abortSignal);
+    const size = source ? await this.estimateFromSample(source, settings) : await fallback();
+    this.throwIfAborted(abortSignal);
+
+    // A target file size caps the output, the search only ever lowers it
+    const estimate = settings.targetSizeKB ? Math.min(size, settings.targetSizeKB * 1024) : size;
+    this.estimates.set(key, estimate);
+    if (this.estimates.size > MAX_CACHED_ESTIMATES) {
+      this.estimates.delete(this.estimates.keys().next().value!);
+    }
+    return estimate;
+  }
+
+  static clearCache() {
+    this.estimates.clear();
+    this.sources.forEach(source => source.then(decoded => decoded?.bitmap.close()));
+    this.sources.clear();
+  }
+
+  // Inputs and outputs the sampler can't reproduce fall back to a full conversion, as does
+  // auto quality, whose chosen quality depends on the whole image
+  private static async canSample(file: File, settings: ConversionSettings): Promise<boolean> {
+    // TIFF layout options (tiles, pyramids, strips) don't scale with a sample of the pixels
+    if (!RasterEncoder.supports(settings.outputFormat) || settings.outputFormat === 'tiff' ||
+        AutoQuality.isActive(settings)) {
+      return false;
+    }
+
+    const bytes = new Uint8Array(await file.slice(0, 64 * 1024).arrayBuffer());
+    const isSvg = file.type === 'image/svg+xml' || file.name.toLowerCase().endsWith('.svg');
+    const isHeif = HeifEncoder.isHeif(bytes) && !(await AvifCodec.isAvif(file));
+    if (isSvg || TiffDecoder.isTiff(bytes) || isHeif) return false;
+
+    // 16-bit samples would be estimated from an 8-bit sample
+    if (HighPrecision.isSupportedBy(settings) && PngDecoder.isHighBitDepth(bytes)) return false;
+
+    // Frame counts multiply the size, only the full converter knows them
+    const keepsFrames = settings.extractFrames ||
+      (settings.preserveAnimation !== false && ANIMATED_OUTPUT_FORMATS.includes(settings.outputFormat));
+    return !(keepsFrames && (GifCodec.isGif(bytes) || ApngCodec.isAnimated(bytes) || WebpAnimation.isAnimated(bytes)));
+  }
+
+  private static async estimateFromSample(source: Source, settings: ConversionSettings): Promise<number> {
+    const geometry = ImageGeometry.calculateOutputGeometry(source.width, source.height, settings);
+    const mosaicSize = TILE_SIZE * TILE_GRID;
+
+    // Small outputs are cheap enough to encode whole
+    if (geometry.width <= mosaicSize || geometry.height <= mosaicSize) {
+      const ctx = FrameCompositor.createContext(geometry.width, geometry.height);
+      ctx.drawImage(source.bitmap, geometry.sourceX, geometry.sourceY, geometry.sourceWidth, geometry.sourceHeight,
+        0, 0, geometry.width, geometry.height);
+      const blob = await RasterEncoder.encode(ctx.getImageData(0, 0, geometry.width, geometry.height), settings);
+      return blob.size;
+    }
+
+    const mosaic = FrameCompositor.createContext(mosaicSize, mosaicSize);
+    this.getGridPositions(geometry, TILE_GRID, TILE_SIZE).forEach(({ x, y }, index) => {
+      this.drawOutputRegion(mosaic, source, geometry, x, y, TILE_SIZE, TILE_SIZE,
+        (index % TILE_GRID) * TILE_SIZE, Math.floor(index / TILE_GRID) * TILE_SIZE);
+    });
+
+    // A single tile encoded on its own approximates the container and header overhead
+    const mosaicData = mosaic.getImageData(0, 0, mosaicSize, mosaicSize);
+    const [mosaicBlob, headerBlob] = await Promise.all([
+      RasterEncoder.encode(mosaicData, settings),
+      RasterEncoder.encode(mosaic.getImageData(0, 0, 8, 8), settings),
+    ]);
+    const overhead = headerBlob.size;
+    const bytesPerPixel = Math.max(0, mosaicBlob.size - overhead) / (mosaicSize * mosaicSize);
+
+    const outputPixels = geometry.width * geometry.height;
+    return Math.round(overhead + bytesPerPixel * outputPixels * this.getEntropyRatio(source, geometry, mosaicData));
+  }
+
+  // Top-left output coordinates of a size×size region at the centre of each grid cell
+  private static getGridPositions(geometry: OutputGeometry, grid: number, size: number): { x: number; y: number }[] {
+    const positions: { x: number; y: number }[] = [];
+    for (let row = 0; row < grid; row++) {
+      for (let column = 0; column < grid; column++) {
+        positions.push({
+          x: Math.round(((column + 0.5) * geometry.width) / grid - size / 2),
+          y: Math.round(((row + 0.5) * geometry.height) / grid - size / 2),
+        });
+      }
+    }
+    return positions;
+  }
+
+  // Draws an output-space rectangle of the cropped and resized image into ctx
+  private static drawOutputRegion(
+    ctx: CanvasRenderingContext2D,
+    source: Source,
+    geometry: OutputGeometry,
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    targetX: number,
+    targetY: number
+  ) {
+    const scaleX = geometry.sourceWidth / geometry.width;
+    const scaleY = geometry.sourceHeight / geometry.height;
+    ctx.drawImage(
+      source.bitmap,
+      geometry.sourceX + x * scaleX, geometry.sourceY + y * scaleY, width * scaleX, height * scaleY,
+      targetX, targetY, width, height
+    );
+  }
+
+  // How much more detail the whole image has than the sampled tiles, judged from many small
+  // probes at the output scale that are cheap to measure but not to encode
+  private static getEntropyRatio(source: Source, geometry: OutputGeometry, mosaic: ImageData): number {
+    const probeCanvasSize = PROBE_SIZE * PROBE_GRID;
+    const probes = FrameCompositor.createContext(probeCanvasSize, probeCanvasSize);
+    this.getGridPositions(geometry, PROBE_GRID, PROBE_SIZE).forEach(({ x, y }, index) => {
+      this.drawOutputRegion(probes, source, geometry, x, y, PROBE_SIZE, PROBE_SIZE,
+        (index % PROBE_GRID) * PROBE_SIZE, Math.floor(index / PROBE_GRID) * PROBE_SIZE);
+    });
+
+    const whole = this.getAverageEntropy(probes.getImageData(0, 0, probeCanvasSize, probeCanvasSize), PROBE_GRID, PROBE_SIZE);
+    const sampled = this.getAverageEntropy(mosaic, TILE_GRID, TILE_SIZE);
+    if (sampled < 0.01) return whole < 0.01 ? 1 : 2;
+    return Math.min(2, Math.max(0.5, whole / sampled));
+  }
+
+  private static getAverageEntropy(image: ImageData, grid: number, size: number): number {
+    let total = 0;
+    for (let index = 0; index < grid * grid; index++) {
+      total += this.getEntropy(image.data, image.width, (index % grid) * size, Math.floor(index / grid) * size, size, size);
+    }
+    return total / (grid * grid);
+  }
+
+  // Shannon entropy (bits) of horizontal luma differences inside a region
+  private static getEntropy(data: Uint8ClampedArray, stride: number, x0: number, y0: number, width: number, height: number): number {
+    const histogram = new Uint32Array(256);
+    const endX = Math.min(stride, x0 + width);
+    const endY = Math.min(data.length / 4 / stride, y0 + height);
+    let count = 0;
+    for (let y = Math.max(0, y0); y < endY; y++) {
+      let previous = -1;
+      for (let x = Math.max(0, x0); x < endX; x++) {
+        const i = (y * stride + x) * 4;
+        const luma = (data[i] * 77 + data[i + 1] * 150 + data[i + 2] * 29) >> 8;
+        if (previous >= 0) {
+          histogram[Math.abs(luma - previous)]++;
+          count++;
+        }
+        previous = luma;
+      }
+    }
+
+    let entropy = 0;
+    for (const bucket of histogram) {
+      if (bucket === 0) continue;
+      const p = bucket / count;
+      entropy -= p * Math.log2(p);
+    }
+    return entropy;
+  }
+
+  private static getSource(file: File): Promise<Source | null> {
+    let source = this.sources.get(file);
+    if (!source) {
+      source = this.decode(file).catch(() => null);
+      this.sources.set(file, source);
+      if (this.sources.size > MAX_CACHED_SOURCES) {
+        const [oldestFile, oldest] = this.sources.entries().next().value!;
+        this.sources.delete(oldestFile);
+        oldest.then(decoded => decoded?.bitmap.close());
+      }
+    }
+    return source;
+  }
+
+  private static async decode(file: File): Promise<Source> {
+    const bitmap = await AvifCodec.isAvif(file)
+      ? await createImageBitmap(await AvifCodec.decode(file))
+      : await JxlCodec.isJxl(file)
+        ? await createImageBitmap(await JxlCodec.decode(file))
+        : await createImageBitmap(file, { imageOrientation: 'from-image' });
+    return { bitmap, width: bitmap.width, height: bitmap.height };
+  }
+
+  private static getHash(file: File): Promise<string> {
+    let hash = this.hashes.get(file);
+    if (!hash) {
+      hash = FileNameTemplate.hash(file);
+      this.hashes.set(file, hash);
+    }
+    return hash;
+  }
+
+  // Settings that don't change the encoded bytes are left out of the cache key
+  private static getSettingsKey(settings: ConversionSettings): string {
+    return JSON.stringify({ ...settings, fileNameTemplate: undefined, recipe: undefined });
+  }
+
+  private static throwIfAborted(abortSignal?: AbortSignal) {
+    if (abortSignal?.aborted) {
+      throw new DOMException('Size estimate cancelled', 'AbortError');
+    }
+  }
+}
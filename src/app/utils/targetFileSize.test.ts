@@ -0,0 +1,106 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { ConversionSettings } from '../components/ConversionOptions';
+import { createSettings as createBaseSettings, recordAttempts } from '../../test/fixtures';
+import { TargetFileSize } from './targetFileSize';
+
+const KB = 1024;
+
+function createSettings(overrides: Partial<ConversionSettings>): ConversionSettings {
+  return createBaseSettings({ outputFormat: 'jpeg', quality: 90, ...overrides });
+}
+
+// Output size grows with quality and with the pixel count, like a real encoder
+function createEncoder(bytesPerQuality: number, basePixels = 1000 * 1000) {
+  return recordAttempts(async settings => {
+    const pixels = (settings.maxWidth ?? 1000) * (settings.maxHeight ?? 1000);
+    return new Blob([new Uint8Array(Math.round(settings.quality * bytesPerQuality * pixels / basePixels))]);
+  });
+}
+
+const measure = async () => ({ width: 1000, height: 1000 });
+
+describe('TargetFileSize', () => {
+  it('is only active for lossy formats with a budget', () => {
+    assert.equal(TargetFileSize.isActive(createSettings({ targetSizeKB: 100 })), true);
+    assert.equal(TargetFileSize.isActive(createSettings({ targetSizeKB: 0 })), false);
+    assert.equal(TargetFileSize.isActive(createSettings({ targetSizeKB: 100, outputFormat: 'png' })), false);
+    assert.equal(TargetFileSize.isActive(createSettings({ targetSizeKB: 100, outputFormat: 'webp', lossless: true })), false);
+    assert.equal(TargetFileSize.isActive(createSettings({ targetSizeKB: 100, outputFormat: 'avif', avifLossless: true })), false);
+  });
+
+  it('keeps the requested quality when it already fits', async () => {
+    const { attempts, encode } = createEncoder(KB);
+    const result = await TargetFileSize.search(createSettings({ targetSizeKB: 100 }), encode, measure);
+
+    assert.equal(result.quality, 90);
+    assert.equal(result.met, true);
+    assert.equal(attempts.length, 1);
+  });
+
+  it('finds the highest quality that fits the budget', async () => {
+    const { encode } = createEncoder(KB);
+    const result = await TargetFileSize.search(createSettings({ targetSizeKB: 42.5 }), encode, measure);
+
+    assert.equal(result.quality, 42);
+    assert.equal(result.met, true);
+    assert.ok(result.blob.size <= 42.5 * KB);
+  });
+
+  it('returns the smallest attempt when nothing fits', async () => {
+    const { encode } = createEncoder(KB);
+    const result = await TargetFileSize.search(createSettings({ targetSizeKB: 2 }), encode, measure);
+
+    assert.equal(result.quality, 5);
+    assert.equal(result.met, false);
+  });
+
+  it('encodes the lowest quality only once', async () => {
+    for (const quality of [5, 3]) {
+      const { attempts, encode } = createEncoder(KB);
+      const result = await TargetFileSize.search(createSettings({ targetSizeKB: 1, quality }), encode, measure);
+
+      assert.deepEqual(attempts.map(attempt => attempt.quality), [quality]);
+      assert.equal(result.met, false);
+    }
+  });
+
+  it('shrinks the dimensions when resizing is allowed', async () => {
+    const { encode } = createEncoder(KB);
+    const result = await TargetFileSize.search(
+      createSettings({ targetSizeKB: 2, targetSizeAllowResize: true }), encode, measure
+    );
+
+    assert.equal(result.met, true);
+    assert.ok(result.width! < 1000 && result.height! < 1000);
+    assert.ok(result.blob.size <= 2 * KB);
+  });
+
+  // Regression: attempts used to keep auto-quality, so every attempt ran its own quality search
+  it('turns off auto-quality and encoder size targeting inside attempts', async () => {
+    const { attempts, encode } = createEncoder(KB);
+    await TargetFileSize.search(createSettings({
+      targetSizeKB: 42.5,
+      webpTargetSizeKB: 50,
+      autoQuality: { jpeg: { enabled: true, metric: 'ssim', target: 0.99 } },
+    }), encode, measure);
+
+    assert.ok(attempts.length > 1);
+    for (const attempt of attempts) {
+      assert.equal(attempt.autoQuality, undefined);
+      assert.equal(attempt.targetSizeKB, 0);
+      assert.equal(attempt.webpTargetSizeKB, 0);
+    }
+  });
+
+  it('stops when cancelled', async () => {
+    const { encode } = createEncoder(KB);
+    const controller = new AbortController();
+    controller.abort();
+
+    await assert.rejects(
+      TargetFileSize.search(createSettings({ targetSizeKB: 10 }), encode, measure, controller.signal),
+      /cancelled/
+    );
+  });
+});
@@ -0,0 +1,106 @@
+import type { ConversionSettings } from '../components/ConversionOptions';
+
+export interface TargetFileSizeResult {
+  blob: Blob;
+  quality: number; // Quality the output was encoded with
+  width?: number; // Set when the image had to be downscaled
+  height?: number;
+  met: boolean; // False when even the smallest attempt is over the budget
+}
+
+type Encode = (settings: ConversionSettings) => Promise<Blob>;
+type Measure = (blob: Blob) => Promise<{ width: number; height: number }>;
+
+const SUPPORTED_FORMATS = ['jpeg', 'webp', 'avif'];
+const MIN_QUALITY = 5;
+const MAX_RESIZE_ROUNDS = 4;
+const MIN_DIMENSION = 16;
+
+/**
+ * Target-file-size mode: binary searches the quality (and, when allowed, the
+ * dimensions) for the best output that fits in settings.targetSizeKB. The
+ * encoder is passed in so the app and the CLI share the search.
+ */
+export class TargetFileSize {
+  static isActive(settings: ConversionSettings): boolean {
+    return !!settings.targetSizeKB && settings.targetSizeKB > 0 && this.supports(settings);
+  }
+
+  // Lossless output ignores quality, so there is nothing to search
+  static supports(settings: ConversionSettings): boolean {
+    if (!SUPPORTED_FORMATS.includes(settings.outputFormat)) return false;
+    if (settings.outputFormat === 'webp') return !settings.lossless;
+    if (settings.outputFormat === 'avif') return !settings.avifLossless;
+    return true;
+  }
+
+  static async search(
+    settings: ConversionSettings,
+    encode: Encode,
+    measure: Measure,
+    abortSignal?: AbortSignal
+  ): Promise<TargetFileSizeResult> {
+    const budget = settings.targetSizeKB! * 1024;
+    // The search replaces the encoder's own WebP size targeting and any auto-quality target
+    let current: ConversionSettings = { ...settings, autoQuality: undefined, targetSizeKB: 0, webpTargetSizeKB: 0 };
+    let dimensions: { width: number; height: number } | undefined;
+
+    for (let round = 0; ; round++) {
+      const result = await this.searchQuality(current, budget, encode, abortSignal);
+      if (result.met || !settings.targetSizeAllowResize || round === MAX_RESIZE_ROUNDS) {
+        return { ...result, ...dimensions };
+      }
+
+      // File size grows roughly with the pixel count, so shrink both sides by the square root
+      const { width, height } = await measure(result.blob);
+      const scale = Math.sqrt(budget / result.blob.size) * 0.95;
+      dimensions = {
+        width: Math.max(MIN_DIMENSION, Math.floor(width * scale)),
+        height: Math.max(MIN_DIMENSION, Math.floor(height * scale)),
+      };
+      if (dimensions.width === width && dimensions.height === height) {
+        return { ...result, ...dimensions };
+      }
+      current = { ...current, maxWidth: dimensions.width, maxHeight: dimensions.height, maintainAspectRatio: true };
+    }
+  }
+
+  // Highest integer quality up to settings.quality whose output fits the budget
+  private static async searchQuality(
+    settings: ConversionSettings,
+    budget: number,
+    encode: Encode,
+    abortSignal?: AbortSignal
+  ): Promise<Omit<TargetFileSizeResult, 'width' | 'height'>> {
+    const attempt = async (quality: number) => {
+      if (abortSignal?.aborted) {
+        throw new Error('Conversion cancelled');
+      }
+      return { blob: await encode({ ...settings, quality }), quality };
+    };
+
+    const highest = await attempt(settings.quality);
+    if (highest.blob.size <= budget) return { ...highest, met: true };
+
+    // Already at the lowest quality: there is nothing left to try
+    let low = Math.min(MIN_QUALITY, Math.floor(settings.quality));
+    if (low >= settings.quality) return { ...highest, met: false };
+
+    const lowest = await attempt(low);
+    if (lowest.blob.size > budget) return { ...lowest, met: false };
+
+    let best = lowest;
+    let high = Math.ceil(settings.quality) - 1;
+    while (low < high) {
+      const quality = Math.ceil((low + high) / 2);
+      const candidate = await attempt(quality);
+      if (candidate.blob.size <= budget) {
+        best = candidate;
+        low = quality;
+      } else {
+        high = quality - 1;
+      }
+    }
+    return { ...best, met: true };
+  }
+}
@@ -0,0 +1,150 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { inflateSync } from 'node:zlib';
+import { TiffCompression, TiffSamples } from './tiffCompression';
+
+const COMPRESSIONS = ['none', 'lzw', 'deflate', 'packbits'];
+
+// Runs, repeats and noise, so every codec path is exercised
+function createBytes(length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  let seed = 1;
+  for (let i = 0; i < length; i++) {
+    seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+    bytes[i] = i % 1000 < 300 ? 7 : i % 1000 < 600 ? (i >> 3) & 255 : seed >> 23;
+  }
+  return bytes;
+}
+
+// Codes of an LZW block, read MSB-first at the widths a TIFF reader uses
+function readLzwCodes(block: Uint8Array): number[] {
+  const codes: number[] = [];
+  let tableSize = 258;
+  let width = 9;
+  for (let bit = 0; bit + width <= block.length * 8;) {
+    let code = 0;
+    for (let i = 0; i < width; i++, bit++) code = (code << 1) | ((block[bit >> 3] >> (7 - (bit & 7))) & 1);
+    codes.push(code);
+    if (code === 257) break;
+    // Every code but the first after a clear adds a table entry; widths grow one entry early
+    tableSize = code === 256 ? 258 : codes.length > 1 && codes[codes.length - 2] !== 256 ? tableSize + 1 : tableSize;
+    width = tableSize >= 2047 ? 12 : tableSize >= 1023 ? 11 : tableSize >= 511 ? 10 : 9;
+  }
+  return codes;
+}
+
+function roundTrip(samples: TiffSamples, compression: string, predictor: number, rowLength: number, samplesPerPixel: number) {
+  const bytes = TiffCompression.predict(samples, predictor, rowLength, samplesPerPixel);
+  const compressed = TiffCompression.compress(bytes, compression, rowLength * samples.BYTES_PER_ELEMENT);
+  const decompressed = TiffCompression.decompress(compressed, TiffCompression.getCode(compression), bytes.length);
+  return TiffCompression.unpredict(
+    decompressed, predictor, rowLength, samplesPerPixel, samples.BYTES_PER_ELEMENT, samples instanceof Float32Array, true
+  );
+}
+
+describe('TiffCompression', () => {
+  for (const compression of COMPRESSIONS) {
+    it(`round-trips ${compression} blocks`, () => {
+      const bytes = createBytes(20000);
+      const compressed = TiffCompression.compress(bytes, compression, 500);
+      assert.deepEqual(TiffCompression.decompress(compressed, TiffCompression.getCode(compression), bytes.length), bytes);
+    });
+  }
+
+  it('compresses repetitive data', () => {
+    const bytes = new Uint8Array(10000).fill(42);
+    for (const compression of ['lzw', 'deflate', 'packbits']) {
+      assert.ok(TiffCompression.compress(bytes, compression, 100).length < 1000, compression);
+    }
+  });
+
+  it('round-trips empty and single byte LZW blocks', () => {
+    for (const bytes of [new Uint8Array(0), new Uint8Array([200])]) {
+      assert.deepEqual(TiffCompression.decompress(TiffCompression.compress(bytes, 'lzw', 1), 5, bytes.length), bytes);
+    }
+  });
+
+  // Enough distinct strings to fill the 12-bit table and restart it
+  it('resets the LZW table when it fills', () => {
+    const bytes = createBytes(200000).map((value, i) => (value + i * 31) & 255);
+    const compressed = TiffCompression.compress(bytes, 'lzw', bytes.length);
+    assert.deepEqual(TiffCompression.decompress(compressed, 5, bytes.length), bytes);
+  });
+
+  // The examples of the TIFF 6.0 specification, sections 9 and 13
+  it('packs the PackBits example of the specification', () => {
+    const unpacked = [0xaa, 0xaa, 0xaa, 0x80, 0x00, 0x2a, 0xaa, 0xaa, 0xaa, 0xaa, 0x80, 0x00, 0x2a, 0x22, ...new Array(10).fill(0xaa)];
+    const packed = [0xfe, 0xaa, 0x02, 0x80, 0x00, 0x2a, 0xfd, 0xaa, 0x03, 0x80, 0x00, 0x2a, 0x22, 0xf7, 0xaa];
+
+    assert.deepEqual(Array.from(TiffCompression.compress(new Uint8Array(unpacked), 'packbits', unpacked.length)), packed);
+    assert.deepEqual(Array.from(TiffCompression.decompress(new Uint8Array(packed), 32773, unpacked.length)), unpacked);
+  });
+
+  it('codes the LZW example of the specification', () => {
+    const compressed = TiffCompression.compress(new Uint8Array([7, 7, 7, 8, 8, 7, 7, 6, 6]), 'lzw', 9);
+    assert.deepEqual(readLzwCodes(compressed), [256, 7, 258, 8, 8, 258, 6, 6, 257]);
+  });
+
+  it('starts LZW blocks with a clear code and ends them with end of information', () => {
+    const codes = readLzwCodes(TiffCompression.compress(createBytes(5000), 'lzw', 500));
+    assert.equal(codes[0], 256);
+    assert.equal(codes[codes.length - 1], 257);
+    // Read through the widening to 10 bits
+    assert.ok(codes.some(code => code >= 512));
+  });
+
+  it('writes Deflate blocks as zlib streams', () => {
+    const bytes = createBytes(20000);
+    assert.deepEqual(new Uint8Array(inflateSync(TiffCompression.compress(bytes, 'deflate', 500))), bytes);
+  });
+
+  it('packs PackBits rows separately', () => {
+    // Two rows of four equal bytes become two runs instead of one
+    const packed = TiffCompression.compress(new Uint8Array(8).fill(9), 'packbits', 4);
+    assert.deepEqual(Array.from(packed), [253, 9, 253, 9]);
+  });
+
+  it('reads the PackBits literal, run and no-op codes', () => {
+    const packed = new Uint8Array([2, 1, 2, 3, 128, 254, 5]);
+    assert.deepEqual(Array.from(TiffCompression.decompress(packed, 32773, 6)), [1, 2, 3, 5, 5, 5]);
+  });
+
+  it('zero-fills short blocks to the expected length', () => {
+    assert.deepEqual(Array.from(TiffCompression.decompress(new Uint8Array([1, 2]), 1, 4)), [1, 2, 0, 0]);
+  });
+
+  it('rejects compressions it cannot decode', () => {
+    assert.throws(() => TiffCompression.decompress(new Uint8Array(4), 7, 4), /Unsupported TIFF compression 7/);
+  });
+
+  for (const compression of ['lzw', 'deflate']) {
+    it(`undoes horizontal differencing of 8 and 16-bit samples (${compression})`, () => {
+      const rowLength = 30 * 3;
+      const bytes = new Uint8Array(rowLength * 10).map((_, i) => (i * 37) & 255);
+      const words = new Uint16Array(rowLength * 10).map((_, i) => (i * 7919) & 0xffff);
+
+      assert.deepEqual(roundTrip(bytes, compression, 2, rowLength, 3), bytes);
+      assert.deepEqual(roundTrip(words, compression, 2, rowLength, 3), words);
+    });
+
+    it(`undoes the floating point predictor (${compression})`, () => {
+      const rowLength = 17 * 4;
+      const floats = new Float32Array(rowLength * 6).map((_, i) => Math.sin(i) * 4);
+      assert.deepEqual(roundTrip(floats, compression, 3, rowLength, 4), floats);
+    });
+  }
+
+  it('differences each row on its own', () => {
+    const samples = new Uint8Array([10, 20, 30, 40, 50, 60]);
+    assert.deepEqual(Array.from(TiffCompression.predict(samples, 2, 3, 1)), [10, 10, 10, 40, 10, 10]);
+  });
+
+  it('reads big-endian samples', () => {
+    const bytes = new Uint8Array([0x12, 0x34, 0xab, 0xcd]);
+    assert.deepEqual(Array.from(TiffCompression.unpredict(bytes, 1, 2, 1, 2, false, false)), [0x1234, 0xabcd]);
+  });
+
+  it('reverses the bits of every byte', () => {
+    assert.deepEqual(Array.from(TiffCompression.reverseBits(new Uint8Array([0x01, 0x80, 0xf0, 0xa5]))), [0x80, 0x01, 0x0f, 0xa5]);
+  });
+});
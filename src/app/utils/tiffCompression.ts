@@ -0,0 +1,361 @@
+import pako from 'pako';
+import { JpegChromaSubsampling, MozJpegEncoder } from './mozjpegEncoder';
+
+export type TiffSamples = Uint8Array | Uint16Array | Uint32Array | Float32Array;
+
+const LZW_CLEAR = 256;
+const LZW_END_OF_INFORMATION = 257;
+const LZW_FIRST_CODE = 258;
+const LZW_MIN_BITS = 9;
+const LZW_MAX_CODE = 4095;
+const PACKBITS_MAX_RUN = 128;
+
+/**
+ * Strip codecs for the TIFF writer: LZW, Adobe Deflate, PackBits and
+ * JPEG, plus the horizontal differencing and floating point predictors.
+ * Multi-byte samples are little-endian, matching the "II" header.
+ * The lossless codecs and predictors also decode, for TiffDecoder.
+ */
+export class TiffCompression {
+  static getCode(compression: string): number {
+    switch (compression) {
+      case 'lzw': return 5;
+      case 'deflate': return 8; // Adobe Deflate (zlib)
+      case 'jpeg': return 7; // TIFF 6.0 technote 2 "new-style" JPEG
+      case 'packbits': return 32773;
+      default: return 1; // No compression
+    }
+  }
+
+  static supportsPredictor(compression: string): boolean {
+    return compression === 'lzw' || compression === 'deflate';
+  }
+
+  // Applies the predictor to a copy of the rows and returns their bytes
+  static predict(samples: TiffSamples, predictor: number, rowLength: number, samplesPerPixel: number): Uint8Array {
+    if (predictor === 3) {
+      return this.predictFloatingPoint(this.toBytes(samples), samples.BYTES_PER_ELEMENT, rowLength, samplesPerPixel);
+    }
+
+    const copy = samples.slice();
+    if (predictor === 2) {
+      const mask = 2 ** (copy.BYTES_PER_ELEMENT * 8) - 1;
+      for (let row = 0; row < copy.length; row += rowLength) {
+        // Right to left, so every sample is differenced against the original value
+        for (let i = row + rowLength - 1; i >= row + samplesPerPixel; i--) {
+          copy[i] = (copy[i] - copy[i - samplesPerPixel]) & mask;
+        }
+      }
+    }
+    return this.toBytes(copy);
+  }
+
+  static compress(bytes: Uint8Array, compression: string, rowBytes: number): Uint8Array {
+    switch (compression) {
+      case 'lzw':
+        return this.lzw(bytes);
+      case 'deflate':
+        return pako.deflate(bytes);
+      case 'packbits':
+        return this.packBits(bytes, rowBytes);
+      default:
+        return bytes;
+    }
+  }
+
+  // Inverse of compress; short or overlong blocks are cut or zero-filled to the expected length
+  static decompress(block: Uint8Array, compressionCode: number, expectedLength: number): Uint8Array {
+    switch (compressionCode) {
+      case 1:
+        return this.fit(block, expectedLength);
+      case 5:
+        return this.lzwDecode(block, expectedLength);
+      case 8:
+      case 32946: // Old-style Deflate
+        return this.fit(pako.inflate(block), expectedLength);
+      case 32773:
+        return this.packBitsDecode(block, expectedLength);
+      default:
+        throw new Error(`Unsupported TIFF compression ${compressionCode}`);
+    }
+  }
+
+  // Inverse of predict: reads the samples of decompressed rows and undoes the predictor
+  static unpredict(
+    bytes: Uint8Array,
+    predictor: number,
+    rowLength: number,
+    samplesPerPixel: number,
+    bytesPerSample: number,
+    isFloat: boolean,
+    littleEndian: boolean
+  ): TiffSamples {
+    if (predictor === 3) {
+      return new Float32Array(this.unpredictFloatingPoint(bytes, bytesPerSample, rowLength, samplesPerPixel).buffer);
+    }
+
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const samples = isFloat ? new Float32Array(bytes.length / 4)
+      : bytesPerSample === 2 ? new Uint16Array(bytes.length / 2)
+      : new Uint8Array(bytes.length);
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] = isFloat ? view.getFloat32(i * 4, littleEndian)
+        : bytesPerSample === 2 ? view.getUint16(i * 2, littleEndian)
+        : bytes[i];
+    }
+    if (predictor === 2) {
+      const mask = 2 ** (bytesPerSample * 8) - 1;
+      for (let row = 0; row < samples.length; row += rowLength) {
+        for (let i = row + samplesPerPixel; i < row + rowLength; i++) {
+          samples[i] = (samples[i] + samples[i - samplesPerPixel]) & mask;
+        }
+      }
+    }
+    return samples;
+  }
+
+  // FillOrder 2 stores the least significant bit of each byte first
+  static reverseBits(block: Uint8Array): Uint8Array {
+    const reversed = new Uint8Array(block.length);
+    for (let i = 0; i < block.length; i++) {
+      let byte = block[i];
+      byte = ((byte & 0xf0) >> 4) | ((byte & 0x0f) << 4);
+      byte = ((byte & 0xcc) >> 2) | ((byte & 0x33) << 2);
+      reversed[i] = ((byte & 0xaa) >> 1) | ((byte & 0x55) << 1);
+    }
+    return reversed;
+  }
+
+  // Each strip is a complete JPEG stream; RGB strips are stored as YCbCr
+  static async encodeJpeg(
+    imageData: ImageData,
+    quality: number,
+    grayscale: boolean,
+    chromaSubsampling: JpegChromaSubsampling
+  ): Promise<Uint8Array> {
+    const blob = await MozJpegEncoder.encode(imageData, { quality, chromaSubsampling, grayscale, optimizeHuffman: true });
+    return new Uint8Array(await blob.arrayBuffer());
+  }
+
+  // Codes are written MSB first and widen one code early, as libtiff does
+  private static lzw(data: Uint8Array): Uint8Array {
+    const output: number[] = [];
+    let buffer = 0;
+    let bufferBits = 0;
+    let codeBits = LZW_MIN_BITS;
+    let nextCode = LZW_FIRST_CODE;
+    const table = new Map<number, number>();
+
+    const write = (code: number) => {
+      buffer = (buffer << codeBits) | code;
+      bufferBits += codeBits;
+      while (bufferBits >= 8) {
+        bufferBits -= 8;
+        output.push((buffer >>> bufferBits) & 0xff);
+      }
+      buffer &= (1 << bufferBits) - 1;
+    };
+
+    const addCode = () => {
+      nextCode++;
+      if (nextCode === LZW_MAX_CODE - 1) {
+        write(LZW_CLEAR);
+        table.clear();
+        nextCode = LZW_FIRST_CODE;
+        codeBits = LZW_MIN_BITS;
+      } else if (nextCode > (1 << codeBits) - 1) {
+        codeBits++;
+      }
+    };
+
+    write(LZW_CLEAR);
+    if (data.length > 0) {
+      let prefix = data[0];
+      for (let i = 1; i < data.length; i++) {
+        const key = (prefix << 8) | data[i];
+        const code = table.get(key);
+        if (code !== undefined) {
+          prefix = code;
+          continue;
+        }
+        write(prefix);
+        table.set(key, nextCode);
+        addCode();
+        prefix = data[i];
+      }
+      write(prefix);
+      addCode();
+    }
+    write(LZW_END_OF_INFORMATION);
+    if (bufferBits > 0) {
+      output.push((buffer << (8 - bufferBits)) & 0xff);
+    }
+    return Uint8Array.from(output);
+  }
+
+  // Rows are packed separately, as the specification requires
+  private static packBits(data: Uint8Array, rowBytes: number): Uint8Array {
+    const output: number[] = [];
+    for (let rowStart = 0; rowStart < data.length; rowStart += rowBytes) {
+      const rowEnd = Math.min(data.length, rowStart + rowBytes);
+      let i = rowStart;
+      while (i < rowEnd) {
+        let run = 1;
+        while (i + run < rowEnd && run < PACKBITS_MAX_RUN && data[i + run] === data[i]) run++;
+        if (run > 1) {
+          output.push(257 - run, data[i]); // -(run - 1) as a signed byte
+          i += run;
+          continue;
+        }
+
+        // Literals continue until a run of three identical bytes starts
+        let length = 1;
+        while (i + length < rowEnd && length < PACKBITS_MAX_RUN &&
+          !(i + length + 2 < rowEnd && data[i + length] === data[i + length + 1] && data[i + length] === data[i + length + 2])) {
+          length++;
+        }
+        output.push(length - 1);
+        for (let j = 0; j < length; j++) output.push(data[i + j]);
+        i += length;
+      }
+    }
+    return Uint8Array.from(output);
+  }
+
+  // Mirrors lzw: the table widens one code before it fills
+  private static lzwDecode(data: Uint8Array, expectedLength: number): Uint8Array {
+    const output = new Uint8Array(expectedLength);
+    const prefixes = new Uint16Array(LZW_MAX_CODE + 1);
+    const suffixes = new Uint8Array(LZW_MAX_CODE + 1);
+    const firsts = new Uint8Array(LZW_MAX_CODE + 1);
+    const lengths = new Uint16Array(LZW_MAX_CODE + 1);
+    for (let code = 0; code < 256; code++) {
+      suffixes[code] = firsts[code] = code;
+      lengths[code] = 1;
+    }
+
+    let bitPosition = 0;
+    let codeBits = LZW_MIN_BITS;
+    let nextCode = LZW_FIRST_CODE;
+    let previous = -1;
+    let written = 0;
+
+    const readCode = () => {
+      if (bitPosition + codeBits > data.length * 8) return LZW_END_OF_INFORMATION;
+      let code = 0;
+      for (let bit = 0; bit < codeBits; bit++, bitPosition++) {
+        code = (code << 1) | ((data[bitPosition >> 3] >> (7 - (bitPosition & 7))) & 1);
+      }
+      return code;
+    };
+
+    const writeString = (code: number) => {
+      const length = lengths[code];
+      for (let i = length - 1; i >= 0; i--, code = prefixes[code]) {
+        if (written + i < expectedLength) output[written + i] = suffixes[code];
+      }
+      written += length;
+    };
+
+    while (written < expectedLength) {
+      const code = readCode();
+      if (code === LZW_END_OF_INFORMATION) break;
+      if (code === LZW_CLEAR) {
+        codeBits = LZW_MIN_BITS;
+        nextCode = LZW_FIRST_CODE;
+        previous = -1;
+        continue;
+      }
+      if (previous < 0) {
+        writeString(code);
+        previous = code;
+        continue;
+      }
+      if (code > nextCode) {
+        throw new Error('Invalid TIFF LZW code');
+      }
+
+      // A code one past the table is the previous string plus its own first byte
+      const first = code < nextCode ? firsts[code] : firsts[previous];
+      if (nextCode <= LZW_MAX_CODE) {
+        prefixes[nextCode] = previous;
+        suffixes[nextCode] = first;
+        firsts[nextCode] = firsts[previous];
+        lengths[nextCode] = lengths[previous] + 1;
+        nextCode++;
+      }
+      writeString(code);
+      previous = code;
+      if (nextCode + 1 > (1 << codeBits) - 1 && codeBits < 12) {
+        codeBits++;
+      }
+    }
+    return output;
+  }
+
+  private static packBitsDecode(data: Uint8Array, expectedLength: number): Uint8Array {
+    const output = new Uint8Array(expectedLength);
+    let written = 0;
+    for (let i = 0; i < data.length && written < expectedLength;) {
+      const header = data[i++];
+      if (header < 128) {
+        // header + 1 literal bytes
+        output.set(data.subarray(i, i + header + 1).subarray(0, expectedLength - written), written);
+        written += header + 1;
+        i += header + 1;
+      } else if (header > 128) {
+        // One byte repeated 257 - header times; 128 is a no-op
+        output.fill(data[i++], written, Math.min(expectedLength, written + 257 - header));
+        written += 257 - header;
+      }
+    }
+    return output;
+  }
+
+  // Adobe technote 3: each row's sample bytes are regrouped most significant byte first,
+  // then differenced byte by byte
+  private static predictFloatingPoint(bytes: Uint8Array, bytesPerSample: number, rowLength: number, samplesPerPixel: number): Uint8Array {
+    const output = new Uint8Array(bytes.length);
+    const rowBytes = rowLength * bytesPerSample;
+    for (let row = 0; row < bytes.length; row += rowBytes) {
+      for (let sample = 0; sample < rowLength; sample++) {
+        for (let byte = 0; byte < bytesPerSample; byte++) {
+          output[row + byte * rowLength + sample] = bytes[row + sample * bytesPerSample + bytesPerSample - 1 - byte];
+        }
+      }
+      for (let i = row + rowBytes - 1; i >= row + samplesPerPixel; i--) {
+        output[i] = (output[i] - output[i - samplesPerPixel]) & 0xff;
+      }
+    }
+    return output;
+  }
+
+  private static unpredictFloatingPoint(bytes: Uint8Array, bytesPerSample: number, rowLength: number, samplesPerPixel: number): Uint8Array {
+    const output = new Uint8Array(bytes.length);
+    const rowBytes = rowLength * bytesPerSample;
+    const row = new Uint8Array(rowBytes);
+    for (let start = 0; start < bytes.length; start += rowBytes) {
+      row.set(bytes.subarray(start, start + rowBytes));
+      for (let i = samplesPerPixel; i < rowBytes; i++) {
+        row[i] = (row[i] + row[i - samplesPerPixel]) & 0xff;
+      }
+      for (let sample = 0; sample < rowLength; sample++) {
+        for (let byte = 0; byte < bytesPerSample; byte++) {
+          output[start + sample * bytesPerSample + bytesPerSample - 1 - byte] = row[byte * rowLength + sample];
+        }
+      }
+    }
+    return output;
+  }
+
+  private static fit(bytes: Uint8Array, length: number): Uint8Array {
+    if (bytes.length === length) return bytes;
+    const output = new Uint8Array(length);
+    output.set(bytes.subarray(0, length));
+    return output;
+  }
+
+  private static toBytes(samples: TiffSamples): Uint8Array {
+    return new Uint8Array(samples.buffer, samples.byteOffset, samples.byteLength);
+  }
+}
@@ -0,0 +1,187 @@
+import * as TIFF from 'tiff';
+import { HighPrecision, HighPrecisionImage } from './highPrecisionImage';
+import { TiffCompression } from './tiffCompression';
+
+// Codes TiffCompression can decompress
+const BLOCK_COMPRESSIONS = [1, 5, 8, 32946, 32773];
+
+/**
+ * Decodes TIFF pages into 8-bit RGBA pixels, or 16-bit and floating point
+ * gray and RGB pages at full precision. Reduced-resolution overviews
+ * (NewSubfileType bit 0) are not pages and are skipped.
+ * The tiff package reads the directories and plain strips; tiles, PackBits,
+ * predictors, planar samples and LSB-first bytes are decoded here instead.
+ */
+export class TiffDecoder {
+  // "II" or "MM" byte order mark followed by 42
+  static isTiff(bytes: Uint8Array): boolean {
+    return (bytes[0] === 0x49 && bytes[1] === 0x49 && bytes[2] === 42 && bytes[3] === 0) ||
+      (bytes[0] === 0x4d && bytes[1] === 0x4d && bytes[2] === 0 && bytes[3] === 42);
+  }
+
+  // First page only
+  static decode(bytes: Uint8Array): ImageData {
+    return this.decodePages(bytes, 1)[0];
+  }
+
+  static decodePages(bytes: Uint8Array, maxPages = Infinity): ImageData[] {
+    const pages = this.getPageIndices(bytes).slice(0, maxPages);
+    const ifds = this.decodeIfds(bytes, pages);
+    if (ifds.length === 0) {
+      throw new Error('No image data found in TIFF file');
+    }
+    return ifds.map(ifd => this.toImageData(ifd));
+  }
+
+  // First page, for 16-bit and floating point gray or RGB files only; null otherwise
+  static decodeHighPrecision(bytes: Uint8Array): HighPrecisionImage | null {
+    const [ifd] = this.decodeIfds(bytes, this.getPageIndices(bytes).slice(0, 1));
+    const isGrayOrRgb = ifd && (ifd.type === 1 || ifd.type === 2); // BlackIsZero or RGB
+    if (!isGrayOrRgb || ifd.data instanceof Uint8Array) {
+      return null;
+    }
+    return this.toHighPrecision(ifd);
+  }
+
+  // Embedded ICC profile of every page
+  static getIccProfiles(bytes: Uint8Array): (Uint8Array | null)[] {
+    const ifds = TIFF.decode(bytes, { ignoreImageData: true });
+    return this.getPageIndices(bytes).map(index => {
+      const profile = ifds[index].get(34675);
+      return profile instanceof Uint8Array ? profile : null;
+    });
+  }
+
+  static pageCount(bytes: Uint8Array): number {
+    try {
+      return this.getPageIndices(bytes).length;
+    } catch {
+      return 0;
+    }
+  }
+
+  // IFD indices of full-resolution pages
+  private static getPageIndices(bytes: Uint8Array): number[] {
+    return TIFF.decode(bytes, { ignoreImageData: true })
+      .map((ifd, index) => ((ifd.newSubfileType ?? 0) & 1) === 0 ? index : -1)
+      .filter(index => index >= 0);
+  }
+
+  private static decodeIfds(bytes: Uint8Array, pages: number[]): TIFF.TiffIfd[] {
+    if (pages.length === 0) return [];
+    const ifds = TIFF.decode(bytes, { pages, ignoreImageData: true });
+    return ifds.map((ifd, index) => this.needsBlockDecoding(ifd)
+      ? this.decodeBlocks(bytes, ifd)
+      : TIFF.decode(bytes, { pages: [pages[index]] })[0]);
+  }
+
+  // Layouts the tiff package reads wrongly or not at all, limited to the sample types decodeBlocks handles
+  private static needsBlockDecoding(ifd: TIFF.TiffIfd): boolean {
+    const isFloat = ifd.sampleFormat === 3;
+    const supported = BLOCK_COMPRESSIONS.includes(ifd.compression) && [0, 1, 2].includes(ifd.type) &&
+      (ifd.bitsPerSample === 8 || ifd.bitsPerSample === 16 || (ifd.bitsPerSample === 32 && isFloat)) &&
+      (ifd.bitsPerSample === 32) === isFloat;
+    return supported && (ifd.tiled || ifd.compression === 32773 || ifd.predictor !== 1 ||
+      (ifd.planarConfiguration === 2 && ifd.samplesPerPixel > 1) || ifd.fillOrder === 2);
+  }
+
+  // Decompresses every strip or tile into interleaved samples on ifd.data
+  private static decodeBlocks(bytes: Uint8Array, ifd: TIFF.TiffIfd): TIFF.TiffIfd {
+    const { width, height, samplesPerPixel, bitsPerSample } = ifd;
+    const bytesPerSample = bitsPerSample / 8;
+    const isFloat = ifd.sampleFormat === 3;
+    const littleEndian = bytes[0] === 0x49;
+    const planes = ifd.planarConfiguration === 2 ? samplesPerPixel : 1;
+    const planeSamples = samplesPerPixel / planes;
+    const blockWidth = ifd.tiled ? ifd.tileWidth ?? width : width;
+    const blockHeight = ifd.tiled ? ifd.tileHeight ?? height : Math.min(height, ifd.rowsPerStrip || height);
+    const offsets = ifd.tiled ? ifd.tileOffsets : ifd.stripOffsets;
+    const byteCounts = ifd.tiled ? ifd.tileByteCounts : ifd.stripByteCounts;
+    const across = Math.ceil(width / blockWidth);
+    const down = Math.ceil(height / blockHeight);
+    const rowLength = blockWidth * planeSamples;
+
+    const size = width * height * samplesPerPixel;
+    const data = isFloat ? new Float32Array(size) : bitsPerSample === 16 ? new Uint16Array(size) : new Uint8Array(size);
+    for (let plane = 0; plane < planes; plane++) {
+      for (let blockRow = 0; blockRow < down; blockRow++) {
+        for (let blockColumn = 0; blockColumn < across; blockColumn++) {
+          const index = (plane * down + blockRow) * across + blockColumn;
+          const top = blockRow * blockHeight;
+          const left = blockColumn * blockWidth;
+          // Tiles are always whole, the last strip may end short
+          const rows = ifd.tiled ? blockHeight : Math.min(blockHeight, height - top);
+          let block = bytes.subarray(offsets[index], offsets[index] + byteCounts[index]);
+          if (ifd.fillOrder === 2) block = TiffCompression.reverseBits(block);
+
+          const decompressed = TiffCompression.decompress(block, ifd.compression, rowLength * rows * bytesPerSample);
+          const samples = TiffCompression.unpredict(
+            decompressed, ifd.predictor, rowLength, planeSamples, bytesPerSample, isFloat, littleEndian
+          );
+          for (let y = 0; y < rows && top + y < height; y++) {
+            for (let x = 0; x < blockWidth && left + x < width; x++) {
+              for (let sample = 0; sample < planeSamples; sample++) {
+                data[((top + y) * width + left + x) * samplesPerPixel + plane + sample] =
+                  samples[(y * blockWidth + x) * planeSamples + sample];
+              }
+            }
+          }
+        }
+      }
+    }
+
+    if (ifd.type === 0) {
+      // WhiteIsZero
+      const maxValue = isFloat ? 1 : 2 ** bitsPerSample - 1;
+      for (let i = 0; i < data.length; i++) data[i] = maxValue - data[i];
+    }
+    ifd.data = data;
+    return ifd;
+  }
+
+  private static toImageData(ifd: TIFF.TiffIfd): ImageData {
+    const width = ifd.width;
+    const height = ifd.height;
+    const data = ifd.data;
+    if (!(data instanceof Uint8Array)) {
+      return HighPrecision.toImageData(this.toHighPrecision(ifd));
+    }
+
+    const imageData = new ImageData(width, height);
+
+    // Convert TIFF data to RGBA format
+    if (ifd.alpha) {
+      // RGBA data
+      imageData.data.set(data);
+    } else {
+      // RGB data (add alpha channel)
+      const channels = ifd.samplesPerPixel || 3;
+      for (let i = 0; i < width * height; i++) {
+        if (channels === 1) {
+          // Grayscale
+          const gray = data[i];
+          imageData.data[i * 4] = gray;     // R
+          imageData.data[i * 4 + 1] = gray; // G
+          imageData.data[i * 4 + 2] = gray; // B
+          imageData.data[i * 4 + 3] = 255;  // A
+        } else {
+          // RGB
+          imageData.data[i * 4] = data[i * 3];         // R
+          imageData.data[i * 4 + 1] = data[i * 3 + 1]; // G
+          imageData.data[i * 4 + 2] = data[i * 3 + 2]; // B
+          imageData.data[i * 4 + 3] = 255;             // A
+        }
+      }
+    }
+
+    return imageData;
+  }
+
+  // 16-bit samples are scaled to 0-1, floating point samples are already normalized
+  private static toHighPrecision(ifd: TIFF.TiffIfd): HighPrecisionImage {
+    const isFloat = !(ifd.data instanceof Uint16Array);
+    return HighPrecision.fromSamples(
+      ifd.data, ifd.width, ifd.height, ifd.samplesPerPixel || 1, ifd.bitsPerSample, isFloat ? 1 : 65535
+    );
+  }
+}
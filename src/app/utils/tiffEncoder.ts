@@ -0,0 +1,158 @@
+import type { ConversionSettings } from '../components/ConversionOptions';
+import { ColorManagement } from './colorManagement';
+import { Diagnostics } from './diagnostics';
+import { HighPrecision, PixelData } from './highPrecisionImage';
+import { TiffSamples } from './tiffCompression';
+import { TiffImage, TiffWriter } from './tiffWriter';
+
+/**
+ * TIFF output from decoded pixels: maps the conversion settings onto the
+ * color model, bit depth and layout options of TiffWriter. Needs no DOM, so
+ * the main thread, the conversion workers and the CLI all write TIFF here.
+ */
+export class TiffEncoder {
+  // Writes a single-page TIFF
+  static async encode(source: PixelData, settings: ConversionSettings, originalFile?: File): Promise<Blob> {
+    return await this.write([await this.getImage(source, settings, originalFile)], settings);
+  }
+
+  // Converts the pixels to the output profile and the samples of the TIFF color model and bit depth
+  static async getImage(
+    source: PixelData,
+    settings: ConversionSettings,
+    originalFile?: File
+  ): Promise<TiffImage> {
+    const { pixels, profile } = await ColorManagement.prepareOutput(source, settings, originalFile);
+    const requestedBitDepth = settings.tiffBitDepth || 8;
+    const bitDepth = requestedBitDepth === 16 || requestedBitDepth === 32 ? requestedBitDepth : 8;
+    if (bitDepth !== requestedBitDepth) {
+      Diagnostics.warn(`${requestedBitDepth}-bit TIFF output is not supported, writing 8-bit samples`);
+    }
+    const colorModel = settings.tiffColorModel || 'rgb';
+    const samplesPerPixel = colorModel === 'grayscale' ? 1 : colorModel === 'rgb' ? 3 : 4;
+
+    return {
+      width: pixels.width,
+      height: pixels.height,
+      samples: this.getSamples(pixels, colorModel, bitDepth),
+      samplesPerPixel,
+      bitsPerSample: new Array(samplesPerPixel).fill(bitDepth),
+      photometric: this.getPhotometricInterpretation(colorModel),
+      extraSamples: colorModel === 'rgba' ? [2] : undefined,
+      jpegSource: settings.tiffCompression === 'jpeg' ? HighPrecision.toImageData(pixels) : undefined,
+      iccProfile: profile?.data,
+    };
+  }
+
+  // Writes one TIFF file, with a page per image
+  static async write(pages: TiffImage[], settings: ConversionSettings): Promise<Blob> {
+    try {
+      // Get TIFF settings with defaults
+      const compression = settings.tiffCompression || 'lzw';
+      const resolutionX = settings.tiffResolutionX || 300;
+      const resolutionY = settings.tiffResolutionY || 300;
+      const resolutionUnit = settings.tiffResolutionUnit || 'inch';
+      const predictor = settings.tiffPredictor || 1;
+      const planarConfig = settings.tiffPlanarConfig || 'chunky';
+      const fillOrder = settings.tiffFillOrder || 'msb2lsb';
+      const photometric = settings.tiffPhotometric || 'rgb';
+      const tileSize = settings.tiffTileSize || 0;
+      const rowsPerStrip = settings.tiffRowsPerStrip || 8;
+
+      Diagnostics.log('Converting to TIFF with settings:', {
+        compression,
+        bitDepth: settings.tiffBitDepth || 8,
+        colorModel: settings.tiffColorModel || 'rgb',
+        resolution: `${resolutionX}x${resolutionY} ${resolutionUnit}`,
+        predictor,
+        planarConfig,
+        fillOrder,
+        photometric,
+        tileSize,
+        rowsPerStrip,
+        pages: pages.length
+      });
+
+      const tiffData = await TiffWriter.write(pages, {
+        compression,
+        predictor,
+        planarConfig: planarConfig === 'chunky' ? 1 : 2,
+        rowsPerStrip,
+        tileSize,
+        resolutionX,
+        resolutionY,
+        resolutionUnit: resolutionUnit === 'inch' ? 2 : 3, // 2 = inch, 3 = centimeter
+        fillOrder: fillOrder === 'msb2lsb' ? 1 : 2,
+        jpegQuality: settings.quality,
+        jpegChromaSubsampling: settings.jpegChromaSubsampling,
+        bigTiff: settings.tiffBigTiff,
+        pyramid: settings.tiffPyramid,
+      });
+
+      return new Blob([tiffData], { type: 'image/tiff' });
+    } catch (error) {
+      console.error('TIFF conversion failed:', error);
+      throw new Error(`Failed to convert to TIFF: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // 8 and 16-bit samples are integers, 32-bit samples are IEEE floats that keep values above 1
+  private static getSamples(pixels: PixelData, colorModel: string, bitDepth: 8 | 16 | 32): TiffSamples {
+    const { data, width, height } = pixels;
+    const pixelCount = width * height;
+    const channels = colorModel === 'grayscale' ? 1 : colorModel === 'rgb' ? 3 : 4;
+    const samples = bitDepth === 32 ? new Float32Array(pixelCount * channels)
+      : bitDepth === 16 ? new Uint16Array(pixelCount * channels)
+      : new Uint8Array(pixelCount * channels);
+    const maxValue = 2 ** bitDepth - 1;
+    const store = bitDepth === 32
+      ? (index: number, value: number) => { samples[index] = value; }
+      : (index: number, value: number) => { samples[index] = Math.round(Math.min(1, Math.max(0, value)) * maxValue); };
+    const range = HighPrecision.is(pixels) ? 1 : 255;
+
+    for (let p = 0; p < pixelCount; p++) {
+      const r = data[p * 4] / range;
+      const g = data[p * 4 + 1] / range;
+      const b = data[p * 4 + 2] / range;
+      const output = p * channels;
+
+      switch (colorModel) {
+        case 'grayscale':
+          // Use standard grayscale conversion formula
+          store(output, 0.299 * r + 0.587 * g + 0.114 * b);
+          break;
+        case 'rgba':
+          store(output, r);
+          store(output + 1, g);
+          store(output + 2, b);
+          store(output + 3, data[p * 4 + 3] / range);
+          break;
+        case 'cmyk': {
+          // Convert RGB to CMYK
+          const k = 1 - Math.max(r, g, b);
+          store(output, k === 1 ? 0 : (1 - r - k) / (1 - k));
+          store(output + 1, k === 1 ? 0 : (1 - g - k) / (1 - k));
+          store(output + 2, k === 1 ? 0 : (1 - b - k) / (1 - k));
+          store(output + 3, k);
+          break;
+        }
+        default: // 'rgb'
+          store(output, r);
+          store(output + 1, g);
+          store(output + 2, b);
+          break;
+      }
+    }
+    return samples;
+  }
+
+  private static getPhotometricInterpretation(colorModel: string): number {
+    switch (colorModel) {
+      case 'grayscale': return 1; // BlackIsZero
+      case 'rgb': 
+      case 'rgba': return 2; // RGB
+      case 'cmyk': return 5; // Separated (CMYK)
+      default: return 2; // RGB
+    }
+  }
+}
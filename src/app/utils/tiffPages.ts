@@ -0,0 +1,62 @@
+import JSZip from 'jszip';
+import type { ConversionSettings } from '../components/ConversionOptions';
+import { TiffDecoder } from './tiffDecoder';
+import { ColorManagement } from './colorManagement';
+
+// Outputs that hold every page of multi-page input
+export const MULTI_PAGE_OUTPUT_FORMATS = ['tiff', 'pdf'];
+
+/**
+ * Multi-page TIFF input: every page is kept as a page of TIFF or PDF output,
+ * or extracted into a ZIP of still images. Pages are transformed and encoded
+ * by the caller, which knows the available output formats.
+ */
+export class TiffPages {
+  static keepsPages(bytes: Uint8Array, settings: ConversionSettings): boolean {
+    const keepsPages = settings.extractPages || MULTI_PAGE_OUTPUT_FORMATS.includes(settings.outputFormat);
+    return !!keepsPages && TiffDecoder.pageCount(bytes) > 1;
+  }
+
+  // Pages are converted to sRGB from their own embedded profiles
+  static decode(bytes: Uint8Array, settings: ConversionSettings): ImageData[] {
+    try {
+      const profiles = TiffDecoder.getIccProfiles(bytes);
+      return TiffDecoder.decodePages(bytes).map((page, index) => {
+        const profile = profiles[index] ? ColorManagement.parseProfile(profiles[index]) : null;
+        return ColorManagement.toSrgb(page, profile, settings);
+      });
+    } catch (error) {
+      throw new Error('Error processing TIFF file: ' + error);
+    }
+  }
+
+  // Writes every page as a still image in the output format
+  static async extractPagesToZip(
+    pages: ImageData[],
+    settings: ConversionSettings,
+    originalFile: File,
+    encodePage: (imageData: ImageData) => Promise<Blob>
+  ): Promise<Blob> {
+    try {
+      const zip = new JSZip();
+      const baseName = originalFile.name.replace(/\.[^/.]+$/, '');
+      const extension = settings.outputFormat === 'jpeg' ? 'jpg' : settings.outputFormat;
+      const digits = String(pages.length).length;
+
+      for (const [index, page] of pages.entries()) {
+        const blob = await encodePage(page);
+        zip.file(`${baseName}_page_${String(index + 1).padStart(digits, '0')}.${extension}`, await blob.arrayBuffer());
+      }
+
+      return await zip.generateAsync({
+        type: 'blob',
+        compression: 'DEFLATE',
+        compressionOptions: { level: 6 },
+        platform: 'UNIX'
+      });
+    } catch (error) {
+      console.error('Page extraction failed:', error);
+      throw new Error(`Failed to extract pages: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
@@ -0,0 +1,340 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import * as TIFF from 'tiff';
+import { NodeEnvironment } from '../../cli/nodeEnvironment';
+import { TiffDecoder } from './tiffDecoder';
+import { TiffImage, TiffWriteOptions, TiffWriter } from './tiffWriter';
+
+interface ParsedIfd {
+  offset: number;
+  tags: number[]; // In file order
+  types: Map<number, number>;
+  values: Map<number, number[]>;
+  valueOffsets: number[]; // Of the values stored outside their entry
+  subIfds: ParsedIfd[];
+}
+
+const OPTIONS: TiffWriteOptions = {
+  compression: 'lzw',
+  predictor: 1,
+  planarConfig: 1,
+  rowsPerStrip: 8,
+  tileSize: 0,
+  resolutionX: 300,
+  resolutionY: 300,
+  resolutionUnit: 2,
+};
+
+const TYPE_SIZES: Record<number, number> = { 1: 1, 3: 2, 4: 4, 5: 8, 7: 1, 16: 8, 18: 8 };
+
+// Field types the TIFF 6.0 specification allows for each tag: SHORT 3, LONG 4, RATIONAL 5, UNDEFINED 7
+const SPEC_TYPES: Record<number, number[]> = {
+  254: [4], 256: [3, 4], 257: [3, 4], 258: [3], 259: [3], 262: [3], 266: [3], 273: [3, 4], 277: [3], 278: [3, 4],
+  279: [3, 4], 282: [5], 283: [5], 284: [3], 296: [3], 297: [3], 317: [3], 322: [3, 4], 323: [3, 4], 324: [4],
+  325: [3, 4], 330: [4, 13], 338: [3], 339: [3], 530: [3], 34675: [7],
+};
+const BIGTIFF_TYPES: Record<number, number[]> = { 273: [16], 279: [16], 324: [16], 325: [16], 330: [18] };
+
+// Reads the IFD chain of classic and BigTIFF files, including SubIFDs
+function parse(buffer: ArrayBuffer): { bigTiff: boolean; ifds: ParsedIfd[] } {
+  const view = new DataView(buffer);
+  const bigTiff = view.getUint16(2, true) === 43;
+  const readUint = (offset: number, size: number) =>
+    size === 1 ? view.getUint8(offset)
+      : size === 2 ? view.getUint16(offset, true)
+      : size === 4 ? view.getUint32(offset, true)
+      : Number(view.getBigUint64(offset, true));
+  const offsetSize = bigTiff ? 8 : 4;
+
+  const readIfd = (offset: number): { ifd: ParsedIfd; next: number } => {
+    const count = readUint(offset, bigTiff ? 8 : 2);
+    const ifd: ParsedIfd = { offset, tags: [], types: new Map(), values: new Map(), valueOffsets: [], subIfds: [] };
+    let entry = offset + (bigTiff ? 8 : 2);
+    for (let i = 0; i < count; i++, entry += bigTiff ? 20 : 12) {
+      const tag = view.getUint16(entry, true);
+      const type = view.getUint16(entry + 2, true);
+      const length = readUint(entry + 4, offsetSize) * (type === 5 ? 2 : 1);
+      const size = type === 5 ? 4 : TYPE_SIZES[type];
+      const inline = length * size <= offsetSize;
+      let valueOffset = inline ? entry + 4 + offsetSize : readUint(entry + 4 + offsetSize, offsetSize);
+      if (!inline) ifd.valueOffsets.push(valueOffset);
+      const values: number[] = [];
+      for (let j = 0; j < length; j++, valueOffset += size) values.push(readUint(valueOffset, size));
+      ifd.tags.push(tag);
+      ifd.types.set(tag, type);
+      ifd.values.set(tag, values);
+    }
+    ifd.subIfds = (ifd.values.get(330) ?? []).map(subOffset => readIfd(subOffset).ifd);
+    return { ifd, next: readUint(entry, offsetSize) };
+  };
+
+  const ifds: ParsedIfd[] = [];
+  for (let offset = readUint(bigTiff ? 8 : 4, offsetSize); offset !== 0;) {
+    const { ifd, next } = readIfd(offset);
+    ifds.push(ifd);
+    offset = next;
+  }
+  return { bigTiff, ifds };
+}
+
+function readBlocks(buffer: ArrayBuffer, ifd: ParsedIfd): Uint8Array[] {
+  const offsets = ifd.values.get(273) ?? ifd.values.get(324)!;
+  const counts = ifd.values.get(279) ?? ifd.values.get(325)!;
+  return offsets.map((offset, i) => new Uint8Array(buffer, offset, counts[i]));
+}
+
+// Every tag has a type the specification allows, and the IFD and its values start on word boundaries
+function assertSpecLayout(ifd: ParsedIfd, bigTiff = false) {
+  for (const tag of ifd.tags) {
+    // BigTIFF adds LONG8 offsets and byte counts, and IFD8 SubIFDs
+    const allowed = [...SPEC_TYPES[tag] ?? [], ...(bigTiff ? BIGTIFF_TYPES[tag] ?? [] : [])];
+    assert.ok(allowed.includes(ifd.types.get(tag)!), `type ${ifd.types.get(tag)} of tag ${tag}`);
+  }
+  assert.equal(ifd.offset % 2, 0);
+  assert.ok(ifd.valueOffsets.every(offset => offset % 2 === 0));
+}
+
+function createImage(width: number, height: number, samplesPerPixel = 3): TiffImage {
+  const samples = new Uint8Array(width * height * samplesPerPixel).map((_, i) => (i * 37 + (i >> 6)) & 255);
+  return {
+    width,
+    height,
+    samples,
+    samplesPerPixel,
+    bitsPerSample: new Array(samplesPerPixel).fill(8),
+    photometric: samplesPerPixel === 1 ? 1 : 2,
+    extraSamples: samplesPerPixel === 4 ? [2] : undefined,
+  };
+}
+
+function toRgba(image: TiffImage): number[] {
+  const { samples, samplesPerPixel } = image;
+  const rgba: number[] = [];
+  for (let i = 0; i < image.width * image.height; i++) {
+    const pixel = Array.from(samples.subarray(i * samplesPerPixel, (i + 1) * samplesPerPixel));
+    rgba.push(...(samplesPerPixel === 1 ? [pixel[0], pixel[0], pixel[0], 255] : samplesPerPixel === 3 ? [...pixel, 255] : pixel));
+  }
+  return rgba;
+}
+
+describe('TiffWriter', () => {
+  before(() => NodeEnvironment.install());
+
+  it('writes a classic little-endian file with entries in tag order', async () => {
+    const buffer = await TiffWriter.write([createImage(20, 10)], OPTIONS);
+    const { bigTiff, ifds } = parse(buffer);
+
+    assert.equal(new TextDecoder().decode(new Uint8Array(buffer, 0, 2)), 'II');
+    assert.equal(bigTiff, false);
+    assert.equal(ifds.length, 1);
+    const [ifd] = ifds;
+    assert.deepEqual(ifd.tags, [...ifd.tags].sort((a, b) => a - b));
+    assert.deepEqual(ifd.values.get(256), [20]);
+    assert.deepEqual(ifd.values.get(257), [10]);
+    assert.deepEqual(ifd.values.get(258), [8, 8, 8]);
+    assert.deepEqual(ifd.values.get(259), [5]);
+    assert.deepEqual(ifd.values.get(278), [8]);
+    assert.deepEqual(ifd.values.get(282), [300, 1]);
+    assert.equal(ifd.values.get(273)!.length, 2); // Strips of 8 and 2 rows
+  });
+
+  it('lays out uncompressed strips as the specification describes', async () => {
+    const image = createImage(20, 10);
+    const buffer = await TiffWriter.write([image], { ...OPTIONS, compression: 'none', rowsPerStrip: 4 });
+    const [ifd] = parse(buffer).ifds;
+    const rowBytes = 20 * 3;
+
+    assertSpecLayout(ifd);
+    assert.deepEqual(ifd.values.get(259), [1]);
+    assert.deepEqual(ifd.values.get(262), [2]);
+    assert.deepEqual(ifd.values.get(277), [3]);
+    assert.deepEqual(ifd.values.get(278), [4]);
+    assert.deepEqual(ifd.values.get(284), [1]);
+    assert.deepEqual(ifd.values.get(296), [2]);
+    // StripsPerImage = floor((ImageLength + RowsPerStrip - 1) / RowsPerStrip), the last strip holding the remaining rows
+    assert.deepEqual(ifd.values.get(279), [4 * rowBytes, 4 * rowBytes, 2 * rowBytes]);
+    assert.deepEqual(
+      readBlocks(buffer, ifd).map(block => Array.from(block)),
+      [0, 4, 8].map(top => Array.from(image.samples.subarray(top * rowBytes, Math.min(10, top + 4) * rowBytes)))
+    );
+  });
+
+  it('writes predictor and fill order tags with the field types of the specification', async () => {
+    const buffer = await TiffWriter.write([createImage(30, 20, 4)], { ...OPTIONS, predictor: 2, fillOrder: 2 });
+    const [ifd] = parse(buffer).ifds;
+
+    assertSpecLayout(ifd);
+    assert.deepEqual(ifd.values.get(266), [2]);
+    assert.deepEqual(ifd.values.get(317), [2]);
+    assert.deepEqual(ifd.values.get(338), [2]);
+  });
+
+  it('reverses the bits of every strip byte for fill order 2', async () => {
+    const image = createImage(30, 20);
+    const msbFirst = await TiffWriter.write([image], OPTIONS);
+    const lsbFirst = await TiffWriter.write([image], { ...OPTIONS, fillOrder: 2 });
+    const reverse = (byte: number) => parseInt(byte.toString(2).padStart(8, '0').split('').reverse().join(''), 2);
+
+    assert.deepEqual(
+      readBlocks(lsbFirst, parse(lsbFirst).ifds[0]).map(block => Array.from(block, reverse)),
+      readBlocks(msbFirst, parse(msbFirst).ifds[0]).map(block => Array.from(block))
+    );
+  });
+
+  // The tiff package reads plain strips without any of our decoding code
+  for (const compression of ['none', 'lzw', 'deflate']) {
+    it(`writes ${compression} strips another reader decodes`, async () => {
+      for (const samplesPerPixel of [1, 3, 4]) {
+        const image = createImage(37, 21, samplesPerPixel);
+        for (const predictor of [1, 2]) {
+          const buffer = await TiffWriter.write([image], { ...OPTIONS, compression, predictor, rowsPerStrip: 5 });
+          const [decoded] = TIFF.decode(new Uint8Array(buffer));
+          assert.deepEqual(Array.from(decoded.data), Array.from(image.samples), `${samplesPerPixel} samples, predictor ${predictor}`);
+        }
+      }
+    });
+  }
+
+  for (const compression of ['none', 'lzw', 'deflate', 'packbits']) {
+    for (const layout of [{ tileSize: 0, planarConfig: 1 }, { tileSize: 16, planarConfig: 1 }, { tileSize: 16, planarConfig: 2 }]) {
+      const name = `${layout.tileSize ? 'tiled' : 'stripped'} ${layout.planarConfig === 2 ? 'planar' : 'chunky'} ${compression}`;
+      it(`reopens ${name} files`, async () => {
+        for (const samplesPerPixel of [1, 3, 4]) {
+          const image = createImage(37, 21, samplesPerPixel);
+          for (const predictor of [1, 2]) {
+            for (const fillOrder of [1, 2]) {
+              const buffer = await TiffWriter.write([image], { ...OPTIONS, ...layout, compression, predictor, fillOrder });
+              const decoded = TiffDecoder.decode(new Uint8Array(buffer));
+              assert.deepEqual(Array.from(decoded.data), toRgba(image), `${samplesPerPixel} samples, predictor ${predictor}, fill order ${fillOrder}`);
+            }
+          }
+        }
+      });
+    }
+  }
+
+  it('lays out uncompressed tiles as the specification describes', async () => {
+    const image = createImage(50, 20);
+    for (const planarConfig of [1, 2]) {
+      const buffer = await TiffWriter.write([image], { ...OPTIONS, compression: 'none', tileSize: 16, planarConfig });
+      const [ifd] = parse(buffer).ifds;
+      const blocks = readBlocks(buffer, ifd);
+      const planes = planarConfig === 2 ? 3 : 1;
+      const tileSamples = 3 / planes;
+
+      assertSpecLayout(ifd);
+      assert.deepEqual(ifd.values.get(284), [planarConfig]);
+      // TilesAcross * TilesDown tiles per plane, left to right and top to bottom, plane after plane
+      assert.equal(blocks.length, Math.ceil(50 / 16) * Math.ceil(20 / 16) * planes);
+      assert.ok(ifd.values.get(325)!.every(count => count === 16 * 16 * tileSamples));
+      blocks.forEach((block, index) => {
+        const plane = Math.floor(index / 8);
+        const left = (index % 4) * 16;
+        const top = Math.floor((index % 8) / 4) * 16;
+        // Only the part inside the image is defined; padding is up to the writer
+        for (let y = 0; y < Math.min(16, 20 - top); y++) {
+          for (let x = 0; x < Math.min(16, 50 - left); x++) {
+            for (let sample = 0; sample < tileSamples; sample++) {
+              const expected = image.samples[((top + y) * 50 + left + x) * 3 + (planes === 3 ? plane : sample)];
+              assert.equal(block[(y * 16 + x) * tileSamples + sample], expected, `tile ${index} at ${x}, ${y}`);
+            }
+          }
+        }
+      });
+    }
+  });
+
+  it('rounds tiles to multiples of 16 and pads edge tiles', async () => {
+    const buffer = await TiffWriter.write([createImage(50, 20)], { ...OPTIONS, compression: 'none', tileSize: 40 });
+    const [ifd] = parse(buffer).ifds;
+
+    assert.deepEqual(ifd.values.get(322), [48]);
+    assert.deepEqual(ifd.values.get(323), [48]);
+    assert.equal(ifd.values.get(324)!.length, 2);
+    assert.ok(readBlocks(buffer, ifd).every(block => block.length === 48 * 48 * 3));
+    assert.equal(ifd.values.has(273), false);
+  });
+
+  it('writes BigTIFF with the same entries and data', async () => {
+    const image = createImage(40, 30);
+    const classic = await TiffWriter.write([image], OPTIONS);
+    const big = await TiffWriter.write([image], { ...OPTIONS, bigTiff: true });
+    const view = new DataView(big);
+    const [classicIfd] = parse(classic).ifds;
+    const { bigTiff, ifds: [bigIfd] } = parse(big);
+
+    assert.equal(bigTiff, true);
+    // Version 43, 8-byte offsets, a zero word and the 8-byte offset of the first IFD
+    assert.deepEqual([view.getUint16(2, true), view.getUint16(4, true), view.getUint16(6, true)], [43, 8, 0]);
+    assert.equal(Number(view.getBigUint64(8, true)), bigIfd.offset);
+    assertSpecLayout(bigIfd, true);
+    assert.equal(bigIfd.types.get(273), 16);
+    assert.deepEqual(bigIfd.tags, classicIfd.tags);
+    for (const tag of [256, 257, 258, 259, 278, 279]) {
+      assert.deepEqual(bigIfd.values.get(tag), classicIfd.values.get(tag));
+    }
+    assert.deepEqual(readBlocks(big, bigIfd), readBlocks(classic, classicIfd));
+  });
+
+  it('chains COG overviews after the image, smallest data first', async () => {
+    const buffer = await TiffWriter.write([createImage(600, 300, 1)], { ...OPTIONS, tileSize: 256, pyramid: 'cog' });
+    const { ifds } = parse(buffer);
+
+    assert.deepEqual(ifds.map(ifd => ifd.values.get(256)![0]), [600, 300, 150]);
+    assert.deepEqual(ifds.map(ifd => ifd.values.get(257)![0]), [300, 150, 75]);
+    assert.deepEqual(ifds.map(ifd => ifd.values.get(254)), [undefined, [1], [1]]);
+    ifds.forEach(ifd => assertSpecLayout(ifd));
+    assert.deepEqual(ifds[1].values.get(282), [300, 2]);
+    // Until the image fits in one tile, then IFDs first and the smallest level's data first
+    const firstBlocks = ifds.map(ifd => Math.min(...ifd.values.get(324)!));
+    assert.deepEqual(ifds[2].values.get(324)!.length, 1);
+    assert.ok(firstBlocks[2] < firstBlocks[1] && firstBlocks[1] < firstBlocks[0]);
+    assert.ok(ifds.every(ifd => ifd.offset < firstBlocks[2]));
+    assert.equal(TiffDecoder.pageCount(new Uint8Array(buffer)), 1);
+  });
+
+  it('hangs SubIFD overviews off the image', async () => {
+    const buffer = await TiffWriter.write([createImage(1100, 600, 1)], { ...OPTIONS, pyramid: 'subifd' });
+    const { ifds } = parse(buffer);
+
+    assert.equal(ifds.length, 1);
+    assert.deepEqual(ifds[0].subIfds.map(ifd => ifd.values.get(256)![0]), [550, 275, 138]);
+    assert.ok(ifds[0].subIfds.every(ifd => ifd.values.get(254)![0] === 1));
+    [ifds[0], ...ifds[0].subIfds].forEach(ifd => assertSpecLayout(ifd));
+  });
+
+  it('writes multi-page files with page numbers and ICC profiles', async () => {
+    const iccProfile = new Uint8Array(200).map((_, i) => i);
+    const pages = [createImage(12, 8), { ...createImage(6, 9, 1), iccProfile }];
+    const buffer = await TiffWriter.write(pages, OPTIONS);
+    const { ifds } = parse(buffer);
+    const bytes = new Uint8Array(buffer);
+
+    assert.deepEqual(ifds.map(ifd => ifd.values.get(254)), [[2], [2]]);
+    assert.deepEqual(ifds.map(ifd => ifd.values.get(297)), [[0, 2], [1, 2]]);
+    assert.deepEqual(TiffDecoder.decodePages(bytes).map(page => [page.width, page.height]), [[12, 8], [6, 9]]);
+    assert.deepEqual(TiffDecoder.getIccProfiles(bytes), [null, iccProfile]);
+  });
+
+  it('tags the YCbCr subsampling of JPEG strips', async () => {
+    const image = createImage(40, 24);
+    const jpegSource = new ImageData(new Uint8ClampedArray(toRgba(image)), 40, 24);
+    for (const [chromaSubsampling, subsampling, rowsPerStrip] of [['420', [2, 2], 16], ['422', [2, 1], 8], ['444', [1, 1], 8]] as const) {
+      const buffer = await TiffWriter.write([{ ...image, jpegSource }], {
+        ...OPTIONS, compression: 'jpeg', rowsPerStrip: 5, jpegChromaSubsampling: chromaSubsampling,
+      });
+      const [ifd] = parse(buffer).ifds;
+
+      assert.deepEqual(ifd.values.get(259), [7]);
+      assert.deepEqual(ifd.values.get(262), [6]);
+      assert.deepEqual(ifd.values.get(530), subsampling);
+      // Strips are whole MCU rows
+      assert.deepEqual(ifd.values.get(278), [rowsPerStrip]);
+    }
+  });
+
+  it('rejects JPEG compression for 16-bit samples', async () => {
+    const image = { ...createImage(8, 8), samples: new Uint16Array(192), bitsPerSample: [16, 16, 16], jpegSource: new ImageData(8, 8) };
+    await assert.rejects(TiffWriter.write([image], { ...OPTIONS, compression: 'jpeg' }), /8-bit RGB and grayscale only/);
+  });
+});
@@ -0,0 +1,383 @@
+import type { JpegChromaSubsampling } from './mozjpegEncoder';
+import { TiffCompression, TiffSamples } from './tiffCompression';
+
+export type TiffPyramid = 'none' | 'cog' | 'subifd';
+
+export interface TiffImage {
+  width: number;
+  height: number;
+  samples: TiffSamples; // Interleaved (chunky) samples, row by row
+  samplesPerPixel: number;
+  bitsPerSample: number[];
+  photometric: number;
+  extraSamples?: number[]; // 2 = unassociated alpha
+  jpegSource?: ImageData; // RGBA pixels the JPEG blocks are encoded from
+  iccProfile?: Uint8Array;
+}
+
+export interface TiffWriteOptions {
+  compression: string;
+  predictor: number;
+  planarConfig: number; // 1 = chunky, 2 = planar
+  rowsPerStrip: number;
+  tileSize: number; // 0 = strips
+  resolutionX: number;
+  resolutionY: number;
+  resolutionUnit: number; // 2 = inch, 3 = centimeter
+  fillOrder?: number; // 1 = most significant bit first, 2 = least significant bit first
+  jpegQuality?: number;
+  jpegChromaSubsampling?: JpegChromaSubsampling;
+  bigTiff?: boolean; // Always 64-bit offsets, otherwise only when the file needs them
+  pyramid?: TiffPyramid; // Reduced-resolution overviews as following IFDs (COG) or SubIFDs; multi-page files always use SubIFDs
+}
+
+interface TiffEntry {
+  tag: number;
+  type: number;
+  values: number[]; // Rationals are numerator, denominator pairs
+}
+
+interface TiffDirectory {
+  entries: TiffEntry[];
+  blocks: Uint8Array[]; // Strips or tiles
+  blockTag: number; // StripOffsets or TileOffsets
+  subDirectories: TiffDirectory[];
+}
+
+// Type codes and value sizes; BigTIFF adds LONG8 and IFD8
+const SHORT = 3;
+const LONG = 4;
+const RATIONAL = 5;
+const UNDEFINED = 7;
+const LONG8 = 16;
+const IFD8 = 18;
+const TYPE_SIZES: Record<number, number> = { [SHORT]: 2, [LONG]: 4, [RATIONAL]: 4, [UNDEFINED]: 1, [LONG8]: 8, [IFD8]: 8 };
+
+const MAX_CLASSIC_SIZE = 0xffffffff;
+const MIN_OVERVIEW_SIZE = 256; // Overviews stop once the image fits in one tile of this size
+
+/**
+ * Writes little-endian TIFF files: one or more pages in strip or tile
+ * layout, any of the TiffCompression codecs, BigTIFF when offsets pass
+ * 4 GB, and optional reduced-resolution overviews. IFDs come first and
+ * image data follows, smallest overview first, as Cloud Optimized GeoTIFF
+ * readers expect.
+ */
+export class TiffWriter {
+  static async write(pages: TiffImage[], options: TiffWriteOptions): Promise<ArrayBuffer> {
+    const isJpeg = options.compression === 'jpeg';
+    if (isJpeg && pages.some(image =>
+      !image.jpegSource || image.bitsPerSample.some(bits => bits !== 8) || ![1, 3].includes(image.samplesPerPixel))) {
+      throw new Error('JPEG compression in TIFF supports 8-bit RGB and grayscale only');
+    }
+
+    const chain: TiffDirectory[] = [];
+    const blockSize = options.tileSize > 0 ? Math.max(options.tileSize, MIN_OVERVIEW_SIZE) : MIN_OVERVIEW_SIZE;
+    for (const [pageIndex, image] of pages.entries()) {
+      const page = await this.createDirectory(image, options, 0);
+      if (pages.length > 1) {
+        page.entries.push(
+          { tag: 254, type: LONG, values: [2] }, // NewSubfileType: page of a multi-page image
+          { tag: 297, type: SHORT, values: [pageIndex, pages.length] } // PageNumber
+        );
+      }
+      if (image.iccProfile) {
+        page.entries.push({ tag: 34675, type: UNDEFINED, values: Array.from(image.iccProfile) }); // ICC profile
+      }
+
+      const overviews: TiffDirectory[] = [];
+      if (options.pyramid && options.pyramid !== 'none') {
+        let level = image;
+        for (let index = 1; Math.max(level.width, level.height) > blockSize && Math.min(level.width, level.height) > 1; index++) {
+          level = this.halve(level);
+          overviews.push(await this.createDirectory(level, options, index));
+        }
+      }
+
+      // COG overviews follow the image in the IFD chain, SubIFDs hang off it
+      if (overviews.length > 0 && (options.pyramid === 'subifd' || pages.length > 1)) {
+        page.subDirectories = overviews;
+        page.entries.push({ tag: 330, type: LONG, values: overviews.map(() => 0) }); // SubIFDs
+        chain.push(page);
+      } else {
+        chain.push(page, ...overviews);
+      }
+      page.entries.sort((a, b) => a.tag - b.tag);
+    }
+
+    const dataSize = chain.flatMap(directory => [directory, ...directory.subDirectories]).reduce(
+      (sum, directory) => sum + directory.blocks.reduce((total, block) => total + block.length, 0), 0
+    );
+    // Directories are small next to the data, so a generous allowance decides the format
+    const bigTiff = options.bigTiff || dataSize + 1024 * 1024 > MAX_CLASSIC_SIZE;
+    return this.serialize(chain, bigTiff);
+  }
+
+  private static async createDirectory(image: TiffImage, options: TiffWriteOptions, level: number): Promise<TiffDirectory> {
+    const { width, height, samplesPerPixel } = image;
+    const { compression } = options;
+    const isJpeg = compression === 'jpeg';
+
+    // JPEG codes its components together, and RGB is stored as YCbCr
+    const planarConfig = isJpeg || samplesPerPixel === 1 ? 1 : options.planarConfig;
+    const chromaSubsampling = options.jpegChromaSubsampling || '420';
+    const isYCbCr = isJpeg && samplesPerPixel === 3;
+    const horizontalSubsampling = isYCbCr && chromaSubsampling !== '444' ? 2 : 1;
+    const verticalSubsampling = isYCbCr && chromaSubsampling === '420' ? 2 : 1;
+    const photometric = isJpeg && samplesPerPixel === 3 ? 6 : image.photometric;
+
+    // The floating point predictor is only defined for float samples, and
+    // horizontal differencing only for integers
+    const isFloat = image.samples instanceof Float32Array;
+    let predictor = TiffCompression.supportsPredictor(compression) ? options.predictor : 1;
+    if (predictor === 3 && !isFloat) {
+      console.warn('TIFF floating point predictor needs float samples, using horizontal differencing');
+      predictor = 2;
+    } else if (predictor === 2 && isFloat) {
+      predictor = 3;
+    }
+
+    // Readers reverse the bits of every byte in LSB-first blocks, except for JPEG data
+    const fillOrder = isJpeg ? 1 : options.fillOrder || 1;
+
+    // Tiles are multiples of 16 as the specification requires; JPEG strips are whole MCU rows
+    const tiled = options.tileSize > 0;
+    const tileSize = Math.max(16, Math.round(options.tileSize / 16) * 16);
+    const mcuRows = 8 * verticalSubsampling;
+    const requestedRows = Math.max(1, options.rowsPerStrip || 8);
+    const rowsPerStrip = Math.min(height, isJpeg ? Math.ceil(requestedRows / mcuRows) * mcuRows : requestedRows);
+    const blockWidth = tiled ? tileSize : width;
+    const blockHeight = tiled ? tileSize : rowsPerStrip;
+
+    // Planar output keeps each sample in its own plane with its own blocks
+    const planes = planarConfig === 2
+      ? Array.from({ length: samplesPerPixel }, (_, sample) => {
+          const plane = new (image.samples.constructor as new (length: number) => TiffSamples)(width * height);
+          for (let i = 0; i < plane.length; i++) plane[i] = image.samples[i * samplesPerPixel + sample];
+          return plane;
+        })
+      : [image.samples];
+    const planeSamples = planes.length === 1 ? samplesPerPixel : 1;
+    const rowLength = blockWidth * planeSamples;
+
+    const blocks: Uint8Array[] = [];
+    for (const plane of planes) {
+      for (let top = 0; top < height; top += blockHeight) {
+        for (let left = 0; left < width; left += blockWidth) {
+          // Strips may end short; tiles are always whole, padded with the edge pixels
+          const rows = tiled ? blockHeight : Math.min(blockHeight, height - top);
+          if (isJpeg) {
+            const pixels = this.crop(image.jpegSource!.data, width, height, 4, left, top, blockWidth, rows);
+            const quality = options.jpegQuality ?? 90;
+            blocks.push(await TiffCompression.encodeJpeg(
+              new ImageData(pixels, blockWidth, rows), quality, samplesPerPixel === 1, chromaSubsampling
+            ));
+            continue;
+          }
+          const samples = tiled
+            ? this.crop(plane, width, height, planeSamples, left, top, blockWidth, rows)
+            : plane.subarray(top * rowLength, (top + rows) * rowLength);
+          const bytes = TiffCompression.predict(samples, predictor, rowLength, planeSamples);
+          const block = TiffCompression.compress(bytes, compression, rowLength * samples.BYTES_PER_ELEMENT);
+          blocks.push(fillOrder === 2 ? TiffCompression.reverseBits(block) : block);
+        }
+      }
+    }
+
+    // Entries in ascending tag order; offsets are filled in once the layout is known
+    const scale = 2 ** level;
+    const entries: TiffEntry[] = [
+      ...(level > 0 ? [{ tag: 254, type: LONG, values: [1] }] : []), // NewSubfileType: reduced resolution
+      { tag: 256, type: LONG, values: [width] }, // ImageWidth
+      { tag: 257, type: LONG, values: [height] }, // ImageLength
+      { tag: 258, type: SHORT, values: image.bitsPerSample }, // BitsPerSample
+      { tag: 259, type: SHORT, values: [TiffCompression.getCode(compression)] }, // Compression
+      { tag: 262, type: SHORT, values: [photometric] }, // PhotometricInterpretation
+      ...(fillOrder !== 1 ? [{ tag: 266, type: SHORT, values: [fillOrder] }] : []), // FillOrder
+      ...(tiled ? [] : [{ tag: 273, type: LONG, values: blocks.map(() => 0) }]), // StripOffsets
+      { tag: 277, type: SHORT, values: [samplesPerPixel] }, // SamplesPerPixel
+      ...(tiled ? [] : [
+        { tag: 278, type: LONG, values: [rowsPerStrip] }, // RowsPerStrip
+        { tag: 279, type: LONG, values: blocks.map(block => block.length) }, // StripByteCounts
+      ]),
+      { tag: 282, type: RATIONAL, values: [options.resolutionX, scale] }, // XResolution
+      { tag: 283, type: RATIONAL, values: [options.resolutionY, scale] }, // YResolution
+      { tag: 284, type: SHORT, values: [planarConfig] }, // PlanarConfiguration
+      { tag: 296, type: SHORT, values: [options.resolutionUnit] }, // ResolutionUnit
+      ...(predictor !== 1 ? [{ tag: 317, type: SHORT, values: [predictor] }] : []), // Predictor
+      ...(tiled ? [
+        { tag: 322, type: LONG, values: [tileSize] }, // TileWidth
+        { tag: 323, type: LONG, values: [tileSize] }, // TileLength
+        { tag: 324, type: LONG, values: blocks.map(() => 0) }, // TileOffsets
+        { tag: 325, type: LONG, values: blocks.map(block => block.length) }, // TileByteCounts
+      ] : []),
+      ...(image.extraSamples?.length ? [{ tag: 338, type: SHORT, values: image.extraSamples }] : []), // ExtraSamples
+      ...(isFloat ? [{ tag: 339, type: SHORT, values: image.bitsPerSample.map(() => 3) }] : []), // SampleFormat: IEEE float
+      ...(photometric === 6 ? [{ tag: 530, type: SHORT, values: [horizontalSubsampling, verticalSubsampling] }] : []), // YCbCrSubSampling
+    ];
+
+    return { entries, blocks, blockTag: tiled ? 324 : 273, subDirectories: [] };
+  }
+
+  // Lays out and writes the file: header, every IFD with its overflow values, then the blocks
+  private static serialize(chain: TiffDirectory[], bigTiff: boolean): ArrayBuffer {
+    const directories = chain.flatMap(directory => [directory, ...directory.subDirectories]);
+    // Offsets and byte counts widen to 64 bits in BigTIFF
+    if (bigTiff) {
+      for (const { entries } of directories) {
+        for (const entry of entries) {
+          if ([273, 279, 324, 325].includes(entry.tag)) entry.type = LONG8;
+          if (entry.tag === 330) entry.type = IFD8;
+        }
+      }
+    }
+
+    const headerSize = bigTiff ? 16 : 8;
+    const entrySize = bigTiff ? 20 : 12;
+    const inlineSize = bigTiff ? 8 : 4;
+    const countSize = bigTiff ? 8 : 2;
+    const offsetSize = bigTiff ? 8 : 4;
+
+    // IFD offsets, and where each entry's values go when they don't fit inline
+    let position = headerSize;
+    const layouts = directories.map(directory => {
+      const offset = position;
+      position += countSize + directory.entries.length * entrySize + offsetSize;
+      const valueOffsets = directory.entries.map(entry => {
+        const size = entry.values.length * TYPE_SIZES[entry.type];
+        if (size <= inlineSize) return 0;
+        const valueOffset = position;
+        position += size + (size % 2); // Values start on a word boundary
+        return valueOffset;
+      });
+      return { offset, valueOffsets };
+    });
+
+    // Image data, smallest overview first
+    for (const directory of [...directories].reverse()) {
+      const offsets = directory.entries.find(entry => entry.tag === directory.blockTag)!;
+      offsets.values = directory.blocks.map(block => {
+        const offset = position;
+        position += block.length;
+        return offset;
+      });
+    }
+    for (const directory of directories) {
+      const subIfds = directory.entries.find(entry => entry.tag === 330);
+      if (subIfds) {
+        subIfds.values = directory.subDirectories.map(sub => layouts[directories.indexOf(sub)].offset);
+      }
+    }
+
+    const buffer = new ArrayBuffer(position);
+    const view = new DataView(buffer);
+    const bytes = new Uint8Array(buffer);
+    const writeUint = (offset: number, value: number, size: number) => {
+      if (size === 1) view.setUint8(offset, value);
+      else if (size === 2) view.setUint16(offset, value, true);
+      else if (size === 4) view.setUint32(offset, value, true);
+      else view.setBigUint64(offset, BigInt(value), true);
+    };
+
+    // Header: "II", magic 42 (43 and the offset size for BigTIFF), first IFD offset
+    view.setUint16(0, 0x4949, true);
+    if (bigTiff) {
+      view.setUint16(2, 43, true);
+      view.setUint16(4, 8, true);
+      view.setUint16(6, 0, true);
+    } else {
+      view.setUint16(2, 42, true);
+    }
+    writeUint(bigTiff ? 8 : 4, layouts[0].offset, offsetSize);
+
+    directories.forEach((directory, index) => {
+      const { offset: ifdOffset, valueOffsets } = layouts[index];
+      let offset = ifdOffset;
+      writeUint(offset, directory.entries.length, countSize);
+      offset += countSize;
+
+      directory.entries.forEach((entry, entryIndex) => {
+        view.setUint16(offset, entry.tag, true);
+        view.setUint16(offset + 2, entry.type, true);
+        writeUint(offset + 4, entry.type === RATIONAL ? entry.values.length / 2 : entry.values.length, offsetSize);
+
+        // Values are written inline when they fit, otherwise at their overflow offset
+        const valueSize = TYPE_SIZES[entry.type];
+        let valueOffset = valueOffsets[entryIndex] || offset + 4 + offsetSize;
+        for (const value of entry.values) {
+          writeUint(valueOffset, value, valueSize);
+          valueOffset += valueSize;
+        }
+        if (valueOffsets[entryIndex]) {
+          writeUint(offset + 4 + offsetSize, valueOffsets[entryIndex], offsetSize);
+        }
+        offset += entrySize;
+      });
+
+      // Only top-level IFDs chain to the next one
+      const chainIndex = chain.indexOf(directory);
+      const next = chainIndex >= 0 && chainIndex < chain.length - 1 ? layouts[directories.indexOf(chain[chainIndex + 1])].offset : 0;
+      writeUint(offset, next, offsetSize);
+
+      const blockOffsets = directory.entries.find(entry => entry.tag === directory.blockTag)!.values;
+      directory.blocks.forEach((block, blockIndex) => bytes.set(block, blockOffsets[blockIndex]));
+    });
+
+    return buffer;
+  }
+
+  // Copies a rectangle of interleaved samples, repeating edge pixels where it runs past the image
+  private static crop<T extends TiffSamples | Uint8ClampedArray>(
+    samples: T,
+    width: number,
+    height: number,
+    channels: number,
+    left: number,
+    top: number,
+    cropWidth: number,
+    cropHeight: number
+  ): T {
+    const output = new (samples.constructor as new (length: number) => T)(cropWidth * cropHeight * channels);
+    for (let y = 0; y < cropHeight; y++) {
+      const sourceY = Math.min(height - 1, top + y);
+      for (let x = 0; x < cropWidth; x++) {
+        const source = (sourceY * width + Math.min(width - 1, left + x)) * channels;
+        const target = (y * cropWidth + x) * channels;
+        for (let c = 0; c < channels; c++) output[target + c] = samples[source + c];
+      }
+    }
+    return output;
+  }
+
+  // Next overview level: 2×2 box average, odd edges repeat the last row or column
+  private static halve(image: TiffImage): TiffImage {
+    const width = Math.ceil(image.width / 2);
+    const height = Math.ceil(image.height / 2);
+    const average = <T extends TiffSamples | Uint8ClampedArray>(samples: T, channels: number): T => {
+      const output = new (samples.constructor as new (length: number) => T)(width * height * channels);
+      const isFloat = samples instanceof Float32Array;
+      for (let y = 0; y < height; y++) {
+        const y0 = y * 2;
+        const y1 = Math.min(image.height - 1, y0 + 1);
+        for (let x = 0; x < width; x++) {
+          const x0 = x * 2;
+          const x1 = Math.min(image.width - 1, x0 + 1);
+          for (let c = 0; c < channels; c++) {
+            const sum = samples[(y0 * image.width + x0) * channels + c] + samples[(y0 * image.width + x1) * channels + c] +
+              samples[(y1 * image.width + x0) * channels + c] + samples[(y1 * image.width + x1) * channels + c];
+            output[(y * width + x) * channels + c] = isFloat ? sum / 4 : Math.round(sum / 4);
+          }
+        }
+      }
+      return output;
+    };
+
+    return {
+      ...image,
+      width,
+      height,
+      samples: average(image.samples, image.samplesPerPixel),
+      jpegSource: image.jpegSource && new ImageData(average(image.jpegSource.data, 4), width, height),
+    };
+  }
+}
@@ -0,0 +1,188 @@
+import type { AnimatedImage, FramePatch } from './animatedImage';
+import { FrameCompositor } from './animatedImage';
+import { WebpEncodeOptions, WebpEncoder } from './webpEncoder';
+
+interface RiffChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+// VP8X feature flags
+const ANIMATION_FLAG = 0x02;
+const ALPHA_FLAG = 0x10;
+
+// ANMF frame flags
+const DISPOSE_BACKGROUND_FLAG = 0x01;
+const NO_BLEND_FLAG = 0x02;
+
+/**
+ * Animated WebP support. Each ANMF frame is wrapped in a standalone WebP for
+ * the browser's decoder and composited; encoding runs every frame through
+ * WebpEncoder and assembles the ANIM/ANMF container.
+ */
+export class WebpAnimation {
+  static isAnimated(bytes: Uint8Array): boolean {
+    if (this.readFourCC(bytes, 0) !== 'RIFF' || this.readFourCC(bytes, 8) !== 'WEBP') return false;
+    return this.readFourCC(bytes, 12) === 'VP8X' && (bytes[20] & ANIMATION_FLAG) !== 0;
+  }
+
+  static async decode(bytes: Uint8Array): Promise<AnimatedImage> {
+    if (!this.isAnimated(bytes)) {
+      throw new Error('Not an animated WebP file');
+    }
+
+    const chunks = this.readChunks(bytes, 12, bytes.length);
+    const header = chunks[0].data;
+    const width = this.readUint24(header, 4) + 1;
+    const height = this.readUint24(header, 7) + 1;
+    let loopCount = 0;
+    const patches: FramePatch[] = [];
+
+    for (const chunk of chunks) {
+      if (chunk.type === 'ANIM') {
+        loopCount = chunk.data[4] | (chunk.data[5] << 8);
+      } else if (chunk.type === 'ANMF') {
+        const { data } = chunk;
+        const frameWidth = this.readUint24(data, 6) + 1;
+        const frameHeight = this.readUint24(data, 9) + 1;
+        const frameChunks = this.readChunks(data, 16, data.length)
+          .filter(frameChunk => ['ALPH', 'VP8 ', 'VP8L'].includes(frameChunk.type));
+
+        patches.push({
+          x: this.readUint24(data, 0) * 2,
+          y: this.readUint24(data, 3) * 2,
+          width: frameWidth,
+          height: frameHeight,
+          pixels: await FrameCompositor.decodeStill(this.createStill(frameChunks, frameWidth, frameHeight)),
+          delay: this.readUint24(data, 12),
+          blend: (data[15] & NO_BLEND_FLAG) === 0,
+          disposal: data[15] & DISPOSE_BACKGROUND_FLAG ? 'background' : 'none',
+        });
+      }
+    }
+
+    if (patches.length === 0) {
+      throw new Error('WebP contains no animation frames');
+    }
+
+    return {
+      width,
+      height,
+      frames: FrameCompositor.compose(width, height, patches),
+      loopCount,
+    };
+  }
+
+  static async encode(animation: AnimatedImage, options: WebpEncodeOptions): Promise<Blob> {
+    const { width, height } = animation;
+    const frames: Uint8Array[] = [];
+    let hasAlpha = false;
+
+    for (const frame of animation.frames) {
+      // A target size is meant for the whole file, not each frame
+      const encoded = await WebpEncoder.encode(frame.imageData, { ...options, targetSize: 0 });
+      const bytes = new Uint8Array(await encoded.arrayBuffer());
+      const imageChunks = this.readChunks(bytes, 12, bytes.length)
+        .filter(chunk => ['ALPH', 'VP8 ', 'VP8L'].includes(chunk.type));
+      hasAlpha = hasAlpha || imageChunks.some(chunk => chunk.type === 'ALPH') || this.hasTransparency(frame.imageData);
+
+      const header = new Uint8Array(16);
+      this.writeUint24(header, 6, width - 1);
+      this.writeUint24(header, 9, height - 1);
+      this.writeUint24(header, 12, Math.min(0xffffff, Math.round(frame.delay)));
+      // Frames are complete, so each replaces the canvas outright
+      header[15] = NO_BLEND_FLAG;
+
+      frames.push(this.createChunk('ANMF', this.concat([header, ...imageChunks.map(chunk => this.createChunk(chunk.type, chunk.data))])));
+    }
+
+    const vp8x = new Uint8Array(10);
+    vp8x[0] = ANIMATION_FLAG | (hasAlpha ? ALPHA_FLAG : 0);
+    this.writeUint24(vp8x, 4, width - 1);
+    this.writeUint24(vp8x, 7, height - 1);
+
+    const anim = new Uint8Array(6);
+    const loopCount = Math.min(0xffff, animation.loopCount);
+    anim[4] = loopCount & 0xff;
+    anim[5] = loopCount >> 8;
+
+    return new Blob([this.createRiff([this.createChunk('VP8X', vp8x), this.createChunk('ANIM', anim), ...frames])], { type: 'image/webp' });
+  }
+
+  // Wraps a frame's bitstream (plus ALPH, which needs a VP8X header) as a still WebP
+  private static createStill(chunks: RiffChunk[], width: number, height: number): Blob {
+    const parts: Uint8Array[] = [];
+    if (chunks.some(chunk => chunk.type === 'ALPH')) {
+      const vp8x = new Uint8Array(10);
+      vp8x[0] = ALPHA_FLAG;
+      this.writeUint24(vp8x, 4, width - 1);
+      this.writeUint24(vp8x, 7, height - 1);
+      parts.push(this.createChunk('VP8X', vp8x));
+    }
+    for (const chunk of chunks) {
+      parts.push(this.createChunk(chunk.type, chunk.data));
+    }
+    return new Blob([this.createRiff(parts)], { type: 'image/webp' });
+  }
+
+  private static hasTransparency(imageData: ImageData): boolean {
+    for (let i = 3; i < imageData.data.length; i += 4) {
+      if (imageData.data[i] < 255) return true;
+    }
+    return false;
+  }
+
+  private static readChunks(bytes: Uint8Array, start: number, end: number): RiffChunk[] {
+    const chunks: RiffChunk[] = [];
+    let offset = start;
+    while (offset + 8 <= end) {
+      const type = this.readFourCC(bytes, offset);
+      const size = (bytes[offset + 4] | (bytes[offset + 5] << 8) | (bytes[offset + 6] << 16) | (bytes[offset + 7] << 24)) >>> 0;
+      chunks.push({ type, data: bytes.subarray(offset + 8, offset + 8 + size) });
+      offset += 8 + size + (size & 1); // Chunks are padded to even sizes
+    }
+    return chunks;
+  }
+
+  private static createChunk(type: string, data: Uint8Array): Uint8Array {
+    const chunk = new Uint8Array(8 + data.length + (data.length & 1));
+    for (let i = 0; i < 4; i++) chunk[i] = type.charCodeAt(i);
+    new DataView(chunk.buffer).setUint32(4, data.length, true);
+    chunk.set(data, 8);
+    return chunk;
+  }
+
+  private static createRiff(chunks: Uint8Array[]): Uint8Array {
+    const body = this.concat(chunks);
+    const riff = new Uint8Array(12 + body.length);
+    riff.set([0x52, 0x49, 0x46, 0x46]); // RIFF
+    new DataView(riff.buffer).setUint32(4, body.length + 4, true);
+    riff.set([0x57, 0x45, 0x42, 0x50], 8); // WEBP
+    riff.set(body, 12);
+    return riff;
+  }
+
+  private static concat(parts: Uint8Array[]): Uint8Array {
+    const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+      output.set(part, offset);
+      offset += part.length;
+    }
+    return output;
+  }
+
+  private static readFourCC(bytes: Uint8Array, offset: number): string {
+    return String.fromCharCode(...bytes.subarray(offset, offset + 4));
+  }
+
+  private static readUint24(bytes: Uint8Array, offset: number): number {
+    return bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16);
+  }
+
+  private static writeUint24(bytes: Uint8Array, offset: number, value: number) {
+    bytes[offset] = value & 0xff;
+    bytes[offset + 1] = (value >> 8) & 0xff;
+    bytes[offset + 2] = (value >> 16) & 0xff;
+  }
+}
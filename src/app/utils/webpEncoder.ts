@@ -0,0 +1,83 @@
+export interface WebpEncodeOptions {
+  quality: number; // 0-100; compression effort in lossless mode
+  method?: number; // 0 (fastest) - 6 (slowest, smallest)
+  lossless?: boolean;
+  nearLossless?: number; // 0-100, 100 disables near-lossless preprocessing (lossless only)
+  alphaQuality?: number; // 0-100
+  sharpYuv?: boolean;
+  targetSize?: number; // Bytes, 0 disables (lossy only)
+  iccProfile?: Uint8Array; // Written as an ICCP chunk
+}
+
+// Entropy passes libwebp uses to converge on a target size
+const TARGET_SIZE_PASSES = 6;
+
+// VP8X feature flags
+const ICC_FLAG = 0x20;
+const ALPHA_FLAG = 0x10;
+
+/**
+ * WebP encoder backed by the libwebp WASM build from jSquash.
+ * Exposes the lossless, near-lossless, alpha and method controls that
+ * canvas.toBlob('image/webp') cannot.
+ */
+export class WebpEncoder {
+  static async encode(imageData: ImageData, options: WebpEncodeOptions): Promise<Blob> {
+    const { default: encode } = await import('@jsquash/webp/encode');
+    const lossless = options.lossless || false;
+    const targetSize = !lossless && options.targetSize ? Math.round(options.targetSize) : 0;
+
+    const buffer = await encode(imageData, {
+      quality: Math.min(100, Math.max(0, options.quality)),
+      method: Math.min(6, Math.max(0, Math.round(options.method ?? 4))),
+      lossless: lossless ? 1 : 0,
+      near_lossless: lossless ? Math.min(100, Math.max(0, Math.round(options.nearLossless ?? 100))) : 100,
+      alpha_quality: Math.min(100, Math.max(0, Math.round(options.alphaQuality ?? 100))),
+      use_sharp_yuv: options.sharpYuv ? 1 : 0,
+      target_size: targetSize,
+      pass: targetSize > 0 ? TARGET_SIZE_PASSES : 1,
+    });
+
+    const bytes = new Uint8Array(buffer);
+    return new Blob([options.iccProfile ? this.insertIccProfile(bytes, options.iccProfile, imageData) : bytes], { type: 'image/webp' });
+  }
+
+  // ICCP needs the extended format: a VP8X header is added to simple files
+  private static insertIccProfile(webp: Uint8Array, profile: Uint8Array, imageData: ImageData): Uint8Array {
+    const chunk = (type: string, data: Uint8Array) => {
+      const bytes = new Uint8Array(8 + data.length + (data.length & 1));
+      bytes.set([...type].map(c => c.charCodeAt(0)));
+      new DataView(bytes.buffer).setUint32(4, data.length, true);
+      bytes.set(data, 8);
+      return bytes;
+    };
+
+    let vp8x: Uint8Array;
+    let rest: Uint8Array;
+    if (String.fromCharCode(...webp.subarray(12, 16)) === 'VP8X') {
+      vp8x = webp.slice(12, 30);
+      rest = webp.subarray(30);
+    } else {
+      // Flags, 3 reserved bytes, then the 24-bit canvas width and height minus one
+      const width = imageData.width - 1;
+      const height = imageData.height - 1;
+      const hasAlpha = String.fromCharCode(...webp.subarray(12, 16)) === 'VP8L' && (webp[24] & 0x10) !== 0;
+      vp8x = chunk('VP8X', new Uint8Array([
+        hasAlpha ? ALPHA_FLAG : 0, 0, 0, 0,
+        width & 0xff, (width >> 8) & 0xff, width >> 16,
+        height & 0xff, (height >> 8) & 0xff, height >> 16,
+      ]));
+      rest = webp.subarray(12);
+    }
+    vp8x[8] |= ICC_FLAG;
+
+    const iccp = chunk('ICCP', profile);
+    const output = new Uint8Array(12 + vp8x.length + iccp.length + rest.length);
+    output.set(webp.subarray(0, 12));
+    new DataView(output.buffer).setUint32(4, output.length - 8, true);
+    output.set(vp8x, 12);
+    output.set(iccp, 12 + vp8x.length);
+    output.set(rest, 12 + vp8x.length + iccp.length);
+    return output;
+  }
+}
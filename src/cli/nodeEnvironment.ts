@@ -0,0 +1,45 @@
+import { readFile } from 'node:fs/promises';
+import { Canvas, ImageData as CanvasImageData, loadImage } from '@napi-rs/canvas';
+import { TiffDecoder } from '../app/utils/tiffDecoder';
+
+/**
+ * Provides the browser APIs the shared conversion code relies on (ImageData,
+ * OffscreenCanvas, createImageBitmap) on top of @napi-rs/canvas, and lets the
+ * WASM codecs fetch their binaries from node_modules.
+ */
+export class NodeEnvironment {
+  private static installed = false;
+
+  static install() {
+    if (this.installed) return;
+    this.installed = true;
+
+    const scope = globalThis as Record<string, unknown>;
+    scope.ImageData ??= CanvasImageData;
+    scope.OffscreenCanvas ??= Canvas;
+    scope.createImageBitmap ??= async (blob: Blob) => {
+      const bytes = Buffer.from(await blob.arrayBuffer());
+      // Skia can't read TIFF, which the CLI writes as well
+      if (TiffDecoder.isTiff(bytes)) {
+        const imageData = TiffDecoder.decode(bytes);
+        const canvas = new Canvas(imageData.width, imageData.height);
+        canvas.getContext('2d').putImageData(imageData as unknown as CanvasImageData, 0, 0);
+        return Object.assign(canvas, { close: () => {} });
+      }
+      const image = await loadImage(bytes);
+      return Object.assign(image, { close: () => {} });
+    };
+
+    // Emscripten loads .wasm files next to the module with fetch(), which Node only supports over HTTP
+    const fetchRemote = globalThis.fetch;
+    globalThis.fetch = (async (input: RequestInfo | URL, init?: RequestInit) => {
+      const url = new URL(input instanceof Request ? input.url : input.toString());
+      if (url.protocol !== 'file:') {
+        return fetchRemote(input, init);
+      }
+
+      const contentType = url.pathname.endsWith('.wasm') ? 'application/wasm' : 'application/octet-stream';
+      return new Response(await readFile(url), { headers: { 'Content-Type': contentType } });
+    }) as typeof fetch;
+  }
+}
@@ -0,0 +1,169 @@
+import { Canvas, Image, ImageData as CanvasImageData, loadImage } from '@napi-rs/canvas';
+import type { ConversionSettings } from '../app/components/ConversionOptions';
+import { AnimationConverter } from '../app/utils/animationConverter';
+import { AvifCodec } from '../app/utils/avifCodec';
+import { ColorManagement } from '../app/utils/colorManagement';
+import { HeifEncoder } from '../app/utils/heifEncoder';
+import { HighPrecisionDecoder } from '../app/utils/highPrecisionDecoder';
+import { ImageTransform } from '../app/utils/imageTransform';
+import { JxlCodec } from '../app/utils/jxlCodec';
+import { RasterEncoder } from '../app/utils/rasterEncoder';
+import { TargetFileSize, TargetFileSizeResult } from '../app/utils/targetFileSize';
+import { AutoQuality, AutoQualityResult } from '../app/utils/autoQuality';
+import { TiffDecoder } from '../app/utils/tiffDecoder';
+import { TiffEncoder } from '../app/utils/tiffEncoder';
+import { TiffPages } from '../app/utils/tiffPages';
+
+interface HeifImage {
+  get_width(): number;
+  get_height(): number;
+  display(imageData: ImageData, callback: (result: ImageData | null) => void): void;
+}
+
+/**
+ * Headless counterpart of ImageConverter. Decoding uses @napi-rs/canvas and
+ * the WASM codecs, while geometry, encoding and animation handling run
+ * through the same shared modules as the app.
+ */
+export class NodeImageConverter {
+  static supports(outputFormat: string): boolean {
+    return RasterEncoder.supports(outputFormat);
+  }
+
+  static async convert(file: File, settings: ConversionSettings): Promise<Blob> {
+    if (!this.supports(settings.outputFormat)) {
+      throw new Error(`${settings.outputFormat.toUpperCase()} output is only available in the app`);
+    }
+    if (TargetFileSize.isActive(settings)) {
+      return (await this.convertToTargetSize(file, settings)).blob;
+    }
+    if (AutoQuality.isActive(settings)) {
+      return (await this.convertToQualityTarget(file, settings)).blob;
+    }
+
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const isSvgInput = file.type === 'image/svg+xml' || file.name.toLowerCase().endsWith('.svg');
+    const isTiffInput = TiffDecoder.isTiff(bytes);
+
+    // Animated input keeps every frame when the output supports it
+    const animation = isSvgInput || isTiffInput ? null : await AnimationConverter.load(file, settings);
+    if (animation) {
+      return await AnimationConverter.convert(
+        animation,
+        settings,
+        file,
+        imageData => RasterEncoder.encode(imageData, settings, file)
+      );
+    }
+
+    // Multi-page TIFF input keeps its pages in TIFF output, or has every page extracted to a ZIP
+    if (isTiffInput && TiffPages.keepsPages(bytes, settings)) {
+      const pages = TiffPages.decode(bytes, settings);
+      if (settings.outputFormat === 'tiff' && !settings.extractPages) {
+        const images = await Promise.all(pages.map(page => TiffEncoder.getImage(ImageTransform.apply(page, settings), settings, file)));
+        return await TiffEncoder.write(images, settings);
+      }
+      return await TiffPages.extractPagesToZip(
+        pages,
+        settings,
+        file,
+        imageData => ImageTransform.encode(imageData, settings, file)
+      );
+    }
+
+    // High bit depth PNG and TIFF input skips the 8-bit canvas when the output keeps the precision
+    const highPrecision = HighPrecisionDecoder.decode(bytes, settings);
+    if (highPrecision) {
+      return await RasterEncoder.encode(highPrecision, settings, file);
+    }
+
+    let source: Canvas | Image;
+    try {
+      source = await this.decode(file, bytes, isTiffInput, settings);
+    } catch (error) {
+      throw new Error(`Failed to load image: ${error instanceof Error ? error.message : error}`);
+    }
+
+    return await this.encode(source, settings, file);
+  }
+
+  // Crops, resizes and encodes a decoded image
+  private static async encode(source: Canvas | Image, settings: ConversionSettings, file: File): Promise<Blob> {
+    const canvas = new Canvas(source.width, source.height);
+    const ctx = canvas.getContext('2d');
+    ctx.drawImage(source, 0, 0);
+    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height) as unknown as ImageData;
+    return await ImageTransform.encode(imageData, settings, file);
+  }
+
+  // Searches the quality (and dimensions, when allowed) for settings.targetSizeKB
+  static async convertToTargetSize(file: File, settings: ConversionSettings): Promise<TargetFileSizeResult> {
+    return await TargetFileSize.search(
+      settings,
+      attemptSettings => this.convert(file, attemptSettings),
+      async blob => {
+        const image = await loadImage(Buffer.from(await blob.arrayBuffer()));
+        return { width: image.width, height: image.height };
+      }
+    );
+  }
+
+  // Searches the lowest quality reaching the output format's auto-quality target
+  static async convertToQualityTarget(file: File, settings: ConversionSettings): Promise<AutoQualityResult> {
+    return await AutoQuality.search(settings, attemptSettings => this.convert(file, attemptSettings));
+  }
+
+  // Decodes any supported input into something drawable, upright and in sRGB
+  private static async decode(
+    file: File,
+    bytes: Uint8Array,
+    isTiffInput: boolean,
+    settings: ConversionSettings
+  ): Promise<Canvas | Image> {
+    const toSrgb = (imageData: ImageData) =>
+      this.toCanvas(ColorManagement.toSrgb(imageData, ColorManagement.readProfile(bytes), settings));
+    if (isTiffInput) {
+      return toSrgb(TiffDecoder.decode(bytes));
+    }
+    if (await AvifCodec.isAvif(file)) {
+      return toSrgb(await AvifCodec.decode(file));
+    }
+    if (await JxlCodec.isJxl(file)) {
+      return this.toCanvas(await JxlCodec.decode(file));
+    }
+    if (HeifEncoder.isHeif(bytes)) {
+      return toSrgb(await this.decodeHeif(bytes));
+    }
+
+    // Skia applies the EXIF orientation while decoding, like browsers do
+    return await loadImage(Buffer.from(bytes));
+  }
+
+  private static async decodeHeif(bytes: Uint8Array): Promise<ImageData> {
+    // @ts-expect-error - libheif-js doesn't ship TypeScript definitions for its entry points
+    const { default: libheif } = await import('libheif-js/wasm-bundle');
+    const images: HeifImage[] = new libheif.HeifDecoder().decode(bytes);
+    if (images.length === 0) {
+      throw new Error('No image found in HEIC file');
+    }
+
+    // Use the primary (first) image
+    const image = images[0];
+    const imageData = new ImageData(image.get_width(), image.get_height());
+    return await new Promise((resolve, reject) => {
+      image.display(imageData, result => {
+        if (result) {
+          resolve(result);
+        } else {
+          reject(new Error('Failed to decode HEIC image'));
+        }
+      });
+    });
+  }
+
+  private static toCanvas(imageData: ImageData): Canvas {
+    const canvas = new Canvas(imageData.width, imageData.height);
+    canvas.getContext('2d').putImageData(imageData as unknown as CanvasImageData, 0, 0);
+    return canvas;
+  }
+}
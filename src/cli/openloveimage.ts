@@ -0,0 +1,482 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import exifr from 'exifr';
+import fg from 'fast-glob';
+import type { ConversionSettings } from '../app/components/ConversionOptions';
+import { DEFAULT_CONVERSION_SETTINGS } from '../app/utils/conversionDefaults';
+import { BUILT_IN_PRESETS, ConversionPresets } from '../app/utils/conversionPresets';
+import { ConversionRecipes, DEFAULT_RECIPE, Rendition } from '../app/utils/conversionRecipe';
+import { DEFAULT_FILE_NAME_TEMPLATE, FileNameContext, FileNameTemplate } from '../app/utils/fileNameTemplate';
+import { TargetFileSize } from '../app/utils/targetFileSize';
+import { AutoQuality, AutoQualityScore, QUALITY_METRICS } from '../app/utils/autoQuality';
+import { Diagnostics } from '../app/utils/diagnostics';
+import { NodeEnvironment } from './nodeEnvironment';
+import { NodeImageConverter } from './nodeImageConverter';
+
+const USAGE = `Usage: openloveimage convert <inputs...> [options]
+       openloveimage presets
+
+Converts images with the same settings model as the OpenLoveImage app.
+Inputs may be files or glob patterns (quote them to skip shell expansion).
+
+Options:
+  -t, --to <format>         Output format: jpeg, png, webp, avif, jxl, gif, tiff
+                            (heic, ico, pdf and svg output are only available in the app)
+  -q, --quality <0-100>     Quality for lossy formats
+      --max-width <px>      Maximum output width
+      --max-height <px>     Maximum output height
+      --target-size <KB>    Largest output size for JPEG, WebP and AVIF; searches the
+                            quality below --quality (add --set targetSizeAllowResize=true
+                            to also shrink the dimensions)
+      --auto-quality <metric=value>
+                            Lowest quality reaching a perceptual score, e.g. ssim=0.98,
+                            ms-ssim=0.99, distance=1.5 or psnr=40 (JPEG, WebP, AVIF, JXL)
+      --chroma <420|422|444>
+                            JPEG chroma subsampling
+      --strip-metadata      Remove EXIF and other metadata
+      --preset <name|file>  Built-in preset (see "openloveimage presets"), a preset
+                            file exported from the app or a JSON settings file
+      --set <key=value>     Set any other conversion setting (repeatable),
+                            e.g. --set progressive=true --set method=6
+  -o, --out-dir <dir>       Output directory (default: next to each input)
+  -n, --name <template>     Output file name template, e.g. "{name}_{width}w.{ext}"
+                            or "{date:yyyy-MM-dd}/{exif.Model}/{index:000}.{ext}"
+      --report <file>       Write a JSON report of the run
+      --json                Print the JSON report instead of progress lines
+      --verbose             Print conversion diagnostics to stderr
+  -h, --help                Show this help
+
+JPEG XL output re-encodes JPEG input from its pixels; bit-exact, reversible JPEG
+recompression is not supported.
+
+Exit codes: 0 all files converted, 1 some files failed, 2 invalid usage`;
+
+const MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  avif: 'image/avif',
+  jxl: 'image/jxl',
+  heic: 'image/heic',
+  heif: 'image/heif',
+  tif: 'image/tiff',
+  tiff: 'image/tiff',
+  bmp: 'image/bmp',
+  svg: 'image/svg+xml',
+};
+
+interface FileReport {
+  input: string;
+  output?: string;
+  renditions?: { output: string; size: number }[]; // Recipe outputs, output is then the first of them
+  success: boolean;
+  originalSize: number;
+  convertedSize?: number;
+  quality?: number; // Picked by the target size or auto-quality search
+  targetSizeMet?: boolean;
+  qualityScore?: AutoQualityScore;
+  durationMs: number;
+  error?: string;
+}
+
+interface RunReport {
+  settings: ConversionSettings;
+  summary: {
+    total: number;
+    succeeded: number;
+    failed: number;
+    originalSize: number;
+    convertedSize: number;
+  };
+  files: FileReport[];
+}
+
+class UsageError extends Error {}
+
+// Help and reports go to stdout, progress and diagnostics to stderr
+const print = (text: string) => process.stdout.write(text + '\n');
+
+function parseSettingValue(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value; // Plain strings such as --set cropMode=smart
+  }
+}
+
+function parseNumber(name: string, value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < 0) {
+    throw new UsageError(`--${name} expects a non-negative number, got "${value}"`);
+  }
+  return number;
+}
+
+function parseChroma(value: string): ConversionSettings['jpegChromaSubsampling'] {
+  const chroma = value.replace(/:/g, '');
+  if (chroma !== '420' && chroma !== '422' && chroma !== '444') {
+    throw new UsageError(`--chroma expects 420, 422 or 444, got "${value}"`);
+  }
+  return chroma;
+}
+
+// Preset names are looked up among the built-ins first, anything else is read as a file
+async function loadPreset(preset: string): Promise<ConversionSettings> {
+  const builtIn = ConversionPresets.find(BUILT_IN_PRESETS, preset);
+  if (builtIn) {
+    return ConversionPresets.getSettings(builtIn);
+  }
+
+  let json: string;
+  try {
+    json = await readFile(preset, 'utf8');
+  } catch (error) {
+    throw new UsageError(`Unknown preset "${preset}" and no such file: ${error instanceof Error ? error.message : error}`);
+  }
+
+  try {
+    const data = JSON.parse(json);
+    // Plain settings files from older versions have no preset name
+    if (!Array.isArray(data) && data?.type !== 'openloveimage-presets' && data?.settings === undefined) {
+      return { ...DEFAULT_CONVERSION_SETTINGS, ...ConversionPresets.sanitizeSettings(data) };
+    }
+
+    const presets = ConversionPresets.parse(json);
+    if (presets.length !== 1) {
+      throw new Error(`it contains ${presets.length} presets, export a single one from the app`);
+    }
+    return ConversionPresets.getSettings(presets[0]);
+  } catch (error) {
+    throw new UsageError(`Failed to read preset ${preset}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+async function buildSettings(values: ReturnType<typeof parseCommandLine>['values']): Promise<ConversionSettings> {
+  const settings: ConversionSettings = values.preset
+    ? await loadPreset(values.preset)
+    : { ...DEFAULT_CONVERSION_SETTINGS };
+
+  for (const assignment of values.set || []) {
+    const separator = assignment.indexOf('=');
+    if (separator <= 0) {
+      throw new UsageError(`--set expects key=value, got "${assignment}"`);
+    }
+    Object.assign(settings, { [assignment.slice(0, separator)]: parseSettingValue(assignment.slice(separator + 1)) });
+  }
+
+  if (values.to) settings.outputFormat = values.to.toLowerCase() === 'jpg' ? 'jpeg' : values.to.toLowerCase();
+  if (values.quality !== undefined) settings.quality = parseNumber('quality', values.quality)!;
+  if (values['max-width'] !== undefined) settings.maxWidth = parseNumber('max-width', values['max-width']);
+  if (values['max-height'] !== undefined) settings.maxHeight = parseNumber('max-height', values['max-height']);
+  if (values['target-size'] !== undefined) settings.targetSizeKB = parseNumber('target-size', values['target-size']);
+  if (values.chroma !== undefined) settings.jpegChromaSubsampling = parseChroma(values.chroma);
+  if (values['strip-metadata']) settings.removeMetadata = true;
+  if (values.name) settings.fileNameTemplate = values.name;
+
+  const formats = ConversionRecipes.isActive(settings) ? settings.recipe!.formats : [settings.outputFormat];
+  if (values['auto-quality'] !== undefined) {
+    settings.autoQuality = { ...settings.autoQuality, ...parseAutoQuality(values['auto-quality'], formats) };
+  }
+  const unsupported = formats.find(format => !NodeImageConverter.supports(format));
+  if (unsupported) {
+    throw new UsageError(`Output format "${unsupported}" is not supported by the CLI`);
+  }
+  return settings;
+}
+
+// The same target applies to every output format of the run
+function parseAutoQuality(value: string, formats: string[]): ConversionSettings['autoQuality'] {
+  const [name, target] = value.split('=');
+  const metric = AutoQuality.parseMetric(name);
+  if (!metric) {
+    throw new UsageError(`--auto-quality expects one of ${QUALITY_METRICS.map(option => option.value).join(', ')}, got "${name}"`);
+  }
+  const parsed = target === undefined ? QUALITY_METRICS.find(option => option.value === metric)!.defaultTarget : Number(target);
+  if (!Number.isFinite(parsed)) {
+    throw new UsageError(`--auto-quality expects metric=value, got "${value}"`);
+  }
+  return Object.fromEntries(formats.map(format => [format, { enabled: true, metric, target: parsed }]));
+}
+
+async function expandInputs(patterns: string[]): Promise<string[]> {
+  const inputs = new Set<string>();
+  for (const pattern of patterns) {
+    const matches = fg.isDynamicPattern(pattern)
+      ? await fg(pattern, { onlyFiles: true })
+      : [pattern];
+    matches.sort().forEach(match => inputs.add(match));
+  }
+  return [...inputs];
+}
+
+// Fills the file name template; slow tokens are only computed when the template uses them.
+// Recipe renditions use the recipe's template, where {width} is the rendition width.
+async function getOutputPath(
+  input: string,
+  file: File,
+  blob: Blob,
+  settings: ConversionSettings,
+  index: number,
+  outDir?: string,
+  rendition?: Rendition
+): Promise<string> {
+  const template = rendition
+    ? settings.recipe?.fileNameTemplate || DEFAULT_RECIPE.fileNameTemplate
+    : settings.fileNameTemplate || DEFAULT_FILE_NAME_TEMPLATE;
+  const outputSettings = rendition?.settings ?? settings;
+  const context: FileNameContext = {
+    originalName: file.name,
+    extension: blob.type === 'application/zip' ? 'zip' : outputSettings.outputFormat === 'jpeg' ? 'jpg' : outputSettings.outputFormat,
+    format: outputSettings.outputFormat,
+    quality: outputSettings.quality,
+    index,
+    date: new Date(),
+  };
+
+  if ((FileNameTemplate.usesToken(template, 'width') || FileNameTemplate.usesToken(template, 'height')) &&
+      blob.type !== 'application/zip') {
+    const image = await createImageBitmap(blob);
+    context.width = image.width;
+    context.height = image.height;
+  }
+  if (rendition) {
+    context.width = rendition.width || 'original';
+  }
+  if (FileNameTemplate.usesToken(template, 'exif')) {
+    context.exif = await exifr.parse(Buffer.from(await file.arrayBuffer())).catch(() => undefined);
+  }
+  if (FileNameTemplate.usesToken(template, 'hash')) {
+    context.hash = await FileNameTemplate.hash(blob);
+  }
+
+  return path.join(outDir ?? path.dirname(input), FileNameTemplate.render(template, context));
+}
+
+async function convertFile(
+  input: string,
+  settings: ConversionSettings,
+  index: number,
+  usedOutputs: Set<string>,
+  outDir?: string
+): Promise<FileReport> {
+  const startTime = Date.now();
+  let originalSize = 0;
+
+  try {
+    const buffer = await readFile(input);
+    originalSize = buffer.length;
+    const extension = path.extname(input).slice(1).toLowerCase();
+    const file = new File([buffer], path.basename(input), { type: MIME_TYPES[extension] || '' });
+
+    if (ConversionRecipes.isActive(settings)) {
+      return await convertRenditions(input, file, settings, index, usedOutputs, outDir, startTime);
+    }
+
+    const targetSize = TargetFileSize.isActive(settings)
+      ? await NodeImageConverter.convertToTargetSize(file, settings)
+      : undefined;
+    const autoQuality = !targetSize && AutoQuality.isActive(settings)
+      ? await NodeImageConverter.convertToQualityTarget(file, settings)
+      : undefined;
+    const blob = targetSize?.blob ?? autoQuality?.blob ?? await NodeImageConverter.convert(file, settings);
+    // Inputs that map to the same name (photo.png and photo.jpg) get numbered copies
+    const output = FileNameTemplate.makeUnique(await getOutputPath(input, file, blob, settings, index, outDir), usedOutputs);
+    if (path.resolve(output) === path.resolve(input)) {
+      throw new Error('Output would overwrite the input, use --out-dir');
+    }
+
+    await mkdir(path.dirname(output), { recursive: true });
+    await writeFile(output, Buffer.from(await blob.arrayBuffer()));
+    return {
+      input,
+      output,
+      success: true,
+      originalSize,
+      convertedSize: blob.size,
+      quality: targetSize?.quality ?? autoQuality?.quality,
+      targetSizeMet: targetSize?.met,
+      qualityScore: autoQuality?.score,
+      durationMs: Date.now() - startTime,
+    };
+  } catch (error) {
+    return {
+      input,
+      success: false,
+      originalSize,
+      durationMs: Date.now() - startTime,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+// Writes one file per recipe rendition, named by the recipe's template
+async function convertRenditions(
+  input: string,
+  file: File,
+  settings: ConversionSettings,
+  index: number,
+  usedOutputs: Set<string>,
+  outDir: string | undefined,
+  startTime: number
+): Promise<FileReport> {
+  const renditions: { output: string; size: number }[] = [];
+  for (const rendition of ConversionRecipes.expand(settings)) {
+    const blob = await NodeImageConverter.convert(file, rendition.settings);
+    const output = FileNameTemplate.makeUnique(
+      await getOutputPath(input, file, blob, settings, index, outDir, rendition),
+      usedOutputs
+    );
+    if (path.resolve(output) === path.resolve(input)) {
+      throw new Error('Output would overwrite the input, use --out-dir');
+    }
+
+    // Templates may contain folders
+    await mkdir(path.dirname(output), { recursive: true });
+    await writeFile(output, Buffer.from(await blob.arrayBuffer()));
+    renditions.push({ output, size: blob.size });
+  }
+
+  return {
+    input,
+    output: renditions[0]?.output,
+    renditions,
+    success: true,
+    originalSize: file.size,
+    convertedSize: renditions.reduce((sum, rendition) => sum + rendition.size, 0),
+    durationMs: Date.now() - startTime,
+  };
+}
+
+function formatSearchResult(result: FileReport): string {
+  if (result.qualityScore) {
+    return `, ${AutoQuality.formatScore(result.qualityScore)}${result.qualityScore.met ? '' : ', target missed'}`;
+  }
+  return result.targetSizeMet ? '' : ', over target';
+}
+
+function formatSize(bytes: number): string {
+  return bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+}
+
+function parseCommandLine(args: string[]) {
+  return parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      to: { type: 'string', short: 't' },
+      quality: { type: 'string', short: 'q' },
+      'max-width': { type: 'string' },
+      'max-height': { type: 'string' },
+      'target-size': { type: 'string' },
+      'auto-quality': { type: 'string' },
+      chroma: { type: 'string' },
+      'strip-metadata': { type: 'boolean' },
+      preset: { type: 'string' },
+      set: { type: 'string', multiple: true },
+      'out-dir': { type: 'string', short: 'o' },
+      name: { type: 'string', short: 'n' },
+      report: { type: 'string' },
+      json: { type: 'boolean' },
+      verbose: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+}
+
+async function run(args: string[]): Promise<number> {
+  let values: ReturnType<typeof parseCommandLine>['values'];
+  let positionals: string[];
+  try {
+    ({ values, positionals } = parseCommandLine(args));
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+
+  const [command, ...patterns] = positionals;
+  if (values.help || !command) {
+    print(USAGE);
+    return values.help ? 0 : 2;
+  }
+  if (command === 'presets') {
+    for (const preset of BUILT_IN_PRESETS) {
+      print(`${preset.id.padEnd(22)}${preset.name} - ${preset.description}`);
+    }
+    return 0;
+  }
+  if (command !== 'convert') {
+    throw new UsageError(`Unknown command "${command}"`);
+  }
+
+  Diagnostics.setWriter(values.verbose ? (...args) => console.error(...args) : null);
+  const settings = await buildSettings(values);
+  const inputs = await expandInputs(patterns);
+  if (inputs.length === 0) {
+    throw new UsageError('No input files matched');
+  }
+
+  const outDir = values['out-dir'];
+  if (outDir) {
+    await mkdir(outDir, { recursive: true });
+  }
+
+  NodeEnvironment.install();
+
+  // Files are converted one at a time: the WASM encoders are single-threaded anyway
+  const files: FileReport[] = [];
+  const usedOutputs = new Set<string>();
+  for (const [index, input] of inputs.entries()) {
+    const result = await convertFile(input, settings, index + 1, usedOutputs, outDir);
+    files.push(result);
+
+    if (!values.json) {
+      console.error(result.success
+        ? `✅ ${result.input} → ${result.renditions ? `${result.renditions.length} renditions` : result.output} ` +
+          `(${formatSize(result.originalSize)} → ${formatSize(result.convertedSize!)}` +
+          `${result.quality !== undefined ? `, quality ${result.quality}${formatSearchResult(result)}` : ''})`
+        : `❌ ${result.input}: ${result.error}`);
+    }
+  }
+
+  const succeeded = files.filter(file => file.success);
+  const report: RunReport = {
+    settings,
+    summary: {
+      total: files.length,
+      succeeded: succeeded.length,
+      failed: files.length - succeeded.length,
+      originalSize: succeeded.reduce((sum, file) => sum + file.originalSize, 0),
+      convertedSize: succeeded.reduce((sum, file) => sum + (file.convertedSize || 0), 0),
+    },
+    files,
+  };
+
+  if (values.report) {
+    await writeFile(values.report, JSON.stringify(report, null, 2) + '\n');
+  }
+  if (values.json) {
+    print(JSON.stringify(report, null, 2));
+  } else {
+    console.error(`\n${report.summary.succeeded}/${report.summary.total} converted, ` +
+      `${formatSize(report.summary.originalSize)} → ${formatSize(report.summary.convertedSize)}`);
+  }
+
+  return report.summary.failed > 0 ? 1 : 0;
+}
+
+run(process.argv.slice(2))
+  .then(code => {
+    process.exitCode = code;
+  })
+  .catch(error => {
+    if (error instanceof UsageError) {
+      console.error(`openloveimage: ${error.message}\n\n${USAGE}`);
+      process.exitCode = 2;
+    } else {
+      console.error('openloveimage failed:', error);
+      process.exitCode = 1;
+    }
+  });
@@ -0,0 +1,62 @@
+import type { ConversionSettings } from '../app/components/ConversionOptions';
+import { DEFAULT_CONVERSION_SETTINGS } from '../app/utils/conversionDefaults';
+
+/**
+ * Fixtures shared by the unit tests. Images are ImageData, so tests that
+ * create them call NodeEnvironment.install() first.
+ */
+
+// RGBA (or RGB, then opaque) samples of the pixel at x, y
+export type PixelSource = (x: number, y: number) => number[];
+
+// A smooth gradient with a little noise, so codecs and metrics have detail to work on
+const GRADIENT: PixelSource = (x, y) => {
+  const noise = (x * 7919 + y * 104729) % 9;
+  return [(x * 7 + noise) & 255, (y * 13 + noise) & 255, (x * 3 + y * 5) & 255];
+};
+
+export function createSettings(overrides: Partial<ConversionSettings> = {}): ConversionSettings {
+  return { ...DEFAULT_CONVERSION_SETTINGS, ...overrides };
+}
+
+export function createImage(width: number, height: number, pixel: PixelSource = GRADIENT): ImageData {
+  const image = new ImageData(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const [red, green, blue, alpha = 255] = pixel(x, y);
+      image.data.set([red, green, blue, alpha], (y * width + x) * 4);
+    }
+  }
+  return image;
+}
+
+// A one-row image of the given colors
+export function createRow(colors: number[][]): ImageData {
+  return createImage(colors.length, 1, x => colors[x]);
+}
+
+export function pixelAt(image: ImageData, index: number): number[] {
+  return Array.from(image.data.subarray(index * 4, index * 4 + 3));
+}
+
+export function maxDifference(a: ImageData, b: ImageData): number {
+  let max = 0;
+  for (let i = 0; i < a.data.length; i++) max = Math.max(max, Math.abs(a.data[i] - b.data[i]));
+  return max;
+}
+
+export async function toBytes(blob: Blob): Promise<Uint8Array> {
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+// Wraps a fake encoder so tests can check the settings of every attempt a search made
+export function recordAttempts(encode: (settings: ConversionSettings) => Promise<Blob>) {
+  const attempts: ConversionSettings[] = [];
+  return {
+    attempts,
+    encode: (settings: ConversionSettings) => {
+      attempts.push(settings);
+      return encode(settings);
+    },
+  };
+}